@@ -1,6 +1,11 @@
 import { OS } from '../core/os';
 import { AppEventHandler, GuiApplication } from '../core/gui-application';
 
+/**
+ * Sites built into the browser, by their name in DNS
+ */
+const BUILT_IN_SITES = ['hackersearch.net', 'hackmail.com', 'cryptobank.com', 'darknet.market', 'hackerz.forum'];
+
 /**
  * Browser App for the Hacker Game
  * Provides a simulated web browsing experience
@@ -138,65 +143,61 @@ export class BrowserApp extends GuiApplication {
   /**
    * Request web content from the "server"
    */
-  private requestWebContent(url: string): Promise<string> {
-    return new Promise((resolve, reject) => {
-      // Parse URL components
-      const urlObj = new URL(url);
-      const domain = urlObj.hostname;
-      const path = urlObj.pathname || '/';
-      
-      // Different handling based on domain
-      switch (domain) {
-        case 'hackersearch.net':
-          resolve(this.getSearchEnginePage());
-          break;
-        
-        case 'hackmail.com':
-          resolve(this.getEmailPage(path));
-          break;
-        
-        case 'cryptobank.com':
-          resolve(this.getBankPage(path));
-          break;
-        
-        case 'darknet.market':
-          resolve(this.getDarknetMarketPage(path));
-          break;
-        
-        case 'hackerz.forum':
-          resolve(this.getHackerForumPage(path));
-          break;
-        
-        default:
-          // Attempt to find a website handler
-          this.os.getWebsite(domain, path)
-            .then(content => {
-              resolve(content);
-            })
-            .catch(error => {
-              // Generate a generic "Site not found" page
-              resolve(`
-                <html>
-                  <head>
-                    <title>Site Not Found</title>
-                  </head>
-                  <body>
-                    <div style="text-align: center; padding: 50px;">
-                      <h1>Site Not Found</h1>
-                      <p>The site ${domain} couldn't be found.</p>
-                      <p>Try:</p>
-                      <ul style="display: inline-block; text-align: left;">
-                        <li>Checking the address for typing errors</li>
-                        <li>Making sure you have a network connection</li>
-                        <li>Checking your firewall settings</li>
-                      </ul>
-                    </div>
-                  </body>
-                </html>
-              `);
-            });
-      }
-    });
+  private async requestWebContent(url: string): Promise<string> {
+    // Parse URL components
+    const urlObj = new URL(url);
+    const domain = urlObj.hostname;
+    const path = urlObj.pathname || '/';
+
+    // The built-in sites are served at the address of their name in DNS, so a name
+    // pointed elsewhere in /etc/hosts leaves them, and any name pointed to them reaches them
+    const resolver = this.os.getResolver();
+    const address = await resolver.resolve(domain);
+    const site = address ? BUILT_IN_SITES.find(name => resolver.getDNSServer().resolve(name) === address) : undefined;
+
+    // Different handling based on the site
+    switch (site) {
+      case 'hackersearch.net':
+        return this.getSearchEnginePage();
+
+      case 'hackmail.com':
+        return this.getEmailPage(path);
+
+      case 'cryptobank.com':
+        return this.getBankPage(path);
+
+      case 'darknet.market':
+        return this.getDarknetMarketPage(path);
+
+      case 'hackerz.forum':
+        return this.getHackerForumPage(path);
+    }
+
+    // Attempt to find a website handler
+    try {
+      return await this.os.getWebsite(domain, path);
+    } catch (error) {
+      // Generate a generic "Site not found" page
+      return `
+        <html>
+          <head>
+            <title>Site Not Found</title>
+          </head>
+          <body>
+            <div style="text-align: center; padding: 50px;">
+              <h1>Site Not Found</h1>
+              <p>The site ${domain} couldn't be found.</p>
+              <p>Try:</p>
+              <ul style="display: inline-block; text-align: left;">
+                <li>Checking the address for typing errors</li>
+                <li>Making sure you have a network connection</li>
+                <li>Checking your firewall settings</li>
+              </ul>
+            </div>
+          </body>
+        </html>
+      `;
+    }
   }
 
   /**
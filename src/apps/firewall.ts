@@ -0,0 +1,229 @@
+import { OS } from '../core/os';
+import { GuiApplication } from '../core/gui-application';
+import { IpUtils } from '../core/ip-utils';
+import { Firewall, FirewallChain, FirewallProtocol, FirewallRule, FirewallTarget, FIREWALL_CHAINS } from '../core/firewall';
+
+/**
+ * Firewall App for the Hacker Game
+ * Shows and edits the rules of the firewall of this machine, the ones iptables manages
+ */
+export class FirewallApp extends GuiApplication {
+  private firewall: Firewall;
+
+  constructor(os: OS) {
+    super(os);
+    this.firewall = os.getNetworkInterface().getFirewall();
+  }
+
+  /**
+   * Get application name for process registration
+   */
+  protected getApplicationName(): string {
+    return 'firewall';
+  }
+
+  /**
+   * Application-specific initialization
+   */
+  protected initApplication(): void {
+    if (!this.container) return;
+
+    this.render();
+    this.setupEventListeners();
+    this.renderChains();
+
+    // Rules may have been changed with iptables while the window was in the background
+    this.on('focus', () => this.renderChains());
+  }
+
+  /**
+   * Render the firewall UI
+   */
+  private render(): void {
+    if (!this.container) return;
+
+    const chainOptions = FIREWALL_CHAINS.map(chain => `<option value="${chain}">${chain}</option>`).join('');
+    this.container.innerHTML = `
+      <div class="firewall-app">
+        <div class="firewall-header">
+          <h2>Firewall</h2>
+          <button class="firewall-refresh">Refresh</button>
+        </div>
+        <div class="firewall-chains"></div>
+        <form class="firewall-add-rule">
+          <h3>Add rule</h3>
+          <div class="firewall-fields">
+            <label>Chain <select name="chain">${chainOptions}</select></label>
+            <label>Protocol
+              <select name="protocol">
+                <option value="">all</option>
+                <option value="tcp">tcp</option>
+                <option value="udp">udp</option>
+                <option value="icmp">icmp</option>
+              </select>
+            </label>
+            <label>Source <input name="source" type="text" placeholder="anywhere"></label>
+            <label>Destination <input name="destination" type="text" placeholder="anywhere"></label>
+            <label>Port <input name="port" type="number" min="1" max="65535" placeholder="any"></label>
+            <label>Target
+              <select name="target">
+                <option value="ACCEPT">ACCEPT</option>
+                <option value="DROP">DROP</option>
+                <option value="REJECT">REJECT</option>
+              </select>
+            </label>
+            <label>Position
+              <select name="position">
+                <option value="append">Last</option>
+                <option value="insert">First</option>
+              </select>
+            </label>
+          </div>
+          <div class="firewall-form-actions">
+            <span class="firewall-error"></span>
+            <button type="submit" class="firewall-add">Add</button>
+          </div>
+        </form>
+      </div>
+      <!-- NOTE: DO NOT ADD STYLES HERE!
+     All styles for the firewall should be added to firewall.less instead.
+     This ensures proper scoping and prevents conflicts with other components. -->
+    `;
+  }
+
+  /**
+   * Set up event listeners; the chains are re-rendered often, so their events are delegated
+   */
+  private setupEventListeners(): void {
+    if (!this.container) return;
+
+    this.container.querySelector('.firewall-refresh')?.addEventListener('click', () => this.renderChains());
+
+    const chains = this.container.querySelector('.firewall-chains');
+    chains?.addEventListener('click', event => {
+      const button = (event.target as HTMLElement).closest<HTMLElement>('.firewall-delete');
+      if (!button) return;
+      this.firewall.deleteRule(button.dataset.chain as FirewallChain, Number(button.dataset.position));
+      this.renderChains();
+    });
+    chains?.addEventListener('change', event => {
+      const select = event.target as HTMLSelectElement;
+      if (!select.classList.contains('firewall-policy')) return;
+      this.firewall.setPolicy(select.dataset.chain as FirewallChain, select.value as 'ACCEPT' | 'DROP');
+    });
+
+    const form = this.container.querySelector<HTMLFormElement>('.firewall-add-rule');
+    form?.addEventListener('submit', event => {
+      event.preventDefault();
+      this.addRule(form);
+    });
+  }
+
+  /**
+   * Render each chain with its policy and its rules, in the order they are tried
+   */
+  private renderChains(): void {
+    const element = this.container?.querySelector('.firewall-chains');
+    if (!element) return;
+
+    element.innerHTML = FIREWALL_CHAINS.map(chain => {
+      const policy = this.firewall.getPolicy(chain);
+      const rules = this.firewall.getRules(chain);
+      const rows = rules.length === 0
+        ? '<tr><td colspan="8" class="firewall-empty">No rules: every packet gets the policy</td></tr>'
+        : rules.map((rule, index) => this.renderRule(chain, rule, index + 1)).join('');
+
+      return `
+        <div class="firewall-chain">
+          <div class="firewall-chain-header">
+            <h3>${chain}</h3>
+            <label>Policy
+              <select class="firewall-policy" data-chain="${chain}">
+                <option value="ACCEPT"${policy === 'ACCEPT' ? ' selected' : ''}>ACCEPT</option>
+                <option value="DROP"${policy === 'DROP' ? ' selected' : ''}>DROP</option>
+              </select>
+            </label>
+          </div>
+          <table class="firewall-rules">
+            <thead>
+              <tr><th>#</th><th>Target</th><th>Protocol</th><th>Source</th><th>Destination</th><th>Port</th><th>Packets</th><th></th></tr>
+            </thead>
+            <tbody>${rows}</tbody>
+          </table>
+        </div>
+      `;
+    }).join('');
+  }
+
+  /**
+   * Render a rule as a row of its chain
+   */
+  private renderRule(chain: FirewallChain, rule: FirewallRule, position: number): string {
+    return `
+      <tr>
+        <td>${position}</td>
+        <td class="firewall-target ${rule.target.toLowerCase()}">${rule.target}</td>
+        <td>${rule.protocol ?? 'all'}</td>
+        <td>${rule.source ?? 'anywhere'}</td>
+        <td>${rule.destination ?? 'anywhere'}</td>
+        <td>${rule.port ?? 'any'}</td>
+        <td>${rule.packets ?? 0}</td>
+        <td><button class="firewall-delete" data-chain="${chain}" data-position="${position}" title="Delete rule">✕</button></td>
+      </tr>
+    `;
+  }
+
+  /**
+   * Add the rule of the form, at the end or the start of its chain
+   */
+  private async addRule(form: HTMLFormElement): Promise<void> {
+    const data = new FormData(form);
+    const value = (name: string) => String(data.get(name) ?? '').trim();
+    const rule: FirewallRule = { chain: value('chain') as FirewallChain, target: value('target') as FirewallTarget };
+
+    try {
+      if (value('protocol')) rule.protocol = value('protocol') as FirewallProtocol;
+      if (value('source')) rule.source = await this.parseAddress(value('source'));
+      if (value('destination')) rule.destination = await this.parseAddress(value('destination'));
+      if (value('port')) {
+        const port = Number(value('port'));
+        if (rule.protocol !== 'tcp' && rule.protocol !== 'udp') throw new Error('A port needs the tcp or udp protocol');
+        if (!Number.isInteger(port) || port < 1 || port > 65535) throw new Error(`Invalid port: ${value('port')}`);
+        rule.port = port;
+      }
+    } catch (error) {
+      this.showError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    if (value('position') === 'insert') {
+      this.firewall.insertRule(rule);
+    } else {
+      this.firewall.appendRule(rule);
+    }
+    this.showError('');
+    form.querySelectorAll<HTMLInputElement>('input').forEach(input => input.value = '');
+    this.renderChains();
+  }
+
+  /**
+   * Parse an address, subnet or host name, like iptables does
+   */
+  private async parseAddress(value: string): Promise<string> {
+    const [host, mask] = value.split('/');
+    const address = await this.os.getResolver().resolve(host);
+    const prefix = mask === undefined ? 32 : Number(mask);
+    if (!address || !Number.isInteger(prefix) || prefix < 0 || prefix > 32) {
+      throw new Error(`Host or network not found: ${value}`);
+    }
+    return prefix === 32 ? address : `${IpUtils.network(address, prefix)}/${prefix}`;
+  }
+
+  /**
+   * Show an error under the form, or clear it
+   */
+  private showError(message: string): void {
+    const element = this.container?.querySelector('.firewall-error');
+    if (element) element.textContent = message;
+  }
+}
@@ -1,6 +1,7 @@
 import { OS } from '../core/os';
 import { Process } from '../core/process';
 import { GuiApplication } from '../core/gui-application';
+import { IpUtils } from '../core/ip-utils';
 
 /**
  * System Monitor App for the Hacker Game
@@ -302,10 +303,8 @@ export class SystemMonitorApp extends GuiApplication {
                 
                 <div class="stats-card">
                   <h3>Network Interfaces</h3>
-                  <div class="network-interface">
-                    <div class="interface-name">eth0 (Ethernet)</div>
-                    <div class="interface-ip">192.168.1.100</div>
-                    <div class="interface-mac">00:11:22:33:44:55</div>
+                  <div id="network-interfaces-list">
+                    <!-- Generated dynamically -->
                   </div>
                 </div>
               </div>
@@ -800,6 +799,10 @@ export class SystemMonitorApp extends GuiApplication {
           margin-bottom: 2px;
         }
         
+        .interface-down .interface-name {
+          color: #a0a0a0;
+        }
+        
         .network-connections-container {
           background-color: #2d2d2d;
           border-radius: 5px;
@@ -1235,47 +1238,41 @@ export class SystemMonitorApp extends GuiApplication {
     // Calculate simulated sending/receiving speeds
     const sendSpeed = (this.networkUsage * 5 * Math.random()).toFixed(1);
     const receiveSpeed = (this.networkUsage * 8 * Math.random()).toFixed(1);
-    const connections = Math.floor(this.networkUsage / 10) + 3; // Simulate connection count based on network usage
+    const connections = this.os.getConnectionTracker().getConnections(this.os.ipAddress);
     
     if (sendSpeedEl) sendSpeedEl.textContent = `${sendSpeed} KB/s`;
     if (receiveSpeedEl) receiveSpeedEl.textContent = `${receiveSpeed} KB/s`;
-    if (connectionsEl) connectionsEl.textContent = connections.toString();
+    if (connectionsEl) connectionsEl.textContent = connections.length.toString();
+    
+    // Update network interfaces of this system
+    const interfacesList = this.container.querySelector('#network-interfaces-list');
+    if (interfacesList) {
+      const types = { loopback: 'Loopback', ethernet: 'Ethernet', wireless: 'Wi-Fi', tunnel: 'VPN' };
+      interfacesList.innerHTML = this.os.getNetworkInterface().getAdapters().map(adapter => `
+        <div class="network-interface${adapter.isUp ? '' : ' interface-down'}">
+          <div class="interface-name">${adapter.name} (${types[adapter.type]})${adapter.isUp ? '' : ' - down'}</div>
+          <div class="interface-ip">${adapter.address}/${IpUtils.prefixLength(adapter.netmask)}${adapter.gateway ? ` via ${adapter.gateway}` : ''}</div>
+          ${adapter.mac ? `<div class="interface-mac">${adapter.mac}</div>` : ''}
+        </div>
+      `).join('');
+    }
     
-    // Update network connections table with simulated data
+    // Update network connections table with the sockets of this system
     const connectionsTable = this.container.querySelector('#network-connections-list');
     if (connectionsTable) {
-      const processes = this.os.getProcessManager().getAllProcesses();
-      const networkProcesses = processes
-        .filter(p => Math.random() < 0.3 || p.name.includes('ssh') || p.name.includes('http')) // Random selection with bias toward network processes
-        .sort(() => Math.random() - 0.5) // Randomize order
-        .slice(0, connections); // Show only as many as our connection count
-      
       connectionsTable.innerHTML = '';
       
-      if (networkProcesses.length === 0) {
+      if (connections.length === 0) {
         connectionsTable.innerHTML = '<tr><td colspan="5" class="no-data">No active connections</td></tr>';
       } else {
-        // Network protocols
-        const protocols = ['TCP', 'UDP'];
-        // Connection states
-        const states = ['ESTABLISHED', 'LISTEN', 'TIME_WAIT', 'CLOSE_WAIT'];
-        
-        networkProcesses.forEach(process => {
-          const protocol = protocols[Math.floor(Math.random() * protocols.length)];
-          const state = states[Math.floor(Math.random() * states.length)];
-          const localPort = Math.floor(Math.random() * 60000) + 1024;
-          const remotePort = [80, 443, 22, 53][Math.floor(Math.random() * 4)];
-          
-          const localAddress = `192.168.1.100:${localPort}`;
-          const remoteAddress = `${Math.floor(Math.random() * 255)}.${Math.floor(Math.random() * 255)}.${Math.floor(Math.random() * 255)}.${Math.floor(Math.random() * 255)}:${remotePort}`;
-          
+        connections.forEach(connection => {
           const row = document.createElement('tr');
           row.innerHTML = `
-            <td>${process.name}</td>
-            <td>${protocol}</td>
-            <td>${localAddress}</td>
-            <td>${remoteAddress}</td>
-            <td>${state}</td>
+            <td>${connection.owner.program}</td>
+            <td>${connection.protocol.toUpperCase()}</td>
+            <td>${connection.localAddress}:${connection.localPort || '*'}</td>
+            <td>${connection.remoteAddress}:${connection.remotePort || '*'}</td>
+            <td>${connection.state}</td>
           `;
           connectionsTable.appendChild(row);
         });
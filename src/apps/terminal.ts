@@ -2,9 +2,36 @@ import { OS } from '../core/os';
 import { Terminal } from 'xterm';
 import { FitAddon } from 'xterm-addon-fit';
 import 'xterm/css/xterm.css';
-import { CommandContext, DirectoryChangeHandler } from '../commands/command-processor';
+import { CommandContext, CommandProcessor, DirectoryChangeHandler } from '../commands/command-processor';
 import { GuiApplication, SubProcessOptions } from '../core/gui-application';
 import { FileEntryUtils } from '../core/file-entry-utils';
+import { ShellEnvironment } from '../commands/shell-environment';
+import { TabCompletion } from '../commands/tab-completion';
+import { ShellHistory } from '../commands/shell-history';
+import { CommandList } from '../commands/command-list';
+import { Job, JobTable, STOPPED_EXIT_CODE } from '../commands/job-control';
+import { ShellPrompt, DEFAULT_PS1 } from '../commands/shell-prompt';
+import { PathUtils } from '../core/path-utils';
+
+/**
+ * Shell hidden by a remote shell opened on top of it with ssh, restored by exit
+ */
+interface SuspendedShell {
+  os: OS;
+  context: CommandContext;
+  path: string;
+  history: ShellHistory;
+  
+  /**
+   * Printed when the remote shell on top of it closes, like "Connection to host closed."
+   */
+  closeMessage: string;
+  
+  /**
+   * Called when the remote shell on top of it closes, to close its connection
+   */
+  onClose?: () => void;
+}
 
 /**
  * Terminal Application
@@ -13,8 +40,11 @@ export class TerminalApp extends GuiApplication {
   private terminal: Terminal;
   private fitAddon: FitAddon;
   private currentPath: string = '~';
-  private commandHistory: string[] = [];
-  private historyIndex: number = -1;
+  private history: ShellHistory;
+  private historyIndex: number = -1; // -1 = current input, 0 = most recent command
+  
+  // State of the Ctrl+R reverse search prompt, null when it is not open
+  private reverseSearch: { query: string; index: number; original: string } | null = null;
   private inputBuffer: string = '';
   private promptLength: number = 0;
   private cursorPosition: number = 0; // 0 = start of input, inputBuffer.length = end of input
@@ -24,6 +54,24 @@ export class TerminalApp extends GuiApplication {
   private directoryChangeHandlers: DirectoryChangeHandler[] = [];
 
   private defaultKeyHandlingPaused: boolean = false;
+  
+  // A second Tab in a row lists the completion candidates
+  private lastKeyWasTab: boolean = false;
+  
+  // Jobs started from this terminal; created once the terminal process exists
+  private jobs!: JobTable;
+  
+  // A command waiting for input on stdin receives the keys typed while it runs
+  private inputReader: { onData: (data: string) => void; cancel: () => void } | null = null;
+  
+  // True while the prompt is shown and the user can type a command
+  private promptActive: boolean = false;
+  
+  // System the shell runs on: the local one, or a remote host's while an ssh session is open
+  private shellOs: OS;
+  
+  // Shells hidden by the ssh sessions opened on top of them, innermost last
+  private suspendedShells: SuspendedShell[] = [];
 
   constructor(os: OS) {
     super(os);
@@ -63,13 +111,20 @@ export class TerminalApp extends GuiApplication {
     this.terminal.loadAddon(this.fitAddon);
     
     // Initialize command context for terminal I/O
-    this.commandContext = this.createCommandContext();
+    this.shellOs = os;
+    this.commandContext = this.createCommandContext(os);
+    
+    // History is stored in ~/.bash_history and shared by all terminal windows
+    this.history = ShellHistory.forCurrentUser(os);
     
     // Register event handlers
     this.on('resize', () => this.handleResize());
     this.on('resized', () => this.handleResize());
 
     this.on('focus', () => this.handleFocus());
+    
+    // Closing the window ends the ssh sessions open in it
+    this.on('closing', () => this.suspendedShells.splice(0).forEach(shell => shell.onClose?.()));
   }
   
   /**
@@ -90,35 +145,43 @@ protected initApplication(): void {
     // Fit terminal to container
     this.fitAddon.fit();
     
+    // Commands run as jobs, child processes of the terminal
+    this.jobs = new JobTable(this.os.getProcessManager(), this.processId, this.os.currentUserName);
+    this.jobs.onNotify = message => this.writeNotification(message);
+    this.commandContext.jobs = this.jobs;
+    
     // Welcome message
     this.terminal.writeln('Welcome to HackerOS Terminal');
     this.terminal.writeln('Type "help" for a list of commands');
     this.terminal.writeln('');
     
-    // Check if a directory path was passed as an argument
-    if (this.commandArgs.length > 0) {
-      this.os.getFileSystem().stat(this.commandArgs[0])
-        .then(stat => {
-          if (FileEntryUtils.isDirectory(stat)) {
-            // If it's a directory, change to it
-            this.currentPath = this.commandArgs[0];
-            
-            // Update the command context with the new path
-            if (this.commandContext) {
-              this.commandContext.cwd = this.currentPath;
+    // Run the startup files before the first prompt, like a login shell
+    this.runStartupFiles().finally(() => {
+      // Check if a directory path was passed as an argument
+      if (this.commandArgs.length > 0) {
+        this.os.getFileSystem().stat(this.commandArgs[0])
+          .then(stat => {
+            if (FileEntryUtils.isDirectory(stat)) {
+              // If it's a directory, change to it
+              this.currentPath = this.commandArgs[0];
+              
+              // Update the command context with the new path
+              if (this.commandContext) {
+                this.commandContext.cwd = this.currentPath;
+              }
             }
-          }
-          // Initial prompt with updated path
-          this.showPrompt();
-        })
-        .catch(() => {
-          // Show prompt with default path if there's an error
-          this.showPrompt();
-        });
-    } else {
-      // Initial prompt with default path
-      this.showPrompt();
-    }
+            // Initial prompt with updated path
+            this.showPrompt();
+          })
+          .catch(() => {
+            // Show prompt with default path if there's an error
+            this.showPrompt();
+          });
+      } else {
+        // Initial prompt with default path
+        this.showPrompt();
+      }
+    });
     
     // Set up terminal input
     this.terminal.onData(this.handleTerminalInput.bind(this));
@@ -128,11 +191,12 @@ protected initApplication(): void {
   }
     /**
    * Create command context for terminal I/O
-   */  private createCommandContext(): CommandContext {
+   * @param os System the commands run on
+   */  private createCommandContext(os: OS): CommandContext {
     const self = this;
     
     return {
-      os: this.os,
+      os,
       get xTerm(): Terminal {
         return self.terminal;
       },
@@ -160,54 +224,24 @@ protected initApplication(): void {
       terminalApp: self,
       stdin: {
         read: async (): Promise<string> => {
-          return new Promise((resolve) => {
-            let buffer = '';
-            
-            // Store current handler
-            const originalHandler = this.handleTerminalInput.bind(this);
-            
-            // Create temporary input handler
-            const tempInputHandler = (data: string) => {
-              const code = data.charCodeAt(0);
-              
-              if (code === 13) { // Enter key
-                // Restore original handler
-                this.terminal.onData(originalHandler);
-                this.terminal.writeln('');
-                resolve(buffer);
-              } else if (code === 8 || data === '\x7F') { // Backspace
-                if (buffer.length > 0) {
-                  buffer = buffer.slice(0, -1);
-                  this.terminal.write('\b \b');
-                }
-              } else {
-                buffer += data;
-                this.terminal.write(data);
-              }
-            };
-            
-            // Set temporary handler
-            this.terminal.onData(tempInputHandler);
-          });
+          return this.readInputLine(true);
+        },
+        readPassword: async (): Promise<string> => {
+          return this.readInputLine(false);
         },
         readLine: async (): Promise<string> => {
           return this.commandContext.stdin.read();
         },
         readChar: async (): Promise<string> => {
           return new Promise((resolve) => {
-            // Store current handler
-            const originalHandler = this.handleTerminalInput.bind(this);
-            
-            // Create temporary char handler
-            const tempCharHandler = (data: string) => {
-              // Restore original handler
-              this.terminal.onData(originalHandler);
-              this.terminal.write(data);
-              resolve(data.charAt(0));
+            this.inputReader = {
+              onData: (data: string) => {
+                this.inputReader = null;
+                this.terminal.write(data);
+                resolve(data.charAt(0));
+              },
+              cancel: () => resolve('')
             };
-            
-            // Set temporary handler
-            this.terminal.onData(tempCharHandler);
           });
         }
       },
@@ -234,16 +268,49 @@ protected initApplication(): void {
           this.terminal.clear();
         }
       },
-      env: {
-        'USER': this.os.currentUserName,
-        'HOME': this.os.getFileSystem().UserFolder,
-        'PATH': '/bin:/usr/bin',
-        'PWD': this.currentPath,
-        'TERM': 'xterm-256color',
-        'SHELL': '/bin/bash'
-      }
+      // Environment of this terminal session, modified by export/unset
+      env: ShellEnvironment.createDefault(os, this.currentPath),
+      // Shell aliases of this terminal session, usually defined in ~/.bashrc
+      aliases: {},
+      lastExitCode: 0
     };
   }
+  /**
+   * Read a line typed while a command runs
+   * @param echo Show the typed characters; false for passwords
+   */
+  private readInputLine(echo: boolean): Promise<string> {
+    return new Promise((resolve) => {
+      let buffer = '';
+      
+      this.inputReader = {
+        onData: (data: string) => {
+          const code = data.charCodeAt(0);
+          
+          if (code === 13) { // Enter key
+            this.inputReader = null;
+            this.terminal.writeln('');
+            resolve(buffer);
+          } else if (code === 8 || data === '\x7F') { // Backspace
+            if (buffer.length > 0) {
+              buffer = buffer.slice(0, -1);
+              if (echo) {
+                this.terminal.write('\b \b');
+              }
+            }
+          } else {
+            buffer += data;
+            if (echo) {
+              this.terminal.write(data);
+            }
+          }
+        },
+        // Ctrl+C ends the read with what was typed so far
+        cancel: () => resolve(buffer)
+      };
+    });
+  }
+
   /**
    * Handle resize event
    */
@@ -260,12 +327,89 @@ protected initApplication(): void {
     }
   }
   /**
-   * Show terminal prompt
+   * Show terminal prompt, built from the PS1 variable
+   * @param redraw Rewrite the prompt on the current line; only the last line of a multi-line prompt is written.
+   * A redraw does not give the keyboard back to the command line: that only happens once a command is done.
    */
-  private showPrompt(): void {
-    const prompt = `${this.os.currentUserName}@hacker-machine:${this.currentPath}$ `;
-    this.terminal.write(prompt);
-    this.promptLength = prompt.length;
+  private showPrompt(redraw: boolean = false): void {
+    if (!redraw) {
+      this.promptActive = true;
+    }
+    const prompt = ShellPrompt.format(this.commandContext.env.PS1 ?? DEFAULT_PS1, {
+      user: this.shellOs.currentUserName,
+      cwd: this.currentPath,
+      env: this.commandContext.env,
+      lastExitCode: this.commandContext.lastExitCode ?? 0,
+      jobCount: this.jobs?.list().length ?? 0,
+      historyNumber: this.history.getEntries().length + 1
+    });
+    this.terminal.write(redraw ? prompt.substring(prompt.lastIndexOf('\n') + 1) : prompt);
+    this.promptLength = ShellPrompt.visibleLength(prompt);
+  }
+
+  /**
+   * Run /etc/profile and ~/.bashrc in the terminal session, so that their variables,
+   * aliases and PS1 apply to it. They run as a job, so Ctrl+C can stop them.
+   */
+  private async runStartupFiles(): Promise<void> {
+    const fileSystem = this.shellOs.getFileSystem();
+    const startupFiles = ['/etc/profile', PathUtils.join(fileSystem.UserFolder, '.bashrc')];
+    
+    for (const path of startupFiles) {
+      try {
+        if (await fileSystem.exists(path)) {
+          await this.jobs.foreground(this.startJob(CommandProcessor.quoteArgs(['source', path]), false));
+        }
+      } catch (error) {
+        console.error(`Error running ${path}:`, error);
+      }
+    }
+    this.commandContext.lastExitCode = 0;
+  }
+
+  /**
+   * Open a shell on a remote host (ssh). It replaces the current shell, with its own
+   * variables, working directory and history, until closeRemoteShell is called.
+   * The startup files of the host run in it, like in a login shell.
+   * @param os System of the remote host, logged in as the user of the shell
+   * @param closeMessage Printed when the shell closes, like "Connection to host closed."
+   * @param onClose Called when the shell closes, or the terminal window with it
+   */
+  public async openRemoteShell(os: OS, closeMessage: string, onClose?: () => void): Promise<void> {
+    this.suspendedShells.push({
+      os: this.shellOs,
+      context: this.commandContext,
+      path: this.currentPath,
+      history: this.history,
+      closeMessage,
+      onClose
+    });
+    
+    this.shellOs = os;
+    this.currentPath = '~';
+    this.commandContext = this.createCommandContext(os);
+    this.commandContext.jobs = this.jobs;
+    this.history = ShellHistory.forCurrentUser(os);
+    await this.runStartupFiles();
+  }
+  
+  /**
+   * Close the remote shell opened last (exit in an ssh session) and return to the shell below it
+   * @returns False if the shell is the local one
+   */
+  public closeRemoteShell(): boolean {
+    const shell = this.suspendedShells.pop();
+    if (!shell) {
+      return false;
+    }
+    
+    this.terminal.writeln(shell.closeMessage);
+    shell.onClose?.();
+    this.shellOs = shell.os;
+    this.commandContext = shell.context;
+    this.currentPath = shell.path;
+    this.history = shell.history;
+    return true;
   }
 
   /**
@@ -294,6 +438,22 @@ protected initApplication(): void {
       return;
     }
 
+    if (data !== '\t') {
+      this.lastKeyWasTab = false;
+    }
+
+    // While a command runs, keys go to its job and to stdin instead of the command line
+    if (!this.promptActive) {
+      this.handleJobInput(data);
+      return;
+    }
+
+    // The reverse search prompt takes all keys until it is closed
+    if (this.reverseSearch) {
+      this.handleReverseSearchInput(data);
+      return;
+    }
+
     // Rest of the existing handleTerminalInput implementation
     // Handle special key sequences
     if (data === '\r') { // Enter
@@ -308,8 +468,10 @@ protected initApplication(): void {
       this.showPrompt();
       this.inputBuffer = '';
       this.cursorPosition = 0;
-      this.historyIndex = -1;    } else if (data === '\t') { // Tab
-      // Tab completion (TODO)
+      this.historyIndex = -1;    } else if (data === '\x12') { // Ctrl+R
+      this.startReverseSearch();
+    } else if (data === '\t') { // Tab
+      this.handleTabKey();
     } else if (data === '\x1b[A') { // Up arrow
       this.navigateHistory(1);
     } else if (data === '\x1b[B') { // Down arrow
@@ -324,6 +486,28 @@ protected initApplication(): void {
     }
   }
 
+  /**
+   * Handle a key typed while a command is running: Ctrl+C interrupts its job,
+   * Ctrl+Z stops it and other keys are passed to a pending stdin read
+   * @param data The input data
+   */
+  private handleJobInput(data: string): void {
+    if (data === '\u0003') { // Ctrl+C
+      this.terminal.writeln('^C');
+      const reader = this.inputReader;
+      this.inputReader = null;
+      this.jobs.interruptForeground();
+      reader?.cancel();
+    } else if (data === '\x1a') { // Ctrl+Z
+      if (this.jobs.hasForeground()) {
+        this.terminal.writeln('^Z');
+        this.jobs.stopForeground();
+      }
+    } else if (this.inputReader) {
+      this.inputReader.onData(data);
+    }
+  }
+
   /**
    * Move cursor in the input buffer
    * @param direction 1 for right, -1 for left
@@ -382,45 +566,170 @@ protected initApplication(): void {
     
     this.terminal.writeln('');
     
-    // Add command to history if not empty
-    if (this.inputBuffer.trim()) {
-      this.commandHistory.push(this.inputBuffer);
-      this.historyIndex = -1;
-    }
-    
     // Get the command
-    const commandString = this.inputBuffer;
+    let commandString = this.inputBuffer;
     this.inputBuffer = '';
     this.cursorPosition = 0;
-
-    // Parse command with proper handling of quoted arguments
-    const commandParts = this.parseCommandArgs(commandString.trim());
+    this.historyIndex = -1;
+    
+    // Expand history references (!!, !n, !prefix); like bash, the result is shown before it runs
+    try {
+      const expansion = this.history.expand(commandString);
+      if (expansion.expanded) {
+        commandString = expansion.command;
+        this.terminal.writeln(commandString);
+      }
+    } catch (error) {
+      this.terminal.writeln(`bash: ${error instanceof Error ? error.message : String(error)}`);
+      this.showPrompt();
+      return;
+    }
     
-    if (commandParts.length > 0) {
-      const commandName = commandParts[0];
-      const args = commandParts.slice(1);
+    // Add command to history if not empty
+    await this.history.add(commandString);
+    
+    if (commandString.trim()) {
+      // The line stays unavailable for input until the command finishes or is stopped
+      this.promptActive = false;
       
-      // Use the createSubProcess method from the base class
-      this.createSubProcess({
-        name: commandName,
-        command: commandString,
-        user: 'user',
-        cpuUsage: 0.2,
-        memoryUsage: 5
-      });
+      let backgroundCommand: string | null;
+      try {
+        backgroundCommand = CommandList.stripBackground(commandString);
+      } catch (error) {
+        this.terminal.writeln(`bash: ${error instanceof Error ? error.message : String(error)}`);
+        this.commandContext.lastExitCode = 2;
+        this.showPrompt();
+        return;
+      }
       
-      // Process command and show output
-      // We're using the original command string here so the command processor can 
-      // handle parsing itself using our properly parsed arguments
-      const output = await this.os.getCommandProcessor().processCommand(commandString, this.commandContext);
-      if (output) {
-        this.terminal.writeln(output);
+      if (backgroundCommand !== null) {
+        // "command &" runs in the background; bash prints the job number and process ID
+        const job = this.startJob(backgroundCommand, true);
+        this.terminal.writeln(`[${job.id}] ${job.pid}`);
+        this.commandContext.lastExitCode = 0;
+      } else {
+        const job = this.startJob(commandString, false);
+        const exitCode = await this.jobs.foreground(job);
+        if (exitCode === null) {
+          // Stopped with Ctrl+Z
+          this.terminal.writeln(this.jobs.format(job));
+        }
+        this.commandContext.lastExitCode = exitCode ?? STOPPED_EXIT_CODE;
       }
     }
     
     // Show new prompt
     this.showPrompt();
   }
+  /**
+   * Start a command line as a job; the job gets its own context with the job's abort signal,
+   * and the exit code of its commands is kept in that context.
+   * A background job runs like a subshell, with its own copy of the working directory and variables.
+   * @param command The command line
+   * @param background Start the job in the background
+   */
+  private startJob(command: string, background: boolean): Job {
+    return this.jobs.start(command, job => {
+      const context: CommandContext = Object.create(this.commandContext);
+      context.signal = job.signal;
+      context.job = job;
+      if (background) {
+        // Assigning cwd would go through the setter of the shell's context
+        Object.defineProperty(context, 'cwd', { value: this.commandContext.cwd, writable: true, enumerable: true });
+        context.env = { ...this.commandContext.env };
+      }
+      return this.shellOs.getCommandProcessor().processCommand(command, context);
+    }, background);
+  }
+
+  /**
+   * Print a job notification, like "[1]+  Done  ping host"; the prompt and input are redrawn
+   * when the user is typing, otherwise the message is printed between outputs
+   */
+  private writeNotification(message: string): void {
+    if (!this.promptActive || this.reverseSearch) {
+      this.terminal.writeln(message);
+      return;
+    }
+    this.terminal.write('\r\x1b[K');
+    this.terminal.writeln(message);
+    this.redrawInputLine();
+  }
+
+  /**
+   * Handle Tab key: complete the word before the cursor, or list the candidates on a second Tab
+   */
+  private async handleTabKey(): Promise<void> {
+    const listCandidates = this.lastKeyWasTab;
+    this.lastKeyWasTab = true;
+    
+    const line = this.inputBuffer;
+    const cursor = this.cursorPosition;
+    let result;
+    try {
+      result = await TabCompletion.complete(line, cursor, this.shellOs.getCommandProcessor(), this.commandContext);
+    } catch (error) {
+      console.error('Error during tab completion:', error);
+      return;
+    }
+    
+    // Ignore the result if the input changed while completing
+    if (this.inputBuffer !== line || this.cursorPosition !== cursor) {
+      return;
+    }
+    
+    const { start, current, candidates } = result;
+    if (candidates.length === 0) {
+      this.terminal.write('\x07');
+      return;
+    }
+    
+    // A single candidate is inserted completely, followed by a space unless it is a directory
+    if (candidates.length === 1) {
+      const completion = candidates[0];
+      this.replaceInput(start, cursor, TabCompletion.escape(completion) + (completion.endsWith('/') ? '' : ' '));
+      this.lastKeyWasTab = false;
+      return;
+    }
+    
+    // Otherwise complete as far as the candidates agree
+    const prefix = TabCompletion.commonPrefix(candidates);
+    if (prefix.length > current.length) {
+      this.replaceInput(start, cursor, TabCompletion.escape(prefix));
+      return;
+    }
+    
+    if (!listCandidates) {
+      this.terminal.write('\x07');
+      return;
+    }
+    
+    // List paths by their last component, like bash
+    const names = candidates.map(candidate => {
+      const trimmed = candidate.endsWith('/') ? candidate.slice(0, -1) : candidate;
+      const name = trimmed.includes('/') && !/^\w+:\/\//.test(trimmed) ? trimmed.substring(trimmed.lastIndexOf('/') + 1) : trimmed;
+      return name + (candidate.endsWith('/') ? '/' : '');
+    });
+    
+    if (this.cursorPosition < this.inputBuffer.length) {
+      this.terminal.write('\x1b[' + (this.inputBuffer.length - this.cursorPosition) + 'C');
+    }
+    this.terminal.writeln('');
+    for (const columnLine of TabCompletion.formatColumns(names, this.terminal.cols)) {
+      this.terminal.writeln(columnLine);
+    }
+    this.redrawInputLine();
+  }
+
+  /**
+   * Replace part of the input buffer and put the cursor after the new text
+   */
+  private replaceInput(start: number, end: number, text: string): void {
+    this.inputBuffer = this.inputBuffer.slice(0, start) + text + this.inputBuffer.slice(end);
+    this.cursorPosition = start + text.length;
+    this.redrawInputLine();
+  }
+
   /**
    * Handle Backspace key
    */
@@ -449,7 +758,7 @@ protected initApplication(): void {
   private redrawInputLine(): void {
     // Clear the line and rewrite from the prompt
     this.terminal.write('\r\x1b[K'); // Clear line from cursor to end
-    this.showPrompt();
+    this.showPrompt(true);
     this.terminal.write(this.inputBuffer);
     
     // Reset cursor to correct position
@@ -467,7 +776,7 @@ protected initApplication(): void {
   private clearCurrentInput(): void {
     // Clear current line
     this.terminal.write('\r\x1b[K');
-    this.showPrompt();
+    this.showPrompt(true);
     this.inputBuffer = '';
     this.cursorPosition = 0;
   }
@@ -476,14 +785,15 @@ protected initApplication(): void {
    * Navigate command history
    */
   private navigateHistory(direction: number): void {
-    if (this.commandHistory.length === 0) return;
+    const entries = this.history.getEntries();
+    if (entries.length === 0) return;
     
     // Calculate new history index
     let newIndex = this.historyIndex + direction;
     
     // Clamp index to valid range
     if (newIndex < -1) newIndex = -1;
-    if (newIndex >= this.commandHistory.length) newIndex = this.commandHistory.length - 1;
+    if (newIndex >= entries.length) newIndex = entries.length - 1;
     
     // If index didn't change, do nothing
     if (newIndex === this.historyIndex) return;
@@ -495,7 +805,7 @@ protected initApplication(): void {
     if (this.historyIndex === -1) {
       this.inputBuffer = '';
     } else {
-      this.inputBuffer = this.commandHistory[this.historyIndex];
+      this.inputBuffer = entries[entries.length - 1 - this.historyIndex];
     }
     
     // Update cursor position to end of line
@@ -505,6 +815,66 @@ protected initApplication(): void {
     this.redrawInputLine();
   }
 
+  /**
+   * Open the Ctrl+R reverse history search prompt
+   */
+  private startReverseSearch(): void {
+    this.reverseSearch = { query: '', index: -1, original: this.inputBuffer };
+    this.renderReverseSearch();
+  }
+
+  /**
+   * Handle a key while the reverse search prompt is open
+   */
+  private handleReverseSearchInput(data: string): void {
+    const search = this.reverseSearch!;
+    const entries = this.history.getEntries();
+    
+    if (data === '\x12') { // Ctrl+R again: next older match
+      if (search.query) {
+        const index = this.history.search(search.query, search.index >= 0 ? search.index : entries.length);
+        if (index !== -1) search.index = index;
+      }
+      this.renderReverseSearch();
+    } else if (data === '\x7F' || data === '\b') {
+      search.query = search.query.slice(0, -1);
+      search.index = search.query ? this.history.search(search.query) : -1;
+      this.renderReverseSearch();
+    } else if (data === '\u0003' || data === '\x07') { // Ctrl+C or Ctrl+G: cancel
+      this.closeReverseSearch(search.original);
+    } else if (data === '\r') { // Enter: run the match
+      this.closeReverseSearch(search.index >= 0 ? entries[search.index] : search.original);
+      this.handleEnterKey();
+    } else if (data.length === 1 && data.charCodeAt(0) >= 32) {
+      // Typing refines the search, starting from the current match
+      search.query += data;
+      search.index = this.history.search(search.query, search.index >= 0 ? search.index + 1 : entries.length);
+      this.renderReverseSearch();
+    } else { // Any other key keeps the match for editing
+      this.closeReverseSearch(search.index >= 0 ? entries[search.index] : search.original);
+    }
+  }
+
+  /**
+   * Draw the reverse search prompt with the current match
+   */
+  private renderReverseSearch(): void {
+    const search = this.reverseSearch!;
+    const match = search.index >= 0 ? this.history.getEntries()[search.index] : '';
+    const failed = search.query !== '' && search.index < 0 ? 'failed ' : '';
+    this.terminal.write(`\r\x1b[K(${failed}reverse-i-search)\`${search.query}': ${match}`);
+  }
+
+  /**
+   * Close the reverse search prompt and put a command in the input line
+   */
+  private closeReverseSearch(command: string): void {
+    this.reverseSearch = null;
+    this.inputBuffer = command;
+    this.cursorPosition = command.length;
+    this.redrawInputLine();
+  }
+
   /**
    * Execute a command programmatically
    */
@@ -539,10 +909,10 @@ protected initApplication(): void {
     
     // If we're at a command prompt (not in the middle of command execution)
     // update the prompt to reflect the new directory
-    if (this.inputBuffer === '') {
+    if (this.promptActive && this.inputBuffer === '') {
       // Clear the current line and show the new prompt
       this.terminal.write('\r\x1b[K');
-      this.showPrompt();
+      this.showPrompt(true);
     }
   }
 
@@ -572,60 +942,4 @@ protected initApplication(): void {
   private triggerDirectoryChange(newPath: string): void {
     this.directoryChangeHandlers.forEach(handler => handler(newPath));
   }
-
-  /**
-   * Parse command arguments, respecting quotes
-   * @param command The command string to parse
-   * @returns Array of parsed arguments
-   */
-  private parseCommandArgs(command: string): string[] {
-    const args: string[] = [];
-    let currentArg = '';
-    let inQuotes = false;
-    let escapeNext = false;
-    
-    // Process each character in the command
-    for (let i = 0; i < command.length; i++) {
-      const char = command[i];
-      
-      // Handle escape character
-      if (escapeNext) {
-        currentArg += char;
-        escapeNext = false;
-        continue;
-      }
-      
-      // Check for escape character
-      if (char === '\\') {
-        escapeNext = true;
-        continue;
-      }
-      
-      // Handle quotes
-      if (char === '"' || char === "'") {
-        inQuotes = !inQuotes;
-        continue;
-      }
-      
-      // Handle spaces
-      if (char === ' ' && !inQuotes) {
-        // If we have a current argument, add it to args and reset
-        if (currentArg) {
-          args.push(currentArg);
-          currentArg = '';
-        }
-        continue;
-      }
-      
-      // Add character to current argument
-      currentArg += char;
-    }
-    
-    // Add any remaining argument
-    if (currentArg) {
-      args.push(currentArg);
-    }
-    
-    return args;
-  }
 }
@@ -0,0 +1,236 @@
+import { FileSystem } from '../core/filesystem';
+import { PathUtils } from '../core/path-utils';
+
+/**
+ * File or directory to store in an archive
+ */
+export interface ArchiveMember {
+  /**
+   * Name in the archive, relative like docs/notes.txt
+   */
+  name: string;
+
+  /**
+   * Absolute path in the file system
+   */
+  path: string;
+
+  isDirectory: boolean;
+
+  /**
+   * Permission bits, like 0o644
+   */
+  mode: number;
+
+  modified: Date;
+
+  owner: string;
+}
+
+/**
+ * Helper class for the archive commands (tar, gzip, zip and unzip): reading and
+ * writing file contents as bytes, collecting the files to archive, and restoring
+ * the permissions and modification times of extracted files.
+ */
+export class ArchiveFiles {
+  /**
+   * Read a file as bytes; text files are encoded as UTF-8
+   */
+  public static async readBytes(fileSystem: FileSystem, path: string): Promise<Uint8Array> {
+    if (await fileSystem.isBinaryFile(path)) {
+      return new Uint8Array(await fileSystem.readBinaryFile(path));
+    }
+    return new TextEncoder().encode(await fileSystem.readFile(path));
+  }
+
+  /**
+   * Write bytes to a file; valid UTF-8 without null characters is stored as text,
+   * so that extracted text files can be read with cat or edited with nano
+   */
+  public static async writeBytes(fileSystem: FileSystem, path: string, bytes: Uint8Array): Promise<void> {
+    if (!bytes.includes(0)) {
+      try {
+        const text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+        await fileSystem.writeFile(path, text);
+        return;
+      } catch (error) {
+        if (!(error instanceof TypeError)) throw error;
+      }
+    }
+    await fileSystem.writeBinaryFile(path, bytes.slice().buffer);
+  }
+
+  /**
+   * Collect a file, or a directory and (when recursive) everything below it, parents first
+   * @param fileSystem File system to read
+   * @param path Absolute path of the file or directory
+   * @param name Name of the file or directory in the archive
+   * @param recursive Include the contents of directories
+   */
+  public static async collect(fileSystem: FileSystem, path: string, name: string, recursive: boolean): Promise<ArchiveMember[]> {
+    const stats = await fileSystem.stat(path);
+    const member: ArchiveMember = {
+      name: this.memberName(name),
+      path,
+      isDirectory: stats.isDirectory,
+      mode: this.permissionsToMode(stats.permissions),
+      modified: stats.modifiedTime ?? new Date(),
+      owner: stats.owner ?? 'user'
+    };
+    const members = [member];
+
+    if (stats.isDirectory && recursive) {
+      const entries = await fileSystem.readDirectory(path);
+      entries.sort((a, b) => a.name.localeCompare(b.name));
+      for (const entry of entries) {
+        members.push(...await this.collect(fileSystem, PathUtils.join(path, entry.name), `${member.name}/${entry.name}`, true));
+      }
+    }
+
+    return members;
+  }
+
+  /**
+   * Get the name of a file in an archive: relative, without . and trailing slashes
+   */
+  public static memberName(name: string): string {
+    return name.split('/').filter(part => part !== '' && part !== '.').join('/') || '.';
+  }
+
+  /**
+   * Get the path where a member is extracted
+   * @returns The path, or null for names that would leave the destination, like ../etc/passwd
+   */
+  public static extractPath(destination: string, name: string): string | null {
+    const parts = name.split('/').filter(part => part !== '' && part !== '.');
+    if (parts.includes('..')) {
+      return null;
+    }
+    return parts.length > 0 ? PathUtils.join(destination, parts.join('/')) : destination;
+  }
+
+  /**
+   * Create a directory and its missing parents, like mkdir -p
+   */
+  public static async createDirectories(fileSystem: FileSystem, path: string): Promise<void> {
+    let current = '';
+    for (const part of PathUtils.normalize(path).split('/').filter(Boolean)) {
+      current += '/' + part;
+      if (!await fileSystem.exists(current)) {
+        await fileSystem.createDirectory(current);
+      } else if (!(await fileSystem.stat(current)).isDirectory) {
+        throw new Error(`${current}: Not a directory`);
+      }
+    }
+  }
+
+  /**
+   * Set the permissions and modification time of an extracted file or directory
+   */
+  public static async restore(fileSystem: FileSystem, path: string, isDirectory: boolean, mode: number, modified: Date): Promise<void> {
+    // chmod also updates the modification time, so the time is set last
+    await fileSystem.chmod(path, this.modeToPermissions(mode, isDirectory));
+    await fileSystem.setModifiedTime(path, modified);
+  }
+
+  /**
+   * Convert permission bits (0o755) to a permission string (-rwxr-xr-x)
+   */
+  public static modeToPermissions(mode: number, isDirectory: boolean): string {
+    let permissions = isDirectory ? 'd' : '-';
+    for (let shift = 6; shift >= 0; shift -= 3) {
+      const bits = (mode >> shift) & 7;
+      permissions += (bits & 4 ? 'r' : '-') + (bits & 2 ? 'w' : '-') + (bits & 1 ? 'x' : '-');
+    }
+    return permissions;
+  }
+
+  /**
+   * Convert a permission string (-rwxr-xr-x) to permission bits (0o755)
+   */
+  public static permissionsToMode(permissions: string | undefined): number {
+    if (!permissions || permissions.length < 10) {
+      return 0o644;
+    }
+    let mode = 0;
+    for (let i = 1; i < 10; i++) {
+      mode = (mode << 1) | (permissions[i] === '-' ? 0 : 1);
+    }
+    return mode;
+  }
+
+  /**
+   * Compress data in the gzip format
+   * @param data Data to compress
+   * @param modified Modification time stored in the header
+   * @param name Original file name stored in the header, if any
+   */
+  public static async gzip(data: Uint8Array, modified: Date, name?: string): Promise<Uint8Array> {
+    const compressed = await this.pipe(data, new CompressionStream('gzip'));
+
+    // The stream writes a 10 byte header without time or name, which are filled in here
+    const header = compressed.slice(0, 10);
+    new DataView(header.buffer).setUint32(4, Math.floor(modified.getTime() / 1000), true);
+    if (!name) {
+      return this.concat([header, compressed.subarray(10)]);
+    }
+    header[3] |= 0x08;
+    return this.concat([header, new TextEncoder().encode(name), new Uint8Array(1), compressed.subarray(10)]);
+  }
+
+  /**
+   * Decompress gzip data
+   * @returns The data, with the modification time and file name of the header when present
+   * @throws Error when the data is not in the gzip format or is corrupt
+   */
+  public static async gunzip(data: Uint8Array): Promise<{ data: Uint8Array; modified: Date | null; name: string | null }> {
+    if (!this.isGzip(data)) {
+      throw new Error('not in gzip format');
+    }
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const seconds = view.getUint32(4, true);
+    let name: string | null = null;
+    if (data[3] & 0x08) {
+      // The name follows the header and the optional extra field
+      let offset = 10;
+      if (data[3] & 0x04) {
+        offset += 2 + view.getUint16(10, true);
+      }
+      const end = data.indexOf(0, offset);
+      if (end !== -1) {
+        name = new TextDecoder().decode(data.subarray(offset, end));
+      }
+    }
+
+    let decompressed: Uint8Array;
+    try {
+      decompressed = await this.pipe(data, new DecompressionStream('gzip'));
+    } catch {
+      throw new Error('invalid compressed data--format violated');
+    }
+    return { data: decompressed, modified: seconds > 0 ? new Date(seconds * 1000) : null, name };
+  }
+
+  /**
+   * Check for the gzip magic number
+   */
+  public static isGzip(data: Uint8Array): boolean {
+    return data.length >= 18 && data[0] === 0x1f && data[1] === 0x8b && data[2] === 8;
+  }
+
+  public static concat(chunks: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      result.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return result;
+  }
+
+  private static async pipe(data: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+    const stream = new Blob([data.slice()]).stream().pipeThrough(transform);
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+}
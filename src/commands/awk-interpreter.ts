@@ -0,0 +1,1781 @@
+import { PosixRegex } from './posix-regex';
+
+/**
+ * Value of an awk variable; undefined is an uninitialized variable, which is both "" and 0
+ */
+type AwkValue = string | number | undefined;
+
+/**
+ * Associative array, indexed by strings (multiple subscripts are joined with SUBSEP)
+ */
+type AwkArray = Map<string, AwkValue>;
+
+/**
+ * Uninitialized variable passed to a function: it becomes an array of the caller
+ * when the function uses the parameter as one, like awk's pass by reference
+ */
+class UnsetArgument {
+  constructor(public readonly scope: Map<string, AwkVariable>, public readonly name: string) {}
+}
+
+type AwkVariable = AwkValue | AwkArray | UnsetArgument;
+
+type AwkExpression =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'regex'; regex: RegExp }
+  | { type: 'variable'; name: string }
+  | { type: 'index'; name: string; subscripts: AwkExpression[] }
+  | { type: 'field'; index: AwkExpression }
+  | { type: 'group'; expressions: AwkExpression[] }
+  | { type: 'assign'; operator: string; target: AwkExpression; value: AwkExpression }
+  | { type: 'conditional'; condition: AwkExpression; then: AwkExpression; else: AwkExpression }
+  | { type: 'binary'; operator: string; left: AwkExpression; right: AwkExpression }
+  | { type: 'match'; negate: boolean; left: AwkExpression; right: AwkExpression }
+  | { type: 'in'; subscripts: AwkExpression[]; name: string }
+  | { type: 'unary'; operator: string; operand: AwkExpression }
+  | { type: 'increment'; operator: string; prefix: boolean; target: AwkExpression }
+  | { type: 'call'; name: string; args: AwkExpression[] }
+  | { type: 'builtin'; name: string; args: AwkExpression[] };
+
+type AwkStatement =
+  | { type: 'block'; body: AwkStatement[] }
+  | { type: 'expression'; expression: AwkExpression }
+  | { type: 'print'; printf: boolean; args: AwkExpression[]; redirect?: { mode: string; target: AwkExpression } }
+  | { type: 'if'; condition: AwkExpression; then: AwkStatement; else?: AwkStatement }
+  | { type: 'while'; condition: AwkExpression; body: AwkStatement }
+  | { type: 'do'; body: AwkStatement; condition: AwkExpression }
+  | { type: 'for'; init?: AwkExpression; condition?: AwkExpression; update?: AwkExpression; body: AwkStatement }
+  | { type: 'forIn'; variable: string; array: string; body: AwkStatement }
+  | { type: 'delete'; name: string; subscripts?: AwkExpression[] }
+  | { type: 'exit'; code?: AwkExpression }
+  | { type: 'return'; value?: AwkExpression }
+  | { type: 'next' }
+  | { type: 'break' }
+  | { type: 'continue' };
+
+/**
+ * A pattern-action rule; a rule without action prints the record
+ */
+interface AwkRule {
+  kind: 'begin' | 'main' | 'end';
+  pattern?: AwkExpression;
+  endPattern?: AwkExpression;
+  action?: AwkStatement[];
+  inRange: boolean;
+}
+
+interface AwkFunction {
+  params: string[];
+  body: AwkStatement[];
+}
+
+interface Token {
+  type: 'number' | 'string' | 'regex' | 'name' | 'funcname' | 'builtin' | 'keyword' | 'newline' | 'operator' | 'eof';
+  value: string;
+  line: number;
+}
+
+// Control flow of the interpreted program, thrown through the evaluator
+class NextSignal {}
+class BreakSignal {}
+class ContinueSignal {}
+class ExitSignal {
+  constructor(public readonly code: number) {}
+}
+class ReturnSignal {
+  constructor(public readonly value: AwkValue) {}
+}
+
+const KEYWORDS = ['BEGIN', 'END', 'function', 'func', 'if', 'else', 'while', 'for', 'do', 'break', 'continue',
+  'next', 'exit', 'return', 'delete', 'in', 'getline', 'print', 'printf'];
+
+const BUILTINS = ['length', 'substr', 'index', 'split', 'sub', 'gsub', 'match', 'sprintf', 'tolower', 'toupper',
+  'int', 'sqrt', 'exp', 'log', 'sin', 'cos', 'atan2', 'rand', 'srand', 'close'];
+
+const OPERATORS = ['+=', '-=', '*=', '/=', '%=', '^=', '**=', '**', '==', '<=', '>=', '!=', '!~', '++', '--', '&&', '||', '>>',
+  '{', '}', '(', ')', '[', ']', ';', ',', '+', '-', '*', '/', '%', '^', '!', '>', '<', '|', '?', ':', '~', '$', '='];
+
+const ASSIGNMENT_OPERATORS = ['=', '+=', '-=', '*=', '/=', '%=', '^=', '**='];
+
+const COMPARISON_OPERATORS = ['<', '<=', '==', '!=', '>', '>='];
+
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*([eE][-+]?\d+)?|\.\d+([eE][-+]?\d+)?)/;
+
+/**
+ * Input and output of an awk program, provided by the awk command
+ */
+export interface AwkIO {
+  /**
+   * Write text to standard output
+   */
+  write(text: string): void;
+
+  /**
+   * Write the output of print > file and print >> file
+   * @param append Add to the end of the file instead of replacing it
+   */
+  writeFile(path: string, text: string, append: boolean): Promise<void>;
+
+  /**
+   * Called in loops, to let Ctrl+C stop long running programs
+   */
+  checkpoint(): Promise<void>;
+}
+
+/**
+ * Interpreter for awk programs
+ *
+ * Supports BEGIN and END, regex, expression and range patterns, fields with $n and NF,
+ * the usual statements and operators, associative arrays, user functions,
+ * print and printf with > and >> redirection, and the POSIX string and math functions.
+ * getline and output to commands are not supported.
+ */
+export class AwkInterpreter {
+  private rules: AwkRule[] = [];
+  private functions = new Map<string, AwkFunction>();
+
+  private globals = new Map<string, AwkVariable>();
+  private frames: Map<string, AwkVariable>[] = [];
+
+  private record: string = '';
+  private recordSeparator: string = ' ';
+  private fields: string[] | null = null;
+
+  private regexCache = new Map<string, RegExp>();
+  private outputFiles = new Map<string, { text: string; append: boolean }>();
+  private openedFiles = new Set<string>();
+  private seed: number = 0;
+  private randomState: number = 0;
+
+  private exitCode: number = 0;
+  private exited: boolean = false;
+
+  // Parser state
+  private tokens: Token[] = [];
+  private position: number = 0;
+  private calledFunctions: { name: string; line: number }[] = [];
+
+  /**
+   * Parse a program
+   * @param program Source of the program
+   * @param io Output and job control of the awk command
+   * @param env Environment variables, available as ENVIRON
+   * @throws Error for syntax errors, like "syntax error at source line 1 near '}'"
+   */
+  constructor(program: string, private readonly io: AwkIO, env: Record<string, string> = {}) {
+    this.tokens = this.tokenize(program);
+    this.parseProgram();
+
+    for (const [name, value] of Object.entries({
+      FS: ' ', OFS: ' ', ORS: '\n', RS: '\n', NR: 0, FNR: 0, FILENAME: '', SUBSEP: '\x1c',
+      RSTART: 0, RLENGTH: -1, CONVFMT: '%.6g', OFMT: '%.6g'
+    })) {
+      this.globals.set(name, value);
+    }
+    this.globals.set('ENVIRON', new Map(Object.entries(env)));
+    this.setArguments([]);
+  }
+
+  /**
+   * True when the program reads input: it has rules besides BEGIN
+   */
+  public get readsInput(): boolean {
+    return this.rules.some(rule => rule.kind !== 'begin');
+  }
+
+  /**
+   * True once the program has run exit; the remaining input should be skipped
+   */
+  public get hasExited(): boolean {
+    return this.exited;
+  }
+
+  /**
+   * Exit code given to exit, or 0
+   */
+  public get status(): number {
+    return this.exitCode;
+  }
+
+  /**
+   * Set ARGV and ARGC
+   * @param args Command line operands after the program; ARGV[0] is "awk"
+   */
+  public setArguments(args: string[]): void {
+    const argv: AwkArray = new Map();
+    ['awk', ...args].forEach((arg, index) => argv.set(String(index), arg));
+    this.globals.set('ARGV', argv);
+    this.globals.set('ARGC', argv.size);
+  }
+
+  /**
+   * Assign a variable from -v name=value or a name=value operand; escape sequences are processed
+   */
+  public assign(name: string, value: string): void {
+    this.setVariable(name, AwkInterpreter.unescape(value));
+  }
+
+  /**
+   * Start reading a new input file, setting FILENAME and resetting FNR
+   */
+  public setFilename(filename: string): void {
+    this.globals.set('FILENAME', filename);
+    this.globals.set('FNR', 0);
+  }
+
+  /**
+   * Run the BEGIN rules
+   */
+  public async begin(): Promise<void> {
+    await this.runRules('begin');
+  }
+
+  /**
+   * Run the main rules on an input record
+   * @param record The record, without its separator
+   */
+  public async processRecord(record: string): Promise<void> {
+    this.globals.set('NR', this.toNumber(this.globals.get('NR') as AwkValue) + 1);
+    this.globals.set('FNR', this.toNumber(this.globals.get('FNR') as AwkValue) + 1);
+    this.setRecord(record, true);
+    await this.runRules('main');
+  }
+
+  /**
+   * Run the END rules and write the output of redirected prints
+   */
+  public async end(): Promise<void> {
+    await this.runRules('end');
+    await this.flush();
+  }
+
+  /**
+   * Write the pending output of redirected prints
+   */
+  public async flush(): Promise<void> {
+    for (const path of Array.from(this.outputFiles.keys())) {
+      await this.closeFile(path);
+    }
+  }
+
+  private async runRules(kind: AwkRule['kind']): Promise<void> {
+    // exit in BEGIN or a main rule still runs END, exit in END stops it
+    if (this.exited && kind !== 'end') {
+      return;
+    }
+
+    try {
+      for (const rule of this.rules) {
+        if (rule.kind !== kind || (kind === 'main' && !await this.selects(rule))) {
+          continue;
+        }
+        if (rule.action) {
+          await this.executeAll(rule.action);
+        } else {
+          await this.print([], undefined);
+        }
+      }
+    } catch (error) {
+      if (error instanceof ExitSignal) {
+        this.exited = true;
+        this.exitCode = error.code;
+      } else if (!(error instanceof NextSignal)) {
+        throw error;
+      }
+    }
+  }
+
+  private async selects(rule: AwkRule): Promise<boolean> {
+    if (!rule.pattern) {
+      return true;
+    }
+    if (!rule.endPattern) {
+      return this.toBoolean(await this.evaluate(rule.pattern));
+    }
+
+    // A range is selected from a record matching the first pattern to one matching the second
+    if (!rule.inRange) {
+      if (!this.toBoolean(await this.evaluate(rule.pattern))) {
+        return false;
+      }
+      rule.inRange = !this.toBoolean(await this.evaluate(rule.endPattern));
+      return true;
+    }
+    if (this.toBoolean(await this.evaluate(rule.endPattern))) {
+      rule.inRange = false;
+    }
+    return true;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Statements
+  // ---------------------------------------------------------------------------
+
+  private async executeAll(statements: AwkStatement[]): Promise<void> {
+    for (const statement of statements) {
+      await this.execute(statement);
+    }
+  }
+
+  private async execute(statement: AwkStatement): Promise<void> {
+    switch (statement.type) {
+      case 'block':
+        await this.executeAll(statement.body);
+        break;
+      case 'expression':
+        await this.evaluate(statement.expression);
+        break;
+      case 'print':
+        await this.print(statement.args, statement.redirect, statement.printf);
+        break;
+      case 'if':
+        if (this.toBoolean(await this.evaluate(statement.condition))) {
+          await this.execute(statement.then);
+        } else if (statement.else) {
+          await this.execute(statement.else);
+        }
+        break;
+      case 'while':
+        while (this.toBoolean(await this.evaluate(statement.condition))) {
+          if (await this.runLoopBody(statement.body) === 'break') break;
+        }
+        break;
+      case 'do':
+        do {
+          if (await this.runLoopBody(statement.body) === 'break') break;
+        } while (this.toBoolean(await this.evaluate(statement.condition)));
+        break;
+      case 'for':
+        if (statement.init) await this.evaluate(statement.init);
+        while (!statement.condition || this.toBoolean(await this.evaluate(statement.condition))) {
+          if (await this.runLoopBody(statement.body) === 'break') break;
+          if (statement.update) await this.evaluate(statement.update);
+        }
+        break;
+      case 'forIn':
+        for (const key of Array.from(this.getArray(statement.array).keys())) {
+          this.setVariable(statement.variable, key);
+          if (await this.runLoopBody(statement.body) === 'break') break;
+        }
+        break;
+      case 'delete': {
+        const array = this.getArray(statement.name);
+        if (statement.subscripts) {
+          array.delete(await this.subscriptKey(statement.subscripts));
+        } else {
+          array.clear();
+        }
+        break;
+      }
+      case 'exit':
+        throw new ExitSignal(statement.code ? Math.trunc(this.toNumber(await this.evaluate(statement.code))) : this.exitCode);
+      case 'return':
+        throw new ReturnSignal(statement.value ? await this.evaluate(statement.value) : undefined);
+      case 'next':
+        throw new NextSignal();
+      case 'break':
+        throw new BreakSignal();
+      case 'continue':
+        throw new ContinueSignal();
+    }
+  }
+
+  private async runLoopBody(body: AwkStatement): Promise<'break' | 'continue' | undefined> {
+    await this.io.checkpoint();
+    try {
+      await this.execute(body);
+    } catch (error) {
+      if (error instanceof BreakSignal) return 'break';
+      if (error instanceof ContinueSignal) return 'continue';
+      throw error;
+    }
+    return undefined;
+  }
+
+  private async print(args: AwkExpression[], redirect?: { mode: string; target: AwkExpression }, printf: boolean = false): Promise<void> {
+    // print (a, b) is the same as print a, b
+    if (args.length === 1 && args[0].type === 'group') {
+      args = args[0].expressions;
+    }
+
+    const values: AwkValue[] = [];
+    for (const arg of args) {
+      values.push(await this.evaluate(arg));
+    }
+
+    let text: string;
+    if (printf) {
+      if (values.length === 0) {
+        throw new Error('printf: no format');
+      }
+      text = this.format(this.toString(values[0]), values.slice(1));
+    } else {
+      const fields = values.length === 0 ? [this.record] : values.map(value => this.toOutputString(value));
+      text = fields.join(this.getString('OFS')) + this.getString('ORS');
+    }
+
+    if (!redirect) {
+      this.io.write(text);
+      return;
+    }
+
+    if (redirect.mode === '|') {
+      throw new Error('output to commands is not supported');
+    }
+
+    // > replaces the file when it is first opened, later prints add to it until close()
+    const path = this.toString(await this.evaluate(redirect.target));
+    const output = this.outputFiles.get(path);
+    if (output) {
+      output.text += text;
+    } else {
+      this.outputFiles.set(path, { text, append: redirect.mode === '>>' || this.openedFiles.has(path) });
+    }
+    this.openedFiles.add(path);
+  }
+
+  private async closeFile(path: string): Promise<number> {
+    const output = this.outputFiles.get(path);
+    this.outputFiles.delete(path);
+    if (!output && !this.openedFiles.has(path)) {
+      return -1;
+    }
+    this.openedFiles.delete(path);
+    if (output) {
+      await this.io.writeFile(path, output.text, output.append);
+    }
+    return 0;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Expressions
+  // ---------------------------------------------------------------------------
+
+  private async evaluate(expression: AwkExpression): Promise<AwkValue> {
+    switch (expression.type) {
+      case 'number':
+        return expression.value;
+      case 'string':
+        return expression.value;
+      case 'regex':
+        return expression.regex.test(this.record) ? 1 : 0;
+      case 'variable':
+        return this.getVariable(expression.name);
+      case 'index': {
+        const array = this.getArray(expression.name);
+        const key = await this.subscriptKey(expression.subscripts);
+        // Referencing an element creates it, like in awk
+        if (!array.has(key)) array.set(key, undefined);
+        return array.get(key);
+      }
+      case 'field':
+        return this.getField(this.toNumber(await this.evaluate(expression.index)));
+      case 'group':
+        throw new Error('syntax error: unexpected list of expressions');
+      case 'assign':
+        return this.evaluateAssignment(expression.operator, expression.target, expression.value);
+      case 'conditional':
+        return this.toBoolean(await this.evaluate(expression.condition))
+          ? this.evaluate(expression.then)
+          : this.evaluate(expression.else);
+      case 'binary':
+        return this.evaluateBinary(expression.operator, expression.left, expression.right);
+      case 'match': {
+        const text = this.toString(await this.evaluate(expression.left));
+        const matches = (await this.toRegex(expression.right)).test(text);
+        return matches !== expression.negate ? 1 : 0;
+      }
+      case 'in': {
+        const key = await this.subscriptKey(expression.subscripts);
+        return this.getArray(expression.name).has(key) ? 1 : 0;
+      }
+      case 'unary': {
+        const value = await this.evaluate(expression.operand);
+        if (expression.operator === '!') return this.toBoolean(value) ? 0 : 1;
+        return expression.operator === '-' ? -this.toNumber(value) : this.toNumber(value);
+      }
+      case 'increment': {
+        const reference = await this.resolve(expression.target);
+        const value = this.toNumber(reference.get());
+        reference.set(expression.operator === '++' ? value + 1 : value - 1);
+        return expression.prefix ? reference.get() : value;
+      }
+      case 'call':
+        return this.callFunction(expression.name, expression.args);
+      case 'builtin':
+        return this.callBuiltin(expression.name, expression.args);
+    }
+  }
+
+  private async evaluateAssignment(operator: string, target: AwkExpression, valueExpression: AwkExpression): Promise<AwkValue> {
+    const reference = await this.resolve(target);
+    let value = await this.evaluate(valueExpression);
+    if (operator !== '=') {
+      value = this.arithmetic(operator.replace(/=$/, '').replace('**', '^'), this.toNumber(reference.get()), this.toNumber(value));
+    }
+    reference.set(value);
+    return value;
+  }
+
+  private async evaluateBinary(operator: string, leftExpression: AwkExpression, rightExpression: AwkExpression): Promise<AwkValue> {
+    if (operator === '&&') {
+      return this.toBoolean(await this.evaluate(leftExpression)) && this.toBoolean(await this.evaluate(rightExpression)) ? 1 : 0;
+    }
+    if (operator === '||') {
+      return this.toBoolean(await this.evaluate(leftExpression)) || this.toBoolean(await this.evaluate(rightExpression)) ? 1 : 0;
+    }
+
+    const left = await this.evaluate(leftExpression);
+    const right = await this.evaluate(rightExpression);
+
+    if (operator === ' ') {
+      return this.toString(left) + this.toString(right);
+    }
+    if (COMPARISON_OPERATORS.includes(operator)) {
+      return this.compare(operator, left, right) ? 1 : 0;
+    }
+    return this.arithmetic(operator, this.toNumber(left), this.toNumber(right));
+  }
+
+  private arithmetic(operator: string, left: number, right: number): number {
+    switch (operator) {
+      case '+': return left + right;
+      case '-': return left - right;
+      case '*': return left * right;
+      case '^': return Math.pow(left, right);
+      case '/':
+        if (right === 0) throw new Error('division by zero');
+        return left / right;
+      case '%':
+        if (right === 0) throw new Error('division by zero in %');
+        return left % right;
+    }
+    throw new Error(`unknown operator ${operator}`);
+  }
+
+  /**
+   * Compare numerically when both values look like numbers, otherwise as strings
+   */
+  private compare(operator: string, left: AwkValue, right: AwkValue): boolean {
+    let difference: number;
+    if (this.isNumeric(left) && this.isNumeric(right)) {
+      difference = this.toNumber(left) - this.toNumber(right);
+    } else {
+      const a = this.toString(left);
+      const b = this.toString(right);
+      difference = a < b ? -1 : a > b ? 1 : 0;
+    }
+
+    switch (operator) {
+      case '<': return difference < 0;
+      case '<=': return difference <= 0;
+      case '>': return difference > 0;
+      case '>=': return difference >= 0;
+      case '==': return difference === 0;
+      default: return difference !== 0;
+    }
+  }
+
+  /**
+   * Get a getter and setter for a variable, array element or field, evaluating subscripts once
+   */
+  private async resolve(target: AwkExpression): Promise<{ get: () => AwkValue; set: (value: AwkValue) => void }> {
+    switch (target.type) {
+      case 'variable':
+        return {
+          get: () => this.getVariable(target.name),
+          set: value => this.setVariable(target.name, value)
+        };
+      case 'index': {
+        const array = this.getArray(target.name);
+        const key = await this.subscriptKey(target.subscripts);
+        return {
+          get: () => array.get(key),
+          set: value => { array.set(key, value); }
+        };
+      }
+      case 'field': {
+        const index = this.toNumber(await this.evaluate(target.index));
+        return {
+          get: () => this.getField(index),
+          set: value => this.setField(index, this.toString(value))
+        };
+      }
+    }
+    throw new Error('assignment to a value that is not a variable');
+  }
+
+  private async subscriptKey(subscripts: AwkExpression[]): Promise<string> {
+    const keys: string[] = [];
+    for (const subscript of subscripts) {
+      keys.push(this.toString(await this.evaluate(subscript)));
+    }
+    return keys.join(this.getString('SUBSEP'));
+  }
+
+  private async callFunction(name: string, args: AwkExpression[]): Promise<AwkValue> {
+    const fn = this.functions.get(name)!;
+    if (args.length > fn.params.length) {
+      throw new Error(`function ${name} called with ${args.length} args, accepts only ${fn.params.length}`);
+    }
+    if (this.frames.length > 1000) {
+      throw new Error(`function ${name}: call stack too deep`);
+    }
+
+    // Arrays are passed by reference, everything else by value
+    const locals = new Map<string, AwkVariable>();
+    for (let i = 0; i < fn.params.length; i++) {
+      const arg = args[i];
+      if (arg?.type === 'variable') {
+        const scope = this.scopeOf(arg.name);
+        const variable = scope.get(arg.name);
+        if (variable instanceof Map || variable instanceof UnsetArgument) {
+          locals.set(fn.params[i], variable);
+          continue;
+        }
+        if (variable === undefined) {
+          locals.set(fn.params[i], new UnsetArgument(scope, arg.name));
+          continue;
+        }
+      }
+      locals.set(fn.params[i], arg ? await this.evaluate(arg) : undefined);
+    }
+
+    this.frames.push(locals);
+    try {
+      await this.executeAll(fn.body);
+      return undefined;
+    } catch (error) {
+      if (error instanceof ReturnSignal) {
+        return error.value;
+      }
+      throw error;
+    } finally {
+      this.frames.pop();
+    }
+  }
+
+  private async callBuiltin(name: string, args: AwkExpression[]): Promise<AwkValue> {
+    const values = async (from: number = 0): Promise<AwkValue[]> => {
+      const result: AwkValue[] = [];
+      for (const arg of args.slice(from)) {
+        result.push(await this.evaluate(arg));
+      }
+      return result;
+    };
+    const number = async (index: number) => this.toNumber(await this.evaluate(args[index]));
+    const string = async (index: number) => this.toString(await this.evaluate(args[index]));
+
+    switch (name) {
+      case 'length':
+        if (args.length === 0) return this.record.length;
+        if (args[0].type === 'variable' && this.scopeOf(args[0].name).get(args[0].name) instanceof Map) {
+          return this.getArray(args[0].name).size;
+        }
+        return (await string(0)).length;
+      case 'substr': {
+        const text = await string(0);
+        const start = Math.round(await number(1));
+        const end = args.length > 2 ? start + Math.round(await number(2)) : Infinity;
+        const from = Math.max(start, 1);
+        const to = Math.min(end, text.length + 1);
+        return to > from ? text.substring(from - 1, to - 1) : '';
+      }
+      case 'index':
+        return (await string(0)).indexOf(await string(1)) + 1;
+      case 'split': {
+        const text = await string(0);
+        if (args[1]?.type !== 'variable') throw new Error('split: second argument is not an array');
+        const array = this.getArray(args[1].name);
+        const parts = args.length > 2
+          ? (args[2].type === 'regex' ? this.splitWithRegex(text, args[2].regex) : this.split(text, await string(2)))
+          : this.split(text, this.getString('FS'));
+        array.clear();
+        parts.forEach((part, index) => array.set(String(index + 1), part));
+        return parts.length;
+      }
+      case 'sub':
+      case 'gsub': {
+        const regex = await this.toRegex(args[0]);
+        const replacement = await string(1);
+        const target = args[2] ?? { type: 'field', index: { type: 'number', value: 0 } };
+        const reference = await this.resolve(target);
+        const result = this.substitute(this.toString(reference.get()), regex, replacement, name === 'gsub');
+        if (result.count > 0) {
+          reference.set(result.text);
+        }
+        return result.count;
+      }
+      case 'match': {
+        const match = (await this.toRegex(args[1])).exec(await string(0));
+        this.globals.set('RSTART', match ? match.index + 1 : 0);
+        this.globals.set('RLENGTH', match ? match[0].length : -1);
+        return match ? match.index + 1 : 0;
+      }
+      case 'sprintf': {
+        const [format, ...rest] = await values();
+        return this.format(this.toString(format), rest);
+      }
+      case 'tolower':
+        return (await string(0)).toLowerCase();
+      case 'toupper':
+        return (await string(0)).toUpperCase();
+      case 'int':
+        return Math.trunc(await number(0));
+      case 'sqrt':
+        return Math.sqrt(await number(0));
+      case 'exp':
+        return Math.exp(await number(0));
+      case 'log':
+        return Math.log(await number(0));
+      case 'sin':
+        return Math.sin(await number(0));
+      case 'cos':
+        return Math.cos(await number(0));
+      case 'atan2':
+        return Math.atan2(await number(0), await number(1));
+      case 'rand':
+        return this.random();
+      case 'srand': {
+        const previous = this.seed;
+        this.seed = args.length > 0 ? await number(0) : Math.floor(Date.now() / 1000);
+        this.randomState = this.seed;
+        return previous;
+      }
+      case 'close':
+        return this.closeFile(await string(0));
+    }
+    throw new Error(`function ${name} is not supported`);
+  }
+
+  /**
+   * Replace the first or every match of a regex; & in the replacement is the matched text, \& a literal &
+   */
+  private substitute(text: string, regex: RegExp, replacement: string, global: boolean): { text: string; count: number } {
+    const pattern = new RegExp(regex.source, regex.flags.includes('g') ? regex.flags : regex.flags + 'g');
+    let result = '';
+    let lastEnd = 0;
+    let count = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text)) !== null) {
+      const matched = match[0];
+      result += text.substring(lastEnd, match.index) + replacement.replace(/\\([\\&])|&/g, (escape, char) => char ?? matched);
+      lastEnd = match.index + matched.length;
+      count++;
+      if (!global) break;
+      if (matched.length === 0) {
+        // An empty match keeps the next character and moves past it
+        if (match.index < text.length) result += text[match.index];
+        lastEnd = match.index + 1;
+        pattern.lastIndex = match.index + 1;
+      }
+    }
+
+    return { text: result + text.substring(lastEnd), count };
+  }
+
+  /**
+   * Pseudo random number generator; like awk, the same seed gives the same numbers
+   */
+  private random(): number {
+    this.randomState = (this.randomState + 0x6D2B79F5) | 0;
+    let t = this.randomState;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  private async toRegex(expression: AwkExpression): Promise<RegExp> {
+    if (expression.type === 'regex') {
+      return expression.regex;
+    }
+    return this.compileRegex(this.toString(await this.evaluate(expression)));
+  }
+
+  private compileRegex(pattern: string): RegExp {
+    let regex = this.regexCache.get(pattern);
+    if (!regex) {
+      regex = PosixRegex.compile(pattern, true);
+      this.regexCache.set(pattern, regex);
+    }
+    return regex;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Variables, records and fields
+  // ---------------------------------------------------------------------------
+
+  private scopeOf(name: string): Map<string, AwkVariable> {
+    const frame = this.frames[this.frames.length - 1];
+    return frame && frame.has(name) ? frame : this.globals;
+  }
+
+  private getVariable(name: string): AwkValue {
+    if (name === 'NF') {
+      return this.getFields().length;
+    }
+    const variable = this.scopeOf(name).get(name);
+    if (variable instanceof Map) {
+      throw new Error(`attempt to use array ${name} in a scalar context`);
+    }
+    return variable instanceof UnsetArgument ? undefined : variable;
+  }
+
+  private setVariable(name: string, value: AwkValue): void {
+    if (name === 'NF') {
+      const count = Math.max(0, Math.trunc(this.toNumber(value)));
+      const fields = this.getFields().slice(0, count);
+      while (fields.length < count) fields.push('');
+      this.fields = fields;
+      this.record = fields.join(this.getString('OFS'));
+      return;
+    }
+    const scope = this.scopeOf(name);
+    if (scope.get(name) instanceof Map) {
+      throw new Error(`can't assign to ${name}; it's an array name.`);
+    }
+    scope.set(name, value);
+  }
+
+  private getArray(name: string): AwkArray {
+    const scope = this.scopeOf(name);
+    const variable = scope.get(name);
+    if (variable instanceof Map) {
+      return variable;
+    }
+    if (variable instanceof UnsetArgument) {
+      // Create the array in the scope of the caller, so it sees the elements
+      const array = this.resolveUnsetArgument(variable);
+      scope.set(name, array);
+      return array;
+    }
+    if (variable !== undefined) {
+      throw new Error(`can't use scalar ${name} as array`);
+    }
+    const array: AwkArray = new Map();
+    scope.set(name, array);
+    return array;
+  }
+
+  private resolveUnsetArgument(argument: UnsetArgument): AwkArray {
+    const variable = argument.scope.get(argument.name);
+    if (variable instanceof Map) {
+      return variable;
+    }
+    const array = variable instanceof UnsetArgument ? this.resolveUnsetArgument(variable) : new Map<string, AwkValue>();
+    argument.scope.set(argument.name, array);
+    return array;
+  }
+
+  private getString(name: string): string {
+    return this.toString(this.getVariable(name));
+  }
+
+  /**
+   * Set $0; records read from input are split with the FS in effect when they were read
+   */
+  private setRecord(record: string, fromInput: boolean = false): void {
+    this.record = record;
+    this.fields = null;
+    if (fromInput) {
+      this.recordSeparator = this.getString('FS');
+    }
+  }
+
+  private getFields(): string[] {
+    if (!this.fields) {
+      this.fields = this.split(this.record, this.recordSeparator);
+    }
+    return this.fields;
+  }
+
+  private getField(index: number): string {
+    index = Math.trunc(index);
+    if (index < 0) {
+      throw new Error(`attempt to access field ${index}`);
+    }
+    return index === 0 ? this.record : this.getFields()[index - 1] ?? '';
+  }
+
+  /**
+   * Set a field; $0 is split again, changing another field rebuilds $0 with OFS
+   */
+  private setField(index: number, value: string): void {
+    index = Math.trunc(index);
+    if (index < 0) {
+      throw new Error(`attempt to access field ${index}`);
+    }
+    if (index === 0) {
+      this.recordSeparator = this.getString('FS');
+      this.setRecord(value);
+      return;
+    }
+
+    const fields = this.getFields();
+    while (fields.length < index) fields.push('');
+    fields[index - 1] = value;
+    this.record = fields.join(this.getString('OFS'));
+  }
+
+  /**
+   * Split text into fields: " " splits on runs of blanks, another single character
+   * splits on that character, and longer separators are regular expressions
+   */
+  private split(text: string, separator: string): string[] {
+    if (separator === ' ') {
+      const trimmed = text.trim();
+      return trimmed === '' ? [] : trimmed.split(/[ \t\n]+/);
+    }
+    if (text === '') {
+      return [];
+    }
+    if (separator === '') {
+      return Array.from(text);
+    }
+    if (separator.length === 1 && separator !== '\\') {
+      return text.split(separator);
+    }
+    return this.splitWithRegex(text, this.compileRegex(separator));
+  }
+
+  private splitWithRegex(text: string, regex: RegExp): string[] {
+    if (text === '') {
+      return [];
+    }
+    const pattern = new RegExp(regex.source, regex.flags.includes('g') ? regex.flags : regex.flags + 'g');
+    const parts: string[] = [];
+    let lastEnd = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text)) !== null) {
+      if (match[0].length === 0) {
+        pattern.lastIndex++;
+        continue;
+      }
+      parts.push(text.substring(lastEnd, match.index));
+      lastEnd = match.index + match[0].length;
+    }
+    parts.push(text.substring(lastEnd));
+    return parts;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Conversions
+  // ---------------------------------------------------------------------------
+
+  private isNumeric(value: AwkValue): boolean {
+    if (typeof value !== 'string') {
+      return true;
+    }
+    const trimmed = value.trim();
+    const match = NUMBER_PATTERN.exec(trimmed);
+    return match !== null && match[0].length === trimmed.length;
+  }
+
+  private toNumber(value: AwkValue): number {
+    if (typeof value === 'number') return value;
+    if (value === undefined) return 0;
+    const match = NUMBER_PATTERN.exec(value.trim());
+    return match ? parseFloat(match[0]) : 0;
+  }
+
+  private toString(value: AwkValue): string {
+    if (typeof value === 'number') return this.numberToString(value, 'CONVFMT');
+    return value ?? '';
+  }
+
+  private toOutputString(value: AwkValue): string {
+    if (typeof value === 'number') return this.numberToString(value, 'OFMT');
+    return value ?? '';
+  }
+
+  private numberToString(value: number, formatVariable: string): string {
+    if (Number.isInteger(value) && Math.abs(value) < 1e16) {
+      return String(value);
+    }
+    if (!isFinite(value)) {
+      return isNaN(value) ? 'nan' : value < 0 ? '-inf' : 'inf';
+    }
+    return this.format(this.getString(formatVariable), [value]);
+  }
+
+  private toBoolean(value: AwkValue): boolean {
+    if (typeof value === 'number') return value !== 0;
+    if (value === undefined || value === '') return false;
+    return !(this.isNumeric(value) && this.toNumber(value) === 0);
+  }
+
+  /**
+   * Format values like printf: %c %d %i %o %u %x %X %e %E %f %F %g %G %s and %%,
+   * with the flags - + space # 0, a width and a precision (* takes them from the values)
+   */
+  private format(format: string, values: AwkValue[]): string {
+    let index = 0;
+    const next = (): AwkValue => values[index++];
+
+    return format.replace(/%([-+ #0]*)(\*|\d+)?(?:\.(\*|\d*))?([a-zA-Z%])/g, (spec, flags: string, widthSpec?: string, precisionSpec?: string, conversion?: string) => {
+      if (conversion === '%') {
+        return '%';
+      }
+
+      let width = widthSpec === '*' ? Math.trunc(this.toNumber(next())) : widthSpec ? parseInt(widthSpec, 10) : 0;
+      if (width < 0) {
+        flags += '-';
+        width = -width;
+      }
+      const precision = precisionSpec === '*' ? Math.trunc(this.toNumber(next()))
+        : precisionSpec !== undefined ? parseInt(precisionSpec || '0', 10) : undefined;
+
+      const value = next();
+      let sign = '';
+      let body: string;
+
+      switch (conversion) {
+        case 'c':
+          body = typeof value === 'number' ? String.fromCharCode(value) : this.toString(value).charAt(0);
+          break;
+        case 's':
+          body = this.toString(value);
+          if (precision !== undefined) body = body.substring(0, precision);
+          break;
+        case 'd':
+        case 'i':
+        case 'o':
+        case 'u':
+        case 'x':
+        case 'X': {
+          const number = Math.trunc(this.toNumber(value));
+          const radix = conversion === 'o' ? 8 : conversion === 'x' || conversion === 'X' ? 16 : 10;
+          body = isFinite(number) ? Math.abs(number).toString(radix) : 'inf';
+          if (conversion === 'X') body = body.toUpperCase();
+          if (precision !== undefined) body = body.padStart(precision, '0');
+          if (flags.includes('#') && number !== 0) body = (conversion === 'o' ? '0' : conversion === 'x' ? '0x' : conversion === 'X' ? '0X' : '') + body;
+          sign = number < 0 ? '-' : (conversion === 'd' || conversion === 'i') ? this.signFlag(flags) : '';
+          break;
+        }
+        case 'e':
+        case 'E':
+        case 'f':
+        case 'F':
+        case 'g':
+        case 'G': {
+          const number = this.toNumber(value);
+          body = this.formatFloat(Math.abs(number), conversion.toLowerCase(), precision ?? 6, flags.includes('#'));
+          if (conversion === 'E' || conversion === 'G' || conversion === 'F') body = body.toUpperCase();
+          sign = number < 0 || Object.is(number, -0) ? '-' : this.signFlag(flags);
+          break;
+        }
+        default:
+          // Unknown conversions are printed as they are
+          index--;
+          return spec;
+      }
+
+      const padding = width - sign.length - body.length;
+      if (padding <= 0) {
+        return sign + body;
+      }
+      if (flags.includes('-')) {
+        return sign + body + ' '.repeat(padding);
+      }
+      if (flags.includes('0') && !'cs'.includes(conversion!)) {
+        return sign + '0'.repeat(padding) + body;
+      }
+      return ' '.repeat(padding) + sign + body;
+    });
+  }
+
+  private signFlag(flags: string): string {
+    return flags.includes('+') ? '+' : flags.includes(' ') ? ' ' : '';
+  }
+
+  private formatFloat(value: number, conversion: string, precision: number, alternate: boolean): string {
+    if (!isFinite(value)) {
+      return isNaN(value) ? 'nan' : 'inf';
+    }
+
+    // C writes at least two digits in exponents
+    const exponential = (digits: number) => value.toExponential(digits).replace(/e([+-])(\d)$/, 'e$10$2');
+
+    if (conversion === 'f') {
+      return value.toFixed(precision);
+    }
+    if (conversion === 'e') {
+      return exponential(precision);
+    }
+
+    const significant = precision === 0 ? 1 : precision;
+    const exponent = value === 0 ? 0 : parseInt(value.toExponential(significant - 1).split('e')[1], 10);
+    let result = exponent < significant && exponent >= -4
+      ? value.toFixed(significant - 1 - exponent)
+      : exponential(significant - 1);
+
+    if (!alternate) {
+      const [mantissa, power] = result.split('e');
+      result = (mantissa.includes('.') ? mantissa.replace(/\.?0+$/, '') : mantissa) + (power ? 'e' + power : '');
+    }
+    return result;
+  }
+
+  /**
+   * Process the escape sequences of awk strings: \n \t \r \\ \" \/ \a \b \f \v and octal \ooo
+   */
+  private static unescape(text: string): string {
+    const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\', '"': '"', '/': '/', a: '\x07', b: '\b', f: '\f', v: '\v' };
+    return text.replace(/\\([0-7]{1,3}|.)/g, (escape, char: string) => {
+      if (/^[0-7]/.test(char)) return String.fromCharCode(parseInt(char, 8));
+      // Unknown escapes keep their backslash, so "\." still works as a regular expression
+      return escapes[char] ?? escape;
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Lexer
+  // ---------------------------------------------------------------------------
+
+  private tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let line = 1;
+    let i = 0;
+
+    const push = (type: Token['type'], value: string) => tokens.push({ type, value, line });
+
+    // A / after an operand is division, anywhere else it starts a regex
+    const regexAllowed = () => {
+      const previous = tokens[tokens.length - 1];
+      if (!previous) return true;
+      if (['number', 'string', 'regex', 'name', 'funcname'].includes(previous.type)) return false;
+      if (previous.type === 'builtin') return previous.value !== 'length';
+      return !(previous.type === 'operator' && [')', ']', '$', '++', '--'].includes(previous.value));
+    };
+
+    while (i < source.length) {
+      const char = source[i];
+
+      if (char === '\\' && source[i + 1] === '\n') {
+        i += 2;
+        line++;
+        continue;
+      }
+      if (char === ' ' || char === '\t' || char === '\r') {
+        i++;
+        continue;
+      }
+      if (char === '#') {
+        while (i < source.length && source[i] !== '\n') i++;
+        continue;
+      }
+      if (char === '\n') {
+        if (tokens.length > 0 && tokens[tokens.length - 1].type !== 'newline') push('newline', '\n');
+        line++;
+        i++;
+        continue;
+      }
+
+      if (char === '"') {
+        let value = '';
+        i++;
+        while (i < source.length && source[i] !== '"') {
+          if (source[i] === '\n') throw this.syntaxError('unterminated string', line);
+          if (source[i] === '\\' && i + 1 < source.length) {
+            value += source[i] + source[i + 1];
+            i += 2;
+          } else {
+            value += source[i++];
+          }
+        }
+        if (i >= source.length) throw this.syntaxError('unterminated string', line);
+        i++;
+        push('string', AwkInterpreter.unescape(value));
+        continue;
+      }
+
+      if (char === '/' && regexAllowed()) {
+        let value = '';
+        let inBracket = false;
+        i++;
+        while (i < source.length && (source[i] !== '/' || inBracket)) {
+          if (source[i] === '\n') throw this.syntaxError('unterminated regular expression', line);
+          if (source[i] === '\\' && i + 1 < source.length) {
+            value += source[i + 1] === '/' ? '/' : source[i] + source[i + 1];
+            i += 2;
+            continue;
+          }
+          if (source[i] === '[' && !inBracket) inBracket = true;
+          else if (source[i] === ']' && inBracket && !/\[\^?$/.test(value)) inBracket = false;
+          value += source[i++];
+        }
+        if (i >= source.length) throw this.syntaxError('unterminated regular expression', line);
+        i++;
+        push('regex', value);
+        continue;
+      }
+
+      const number = /^(\d+\.?\d*([eE][-+]?\d+)?|\.\d+([eE][-+]?\d+)?)/.exec(source.substring(i));
+      if (number) {
+        push('number', number[0]);
+        i += number[0].length;
+        continue;
+      }
+
+      const word = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.substring(i));
+      if (word) {
+        const name = word[0];
+        i += name.length;
+        if (KEYWORDS.includes(name)) push('keyword', name);
+        else if (BUILTINS.includes(name)) push('builtin', name);
+        else push(source[i] === '(' ? 'funcname' : 'name', name);
+        continue;
+      }
+
+      const operator = OPERATORS.find(candidate => source.startsWith(candidate, i));
+      if (!operator) {
+        throw this.syntaxError(`invalid character '${char}'`, line);
+      }
+      push('operator', operator);
+      i += operator.length;
+    }
+
+    push('eof', '');
+    return tokens;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Parser
+  // ---------------------------------------------------------------------------
+
+  private parseProgram(): void {
+    for (;;) {
+      this.skipTerminators();
+      const token = this.peek();
+      if (token.type === 'eof') break;
+
+      if (this.isKeyword('function') || this.isKeyword('func')) {
+        this.parseFunction();
+        continue;
+      }
+      if (this.isKeyword('BEGIN') || this.isKeyword('END')) {
+        this.advance();
+        this.skipNewlines();
+        this.rules.push({ kind: token.value === 'BEGIN' ? 'begin' : 'end', action: this.parseBlock(), inRange: false });
+        continue;
+      }
+
+      const rule: AwkRule = { kind: 'main', inRange: false };
+      if (!this.isOperator('{')) {
+        rule.pattern = this.parseExpression();
+        if (this.isOperator(',')) {
+          this.advance();
+          this.skipNewlines();
+          rule.endPattern = this.parseExpression();
+        }
+      }
+      if (this.isOperator('{')) {
+        rule.action = this.parseBlock();
+      }
+      this.rules.push(rule);
+
+      // Rules with an action can be followed by another rule on the same line
+      const next = this.peek();
+      if (!rule.action && next.type !== 'newline' && next.type !== 'eof' && !this.isOperator(';')) {
+        throw this.syntaxError(`syntax error near '${next.value}'`, next.line);
+      }
+    }
+
+    for (const call of this.calledFunctions) {
+      if (!this.functions.has(call.name)) {
+        throw this.syntaxError(`calling undefined function ${call.name}`, call.line);
+      }
+    }
+  }
+
+  private parseFunction(): void {
+    this.advance();
+    const nameToken = this.advance();
+    if (nameToken.type !== 'name' && nameToken.type !== 'funcname') {
+      throw this.syntaxError(`syntax error near '${nameToken.value}'`, nameToken.line);
+    }
+    if (this.functions.has(nameToken.value)) {
+      throw this.syntaxError(`function ${nameToken.value} redefined`, nameToken.line);
+    }
+
+    this.expectOperator('(');
+    const params: string[] = [];
+    while (!this.isOperator(')')) {
+      const param = this.advance();
+      if (param.type !== 'name') {
+        throw this.syntaxError(`syntax error near '${param.value}'`, param.line);
+      }
+      params.push(param.value);
+      if (this.isOperator(',')) {
+        this.advance();
+        this.skipNewlines();
+      } else if (!this.isOperator(')')) {
+        throw this.syntaxError(`syntax error near '${this.peek().value}'`, this.peek().line);
+      }
+    }
+    this.advance();
+    this.skipNewlines();
+
+    // Declare the function before its body, for recursive calls
+    const fn: AwkFunction = { params, body: [] };
+    this.functions.set(nameToken.value, fn);
+    fn.body = this.parseBlock();
+  }
+
+  private parseBlock(): AwkStatement[] {
+    this.expectOperator('{');
+    const body: AwkStatement[] = [];
+    for (;;) {
+      this.skipTerminators();
+      if (this.isOperator('}')) {
+        this.advance();
+        return body;
+      }
+      if (this.peek().type === 'eof') {
+        throw this.syntaxError("missing '}'", this.peek().line);
+      }
+      body.push(this.parseStatement());
+    }
+  }
+
+  private parseStatement(): AwkStatement {
+    const token = this.peek();
+
+    if (this.isOperator('{')) {
+      return { type: 'block', body: this.parseBlock() };
+    }
+    if (this.isOperator(';')) {
+      this.advance();
+      return { type: 'block', body: [] };
+    }
+
+    if (token.type === 'keyword') {
+      switch (token.value) {
+        case 'if': {
+          this.advance();
+          const condition = this.parseCondition();
+          const then = this.parseBody();
+          const saved = this.position;
+          this.skipTerminators();
+          if (this.isKeyword('else')) {
+            this.advance();
+            this.skipNewlines();
+            return { type: 'if', condition, then, else: this.parseStatement() };
+          }
+          this.position = saved;
+          return { type: 'if', condition, then };
+        }
+        case 'while': {
+          this.advance();
+          const condition = this.parseCondition();
+          return { type: 'while', condition, body: this.parseBody() };
+        }
+        case 'do': {
+          this.advance();
+          this.skipNewlines();
+          const body = this.parseStatement();
+          this.skipTerminators();
+          if (!this.isKeyword('while')) {
+            throw this.syntaxError(`syntax error near '${this.peek().value}'`, this.peek().line);
+          }
+          this.advance();
+          const condition = this.parseCondition();
+          this.endSimpleStatement();
+          return { type: 'do', body, condition };
+        }
+        case 'for':
+          return this.parseFor();
+      }
+    }
+
+    const statement = this.parseSimpleStatement();
+    this.endSimpleStatement();
+    return statement;
+  }
+
+  private parseCondition(): AwkExpression {
+    this.expectOperator('(');
+    const condition = this.parseExpression();
+    this.expectOperator(')');
+    return condition;
+  }
+
+  /**
+   * Parse the body of if, while and for, which may start on the next line
+   */
+  private parseBody(): AwkStatement {
+    if (this.isOperator(';')) {
+      this.advance();
+      return { type: 'block', body: [] };
+    }
+    this.skipNewlines();
+    return this.parseStatement();
+  }
+
+  private parseFor(): AwkStatement {
+    this.advance();
+    this.expectOperator('(');
+
+    // for (key in array)
+    const [name, keyword, array, close] = this.tokens.slice(this.position, this.position + 4);
+    if (name.type === 'name' && keyword.type === 'keyword' && keyword.value === 'in' && array.type === 'name' &&
+        close.type === 'operator' && close.value === ')') {
+      this.position += 4;
+      return { type: 'forIn', variable: name.value, array: array.value, body: this.parseBody() };
+    }
+
+    const init = this.isOperator(';') ? undefined : this.parseExpression();
+    this.expectOperator(';');
+    this.skipNewlines();
+    const condition = this.isOperator(';') ? undefined : this.parseExpression();
+    this.expectOperator(';');
+    this.skipNewlines();
+    const update = this.isOperator(')') ? undefined : this.parseExpression();
+    this.expectOperator(')');
+    return { type: 'for', init, condition, update, body: this.parseBody() };
+  }
+
+  private parseSimpleStatement(): AwkStatement {
+    const token = this.peek();
+
+    if (token.type === 'keyword') {
+      switch (token.value) {
+        case 'print':
+        case 'printf': {
+          this.advance();
+          const args: AwkExpression[] = [];
+          if (!this.atStatementEnd() && !this.isOperator('>') && !this.isOperator('>>') && !this.isOperator('|')) {
+            args.push(this.parseExpression(true));
+            while (this.isOperator(',')) {
+              this.advance();
+              this.skipNewlines();
+              args.push(this.parseExpression(true));
+            }
+          }
+          let redirect: { mode: string; target: AwkExpression } | undefined;
+          if (this.isOperator('>') || this.isOperator('>>') || this.isOperator('|')) {
+            const mode = this.advance().value;
+            redirect = { mode, target: this.parseConcatenation(true) };
+          }
+          return { type: 'print', printf: token.value === 'printf', args, redirect };
+        }
+        case 'next':
+          this.advance();
+          return { type: 'next' };
+        case 'break':
+          this.advance();
+          return { type: 'break' };
+        case 'continue':
+          this.advance();
+          return { type: 'continue' };
+        case 'exit':
+          this.advance();
+          return { type: 'exit', code: this.atStatementEnd() ? undefined : this.parseExpression() };
+        case 'return':
+          this.advance();
+          return { type: 'return', value: this.atStatementEnd() ? undefined : this.parseExpression() };
+        case 'delete': {
+          this.advance();
+          const name = this.advance();
+          if (name.type !== 'name') {
+            throw this.syntaxError(`syntax error near '${name.value}'`, name.line);
+          }
+          if (!this.isOperator('[')) {
+            return { type: 'delete', name: name.value };
+          }
+          this.advance();
+          const subscripts = this.parseExpressionList(']');
+          return { type: 'delete', name: name.value, subscripts };
+        }
+      }
+    }
+
+    return { type: 'expression', expression: this.parseExpression() };
+  }
+
+  private endSimpleStatement(): void {
+    if (this.isOperator(';') || this.peek().type === 'newline') {
+      this.advance();
+      return;
+    }
+    if (!this.isOperator('}') && this.peek().type !== 'eof') {
+      throw this.syntaxError(`syntax error near '${this.peek().value}'`, this.peek().line);
+    }
+  }
+
+  private atStatementEnd(): boolean {
+    return this.isOperator(';') || this.isOperator('}') || this.peek().type === 'newline' || this.peek().type === 'eof';
+  }
+
+  /**
+   * Parse an expression
+   * @param noGreater Stop at >, which is output redirection in print statements
+   */
+  private parseExpression(noGreater: boolean = false): AwkExpression {
+    const left = this.parseConditional(noGreater);
+    const token = this.peek();
+    if (token.type === 'operator' && ASSIGNMENT_OPERATORS.includes(token.value)) {
+      if (!this.isLValue(left)) {
+        throw this.syntaxError(`syntax error near '${token.value}'`, token.line);
+      }
+      this.advance();
+      this.skipNewlines();
+      return { type: 'assign', operator: token.value, target: left, value: this.parseExpression(noGreater) };
+    }
+    return left;
+  }
+
+  private parseConditional(noGreater: boolean): AwkExpression {
+    const condition = this.parseOr(noGreater);
+    if (!this.isOperator('?')) {
+      return condition;
+    }
+    this.advance();
+    this.skipNewlines();
+    const then = this.parseExpression(noGreater);
+    this.skipNewlines();
+    this.expectOperator(':');
+    this.skipNewlines();
+    return { type: 'conditional', condition, then, else: this.parseExpression(noGreater) };
+  }
+
+  private parseOr(noGreater: boolean): AwkExpression {
+    let left = this.parseAnd(noGreater);
+    while (this.isOperator('||')) {
+      this.advance();
+      this.skipNewlines();
+      left = { type: 'binary', operator: '||', left, right: this.parseAnd(noGreater) };
+    }
+    return left;
+  }
+
+  private parseAnd(noGreater: boolean): AwkExpression {
+    let left = this.parseIn(noGreater);
+    while (this.isOperator('&&')) {
+      this.advance();
+      this.skipNewlines();
+      left = { type: 'binary', operator: '&&', left, right: this.parseIn(noGreater) };
+    }
+    return left;
+  }
+
+  private parseIn(noGreater: boolean): AwkExpression {
+    let left = this.parseMatch(noGreater);
+    while (this.isKeyword('in')) {
+      this.advance();
+      const name = this.advance();
+      if (name.type !== 'name') {
+        throw this.syntaxError(`syntax error near '${name.value}'`, name.line);
+      }
+      left = { type: 'in', subscripts: left.type === 'group' ? left.expressions : [left], name: name.value };
+    }
+    return left;
+  }
+
+  private parseMatch(noGreater: boolean): AwkExpression {
+    let left = this.parseComparison(noGreater);
+    while (this.isOperator('~') || this.isOperator('!~')) {
+      const negate = this.advance().value === '!~';
+      left = { type: 'match', negate, left, right: this.parseComparison(noGreater) };
+    }
+    return left;
+  }
+
+  private parseComparison(noGreater: boolean): AwkExpression {
+    const left = this.parseConcatenation(noGreater);
+    const token = this.peek();
+    if (token.type === 'operator' && COMPARISON_OPERATORS.includes(token.value) && !(noGreater && token.value === '>')) {
+      this.advance();
+      return { type: 'binary', operator: token.value, left, right: this.parseConcatenation(noGreater) };
+    }
+    return left;
+  }
+
+  private parseConcatenation(noGreater: boolean): AwkExpression {
+    let left = this.parseAdditive();
+    while (this.startsConcatenation()) {
+      left = { type: 'binary', operator: ' ', left, right: this.parseAdditive() };
+    }
+    return left;
+  }
+
+  /**
+   * Check if the next token starts an operand that is concatenated to the previous one
+   */
+  private startsConcatenation(): boolean {
+    const token = this.peek();
+    if (['number', 'string', 'regex', 'name', 'funcname', 'builtin'].includes(token.type)) {
+      return true;
+    }
+    return token.type === 'operator' && (token.value === '$' || token.value === '(');
+  }
+
+  private parseAdditive(): AwkExpression {
+    let left = this.parseMultiplicative();
+    while (this.isOperator('+') || this.isOperator('-')) {
+      const operator = this.advance().value;
+      left = { type: 'binary', operator, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): AwkExpression {
+    let left = this.parseUnary();
+    while (this.isOperator('*') || this.isOperator('/') || this.isOperator('%')) {
+      const operator = this.advance().value;
+      left = { type: 'binary', operator, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): AwkExpression {
+    if (this.isOperator('!') || this.isOperator('-') || this.isOperator('+')) {
+      const operator = this.advance().value;
+      return { type: 'unary', operator, operand: this.parseUnary() };
+    }
+    return this.parseExponent();
+  }
+
+  private parseExponent(): AwkExpression {
+    const base = this.parseIncrement();
+    if (this.isOperator('^') || this.isOperator('**')) {
+      this.advance();
+      // Right associative, and the exponent may have a sign: 2^-1
+      return { type: 'binary', operator: '^', left: base, right: this.parseUnary() };
+    }
+    return base;
+  }
+
+  private parseIncrement(): AwkExpression {
+    if (this.isOperator('++') || this.isOperator('--')) {
+      const operator = this.advance().value;
+      const target = this.parsePrimary();
+      if (!this.isLValue(target)) {
+        throw this.syntaxError(`syntax error near '${operator}'`, this.peek().line);
+      }
+      return { type: 'increment', operator, prefix: true, target };
+    }
+
+    const primary = this.parsePrimary();
+    if ((this.isOperator('++') || this.isOperator('--')) && this.isLValue(primary)) {
+      return { type: 'increment', operator: this.advance().value, prefix: false, target: primary };
+    }
+    return primary;
+  }
+
+  private parsePrimary(): AwkExpression {
+    const token = this.advance();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: parseFloat(token.value) };
+      case 'string':
+        return { type: 'string', value: token.value };
+      case 'regex':
+        try {
+          return { type: 'regex', regex: PosixRegex.compile(token.value, true) };
+        } catch (error) {
+          throw this.syntaxError(error instanceof Error ? error.message : String(error), token.line);
+        }
+      case 'name':
+        if (this.isOperator('[')) {
+          this.advance();
+          return { type: 'index', name: token.value, subscripts: this.parseExpressionList(']') };
+        }
+        return { type: 'variable', name: token.value };
+      case 'funcname':
+        this.expectOperator('(');
+        this.calledFunctions.push({ name: token.value, line: token.line });
+        return { type: 'call', name: token.value, args: this.isOperator(')') ? (this.advance(), []) : this.parseExpressionList(')') };
+      case 'builtin':
+        if (!this.isOperator('(')) {
+          if (token.value === 'length') return { type: 'builtin', name: 'length', args: [] };
+          throw this.syntaxError(`syntax error near '${token.value}'`, token.line);
+        }
+        this.advance();
+        return { type: 'builtin', name: token.value, args: this.isOperator(')') ? (this.advance(), []) : this.parseExpressionList(')') };
+      case 'operator':
+        if (token.value === '$') {
+          // $i++ increments the field, $++i the index
+          const index = this.isOperator('++') || this.isOperator('--') ? this.parseIncrement() : this.parsePrimary();
+          return { type: 'field', index };
+        }
+        if (token.value === '(') {
+          const expressions = this.parseExpressionList(')');
+          return expressions.length === 1 ? expressions[0] : { type: 'group', expressions };
+        }
+        if (token.value === '-' || token.value === '+' || token.value === '!') {
+          return { type: 'unary', operator: token.value, operand: this.parseUnary() };
+        }
+        break;
+      case 'keyword':
+        if (token.value === 'getline') {
+          throw this.syntaxError('getline is not supported', token.line);
+        }
+        break;
+    }
+
+    throw this.syntaxError(token.type === 'eof' ? 'unexpected end of program' : `syntax error near '${token.value.replace('\n', '\\n')}'`, token.line);
+  }
+
+  /**
+   * Parse expressions separated by commas, up to and including the closing token
+   */
+  private parseExpressionList(close: string): AwkExpression[] {
+    const expressions: AwkExpression[] = [this.parseExpression()];
+    while (this.isOperator(',')) {
+      this.advance();
+      this.skipNewlines();
+      expressions.push(this.parseExpression());
+    }
+    this.expectOperator(close);
+    return expressions;
+  }
+
+  private isLValue(expression: AwkExpression): boolean {
+    return expression.type === 'variable' || expression.type === 'index' || expression.type === 'field';
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private advance(): Token {
+    const token = this.tokens[this.position];
+    if (token.type !== 'eof') this.position++;
+    return token;
+  }
+
+  private isOperator(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'operator' && token.value === value;
+  }
+
+  private isKeyword(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'keyword' && token.value === value;
+  }
+
+  private expectOperator(value: string): void {
+    if (!this.isOperator(value)) {
+      const token = this.peek();
+      throw this.syntaxError(token.type === 'eof' ? `missing '${value}'` : `syntax error near '${token.value.replace('\n', '\\n')}'`, token.line);
+    }
+    this.advance();
+  }
+
+  private skipNewlines(): void {
+    while (this.peek().type === 'newline') this.advance();
+  }
+
+  private skipTerminators(): void {
+    while (this.peek().type === 'newline' || this.isOperator(';')) this.advance();
+  }
+
+  private syntaxError(message: string, line: number): Error {
+    return new Error(`${message} at source line ${line}`);
+  }
+}
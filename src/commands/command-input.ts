@@ -0,0 +1,81 @@
+import { CommandContext } from './command-processor';
+import { CommandPipe } from './command-pipe';
+
+/**
+ * Helper class for commands that read files given as operands, or standard input
+ * when there are none, like cat. The file name - also stands for standard input.
+ */
+export class CommandInput {
+  /**
+   * Read the lines of files one after the other, as one stream
+   * Files that cannot be read are reported like "cut: notes: No such file or directory" and skipped.
+   * @param files File operands of the command
+   * @param context Context providing standard input and the working directory
+   * @param command Name of the command, for error messages
+   * @param failed Receives the files that could not be read
+   * @returns The lines without their newlines
+   */
+  public static async *lines(files: string[], context: CommandContext, command: string, failed: string[] = []): AsyncGenerator<string> {
+    for (const file of files.length > 0 ? files : ['-']) {
+      if (file === '-') {
+        yield* CommandPipe.lines(context.stdin);
+        continue;
+      }
+
+      const content = await this.read(file, context, command);
+      if (content === null) {
+        failed.push(file);
+        continue;
+      }
+      yield* this.splitLines(content);
+    }
+  }
+
+  /**
+   * Read a whole file, or standard input for -
+   * @returns The content, or null after reporting that the file cannot be read
+   */
+  public static async read(file: string, context: CommandContext, command: string): Promise<string | null> {
+    if (file === '-') {
+      return context.stdin.read();
+    }
+
+    const fileSystem = context.os.getFileSystem();
+    const path = fileSystem.parsePath(file, context.cwd);
+    if (!await fileSystem.exists(path)) {
+      context.stderr.writeLine(`${command}: ${file}: No such file or directory`);
+      return null;
+    }
+    if ((await fileSystem.stat(path)).isDirectory) {
+      context.stderr.writeLine(`${command}: ${file}: Is a directory`);
+      return null;
+    }
+    return fileSystem.readFile(path);
+  }
+
+  /**
+   * Read a whole file as bytes, or standard input (as UTF-8) for -.
+   * Binary files are read with readBinaryFile, text files are encoded as UTF-8.
+   * @returns The bytes, or null after reporting that the file cannot be read
+   */
+  public static async readBytes(file: string, context: CommandContext, command: string): Promise<Uint8Array | null> {
+    if (file === '-') {
+      return new TextEncoder().encode(await context.stdin.read());
+    }
+
+    const fileSystem = context.os.getFileSystem();
+    const path = fileSystem.parsePath(file, context.cwd);
+    if (await fileSystem.exists(path) && !(await fileSystem.stat(path)).isDirectory && await fileSystem.isBinaryFile(path)) {
+      return new Uint8Array(await fileSystem.readBinaryFile(path));
+    }
+    const content = await this.read(file, context, command);
+    return content === null ? null : new TextEncoder().encode(content);
+  }
+
+  /**
+   * Split text into lines; a final newline ends the last line instead of starting an empty one
+   */
+  public static splitLines(content: string): string[] {
+    return content === '' ? [] : content.replace(/\n$/, '').split('\n');
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Operator that joins a command to the previous one in a command list
+ */
+export type CommandListOperator = ';' | '&&' | '||';
+
+/**
+ * Interface for one command of a command list
+ */
+export interface CommandListEntry {
+  /**
+   * The command (which may still contain pipes and redirections)
+   */
+  command: string;
+
+  /**
+   * How this command depends on the previous one; null for the first command
+   */
+  operator: CommandListOperator | null;
+}
+
+/**
+ * Helper class for shell command lists (cmd1 && cmd2 || cmd3; cmd4)
+ */
+export class CommandList {
+  /**
+   * Split a command line on unquoted ;, && and || operators, outside of $( ) and $(( ))
+   * @param commandStr The command line to split
+   * @returns The commands in order, each with the operator that precedes it
+   * @throws Error on a dangling operator, like bash's syntax errors
+   */
+  public static parse(commandStr: string): CommandListEntry[] {
+    const entries: CommandListEntry[] = [];
+    let current = '';
+    let operator: CommandListOperator | null = null;
+    let inQuotes = false;
+    let quoteChar = '';
+    let escapeNext = false;
+    let depth = 0;
+
+    const pushEntry = (next: CommandListOperator | null, token: string) => {
+      const command = current.trim();
+      if (!command) {
+        // An empty command is only allowed after a trailing ';'
+        if (next !== null || (operator !== null && operator !== ';')) {
+          throw new Error(`syntax error near unexpected token \`${token}'`);
+        }
+      } else {
+        entries.push({ command, operator });
+      }
+      current = '';
+      operator = next;
+    };
+
+    for (let i = 0; i < commandStr.length; i++) {
+      const char = commandStr[i];
+
+      if (escapeNext) {
+        current += char;
+        escapeNext = false;
+        continue;
+      }
+
+      if (char === '\\' && !(inQuotes && quoteChar === "'")) {
+        current += char;
+        escapeNext = true;
+        continue;
+      }
+
+      if ((char === '"' || char === "'") && (!inQuotes || char === quoteChar)) {
+        inQuotes = !inQuotes;
+        quoteChar = char;
+        current += char;
+        continue;
+      }
+
+      if (!inQuotes && char === '(') {
+        depth++;
+      } else if (!inQuotes && char === ')') {
+        depth = Math.max(0, depth - 1);
+      } else if (!inQuotes && depth === 0) {
+        const pair = commandStr.substring(i, i + 2);
+        if (pair === '&&' || pair === '||') {
+          pushEntry(pair, pair);
+          i++;
+          continue;
+        }
+
+        if (char === ';') {
+          pushEntry(';', ';');
+          continue;
+        }
+
+        // Newlines separate commands like ';', but blank lines and a line ending in && or || are allowed
+        if (char === '\n') {
+          if (current.trim()) {
+            pushEntry(';', 'newline');
+          }
+          continue;
+        }
+      }
+
+      current += char;
+    }
+
+    if (current.trim()) {
+      entries.push({ command: current.trim(), operator });
+    } else if (operator === '&&' || operator === '||') {
+      throw new Error(`syntax error near unexpected token \`newline'`);
+    }
+
+    return entries;
+  }
+
+  /**
+   * Split a command on unquoted | into the commands of a pipeline
+   * @param commandStr One command of a command list
+   * @returns The commands in order; a single command when there is no pipe
+   * @throws Error when a command of the pipeline is empty, like bash's syntax errors
+   */
+  public static splitPipeline(commandStr: string): string[] {
+    const commands: string[] = [];
+    let current = '';
+    let inQuotes = false;
+    let quoteChar = '';
+    let depth = 0;
+
+    for (let i = 0; i < commandStr.length; i++) {
+      const char = commandStr[i];
+
+      if (char === '\\' && !(inQuotes && quoteChar === "'")) {
+        current += char + (commandStr[i + 1] ?? '');
+        i++;
+        continue;
+      }
+
+      if ((char === '"' || char === "'") && (!inQuotes || char === quoteChar)) {
+        inQuotes = !inQuotes;
+        quoteChar = char;
+      } else if (!inQuotes && char === '(') {
+        depth++;
+      } else if (!inQuotes && char === ')') {
+        depth = Math.max(0, depth - 1);
+      } else if (!inQuotes && depth === 0 && char === '|' && commandStr[i + 1] !== '|' && commandStr[i - 1] !== '|') {
+        // "|" inside $(( )) is arithmetic, "||" is a list operator
+        if (!current.trim()) {
+          throw new Error("syntax error near unexpected token `|'");
+        }
+        commands.push(current.trim());
+        current = '';
+        continue;
+      }
+
+      current += char;
+    }
+
+    if (!current.trim()) {
+      if (commands.length > 0) {
+        throw new Error("syntax error near unexpected token `|'");
+      }
+      return [];
+    }
+    commands.push(current.trim());
+    return commands;
+  }
+
+  /**
+   * Check for a trailing unquoted & that runs the command line in the background
+   * @param commandStr The command line
+   * @returns The command line without the &, or null if it does not end in one
+   */
+  public static stripBackground(commandStr: string): string | null {
+    const trimmed = commandStr.trim();
+    if (!trimmed.endsWith('&') || trimmed.endsWith('&&')) {
+      return null;
+    }
+
+    // The & must not be escaped or quoted
+    let inQuotes = false;
+    let quoteChar = '';
+    for (let i = 0; i < trimmed.length - 1; i++) {
+      const char = trimmed[i];
+      if (char === '\\' && !(inQuotes && quoteChar === "'")) {
+        if (i === trimmed.length - 2) return null;
+        i++;
+      } else if ((char === '"' || char === "'") && (!inQuotes || char === quoteChar)) {
+        inQuotes = !inQuotes;
+        quoteChar = char;
+      }
+    }
+    if (inQuotes) {
+      return null;
+    }
+
+    const command = trimmed.slice(0, -1).trim();
+    if (!command || command.endsWith(';') || command.endsWith('|')) {
+      throw new Error("syntax error near unexpected token `&'");
+    }
+    return command;
+  }
+
+  /**
+   * Decide whether a command should run given the previous exit code
+   */
+  public static shouldRun(operator: CommandListOperator | null, lastExitCode: number): boolean {
+    if (operator === '&&') {
+      return lastExitCode === 0;
+    }
+    if (operator === '||') {
+      return lastExitCode !== 0;
+    }
+    return true;
+  }
+}
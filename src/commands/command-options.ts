@@ -0,0 +1,323 @@
+/**
+ * Declaration of a command line option
+ */
+export interface CommandOption {
+  /**
+   * Long name, used as --name and as the key of the value in CommandArgs
+   */
+  name: string;
+
+  /**
+   * Forms used with a single dash: one letter (-c, can be combined like -la)
+   * or a word (-name, as in find; a value can follow it as -name=value).
+   * Several can be given, like ['r', 'R'].
+   */
+  alias?: string | string[];
+
+  /**
+   * Type of the value; boolean options take no value
+   */
+  type: 'boolean' | 'string' | 'number';
+
+  /**
+   * The option may be given more than once. Values are collected in an array,
+   * a repeated boolean option counts how often it was given (-vv is 2).
+   */
+  repeatable?: boolean;
+
+  /**
+   * The value of a string option may be left out. It is then only given attached,
+   * as --name=value (or -nvalue), and --name alone gives an empty string.
+   */
+  optionalValue?: boolean;
+
+  /**
+   * Value when the option is not given
+   */
+  default?: string | number | boolean;
+
+  /**
+   * Name of the value in the help text, like "count" for -c <count>
+   */
+  valueName?: string;
+
+  /**
+   * One line description for the help text
+   */
+  description: string;
+}
+
+/**
+ * Error in the options of a command line, like an unknown option or a missing value
+ */
+export class CommandOptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandOptionError';
+  }
+}
+
+/**
+ * Result of parsing the arguments of a command
+ */
+export interface ParsedOptions {
+  /**
+   * Arguments that are not options, in order
+   */
+  args: string[];
+
+  /**
+   * Option values by long name
+   */
+  options: Record<string, any>;
+}
+
+/**
+ * Helper class for parsing command options from their declaration and generating the help text
+ */
+export class CommandOptions {
+  /**
+   * Parse arguments with an option declaration, like getopt_long:
+   * -abc combines flags, -c 4, -c4, --count 4 and --count=4 give values, and -- ends the options.
+   * @param argv Arguments after the command name
+   * @param declared Options of the command
+   * @param stopAtOperand End the options at the first argument that is not an option,
+   * like POSIX getopt, instead of accepting options anywhere
+   * @returns Arguments and option values; options not given get their default
+   * @throws CommandOptionError for unknown options, missing values and invalid numbers
+   */
+  public static parse(argv: string[], declared: CommandOption[], stopAtOperand: boolean = false): ParsedOptions {
+    const args: string[] = [];
+    const options: Record<string, any> = {};
+
+    for (const option of declared) {
+      if (option.repeatable) {
+        options[option.name] = option.type === 'boolean' ? 0 : [];
+      } else if (option.default !== undefined) {
+        options[option.name] = option.default;
+      } else if (option.type === 'boolean') {
+        options[option.name] = false;
+      }
+    }
+
+    // A negative number like -5 is an argument unless the command has digit options
+    const hasDigitOptions = declared.some(option => this.aliasesOf(option).some(alias => /^\d/.test(alias)));
+
+    for (let i = 0; i < argv.length; i++) {
+      const arg = argv[i];
+
+      if (arg === '--') {
+        args.push(...argv.slice(i + 1));
+        break;
+      }
+
+      if (arg.startsWith('--')) {
+        const equals = arg.indexOf('=');
+        const name = equals === -1 ? arg.substring(2) : arg.substring(2, equals);
+        const option = declared.find(candidate => candidate.name === name);
+        if (!option) {
+          throw new CommandOptionError(`unrecognized option '--${name}'`);
+        }
+
+        if (option.type === 'boolean') {
+          if (equals !== -1) {
+            throw new CommandOptionError(`option '--${name}' doesn't allow an argument`);
+          }
+          this.setValue(options, option, true, arg);
+        } else if (equals !== -1) {
+          this.setValue(options, option, arg.substring(equals + 1), arg);
+        } else if (option.optionalValue) {
+          this.setValue(options, option, '', arg);
+        } else if (i + 1 < argv.length) {
+          this.setValue(options, option, argv[++i], arg);
+        } else {
+          throw new CommandOptionError(`option '--${name}' requires an argument`);
+        }
+        continue;
+      }
+
+      if (!arg.startsWith('-') || arg === '-' || (!hasDigitOptions && /^-\d+$/.test(arg))) {
+        if (stopAtOperand) {
+          args.push(...argv.slice(i));
+          break;
+        }
+        args.push(arg);
+        continue;
+      }
+
+      // A word alias like -name is matched whole before splitting into letters
+      const wordEquals = arg.indexOf('=');
+      const word = wordEquals === -1 ? arg.substring(1) : arg.substring(1, wordEquals);
+      const wordOption = word.length > 1 ? declared.find(candidate => this.aliasesOf(candidate).includes(word)) : undefined;
+      if (wordOption) {
+        if (wordOption.type === 'boolean') {
+          if (wordEquals !== -1) {
+            throw new CommandOptionError(`option '-${word}' doesn't allow an argument`);
+          }
+          this.setValue(options, wordOption, true, arg);
+        } else if (wordEquals !== -1) {
+          this.setValue(options, wordOption, arg.substring(wordEquals + 1), arg);
+        } else if (wordOption.optionalValue) {
+          this.setValue(options, wordOption, '', arg);
+        } else if (i + 1 < argv.length) {
+          this.setValue(options, wordOption, argv[++i], arg);
+        } else {
+          throw new CommandOptionError(`option '${arg}' requires an argument`);
+        }
+        continue;
+      }
+
+      for (let j = 1; j < arg.length; j++) {
+        const letter = arg[j];
+        const option = declared.find(candidate => this.aliasesOf(candidate).includes(letter));
+        if (!option) {
+          throw new CommandOptionError(`invalid option -- '${letter}'`);
+        }
+
+        if (option.type === 'boolean') {
+          this.setValue(options, option, true, `-${letter}`);
+          continue;
+        }
+
+        // The rest of the word is the value (-c4), otherwise the next argument (-c 4)
+        if (j + 1 < arg.length) {
+          this.setValue(options, option, arg.substring(j + 1), `-${letter}`);
+        } else if (option.optionalValue) {
+          this.setValue(options, option, '', `-${letter}`);
+        } else if (i + 1 < argv.length) {
+          this.setValue(options, option, argv[++i], `-${letter}`);
+        } else {
+          throw new CommandOptionError(`option requires an argument -- '${letter}'`);
+        }
+        break;
+      }
+    }
+
+    return { args, options };
+  }
+
+  /**
+   * Get the options before the first operand, for commands whose options end there
+   * @param argv Arguments after the command name
+   * @param declared Options of the command
+   * @returns The leading options, or all arguments when they are not valid options
+   */
+  public static leadingOptions(argv: string[], declared: CommandOption[]): string[] {
+    try {
+      return argv.slice(0, argv.length - this.parse(argv, declared, true).args.length);
+    } catch {
+      return argv;
+    }
+  }
+
+  /**
+   * Parse arguments of a command that declares no options: every option is a flag,
+   * -abc sets a, b and c, and only --name=value gives a value
+   * @param argv Arguments after the command name
+   */
+  public static parseFlags(argv: string[]): ParsedOptions {
+    const args: string[] = [];
+    const options: Record<string, any> = {};
+
+    for (let i = 0; i < argv.length; i++) {
+      const arg = argv[i];
+
+      if (arg === '--') {
+        args.push(...argv.slice(i + 1));
+        break;
+      }
+
+      if (arg.startsWith('--')) {
+        const equals = arg.indexOf('=');
+        if (equals === -1) {
+          options[arg.substring(2)] = true;
+        } else {
+          options[arg.substring(2, equals)] = arg.substring(equals + 1);
+        }
+      } else if (arg.startsWith('-') && arg !== '-' && !/^-\d+$/.test(arg)) {
+        for (const letter of arg.substring(1)) {
+          options[letter] = true;
+        }
+      } else {
+        args.push(arg);
+      }
+    }
+
+    return { args, options };
+  }
+
+  /**
+   * Generate a usage text with the options section built from the declaration
+   * @param synopsis Command line syntax, like "ping [options] destination"
+   * @param declared Options of the command
+   * @param intro Text shown between the synopsis and the options
+   * @param epilogue Text shown after the options, like examples
+   */
+  public static formatUsage(synopsis: string, declared: CommandOption[], intro: string = '', epilogue: string = ''): string {
+    const sections = [`Usage: ${synopsis}`];
+    if (intro) {
+      sections.push(intro);
+    }
+
+    const options = [...declared, { name: 'help', type: 'boolean', description: 'Show this help' } as CommandOption];
+    const labels = options.map(option => this.formatLabel(option));
+    const width = Math.max(...labels.map(label => label.length)) + 2;
+    sections.push('Options:\n' + options.map((option, i) => {
+      let line = `  ${labels[i].padEnd(width)}${option.description}`;
+      if (option.default !== undefined && option.type !== 'boolean') {
+        line += ` (default: ${option.default})`;
+      }
+      return line;
+    }).join('\n'));
+
+    if (epilogue) {
+      sections.push(epilogue);
+    }
+    return sections.join('\n\n');
+  }
+
+  /**
+   * Format the forms of an option for the help text, like "-c, --count <count>"
+   */
+  private static formatLabel(option: CommandOption): string {
+    const aliases = this.aliasesOf(option);
+    const forms = aliases.map(alias => '-' + alias);
+    if (!aliases.includes(option.name)) {
+      forms.push('--' + option.name);
+    }
+
+    let label = forms.join(', ');
+    if (option.type !== 'boolean') {
+      const valueName = option.valueName ?? (option.type === 'number' ? 'n' : 'value');
+      label += option.optionalValue ? `[=${valueName}]` : ` <${valueName}>`;
+    }
+    // Long-only options line up with the long forms of the others
+    if (aliases.length === 0) {
+      label = '    ' + label;
+    }
+    return label;
+  }
+
+  private static aliasesOf(option: CommandOption): string[] {
+    if (option.alias === undefined) return [];
+    return Array.isArray(option.alias) ? option.alias : [option.alias];
+  }
+
+  private static setValue(options: Record<string, any>, option: CommandOption, value: string | true, given: string): void {
+    let parsed: string | number | boolean = value;
+    if (option.type === 'number') {
+      parsed = Number(value);
+      if (value === '' || isNaN(parsed)) {
+        throw new CommandOptionError(`invalid number for ${given}: '${value}'`);
+      }
+    }
+
+    if (!option.repeatable) {
+      options[option.name] = parsed;
+    } else if (option.type === 'boolean') {
+      options[option.name]++;
+    } else {
+      options[option.name].push(parsed);
+    }
+  }
+}
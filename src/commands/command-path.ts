@@ -0,0 +1,143 @@
+import { FileSystem } from '../core/filesystem';
+import { PathUtils } from '../core/path-utils';
+import { CommandContext } from './command-processor';
+
+/**
+ * Directory holding the files of the built-in commands
+ */
+export const BIN_DIRECTORY = '/bin';
+
+/**
+ * Directory holding the commands installed on this system, like loadCommandFromString's
+ */
+export const LOCAL_BIN_DIRECTORY = '/usr/local/bin';
+
+/**
+ * Directories searched when PATH is not set, like bash's default
+ */
+const DEFAULT_PATH = '/bin:/usr/bin';
+
+/**
+ * Commands that run inside the shell instead of being looked up in PATH, like bash's builtins.
+ * Most of them change the shell session itself, so they cannot run from a file.
+ */
+const SHELL_BUILTINS = ['.', '[', 'alias', 'bg', 'builtin', 'cd', 'echo', 'exit', 'export', 'false', 'fg', 'history', 'jobs', 'kill', 'logout', 'pwd', 'source', 'test', 'true', 'type', 'unalias', 'unset'];
+
+/**
+ * Builtins that also have a file in /bin, like /bin/echo on Linux
+ */
+const BUILTINS_WITH_FILES = ['[', 'echo', 'false', 'kill', 'pwd', 'test', 'true'];
+
+/**
+ * Helper class for finding commands through the PATH variable.
+ * Built-in commands have a small script in /bin that calls them with the builtin command;
+ * any other executable file in PATH runs with the command of its #! line, or as a shell script.
+ */
+export class CommandPath {
+  /**
+   * Check if a command runs inside the shell without looking it up in PATH
+   */
+  public static isShellBuiltin(name: string): boolean {
+    return SHELL_BUILTINS.includes(name);
+  }
+
+  /**
+   * Check if a built-in command gets a file in /bin
+   */
+  public static hasFile(name: string): boolean {
+    return !SHELL_BUILTINS.includes(name) || BUILTINS_WITH_FILES.includes(name);
+  }
+
+  /**
+   * Get the directories of PATH in search order
+   * @param context Context providing PATH and the working directory; an empty entry means the working directory
+   */
+  public static directories(context: CommandContext): string[] {
+    const fileSystem = context.os.getFileSystem();
+    return (context.env.PATH ?? DEFAULT_PATH).split(':')
+      .map(directory => directory ? fileSystem.parsePath(directory, context.cwd) : fileSystem.parsePath(context.cwd, '/'));
+  }
+
+  /**
+   * Find the executable files with a name in the directories of PATH
+   * @param name Name of the command
+   * @param context Context providing PATH
+   * @param all Return every match instead of only the first one
+   * @returns Absolute paths in search order; empty when the command is not found
+   */
+  public static async find(name: string, context: CommandContext, all: boolean = false): Promise<string[]> {
+    const fileSystem = context.os.getFileSystem();
+    const found: string[] = [];
+
+    for (const directory of this.directories(context)) {
+      const path = PathUtils.join(directory, name);
+      if (found.includes(path) || !await this.isExecutableFile(fileSystem, path)) {
+        continue;
+      }
+      found.push(path);
+      if (!all) break;
+    }
+
+    return found;
+  }
+
+  /**
+   * List the names of the executable files in the directories of PATH
+   * @param context Context providing PATH
+   */
+  public static async listExecutables(context: CommandContext): Promise<string[]> {
+    const fileSystem = context.os.getFileSystem();
+    const names = new Set<string>();
+
+    for (const directory of this.directories(context)) {
+      if (!await fileSystem.exists(directory)) continue;
+      for (const entry of await fileSystem.readDirectory(directory)) {
+        if (entry.type === 'file' && await fileSystem.canIExecute(PathUtils.join(directory, entry.name))) {
+          names.add(entry.name);
+        }
+      }
+    }
+
+    return Array.from(names);
+  }
+
+  /**
+   * Create the content of the /bin file of a built-in command
+   * @param name Name of the registered command the file runs
+   */
+  public static createStub(name: string): string {
+    return `#!/bin/sh\n# Built-in command of HackerOS, see 'man ${name}'\nbuiltin ${name} "$@"\n`;
+  }
+
+  /**
+   * Get the built-in command a file runs, when it is a stub made by createStub
+   * @returns The name of the command, or null for any other file
+   */
+  public static async readStub(fileSystem: FileSystem, path: string): Promise<string | null> {
+    const content = await fileSystem.readFile(path);
+    const match = /^#!\/bin\/sh\n(?:#.*\n)*builtin (\S+) "\$@"\n?$/.exec(content);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Get the command a script names on its #! line, like node for #!/usr/bin/env node
+   * @returns The name of the command, or null when the file has no #! line
+   */
+  public static async readInterpreter(fileSystem: FileSystem, path: string): Promise<string | null> {
+    const content = await fileSystem.readFile(path);
+    const match = /^#![ \t]*(\S+)(?:[ \t]+(\S+))?/.exec(content);
+    if (!match) {
+      return null;
+    }
+    const name = PathUtils.basename(match[1]);
+    return name === 'env' && match[2] ? match[2] : name;
+  }
+
+  private static async isExecutableFile(fileSystem: FileSystem, path: string): Promise<boolean> {
+    if (!await fileSystem.exists(path)) {
+      return false;
+    }
+    const stat = await fileSystem.stat(path);
+    return !stat.isDirectory && await fileSystem.canIExecute(path);
+  }
+}
@@ -0,0 +1,168 @@
+import { CommandInputStream, CommandOutputStream } from './command-processor';
+import { JobInterruptedError } from './job-control';
+
+/**
+ * Number of characters a pipe buffers before the writer has to wait (Linux's pipe size)
+ */
+const PIPE_CAPACITY = 65536;
+
+/**
+ * Exit code of a command that wrote to a pipe whose reader has exited (128 + SIGPIPE)
+ */
+export const BROKEN_PIPE_EXIT_CODE = 141;
+
+/**
+ * Thrown to a command writing to a pipe whose reader has exited, like SIGPIPE.
+ * It is a kind of interruption, so commands that stop cleanly on Ctrl+C also stop on it.
+ */
+export class BrokenPipeError extends JobInterruptedError {
+  constructor() {
+    super();
+    this.message = 'Broken pipe';
+    this.name = 'BrokenPipeError';
+  }
+}
+
+/**
+ * A pipe between two commands of a pipeline (cmd1 | cmd2).
+ * The writer's output is buffered until the reader takes it; once the buffer is full,
+ * drain() makes the writer wait, and once the reader has exited it throws BrokenPipeError.
+ */
+export class CommandPipe {
+  /**
+   * Output stream for the command writing to the pipe
+   */
+  public readonly output: CommandOutputStream;
+
+  /**
+   * Input stream for the command reading from the pipe
+   */
+  public readonly input: CommandInputStream;
+
+  private buffer: string = '';
+  private writerClosed: boolean = false;
+  private readerClosed: boolean = false;
+  private waitingReaders: (() => void)[] = [];
+  private waitingWriters: (() => void)[] = [];
+
+  constructor() {
+    this.output = {
+      write: (text: string) => this.push(text),
+      writeLine: (text: string) => this.push(text + '\n'),
+      clear: () => {},
+      drain: () => this.drain()
+    };
+
+    this.input = {
+      read: () => this.readAll(),
+      readLine: async () => (await this.readNextLine()) ?? '',
+      readChar: () => this.readChar(),
+      nextLine: () => this.readNextLine()
+    };
+  }
+
+  /**
+   * Close the writing end: the reader gets the rest of the buffer, then end of input
+   */
+  public closeWriter(): void {
+    this.writerClosed = true;
+    this.wake(this.waitingReaders);
+  }
+
+  /**
+   * Close the reading end: buffered and further output is discarded and the writer gets BrokenPipeError
+   */
+  public closeReader(): void {
+    this.readerClosed = true;
+    this.buffer = '';
+    this.wake(this.waitingWriters);
+  }
+
+  /**
+   * Read a stream line by line as the lines arrive. Streams that cannot be read
+   * line by line, like a redirected file, are read whole and then split.
+   * @param stream The input stream, usually context.stdin
+   * @returns The lines without their newlines
+   */
+  public static async *lines(stream: CommandInputStream): AsyncGenerator<string> {
+    if (stream.nextLine) {
+      let line: string | null;
+      while ((line = await stream.nextLine()) !== null) {
+        yield line;
+      }
+      return;
+    }
+
+    const content = await stream.read();
+    if (!content) return;
+    // A final newline ends the last line instead of starting an empty one
+    yield* content.replace(/\n$/, '').split('\n');
+  }
+
+  private push(text: string): void {
+    if (this.readerClosed || this.writerClosed || !text) return;
+    this.buffer += text;
+    this.wake(this.waitingReaders);
+  }
+
+  private async drain(): Promise<void> {
+    while (this.buffer.length >= PIPE_CAPACITY && !this.readerClosed) {
+      await new Promise<void>(resolve => this.waitingWriters.push(resolve));
+    }
+    if (this.readerClosed) {
+      throw new BrokenPipeError();
+    }
+  }
+
+  private async readAll(): Promise<string> {
+    let result = '';
+    for (;;) {
+      result += this.take(this.buffer.length);
+      if (this.writerClosed) {
+        return result;
+      }
+      await this.waitForData();
+    }
+  }
+
+  private async readNextLine(): Promise<string | null> {
+    for (;;) {
+      const newline = this.buffer.indexOf('\n');
+      if (newline !== -1) {
+        const line = this.take(newline + 1);
+        return line.substring(0, newline);
+      }
+      if (this.writerClosed) {
+        return this.buffer ? this.take(this.buffer.length) : null;
+      }
+      await this.waitForData();
+    }
+  }
+
+  private async readChar(): Promise<string> {
+    while (!this.buffer && !this.writerClosed) {
+      await this.waitForData();
+    }
+    return this.take(1);
+  }
+
+  /**
+   * Remove characters from the start of the buffer, letting a waiting writer continue
+   */
+  private take(length: number): string {
+    const text = this.buffer.substring(0, length);
+    this.buffer = this.buffer.substring(length);
+    if (this.buffer.length < PIPE_CAPACITY) {
+      this.wake(this.waitingWriters);
+    }
+    return text;
+  }
+
+  private waitForData(): Promise<void> {
+    return new Promise(resolve => this.waitingReaders.push(resolve));
+  }
+
+  private wake(waiting: (() => void)[]): void {
+    waiting.splice(0).forEach(resolve => resolve());
+  }
+}
@@ -1,12 +1,29 @@
 import { OS } from '../core/os';
 import { TerminalApp } from '../apps/terminal';
 import { Terminal } from 'xterm';
+import { CommandRedirection, RedirectedStreams } from './command-redirection';
+import { CommandList, CommandListEntry } from './command-list';
+import { ShellEnvironment } from './shell-environment';
+import { GlobExpansion } from './glob-expansion';
+import { ShellArithmetic } from './shell-arithmetic';
+import { CompletionRequest } from './tab-completion';
+import { CommandOption, CommandOptions, ParsedOptions } from './command-options';
+import { Job, JobTable, JobInterruptedError, INTERRUPTED_EXIT_CODE } from './job-control';
+import { CommandPipe, BrokenPipeError, BROKEN_PIPE_EXIT_CODE } from './command-pipe';
+import { CommandPath } from './command-path';
+import { PathUtils } from '../core/path-utils';
 
 /**
  * Interface for command arguments
  */
 export interface CommandArgs {
   args: string[];
+  
+  /**
+   * All arguments after variable expansion, in order and before option parsing.
+   * Used by commands that run other commands (like env) to keep their options intact.
+   */
+  argv?: string[];
   [key: string]: any;
 }
 
@@ -17,12 +34,29 @@ export interface CommandOutputStream {
   write(text: string): void;
   writeLine(text: string): void;
   clear(): void;
+  
+  /**
+   * Wait until the reader of a pipe has caught up (optional; see JobControl.checkpoint)
+   * @throws BrokenPipeError when the reader has exited
+   */
+  drain?(): Promise<void>;
 }
 
 export interface CommandInputStream {
   read(): Promise<string>;
   readLine(): Promise<string>;
   readChar(): Promise<string>;
+  
+  /**
+   * Read the next line as soon as it arrives, or null at the end of the input
+   * (optional; use CommandPipe.lines to read any stream line by line)
+   */
+  nextLine?(): Promise<string | null>;
+  
+  /**
+   * Read a line without echoing it, for passwords (optional; only terminals have it)
+   */
+  readPassword?(): Promise<string>;
 }
 
 /**
@@ -50,6 +84,42 @@ export interface CommandContext {
   stdout: CommandOutputStream;
   stderr: CommandOutputStream;
   env: Record<string, string>;
+
+  /**
+   * Shell aliases of the session (alias ll='ls -l'), expanded in the first word of each command
+   */
+  aliases?: Record<string, string>;
+
+  /**
+   * Exit code of the last command run in this context (the shell's `$?`)
+   */
+  lastExitCode?: number;
+  
+  /**
+   * Positional parameters of a running script or function: [0] is `$0`, then `$1`, `$2`...
+   */
+  positionalArgs?: string[];
+  
+  /**
+   * Aborted when the user presses Ctrl+C; long-running commands should stop when it is
+   */
+  signal?: AbortSignal;
+  
+  /**
+   * Job the command runs in, for commands that pause while it is stopped (see JobControl.checkpoint)
+   */
+  job?: Job;
+  
+  /**
+   * Jobs of the terminal session, used by jobs, fg and bg
+   */
+  jobs?: JobTable;
+
+  /**
+   * Find a function or builtin of the running shell script (optional). They are found before
+   * any other command and get the redirections and pipes of their call like other commands.
+   */
+  shellCommand?(name: string): CommandModule | undefined;
   
   /**
    * Reference to the terminal app that created this context
@@ -71,6 +141,25 @@ export interface CommandModule {
    */
   execute(args: CommandArgs, context: CommandContext): Promise<number>;
   exec?(_args: CommandArgs): Promise<string>;
+  
+  /**
+   * Options of the command (optional). When declared, arguments are parsed with them,
+   * values are passed by long name in CommandArgs and --help prints the usage.
+   * Commands without a declaration get every option as a flag.
+   */
+  options?: CommandOption[];
+  
+  /**
+   * Options end at the first argument that is not an option (optional), like POSIX getopt.
+   * Used by commands that run another command, so that command's options are kept.
+   */
+  optionsEndAtOperand?: boolean;
+  
+  /**
+   * Complete the word being typed in the terminal (optional)
+   * Returns candidates for the word, or null to complete file paths
+   */
+  complete?(request: CompletionRequest, context: CommandContext): Promise<string[] | null>;
 }
 
 /**
@@ -138,116 +227,448 @@ export class CommandProcessor {
     this.aliasMap.set(alias, commandName);
   }
   /**
-   * Process a command string
+   * Process a command line (which may be a list joined by ;, && and ||)
+   * @returns Exit code of the last command that ran, also stored as `$?` in the context
    */
-  public async processCommand(commandStr: string, context: CommandContext ): Promise<string> {
+  public async processCommand(commandStr: string, context: CommandContext): Promise<number> {
     // Trim whitespace
     commandStr = commandStr.trim();
     
     // Skip empty commands
     if (!commandStr) {
-      return '';
+      return context.lastExitCode ?? 0;
     }
     
-    // Parse the command string
-    const { command, args, options } = this.parseCommandString(commandStr);
+    // Split the command list
+    let entries: CommandListEntry[];
+    try {
+      entries = CommandList.parse(commandStr);
+    } catch (error) {
+      context.stderr.writeLine(`bash: ${error instanceof Error ? error.message : String(error)}`);
+      context.lastExitCode = 2;
+      return 2;
+    }
+    
+    return this.executeList(entries, context, true);
+  }
+
+  /**
+   * Execute the commands of a command list, honouring && and ||
+   * @param entries Commands of the list
+   * @param context Command execution context
+   * @param expandAliases Expand shell aliases; false for the text of an alias, so an alias is not expanded twice
+   * @returns Exit code of the last command that ran
+   */
+  private async executeList(entries: CommandListEntry[], context: CommandContext, expandAliases: boolean): Promise<number> {
+    let exitCode = context.lastExitCode ?? 0;
+    for (const entry of entries) {
+      if (!CommandList.shouldRun(entry.operator, exitCode)) {
+        continue;
+      }
+
+      const command = expandAliases ? this.expandAliases(entry.command, context) : entry.command;
+      if (command === entry.command) {
+        exitCode = await this.executePipeline(command, context);
+      } else {
+        // An alias may stand for a whole list, like alias update='apt update && apt upgrade'
+        let aliasEntries: CommandListEntry[] | null = null;
+        try {
+          aliasEntries = CommandList.parse(command);
+        } catch (error) {
+          context.stderr.writeLine(`bash: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        exitCode = aliasEntries ? await this.executeList(aliasEntries, context, false) : 2;
+      }
+      context.lastExitCode = exitCode;
+      
+      // Ctrl+C stops the whole list, not just the running command
+      if (context.signal?.aborted) {
+        exitCode = INTERRUPTED_EXIT_CODE;
+        context.lastExitCode = exitCode;
+        break;
+      }
+    }
+    
+    return exitCode;
+  }
+
+  /**
+   * Replace shell aliases in the first word of each command of a pipeline.
+   * The text of an alias is checked again, except for aliases already replaced (alias ls='ls -F').
+   * @returns The expanded command, or the same string when there is no alias
+   */
+  private expandAliases(commandStr: string, context: CommandContext): string {
+    const aliases = context.aliases;
+    if (!aliases || Object.keys(aliases).length === 0) {
+      return commandStr;
+    }
+    
+    let commands: string[];
+    try {
+      commands = CommandList.splitPipeline(commandStr);
+    } catch {
+      // executePipeline reports the syntax error
+      return commandStr;
+    }
+    
+    let changed = false;
+    const expanded = commands.map(command => {
+      const replaced = new Set<string>();
+      for (;;) {
+        // A quoted or escaped word like "ll" or \ll is not an alias
+        const match = /^(\S+)([\s\S]*)$/.exec(command);
+        if (!match || replaced.has(match[1]) || !Object.prototype.hasOwnProperty.call(aliases, match[1])) {
+          return command;
+        }
+        replaced.add(match[1]);
+        command = aliases[match[1]] + match[2];
+        changed = true;
+      }
+    });
+    
+    return changed ? expanded.join(' | ') : commandStr;
+  }
+
+  /**
+   * Execute a pipeline (cmd1 | cmd2 | cmd3). All commands run at the same time and
+   * each one reads the output of the previous one as it is written.
+   * @returns Exit code of the last command
+   */
+  private async executePipeline(commandStr: string, context: CommandContext): Promise<number> {
+    let commands: string[];
+    try {
+      commands = CommandList.splitPipeline(commandStr);
+    } catch (error) {
+      context.stderr.writeLine(`bash: ${error instanceof Error ? error.message : String(error)}`);
+      return 2;
+    }
     
-    // Look up the command
-    let commandModule = this.commands.get(command);
+    if (commands.length <= 1) {
+      return this.executeCommand(commandStr, context);
+    }
+    
+    const pipes = commands.slice(1).map(() => new CommandPipe());
+    const exitCodes = await Promise.all(commands.map(async (command, i) => {
+      const pipeContext: CommandContext = Object.create(context);
+      pipeContext.stdin = i > 0 ? pipes[i - 1].input : context.stdin;
+      pipeContext.stdout = i < pipes.length ? pipes[i].output : context.stdout;
+      
+      try {
+        return await this.executeCommand(command, pipeContext);
+      } finally {
+        // The next command sees the end of its input, and the previous one
+        // gets a broken pipe if it is still writing (like head closing early)
+        pipes[i]?.closeWriter();
+        pipes[i - 1]?.closeReader();
+      }
+    }));
     
-    // Check aliases if command not found
-    if (!commandModule && this.aliasMap.has(command)) {
-      const actualCommand = this.aliasMap.get(command);
-      if (actualCommand) {
-        commandModule = this.commands.get(actualCommand);
+    return exitCodes[exitCodes.length - 1];
+  }
+
+  /**
+   * Execute a single command, applying its redirections
+   * @returns Exit code of the command
+   */
+  private async executeCommand(commandStr: string, context: CommandContext): Promise<number> {
+    // Strip I/O redirections (>, >>, 2>, 2>&1, <) and open the files they name
+    let redirected: RedirectedStreams | null = null;
+    try {
+      const parsed = CommandRedirection.parse(commandStr);
+      commandStr = parsed.command;
+      if (parsed.redirections.length > 0) {
+        redirected = await CommandRedirection.open(parsed.redirections, context, this.os, context.cwd);
+        context = this.createRedirectedContext(context, redirected);
       }
+    } catch (error) {
+      context.stderr.writeLine(`bash: ${error instanceof Error ? error.message : String(error)}`);
+      return 1;
+    }
+    
+    // A bare redirection such as "> file" only creates or truncates the file
+    if (!commandStr) {
+      await redirected?.close();
+      return 0;
+    }
+    
+    // Parse the command string
+    let parsed;
+    try {
+      parsed = await this.parseCommandString(commandStr, context);
+    } catch (error) {
+      await redirected?.close();
+      context.stderr.writeLine(`bash: ${error instanceof Error ? error.message : String(error)}`);
+      return 1;
     }
-      // Check if command exists
-    if (!commandModule) {
-      return `Command not found: ${command}. Try 'help' for a list of commands.`;
+    const { command, argv, assignments } = parsed;
+    
+    // Functions and builtins of a shell script run in its interpreter, with their arguments as is.
+    // They are looked up first, as the child context of NAME=value does not have them.
+    const shellCommand = command ? context.shellCommand?.(command) : undefined;
+    
+    // NAME=value on its own sets a variable; before a command it only applies to that command
+    if (Object.keys(assignments).length > 0) {
+      if (!command) {
+        Object.assign(context.env, assignments);
+        await redirected?.close();
+        return 0;
+      }
+      context = this.createChildContext(context, { ...context.env, ...assignments });
     }
     
     try {
-      // Create context for command execution
+      if (shellCommand) {
+        return await shellCommand.execute({ args: argv, argv }, context);
+      }
+
+      // A path such as ./script.sh runs that file
+      if (command.includes('/')) {
+        return await this.executeFile(command, argv, context);
+      }
       
+      // Shell builtins run in the shell itself, other commands are found through PATH
+      if (CommandPath.isShellBuiltin(command)) {
+        const builtin = this.getCommand(command);
+        if (builtin) {
+          return await this.runModule(builtin, command, argv, context);
+        }
+      }
+      
+      const path = (await CommandPath.find(command, context))[0];
+      if (!path) {
+        context.stderr.writeLine(`Command not found: ${command}. Try 'help' for a list of commands.`);
+        return 127; // Command not found exit code
+      }
+      return await this.executeFile(path, argv, context);
+    } finally {
+      // Flush redirected output to its files
+      if (redirected) {
+        try {
+          await redirected.close();
+        } catch (error) {
+          console.error(`Error writing redirected output for '${command}':`, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Run a built-in command, bypassing PATH (the builtin command)
+   * @param name Name of the command
+   * @param argv Arguments of the command
+   * @param context Command execution context
+   * @returns Exit code of the command, or null if there is no built-in command with that name
+   */
+  public async executeBuiltin(name: string, argv: string[], context: CommandContext): Promise<number | null> {
+    const commandModule = this.getCommand(name);
+    return commandModule ? this.runModule(commandModule, name, argv, context) : null;
+  }
+
+  /**
+   * Parse the options of a command module and execute it
+   * @param commandModule The command
+   * @param command Name the command was called with, used in error messages
+   * @param argv Arguments of the command
+   * @param context Command execution context
+   * @returns Exit code of the command
+   */
+  private async runModule(commandModule: CommandModule, command: string, argv: string[], context: CommandContext): Promise<number> {
+    // Options of commands that run another command end at its name, so its options are kept
+    const stopAtOperand = commandModule.optionsEndAtOperand === true;
+    const optionArgv = commandModule.options && stopAtOperand ? CommandOptions.leadingOptions(argv, commandModule.options) : argv;
+    
+    // --help shows the usage generated from the declared options
+    const helpIndex = optionArgv.indexOf('--help');
+    if (commandModule.options && helpIndex !== -1 && !optionArgv.slice(0, helpIndex).includes('--')) {
+      context.stdout.writeLine(commandModule.usage);
+      return 0;
+    }
+    
+    let parsedOptions: ParsedOptions;
+    try {
+      parsedOptions = commandModule.options
+        ? CommandOptions.parse(argv, commandModule.options, stopAtOperand)
+        : CommandOptions.parseFlags(argv);
+    } catch (error) {
+      context.stderr.writeLine(`${command}: ${error instanceof Error ? error.message : String(error)}`);
+      context.stderr.writeLine(`Try '${command} --help' for more information.`);
+      return 2;
+    }
+    
+    try {
       // Execute the command with new interface
-      const exitCode = await commandModule.execute({
-        args,
-        ...options
+      return await commandModule.execute({
+        args: parsedOptions.args,
+        ...parsedOptions.options,
+        argv
       }, context);
-      
-      // For backward compatibility, return success message
-      return exitCode === 0 ? 'Command executed successfully' : `Command failed with exit code ${exitCode}`;
     } catch (error) {
+      if (error instanceof BrokenPipeError) {
+        return BROKEN_PIPE_EXIT_CODE;
+      }
+      if (error instanceof JobInterruptedError) {
+        return INTERRUPTED_EXIT_CODE;
+      }
       console.error(`Error executing command '${command}':`, error);
-      return `Error: ${error instanceof Error ? error.message : String(error)}`;
+      context.stderr.writeLine(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      return 1;
+    }
+  }
+
+  /**
+   * Run an executable file: the stub of a built-in command runs that command,
+   * a script with a #! line runs with the command it names, any other file with the sh command
+   * @param path Path of the file as typed, or as found in PATH
+   * @param argv Arguments for the script
+   * @param context Command execution context
+   * @returns Exit code of the script; 126 when it cannot be executed, 127 when it does not exist
+   */
+  private async executeFile(path: string, argv: string[], context: CommandContext): Promise<number> {
+    const fileSystem = this.os.getFileSystem();
+    const absolutePath = fileSystem.parsePath(path, context.cwd);
+    
+    if (!await fileSystem.exists(absolutePath)) {
+      context.stderr.writeLine(`bash: ${path}: No such file or directory`);
+      return 127;
+    }
+    
+    if ((await fileSystem.stat(absolutePath)).isDirectory) {
+      context.stderr.writeLine(`bash: ${path}: Is a directory`);
+      return 126;
     }
+    
+    // Only files marked executable with chmod can be run directly
+    if (!await fileSystem.canIExecute(absolutePath)) {
+      context.stderr.writeLine(`bash: ${path}: Permission denied`);
+      return 126;
+    }
+    
+    const builtin = await CommandPath.readStub(fileSystem, absolutePath);
+    const commandModule = builtin ? this.getCommand(builtin) : undefined;
+    if (commandModule) {
+      return this.runModule(commandModule, PathUtils.basename(absolutePath), argv, context);
+    }
+    
+    const interpreter = await CommandPath.readInterpreter(fileSystem, absolutePath) ?? 'sh';
+    const shell = this.commands.get(this.aliasMap.get(interpreter) ?? interpreter);
+    if (!shell) {
+      context.stderr.writeLine(`bash: ${path}: ${interpreter}: bad interpreter: No such file or directory`);
+      return 126;
+    }
+    
+    return shell.execute({ args: [path, ...argv], argv: [path, ...argv] }, context);
   }
+
+  /**
+   * Expand text into words the same way command arguments are expanded
+   * (quotes, variables, arithmetic, braces and globs)
+   * @param text The text to expand
+   * @param context Command context providing variables and the working directory
+   * @returns The resulting words
+   */
+  public async expandWords(text: string, context: CommandContext): Promise<string[]> {
+    return GlobExpansion.expandWords(this.parseCommandArgs(text, context), this.os.getFileSystem(), context.cwd);
+  }
+
+  /**
+   * Create a context for a child command with its own environment.
+   * Like redirected contexts, it inherits everything else from the parent context,
+   * except the functions and builtins of a shell script: a child command like env or xargs runs
+   * other commands by name, which cannot be those.
+   */
+  public createChildContext(context: CommandContext, env: Record<string, string>): CommandContext {
+    const childContext: CommandContext = Object.create(context);
+    childContext.env = env;
+    childContext.shellCommand = undefined;
+    return childContext;
+  }
+
   /**
-   * Parse a command string into command, args, and options
+   * Quote arguments so they can be passed back to processCommand unchanged
+   * @param args Arguments to quote
+   * @returns A command string
    */
-  private parseCommandString(commandStr: string): { command: string, args: string[], options: Record<string, any> } {
+  public static quoteArgs(args: string[]): string {
+    return args
+      .map(arg => /^[A-Za-z0-9_\-.,/:=@%+]+$/.test(arg) ? arg : `"${arg.replace(/[\\"$]/g, '\\$&')}"`)
+      .join(' ');
+  }
+
+  /**
+   * Create a context that uses redirected streams.
+   * The original context is used as prototype so accessors like cwd keep updating the terminal.
+   */
+  private createRedirectedContext(context: CommandContext, streams: RedirectedStreams): CommandContext {
+    const redirectedContext: CommandContext = Object.create(context);
+    redirectedContext.stdin = streams.stdin;
+    redirectedContext.stdout = streams.stdout;
+    redirectedContext.stderr = streams.stderr;
+    return redirectedContext;
+  }
+  /**
+   * Parse a command string into the command name, its arguments and leading variable assignments.
+   * Options are parsed once the command is known, with the command's option declaration.
+   */
+  private async parseCommandString(commandStr: string, context: CommandContext): Promise<{ command: string, argv: string[], assignments: Record<string, string> }> {
     // Parse the command line with respect to quotes
-    const parsedArgs = this.parseCommandArgs(commandStr);
+    const patterns = this.parseCommandArgs(commandStr, context);
+    
+    // Leading NAME=value words are variable assignments
+    const assignments: Record<string, string> = {};
+    while (patterns.length > 0) {
+      const assignment = ShellEnvironment.parseAssignment(GlobExpansion.unescape(patterns[0]));
+      if (!assignment) break;
+      assignments[assignment.name] = assignment.value;
+      patterns.shift();
+    }
+    
+    // Expand braces and globs against the filesystem
+    const parsedArgs = await GlobExpansion.expandWords(patterns, this.os.getFileSystem(), context.cwd);
     
     // First argument is the command name
     const command = parsedArgs.length > 0 ? parsedArgs[0] : '';
-    const args: string[] = [];
-    const options: Record<string, any> = {};
-    
-    // Process arguments and options (starting from index 1 to skip the command)
-    for (let i = 1; i < parsedArgs.length; i++) {
-      const part = parsedArgs[i];
-      
-      // Handle options (starting with -)
-      if (part.startsWith('-')) {
-        // Handle long options (--option)
-        if (part.startsWith('--')) {
-          const optionName = part.slice(2);
-          
-          // Check if there's a value (--option=value)
-          if (optionName.includes('=')) {
-            const [name, value] = optionName.split('=');
-            options[name] = value;
-          } else {
-            // Boolean option (--option)
-            options[optionName] = true;
-          }
-        }
-        // Handle short options (-o)
-        else {
-          const optionName = part.slice(1);
-          
-          // Check if next part is a value
-          if (i + 1 < parsedArgs.length && !parsedArgs[i + 1].startsWith('-')) {
-            options[optionName] = parsedArgs[i + 1];
-            i++; // Skip the value
-          } else {
-            // Boolean option (-o)
-            options[optionName] = true;
-          }
-        }
-      }
-      // Regular argument
-      else {
-        args.push(part);
-      }
-    }
+    const argv = parsedArgs.slice(1);
     
-    return { command, args, options };
+    return { command, argv, assignments };
   }
   
   /**
    * Parse command arguments, respecting quotes
    * @param command The command string to parse
-   * @returns Array of parsed arguments
+   * @param context Command context used to expand variables outside single quotes
+   * @returns Array of parsed arguments as glob patterns: quoted and escaped characters
+   *          are backslash-escaped so that only unquoted wildcards and braces expand
+   * @throws Error on an invalid arithmetic expression
    */
-  private parseCommandArgs(command: string): string[] {
+  private parseCommandArgs(command: string, context: CommandContext): string[] {
     const args: string[] = [];
     let currentArg = '';
     let inQuotes = false;
     let quoteChar = '';
     let escapeNext = false;
+    // Quotes make a word even when it is empty, so "" is passed as an argument
+    let quoted = false;
+    
+    const pushArg = () => {
+      if (currentArg || quoted) {
+        args.push(currentArg);
+      }
+      currentArg = '';
+      quoted = false;
+    };
+    
+    // Unquoted expansions are split into words, except in a NAME=value assignment
+    const appendExpansion = (value: string) => {
+      const isAssignment = args.length === 0 && /^[A-Za-z_][A-Za-z0-9_]*=/.test(currentArg);
+      if (inQuotes || isAssignment) {
+        currentArg += GlobExpansion.escape(value);
+        return;
+      }
+      value.split(/\s+/).forEach((word, index) => {
+        if (index > 0) pushArg();
+        currentArg += GlobExpansion.escape(word);
+      });
+    };
     
     // Process each character in the command
     for (let i = 0; i < command.length; i++) {
@@ -255,13 +676,18 @@ export class CommandProcessor {
       
       // Handle escape character
       if (escapeNext) {
-        currentArg += char;
+        currentArg += GlobExpansion.escape(char);
         escapeNext = false;
         continue;
       }
       
-      // Check for escape character
-      if (char === '\\') {
+      // Check for escape character; it is literal in single quotes, and in double quotes
+      // it only escapes $, `, " and \ (so PS1='\u@\h' keeps its backslashes)
+      if (char === '\\' && !(inQuotes && quoteChar === "'")) {
+        if (inQuotes && !'$`"\\'.includes(command[i + 1] ?? '')) {
+          currentArg += GlobExpansion.escape(char);
+          continue;
+        }
         escapeNext = true;
         continue;
       }
@@ -274,36 +700,127 @@ export class CommandProcessor {
         } else {
           // Opening quote
           inQuotes = true;
+          quoted = true;
           quoteChar = char;
         }
         continue;
       }
       
+      if (char === '$' && !(inQuotes && quoteChar === "'")) {
+        // Arithmetic expansion $((expression))
+        if (command.startsWith('$((', i)) {
+          const end = ShellArithmetic.findEnd(command, i + 3);
+          if (end !== -1) {
+            const expression = this.expandReferences(command.substring(i + 3, end), context);
+            const result = ShellArithmetic.evaluate(expression, {
+              get: name => context.env[name],
+              set: (name, value) => { context.env[name] = value; }
+            });
+            appendExpansion(String(result));
+            i = end + 1;
+            continue;
+          }
+        }
+        
+        // Expand variables ($NAME, ${NAME}, $?, $1, $#, $@)
+        const reference = ShellEnvironment.readReference(command, i);
+        if (reference) {
+          if (reference.name === '@' && inQuotes) {
+            // "$@" gives one word per positional parameter
+            const params = (context.positionalArgs ?? []).slice(1);
+            if (params.length === 0) {
+              quoted = currentArg !== '';
+            }
+            params.forEach((param, index) => {
+              if (index > 0) {
+                pushArg();
+                quoted = true;
+              }
+              currentArg += GlobExpansion.escape(param);
+            });
+          } else {
+            appendExpansion(this.lookupVariable(reference.name, context));
+          }
+          i = reference.end - 1;
+          continue;
+        }
+      }
+      
       // Handle spaces
       if (char === ' ' && !inQuotes) {
         // If we have a current argument, add it to args and reset
-        if (currentArg || currentArg === '0') {
-          args.push(currentArg);
-          currentArg = '';
-        }
+        pushArg();
         continue;
       }
       
-      // Add character to current argument
-      currentArg += char;
+      // Add character to current argument; quoted characters never expand
+      currentArg += inQuotes ? GlobExpansion.escape(char) : char;
     }
     
     // Add any remaining argument
-    if (currentArg || currentArg === '0') {
-      args.push(currentArg);
-    }
+    pushArg();
     
     return args;
   }
+
+  /**
+   * Get the value of a variable or special parameter ($?, $#, $@, $*, $0-$9)
+   */
+  private lookupVariable(name: string, context: CommandContext): string {
+    const positional = context.positionalArgs ?? [];
+    
+    if (name === '?') {
+      return String(context.lastExitCode ?? 0);
+    }
+    if (name === '#') {
+      return String(Math.max(positional.length - 1, 0));
+    }
+    if (name === '@' || name === '*') {
+      return positional.slice(1).join(' ');
+    }
+    if (/^\d+$/.test(name)) {
+      const index = parseInt(name, 10);
+      return index === 0 ? positional[0] ?? 'bash' : positional[index] ?? '';
+    }
+    
+    return context.env[name] ?? '';
+  }
+
+  /**
+   * Replace variable references in text with their values, without quoting or splitting
+   */
+  private expandReferences(text: string, context: CommandContext): string {
+    let result = '';
+    for (let i = 0; i < text.length; i++) {
+      const reference = text[i] === '$' ? ShellEnvironment.readReference(text, i) : null;
+      if (reference) {
+        result += this.lookupVariable(reference.name, context);
+        i = reference.end - 1;
+      } else {
+        result += text[i];
+      }
+    }
+    return result;
+  }
   /**
    * Get all available commands
    */
   public getAllCommands(): CommandModule[] {
     return Array.from(this.commands.values());
   }
+
+  /**
+   * Get a command by name or alias
+   */
+  public getCommand(name: string): CommandModule | undefined {
+    const actualCommand = this.aliasMap.get(name);
+    return this.commands.get(name) ?? (actualCommand ? this.commands.get(actualCommand) : undefined);
+  }
+
+  /**
+   * Get the names of all commands and aliases
+   */
+  public getCommandNames(): string[] {
+    return [...this.commands.keys(), ...this.aliasMap.keys()];
+  }
 }
@@ -0,0 +1,286 @@
+import { OS } from '../core/os';
+import { PathUtils } from '../core/path-utils';
+import { CommandInputStream, CommandOutputStream } from './command-processor';
+import { StringInputStream, StringOutputStream } from './enhanced-command-processor';
+
+/**
+ * Interface for a single I/O redirection parsed from a command line
+ */
+export interface Redirection {
+  /**
+   * File descriptor being redirected (0 = stdin, 1 = stdout, 2 = stderr)
+   */
+  fd: number;
+
+  /**
+   * '<' read from file, '>' truncate file, '>>' append to file, '>&' duplicate descriptor
+   */
+  operator: '<' | '>' | '>>' | '>&';
+
+  /**
+   * File path, or descriptor number for '>&'
+   */
+  target: string;
+}
+
+/**
+ * Result of stripping redirections from a command line
+ */
+export interface RedirectionParseResult {
+  command: string;
+  redirections: Redirection[];
+}
+
+/**
+ * Streams opened for a redirected command, plus a close step that flushes file output
+ */
+export interface RedirectedStreams {
+  stdin: CommandInputStream;
+  stdout: CommandOutputStream;
+  stderr: CommandOutputStream;
+  close(): Promise<void>;
+}
+
+/**
+ * Output file opened by a redirection; the content is written when the command finishes
+ */
+interface RedirectionFile {
+  path: string;
+  append: boolean;
+  stream: StringOutputStream;
+}
+
+/**
+ * Helper class for shell I/O redirection (>, >>, 2>, 2>&1, &>, <)
+ */
+export class CommandRedirection {
+  /**
+   * Extract redirection operators from a command line.
+   * Quoted and escaped operators are left untouched, so `echo "a > b"` is not redirected.
+   * @param commandStr The command line to parse
+   * @returns The command line without redirections, and the redirections in order
+   */
+  public static parse(commandStr: string): RedirectionParseResult {
+    const redirections: Redirection[] = [];
+    let command = '';
+    let inQuotes = false;
+    let quoteChar = '';
+    let escapeNext = false;
+    let i = 0;
+
+    while (i < commandStr.length) {
+      const char = commandStr[i];
+
+      if (escapeNext) {
+        command += char;
+        escapeNext = false;
+        i++;
+        continue;
+      }
+
+      if (char === '\\' && !(inQuotes && quoteChar === "'")) {
+        command += char;
+        escapeNext = true;
+        i++;
+        continue;
+      }
+
+      if ((char === '"' || char === "'") && (!inQuotes || char === quoteChar)) {
+        inQuotes = !inQuotes;
+        quoteChar = char;
+        command += char;
+        i++;
+        continue;
+      }
+
+      if (inQuotes) {
+        command += char;
+        i++;
+        continue;
+      }
+
+      // A descriptor prefix (2>, 1>>) only counts at the start of a word
+      const atWordStart = i === 0 || /\s/.test(commandStr[i - 1]);
+      let fd: number | null = null;
+      let both = false;
+      let opStart = i;
+
+      if (atWordStart && (char === '1' || char === '2') && commandStr[i + 1] === '>') {
+        fd = parseInt(char, 10);
+        opStart = i + 1;
+      } else if (atWordStart && char === '&' && commandStr[i + 1] === '>') {
+        fd = 1;
+        both = true;
+        opStart = i + 1;
+      } else if (char === '>') {
+        fd = 1;
+      } else if (char === '<') {
+        fd = 0;
+      }
+
+      if (fd === null) {
+        command += char;
+        i++;
+        continue;
+      }
+
+      // Read the operator itself
+      let operator: Redirection['operator'];
+      let pos = opStart;
+      if (commandStr[pos] === '<') {
+        operator = '<';
+        pos++;
+      } else if (commandStr[pos + 1] === '>') {
+        operator = '>>';
+        pos += 2;
+      } else if (commandStr[pos + 1] === '&' && !both) {
+        operator = '>&';
+        pos += 2;
+      } else {
+        operator = '>';
+        pos++;
+      }
+
+      // Read the target word
+      const { word, end } = this.readWord(commandStr, pos);
+      if (!word) {
+        const next = commandStr.slice(end).trim();
+        throw new Error(`syntax error near unexpected token \`${next ? next[0] : 'newline'}'`);
+      }
+
+      if (operator === '>&' && !/^[12]$/.test(word)) {
+        throw new Error(`${word}: ambiguous redirect`);
+      }
+
+      redirections.push({ fd, operator, target: word });
+      if (both) {
+        redirections.push({ fd: 2, operator: '>&', target: '1' });
+      }
+
+      // Keep words separated where the redirection was removed
+      command += ' ';
+      i = end;
+    }
+
+    return { command: command.trim(), redirections };
+  }
+
+  /**
+   * Open the streams described by a list of redirections.
+   * Descriptors are wired left to right, so `> out 2>&1` sends both streams to out
+   * while `2>&1 > out` only sends stdout there.
+   * @param redirections Redirections returned by parse()
+   * @param streams The streams the command would use without redirection
+   * @param os OS instance used to access the filesystem
+   * @param cwd Current working directory for resolving relative paths
+   */
+  public static async open(
+    redirections: Redirection[],
+    streams: { stdin: CommandInputStream; stdout: CommandOutputStream; stderr: CommandOutputStream },
+    os: OS,
+    cwd: string
+  ): Promise<RedirectedStreams> {
+    const fileSystem = os.getFileSystem();
+    const files = new Map<string, RedirectionFile>();
+    let stdin = streams.stdin;
+    const outputs: Record<number, CommandOutputStream> = { 1: streams.stdout, 2: streams.stderr };
+
+    for (const redirection of redirections) {
+      if (redirection.operator === '>&') {
+        outputs[redirection.fd] = outputs[parseInt(redirection.target, 10)];
+        continue;
+      }
+
+      const path = fileSystem.parsePath(redirection.target, cwd);
+
+      if (redirection.operator === '<') {
+        let content: string;
+        try {
+          content = await fileSystem.readFile(path);
+        } catch (error) {
+          throw new Error(`${redirection.target}: No such file or directory`);
+        }
+        stdin = new StringInputStream(content);
+        continue;
+      }
+
+      // Output redirection - check write access on the file, or on its directory for a new file
+      let file = files.get(path);
+      if (!file) {
+        const exists = await fileSystem.exists(path);
+        let writable = false;
+        try {
+          writable = await fileSystem.canIWrite(exists ? path : PathUtils.dirname(path));
+        } catch (error) {
+          throw new Error(`${redirection.target}: No such file or directory`);
+        }
+
+        if (exists && (await fileSystem.stat(path)).isDirectory) {
+          throw new Error(`${redirection.target}: Is a directory`);
+        }
+
+        if (!writable) {
+          throw new Error(`${redirection.target}: Permission denied`);
+        }
+
+        file = { path, append: redirection.operator === '>>', stream: new StringOutputStream() };
+        files.set(path, file);
+      }
+
+      outputs[redirection.fd] = file.stream;
+    }
+
+    return {
+      stdin,
+      stdout: outputs[1],
+      stderr: outputs[2],
+      close: async () => {
+        for (const file of files.values()) {
+          let content = file.stream.toString();
+          if (file.append && await fileSystem.exists(file.path)) {
+            content = await fileSystem.readFile(file.path) + content;
+          }
+          await fileSystem.writeFile(file.path, content);
+        }
+      }
+    };
+  }
+
+  /**
+   * Read a single (possibly quoted) word starting at a position, skipping leading whitespace
+   */
+  private static readWord(str: string, start: number): { word: string; end: number } {
+    let pos = start;
+    while (pos < str.length && /\s/.test(str[pos])) {
+      pos++;
+    }
+
+    let word = '';
+    let quoteChar = '';
+
+    while (pos < str.length) {
+      const char = str[pos];
+
+      if (quoteChar) {
+        if (char === quoteChar) {
+          quoteChar = '';
+        } else {
+          word += char;
+        }
+      } else if (char === '"' || char === "'") {
+        quoteChar = char;
+      } else if (char === '\\' && pos + 1 < str.length) {
+        pos++;
+        word += str[pos];
+      } else if (/\s/.test(char) || char === '<' || char === '>' || char === '|' || char === '&' || char === ';') {
+        break;
+      } else {
+        word += char;
+      }
+
+      pos++;
+    }
+
+    return { word, end: pos };
+  }
+}
@@ -2,6 +2,7 @@ import { Laugh } from 'lucide';
 import { OS } from '../core/os';
 import { NanoEditor } from './app/nano-editor';
 import { CommandModule } from './command-processor';
+import { CommandPath, BIN_DIRECTORY, LOCAL_BIN_DIRECTORY } from './command-path';
 
 // Import all commands
 import { CatCommand } from './linux/cat';
@@ -22,6 +23,19 @@ import { ManCommand } from './linux/man';
 import { MkdirCommand } from './linux/mkdir';
 import { MvCommand } from './linux/mv';
 import { NmapCommand } from './linux/nmap';
+import { SshCommand } from './linux/ssh';
+import { ScpCommand } from './linux/scp';
+import { FtpCommand } from './linux/ftp';
+import { NetstatCommand } from './linux/netstat';
+import { SsCommand } from './linux/ss';
+import { IfconfigCommand } from './linux/ifconfig';
+import { IpCommand } from './linux/ip';
+import { TracerouteCommand } from './linux/traceroute';
+import { TracepathCommand } from './linux/tracepath';
+import { DigCommand } from './linux/dig';
+import { NslookupCommand } from './linux/nslookup';
+import { HostCommand } from './linux/host';
+import { IptablesCommand } from './linux/iptables';
 import { PingCommand } from './linux/ping';
 import { PsCommand } from './linux/ps';
 import { PwdCommand } from './linux/pwd';
@@ -30,10 +44,48 @@ import { SortCommand } from './linux/sort';
 import { TailCommand } from './linux/tail';
 import { TouchCommand } from './linux/touch';
 import { WcCommand } from './linux/wc';
+import { SedCommand } from './linux/sed';
+import { AwkCommand } from './linux/awk';
+import { CutCommand } from './linux/cut';
+import { TrCommand } from './linux/tr';
+import { UniqCommand } from './linux/uniq';
+import { TeeCommand } from './linux/tee';
+import { XargsCommand } from './linux/xargs';
+import { NlCommand } from './linux/nl';
+import { RevCommand } from './linux/rev';
+import { PasteCommand } from './linux/paste';
+import { TarCommand } from './linux/tar';
+import { GzipCommand, GunzipCommand } from './linux/gzip';
+import { ZipCommand } from './linux/zip';
+import { UnzipCommand } from './linux/unzip';
+import { HashsumCommand } from './linux/hashsum';
+import { Base64Command } from './linux/base64';
+import { XxdCommand } from './linux/xxd';
+import { HexdumpCommand } from './linux/hexdump';
+import { JohnCommand } from './linux/john';
 import { LaunchCommand } from './linux/launch';
+import { ExportCommand } from './linux/export';
+import { UnsetCommand } from './linux/unset';
+import { EnvCommand } from './linux/env';
+import { PrintenvCommand } from './linux/printenv';
+import { ShCommand } from './linux/sh';
+import { TestCommand, BracketCommand } from './linux/test';
+import { TrueCommand } from './linux/true';
+import { FalseCommand } from './linux/false';
+import { NodeCommand } from './linux/node';
+import { HistoryCommand } from './linux/history';
+import { JobsCommand } from './linux/jobs';
+import { FgCommand } from './linux/fg';
+import { BgCommand } from './linux/bg';
+import { ExitCommand } from './linux/exit';
+import { SourceCommand } from './linux/source';
+import { BuiltinCommand } from './linux/builtin';
+import { TypeCommand } from './linux/type';
+import { WhichCommand } from './linux/which';
 
-// Import path alias management commands
+// Import alias management commands
 import { AliasCommand } from './linux/alias';
+import { UnaliasCommand } from './linux/unalias';
 import { AddAliasCommand } from './linux/addalias';
 import { RmAliasCommand } from './linux/rmalias';
 
@@ -45,6 +97,7 @@ export class CommandRegistry {
   private os: OS;
   private commands: Map<string, CommandModule> = new Map();
   private aliases: Map<string, string> = new Map();
+  private filesInstalled: boolean = false;
 
   private constructor(os: OS) {
     this.os = os;
@@ -61,19 +114,32 @@ export class CommandRegistry {
   }
 
   /**
-   * Register a command module
+   * Create a registry for another system, like a remote host logged in to with ssh.
+   * Its commands work on that system and are registered in its command processor.
    */
-  public registerCommand(command: CommandModule): void {
+  public static create(os: OS): CommandRegistry {
+    return new CommandRegistry(os);
+  }
+
+  /**
+   * Register a command module.
+   * Once the command files are installed, a command registered later gets its file in /bin right away.
+   * @returns A promise resolving when that file is written
+   */
+  public registerCommand(command: CommandModule): Promise<void> {
     this.commands.set(command.name, command);
     this.os.getCommandProcessor().registerCommand(command);
+    return this.filesInstalled ? this.installCommandFile(command.name) : Promise.resolve();
   }
 
   /**
-   * Register a command alias
+   * Register a command alias, with its file in /bin like registerCommand
+   * @returns A promise resolving when that file is written
    */
-  public registerAlias(alias: string, commandName: string): void {
+  public registerAlias(alias: string, commandName: string): Promise<void> {
     this.aliases.set(alias, commandName);
     this.os.getCommandProcessor().registerAlias(alias, commandName);
+    return this.filesInstalled ? this.installCommandFile(alias) : Promise.resolve();
   }
 
   /**
@@ -99,10 +165,50 @@ export class CommandRegistry {
     this.registerCommand(new ClearCommand());
     this.registerCommand(new ChmodCommand(this.os));
     
+    // Register environment commands
+    this.registerCommand(new ExportCommand());
+    this.registerCommand(new UnsetCommand());
+    this.registerCommand(new EnvCommand(this.os));
+    this.registerCommand(new PrintenvCommand());
+    this.registerCommand(new HistoryCommand(this.os));
+    
+    // Register scripting commands
+    this.registerCommand(new ShCommand(this.os));
+    this.registerCommand(new TestCommand(this.os));
+    this.registerCommand(new BracketCommand(this.os));
+    this.registerCommand(new TrueCommand());
+    this.registerCommand(new FalseCommand());
+    this.registerCommand(new NodeCommand(this.os));
+    this.registerCommand(new SourceCommand(this.os));
+    
+    // Register command lookup commands
+    this.registerCommand(new BuiltinCommand());
+    this.registerCommand(new TypeCommand());
+    this.registerCommand(new WhichCommand());
+    
+    // Register job control commands
+    this.registerCommand(new JobsCommand());
+    this.registerCommand(new FgCommand());
+    this.registerCommand(new BgCommand());
+    this.registerCommand(new ExitCommand());
+    
     // Register network commands
     this.registerCommand(new PingCommand(this.os));
     this.registerCommand(new CurlCommand(this.os)); 
     this.registerCommand(new NmapCommand(this.os));
+    this.registerCommand(new SshCommand(this.os));
+    this.registerCommand(new ScpCommand(this.os));
+    this.registerCommand(new FtpCommand(this.os));
+    this.registerCommand(new NetstatCommand(this.os));
+    this.registerCommand(new SsCommand(this.os));
+    this.registerCommand(new IfconfigCommand(this.os));
+    this.registerCommand(new IpCommand(this.os));
+    this.registerCommand(new TracerouteCommand(this.os));
+    this.registerCommand(new TracepathCommand(this.os));
+    this.registerCommand(new DigCommand(this.os));
+    this.registerCommand(new NslookupCommand(this.os));
+    this.registerCommand(new HostCommand(this.os));
+    this.registerCommand(new IptablesCommand(this.os));
     
     // Register text processing commands
     this.registerCommand(new GrepCommand(this.os));
@@ -110,47 +216,120 @@ export class CommandRegistry {
     this.registerCommand(new HeadCommand(this.os));
     this.registerCommand(new TailCommand(this.os));
     this.registerCommand(new WcCommand(this.os));
+    this.registerCommand(new SedCommand(this.os));
+    this.registerCommand(new AwkCommand(this.os));
+    this.registerCommand(new CutCommand());
+    this.registerCommand(new TrCommand());
+    this.registerCommand(new UniqCommand(this.os));
+    this.registerCommand(new TeeCommand(this.os));
+    this.registerCommand(new XargsCommand(this.os));
+    this.registerCommand(new NlCommand());
+    this.registerCommand(new RevCommand());
+    this.registerCommand(new PasteCommand());
     this.registerCommand(new DiffCommand(this.os));
     this.registerCommand(new FindCommand(this.os));
     
+    // Register archive commands
+    this.registerCommand(new TarCommand(this.os));
+    this.registerCommand(new GzipCommand(this.os));
+    this.registerCommand(new GunzipCommand(this.os));
+    this.registerCommand(new ZipCommand(this.os));
+    this.registerCommand(new UnzipCommand(this.os));
+    
+    // Register hashing and encoding commands
+    this.registerCommand(new HashsumCommand('md5'));
+    this.registerCommand(new HashsumCommand('sha1'));
+    this.registerCommand(new HashsumCommand('sha256'));
+    this.registerCommand(new HashsumCommand('sha512'));
+    this.registerCommand(new Base64Command());
+    this.registerCommand(new XxdCommand(this.os));
+    this.registerCommand(new HexdumpCommand());
+    
+    // Register password cracking commands
+    this.registerCommand(new JohnCommand(this.os));
+    
     // Register help and utility commands
     this.registerCommand(new HelpCommand(this.os));
     this.registerCommand(new ManCommand(this.os));
     this.registerCommand(new NanoEditor(this.os));
     this.registerCommand(new LaunchCommand(this.os));
     
-    // Register path alias management commands
+    // Register shell and path alias management commands
     this.registerCommand(new AliasCommand(this.os));
+    this.registerCommand(new UnaliasCommand());
     this.registerCommand(new AddAliasCommand(this.os));
     this.registerCommand(new RmAliasCommand(this.os));
 
-    // Register common aliases
+    // Register other names of commands; shortcuts with options like ll are shell aliases in ~/.bashrc
     this.registerAlias('dir', 'ls');
-    this.registerAlias('ll', 'ls -l');
-    this.registerAlias('la', 'ls -la');
     this.registerAlias('cls', 'clear');
     this.registerAlias('?', 'help');
     this.registerAlias('h', 'help');
     this.registerAlias("start", "launch");
+    this.registerAlias('bash', 'sh');
+    this.registerAlias('.', 'source');
+    this.registerAlias('logout', 'exit');
   }
 
   /**
-   * Dynamically load a command from a string
-   * This allows creating and loading commands at runtime
+   * Create the files of the built-in commands in /bin, so that they are found through PATH.
+   * Existing files are kept, so a command replaced by a script stays replaced.
    */
-  public async loadCommandFromString(name: string, code: string): Promise<boolean> {
-    try {
-      // Create a dynamic module from the string
-      const moduleFunc = new Function('OS', 'CommandModule', 'CommandArgs', `
-        ${code}
-        return new ${name}Command(OS);
-      `);
+  public async installCommandFiles(): Promise<void> {
+    const fileSystem = this.os.getFileSystem();
+    
+    // Directories of the default PATH, for commands installed by the player
+    for (const directory of ['/usr', '/usr/bin', '/usr/local', '/usr/local/bin']) {
+      if (!await fileSystem.exists(directory)) {
+        await fileSystem.createDirectory(directory);
+      }
+    }
+    
+    for (const name of [...this.commands.keys(), ...this.aliases.keys()]) {
+      await this.installCommandFile(name);
+    }
+    this.filesInstalled = true;
+  }
 
-      // Execute the function to get the command instance
-      const command = moduleFunc(this.os, {}, {}) as CommandModule;
+  /**
+   * Create the file of a built-in command in /bin, unless it exists or the command has none
+   */
+  private async installCommandFile(name: string): Promise<void> {
+    if (!CommandPath.hasFile(name)) {
+      return;
+    }
+    
+    const fileSystem = this.os.getFileSystem();
+    const path = `${BIN_DIRECTORY}/${name}`;
+    try {
+      if (!await fileSystem.exists(path)) {
+        await fileSystem.writeFile(path, CommandPath.createStub(this.aliases.get(name) ?? name));
+        await fileSystem.chmod(path, '-rwxr-xr-x');
+      }
+    } catch (error) {
+      console.error(`Error installing ${path}:`, error);
+    }
+  }
 
-      // Register the command
-      this.registerCommand(command);
+  /**
+   * Install a command from the source of a Node script, as an executable file in /usr/local/bin.
+   * Like any tool the player installs, it is found through PATH and runs in the node sandbox,
+   * not in the page.
+   * @param name Name of the command
+   * @param code JavaScript source of the command
+   * @returns Whether the file could be written
+   */
+  public async loadCommandFromString(name: string, code: string): Promise<boolean> {
+    if (!/^[\w.+-]+$/.test(name)) {
+      console.error(`Invalid name for a dynamic command: ${name}`);
+      return false;
+    }
+    
+    const fileSystem = this.os.getFileSystem();
+    const path = `${LOCAL_BIN_DIRECTORY}/${name}`;
+    try {
+      await fileSystem.writeFile(path, `#!/usr/bin/env node\n${code.replace(/^#!.*\n/, '')}`);
+      await fileSystem.chmod(path, '-rwxr-xr-x');
       return true;
     } catch (error) {
       console.error(`Error loading dynamic command ${name}:`, error);
@@ -0,0 +1,133 @@
+/**
+ * Numbered list of password candidates. Candidates are found by their index,
+ * so a cracking session can be resumed from the index where it stopped.
+ */
+export interface CandidateSpace {
+  /**
+   * Number of candidates
+   */
+  total: number;
+
+  /**
+   * Get a candidate, from 0 to total - 1
+   */
+  at(index: number): string;
+}
+
+const LOWER = 'abcdefghijklmnopqrstuvwxyz';
+const UPPER = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const DIGITS = '0123456789';
+const SPECIAL = ' !"#$%&\'()*+,-./:;<=>?@[\\]^_`{|}~';
+
+/**
+ * Character sets of incremental mode, by name (case-insensitive), like john's
+ */
+const INCREMENTAL_CHARSETS: Record<string, string> = {
+  digits: DIGITS,
+  lower: LOWER,
+  upper: UPPER,
+  alpha: LOWER + UPPER,
+  lowernum: LOWER + DIGITS,
+  alnum: LOWER + UPPER + DIGITS,
+  ascii: LOWER + UPPER + DIGITS + SPECIAL
+};
+
+/**
+ * Character sets of masks, as ?l, ?u, ?d, ?s and ?a
+ */
+const MASK_CHARSETS: Record<string, string> = {
+  l: LOWER,
+  u: UPPER,
+  d: DIGITS,
+  s: SPECIAL,
+  a: LOWER + UPPER + DIGITS + SPECIAL
+};
+
+/**
+ * Helper class creating the candidates of the cracking modes of john
+ */
+export class CrackCandidates {
+  /**
+   * Names of the incremental modes
+   */
+  public static get incrementalModes(): string[] {
+    return Object.keys(INCREMENTAL_CHARSETS);
+  }
+
+  /**
+   * Candidates of wordlist mode: the words, in order
+   */
+  public static wordlist(words: string[]): CandidateSpace {
+    return { total: words.length, at: index => words[index] };
+  }
+
+  /**
+   * Candidates of a mask like ?u?l?l?l?d?d, where each position is a character set
+   * (?l lower, ?u upper, ?d digits, ?s special, ?a all) or a literal character (?? for ?)
+   * @throws Error for an unknown ?x placeholder
+   */
+  public static mask(mask: string): CandidateSpace {
+    const positions: string[] = [];
+    for (let i = 0; i < mask.length; i++) {
+      if (mask[i] !== '?') {
+        positions.push(mask[i]);
+        continue;
+      }
+      const placeholder = mask[++i];
+      if (placeholder === '?') {
+        positions.push('?');
+      } else if (placeholder !== undefined && MASK_CHARSETS[placeholder]) {
+        positions.push(MASK_CHARSETS[placeholder]);
+      } else {
+        throw new Error(`Invalid mask placeholder '?${placeholder ?? ''}' (use ?l, ?u, ?d, ?s, ?a or ??)`);
+      }
+    }
+    return this.product(positions);
+  }
+
+  /**
+   * Candidates of incremental mode: all strings of a character set, shortest first
+   * @throws Error for an unknown mode
+   */
+  public static incremental(mode: string, minLength: number, maxLength: number): CandidateSpace {
+    const charset = INCREMENTAL_CHARSETS[mode.toLowerCase()];
+    if (!charset) {
+      throw new Error(`Unknown incremental mode: ${mode} (use ${Object.keys(INCREMENTAL_CHARSETS).join(', ')})`);
+    }
+
+    const spaces: CandidateSpace[] = [];
+    for (let length = minLength; length <= maxLength; length++) {
+      spaces.push(this.product(new Array<string>(length).fill(charset)));
+    }
+    const total = spaces.reduce((sum, space) => sum + space.total, 0);
+    return {
+      total,
+      at: index => {
+        for (const space of spaces) {
+          if (index < space.total) return space.at(index);
+          index -= space.total;
+        }
+        return '';
+      }
+    };
+  }
+
+  /**
+   * All strings with one character of each set, the last position changing fastest
+   */
+  private static product(positions: string[]): CandidateSpace {
+    const total = positions.reduce((product, charset) => product * charset.length, 1);
+    return {
+      total,
+      at: index => {
+        let candidate = '';
+        for (let i = positions.length - 1; i >= 0; i--) {
+          const charset = positions[i];
+          candidate = charset[index % charset.length] + candidate;
+          index = Math.floor(index / charset.length);
+        }
+        return candidate;
+      }
+    };
+  }
+}
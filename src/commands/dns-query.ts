@@ -0,0 +1,75 @@
+import { OS } from '../core/os';
+import { DnsRecord, DnsRecordType, NAME_SERVER } from '../core/network';
+import { CommandContext } from './command-processor';
+import { JobControl } from './job-control';
+
+/**
+ * Time a query waits for a name server that does not answer, in ms
+ */
+const QUERY_TIMEOUT = 5000;
+
+/**
+ * Port name servers listen on
+ */
+const DNS_PORT = 53;
+
+/**
+ * Interface for the answer of a name server to a query
+ */
+export interface DnsAnswer {
+  status: 'NOERROR' | 'NXDOMAIN'; // NXDOMAIN when the name has no records at all
+  records: DnsRecord[]; // CNAME records of the aliases followed come first
+  server: string; // Address of the name server
+  time: number; // Round trip time of the query, in ms
+}
+
+/**
+ * Helper class for the commands querying name servers directly (dig, nslookup and host),
+ * which unlike the resolver of programs do not read /etc/hosts
+ */
+export class DnsQuery {
+  /**
+   * Query a name server for the records of a type, from the system the command runs on.
+   * Waits the round trip to the server, or the timeout when it cannot be reached.
+   * @param os System the query comes from
+   * @param server Address of the name server, the one of the router by default
+   * @returns The answer, or null when the server does not answer
+   */
+  public static async query(os: OS, name: string, type: DnsRecordType, context: CommandContext, server: string = NAME_SERVER): Promise<DnsAnswer | null> {
+    const network = os.getNetworkInterface();
+    const from = os.hostInfo?.ip;
+    const listening = network.getHostByIp(server)?.ports.some(port => port.port === DNS_PORT && port.state === 'open');
+    if (!network.route(server, from)) {
+      return null;
+    }
+    if (!listening || !network.isReachable(server, from)) {
+      await JobControl.sleep(QUERY_TIMEOUT, context);
+      return null;
+    }
+
+    const time = network.getLatency(server, from);
+    await JobControl.sleep(time, context);
+    const dnsServer = os.getDNSServer();
+    const records = dnsServer.lookup(name, type);
+    const status = records.length > 0 || dnsServer.exists(name) ? 'NOERROR' : 'NXDOMAIN';
+    return { status, records, server, time };
+  }
+
+  /**
+   * Format the data of a record like in a zone file: names end with the dot of
+   * the root, MX records start with their priority and TXT records are quoted
+   */
+  public static formatValue(record: DnsRecord): string {
+    switch (record.type) {
+      case 'A':
+      case 'AAAA':
+        return record.value;
+      case 'TXT':
+        return `"${record.value}"`;
+      case 'MX':
+        return `${record.priority ?? 0} ${record.value}.`;
+      default:
+        return `${record.value}.`;
+    }
+  }
+}
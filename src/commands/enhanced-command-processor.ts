@@ -1,6 +1,10 @@
 import { Terminal as xTerm } from 'xterm';
 import { OS } from '../core/os';
 import { CommandArgs, CommandModule } from './command-processor';
+import { CommandRedirection } from './command-redirection';
+import { CommandList, CommandListEntry } from './command-list';
+import { CommandPipe, BrokenPipeError, BROKEN_PIPE_EXIT_CODE } from './command-pipe';
+import { ShellEnvironment } from './shell-environment';
 
 /**
  * Interface for command I/O streams
@@ -27,6 +31,7 @@ export interface CommandContext {
   stdout: CommandOutputStream;
   stderr: CommandOutputStream;
   env: Record<string, string>;
+  lastExitCode?: number; // Exit code of the last command ($?)
   terminal?: any; // Reference to the terminal object
 }
 
@@ -226,9 +231,57 @@ export class EnhancedCommandProcessor {
       return 0;
     }
     
-    // Check for command piping
-    if (commandStr.includes('|')) {
-      return this.processPipedCommands(commandStr, context);
+    // Check for command lists (cmd1 && cmd2 || cmd3; cmd4)
+    let entries: CommandListEntry[];
+    try {
+      entries = CommandList.parse(commandStr);
+    } catch (error) {
+      context.stderr.writeLine(`bash: ${error instanceof Error ? error.message : String(error)}`);
+      return 2;
+    }
+    
+    if (entries.length > 1) {
+      let exitCode = context.lastExitCode ?? 0;
+      for (const entry of entries) {
+        if (CommandList.shouldRun(entry.operator, exitCode)) {
+          exitCode = await this.processCommandWithContext(entry.command, context);
+          context.lastExitCode = exitCode;
+        }
+      }
+      return exitCode;
+    }
+    
+    // Check for command piping; a | in quotes or in $( ) does not make a pipeline
+    let pipeline: string[];
+    try {
+      pipeline = CommandList.splitPipeline(commandStr);
+    } catch (error) {
+      context.stderr.writeLine(`bash: ${error instanceof Error ? error.message : String(error)}`);
+      return 2;
+    }
+    if (pipeline.length > 1) {
+      return this.processPipedCommands(pipeline, context);
+    }
+    
+    // Handle I/O redirections (>, >>, 2>, 2>&1, <)
+    try {
+      const { command: strippedCommand, redirections } = CommandRedirection.parse(commandStr);
+      if (redirections.length > 0) {
+        const redirected = await CommandRedirection.open(redirections, context, this.os, context.cwd);
+        // The context is the prototype, so accessors like cwd keep updating the terminal
+        const redirectedContext: CommandContext = Object.create(context);
+        redirectedContext.stdin = redirected.stdin;
+        redirectedContext.stdout = redirected.stdout;
+        redirectedContext.stderr = redirected.stderr;
+        try {
+          return await this.processCommandWithContext(strippedCommand, redirectedContext);
+        } finally {
+          await redirected.close();
+        }
+      }
+    } catch (error) {
+      context.stderr.writeLine(`bash: ${error instanceof Error ? error.message : String(error)}`);
+      return 1;
     }
     
     // Parse the command string
@@ -320,14 +373,7 @@ export class EnhancedCommandProcessor {
   /**
    * Get environment variables
    */  private getEnvironmentVariables(): Record<string, string> {
-    // This could be expanded to include more environment variables
-    return {
-      'HOME': '/home/user',
-      'USER': 'user',
-      'PATH': '/bin:/usr/bin:/usr/local/bin',
-      'PWD': this.getCurrentWorkingDirectory(),
-      'SHELL': '/bin/bash'
-    };
+    return ShellEnvironment.createDefault(this.os, this.getCurrentWorkingDirectory());
   }
     /**
    * Get the current working directory
@@ -509,53 +555,36 @@ export class EnhancedCommandProcessor {
   }
 
   /**
-   * Process a pipeline of commands (command1 | command2 | command3)
+   * Process a pipeline of commands (command1 | command2 | command3).
+   * The commands run at the same time, connected by streaming pipes.
+   * @param commands The commands of the pipeline, at least two
    */
-  private async processPipedCommands(commandStr: string, context: CommandContext): Promise<number> {
-    // Split the command string by pipe symbol
-    const commands = commandStr.split('|').map(cmd => cmd.trim());
+  private async processPipedCommands(commands: string[], context: CommandContext): Promise<number> {
+    const pipes = commands.slice(1).map(() => new CommandPipe());
     
-    // Need at least two commands for a pipe
-    if (commands.length < 2) {
-      return this.processCommandWithContext(commandStr, context);
-    }
-    
-    let lastOutput = '';
-    let lastExitCode = 0;
-    
-    // Process each command in the pipeline
-    for (let i = 0; i < commands.length; i++) {
-      const isLast = i === commands.length - 1;
-      
-      // Create a string output stream for intermediate commands
-      const stdout = isLast ? context.stdout : new StringOutputStream();
-      
-      // Create input stream from previous command's output
-      const stdin = i === 0 ? context.stdin : new StringInputStream(lastOutput);
-      
+    // Process all commands of the pipeline at once
+    const exitCodes = await Promise.all(commands.map(async (command, i) => {
       // Create a pipeline context for this command
       const pipeContext: CommandContext = {
         ...context,
-        stdin,
-        stdout,
+        stdin: i > 0 ? pipes[i - 1].input : context.stdin,
+        stdout: i < pipes.length ? pipes[i].output : context.stdout,
         stderr: context.stderr // All errors go to the original stderr
       };
       
-      // Process the command with the pipeline context
-      lastExitCode = await this.processCommandWithContext(commands[i], pipeContext);
-      
-      // If the command failed and it's not the last one, we should stop
-      if (lastExitCode !== 0 && !isLast) {
-        context.stderr.writeLine(`Command '${commands[i]}' failed with exit code ${lastExitCode}`);
-        return lastExitCode;
-      }
-      
-      // Get the output from this command to pass to the next one
-      if (!isLast) {
-        lastOutput = (stdout as StringOutputStream).toString();
+      try {
+        return await this.processCommandWithContext(command, pipeContext);
+      } catch (error) {
+        if (error instanceof BrokenPipeError) {
+          return BROKEN_PIPE_EXIT_CODE;
+        }
+        throw error;
+      } finally {
+        pipes[i]?.closeWriter();
+        pipes[i - 1]?.closeReader();
       }
-    }
+    }));
     
-    return lastExitCode;
+    return exitCodes[exitCodes.length - 1];
   }
 }
@@ -0,0 +1,321 @@
+import { FileSystem } from '../core/filesystem';
+
+/**
+ * Most words a brace expression may expand to, so that {1..100000000} fails instead of freezing the page
+ */
+const MAX_BRACE_WORDS = 100000;
+
+/**
+ * Helper class for shell brace ({a,b}, {1..5}) and glob (*, ?, [abc]) expansion.
+ *
+ * Words are handled as patterns: a character that came from quotes or an escape is
+ * preceded by a backslash, so only unquoted special characters are expanded.
+ */
+export class GlobExpansion {
+  /**
+   * Characters that must be escaped to stay literal in a pattern
+   */
+  public static readonly SPECIAL_CHARS = '\\*?[]{},';
+
+  /**
+   * Escape a literal string so that it is not expanded
+   */
+  public static escape(text: string): string {
+    let result = '';
+    for (const char of text) {
+      result += this.SPECIAL_CHARS.includes(char) ? '\\' + char : char;
+    }
+    return result;
+  }
+
+  /**
+   * Remove pattern escapes, giving the literal text
+   */
+  public static unescape(pattern: string): string {
+    return pattern.replace(/\\(.)/g, '$1');
+  }
+
+  /**
+   * Check if a pattern contains unescaped glob characters
+   */
+  public static hasGlob(pattern: string): boolean {
+    return this.indexOfUnescaped(pattern, ['*', '?', '[']) !== -1;
+  }
+
+  /**
+   * Expand a list of patterns into arguments
+   * @param patterns Words produced by the command parser
+   * @param fileSystem Filesystem to match globs against
+   * @param cwd Current working directory for relative patterns
+   */
+  public static async expandWords(patterns: string[], fileSystem: FileSystem, cwd: string): Promise<string[]> {
+    const result: string[] = [];
+
+    for (const pattern of patterns) {
+      for (const word of this.expandBraces(pattern)) {
+        if (this.hasGlob(word)) {
+          const matches = await this.expandGlob(word, fileSystem, cwd);
+          // Like bash, a pattern without matches is passed on literally
+          result.push(...(matches.length > 0 ? matches : [this.unescape(word)]));
+        } else {
+          result.push(this.unescape(word));
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Expand braces in a pattern: a{b,c}d -> abd acd, x{1..3} -> x1 x2 x3
+   * Escapes are kept in the results so they can still be globbed.
+   * @throws Error when the expansion has more than MAX_BRACE_WORDS words
+   */
+  public static expandBraces(pattern: string): string[] {
+    let searchFrom = 0;
+
+    while (true) {
+      const open = this.indexOfUnescaped(pattern, ['{'], searchFrom);
+      if (open === -1) {
+        return [pattern];
+      }
+
+      const close = this.findClosingBrace(pattern, open);
+      if (close === -1) {
+        return [pattern];
+      }
+
+      const prefix = pattern.substring(0, open);
+      const body = pattern.substring(open + 1, close);
+      const suffix = pattern.substring(close + 1);
+      const alternatives = this.splitAlternatives(body) ?? this.expandSequence(body);
+
+      if (!alternatives) {
+        // Not a brace expression (like find's {}), keep looking after it
+        searchFrom = open + 1;
+        continue;
+      }
+
+      const result: string[] = [];
+      for (const alternative of alternatives) {
+        for (const word of this.expandBraces(prefix + alternative + suffix)) {
+          result.push(word);
+        }
+        if (result.length > MAX_BRACE_WORDS) {
+          throw this.tooManyWords();
+        }
+      }
+      return result;
+    }
+  }
+
+  /**
+   * Expand a glob pattern against the filesystem
+   * @returns Matching paths in the same form as the pattern (relative or absolute), sorted
+   */
+  public static async expandGlob(pattern: string, fileSystem: FileSystem, cwd: string): Promise<string[]> {
+    const absolute = pattern.startsWith('/');
+    const segments = pattern.split('/').filter(segment => segment !== '');
+    let candidates: string[] = [absolute ? '/' : ''];
+
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      const isLast = i === segments.length - 1;
+      const next: string[] = [];
+
+      for (const base of candidates) {
+        if (!this.hasGlob(segment)) {
+          next.push(this.joinPath(base, this.unescape(segment)));
+          continue;
+        }
+
+        const regex = this.globToRegExp(segment);
+        const directory = base ? fileSystem.parsePath(base, cwd) : fileSystem.parsePath(cwd);
+
+        let entries;
+        try {
+          entries = await fileSystem.readDirectory(directory);
+        } catch (error) {
+          continue;
+        }
+
+        for (const entry of entries) {
+          // Hidden files only match patterns that start with a dot
+          if (entry.name.startsWith('.') && !segment.startsWith('.')) continue;
+          if (!isLast && entry.type !== 'directory') continue;
+          if (regex.test(entry.name)) {
+            next.push(this.joinPath(base, entry.name));
+          }
+        }
+      }
+
+      candidates = next;
+      if (candidates.length === 0) {
+        return [];
+      }
+    }
+
+    // Literal segments after the last glob must exist
+    const existing: string[] = [];
+    for (const candidate of candidates) {
+      if (await fileSystem.exists(fileSystem.parsePath(candidate, cwd))) {
+        existing.push(candidate);
+      }
+    }
+
+    return existing.sort();
+  }
+
+  /**
+   * Convert a single path segment glob into a regular expression
+   */
+  public static globToRegExp(segment: string): RegExp {
+    let source = '';
+
+    for (let i = 0; i < segment.length; i++) {
+      const char = segment[i];
+
+      if (char === '\\' && i + 1 < segment.length) {
+        source += this.escapeRegExp(segment[++i]);
+      } else if (char === '*') {
+        source += '.*';
+      } else if (char === '?') {
+        source += '.';
+      } else if (char === '[') {
+        const close = segment.indexOf(']', i + 2);
+        if (close === -1) {
+          source += '\\[';
+          continue;
+        }
+        let set = segment.substring(i + 1, close);
+        const negate = set.startsWith('!') || set.startsWith('^');
+        if (negate) set = set.substring(1);
+        set = this.unescape(set).replace(/[\\\]^]/g, '\\$&');
+        source += `[${negate ? '^' : ''}${set}]`;
+        i = close;
+      } else {
+        source += this.escapeRegExp(char);
+      }
+    }
+
+    return new RegExp(`^${source}$`);
+  }
+
+  /**
+   * Find the first unescaped occurrence of one of the given characters
+   */
+  private static indexOfUnescaped(pattern: string, chars: string[], from: number = 0): number {
+    for (let i = from; i < pattern.length; i++) {
+      if (pattern[i] === '\\') {
+        i++;
+      } else if (chars.includes(pattern[i])) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Find the brace closing the one at the given index, accounting for nesting
+   */
+  private static findClosingBrace(pattern: string, open: number): number {
+    let depth = 0;
+    for (let i = open; i < pattern.length; i++) {
+      if (pattern[i] === '\\') {
+        i++;
+      } else if (pattern[i] === '{') {
+        depth++;
+      } else if (pattern[i] === '}') {
+        depth--;
+        if (depth === 0) return i;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Split a brace body on its top-level commas
+   * @returns The alternatives, or null if there is no top-level comma
+   */
+  private static splitAlternatives(body: string): string[] | null {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (let i = 0; i < body.length; i++) {
+      const char = body[i];
+      if (char === '\\') {
+        current += char + (body[i + 1] ?? '');
+        i++;
+        continue;
+      }
+      if (char === '{') depth++;
+      if (char === '}') depth--;
+      if (char === ',' && depth === 0) {
+        parts.push(current);
+        current = '';
+        continue;
+      }
+      current += char;
+    }
+    parts.push(current);
+
+    return parts.length > 1 ? parts : null;
+  }
+
+  /**
+   * Expand a sequence expression body like 1..5, 10..0..2 or a..e
+   * @returns The sequence, or null if the body is not a sequence
+   */
+  private static expandSequence(body: string): string[] | null {
+    const numeric = /^(-?\d+)\.\.(-?\d+)(?:\.\.(-?\d+))?$/.exec(body);
+    if (numeric) {
+      const start = parseInt(numeric[1], 10);
+      const end = parseInt(numeric[2], 10);
+      const step = Math.abs(parseInt(numeric[3] ?? '1', 10)) || 1;
+      const width = /^-?0\d/.test(numeric[1]) || /^-?0\d/.test(numeric[2])
+        ? Math.max(numeric[1].length, numeric[2].length)
+        : 0;
+      if (Math.floor(Math.abs(end - start) / step) + 1 > MAX_BRACE_WORDS) {
+        throw this.tooManyWords();
+      }
+      const result: string[] = [];
+      for (let n = start; start <= end ? n <= end : n >= end; n += start <= end ? step : -step) {
+        result.push(width ? String(n).padStart(width, '0') : String(n));
+      }
+      return result;
+    }
+
+    const alpha = /^([a-zA-Z])\.\.([a-zA-Z])$/.exec(body);
+    if (alpha) {
+      const start = alpha[1].charCodeAt(0);
+      const end = alpha[2].charCodeAt(0);
+      const result: string[] = [];
+      for (let c = start; start <= end ? c <= end : c >= end; c += start <= end ? 1 : -1) {
+        result.push(this.escape(String.fromCharCode(c)));
+      }
+      return result;
+    }
+
+    return null;
+  }
+
+  private static tooManyWords(): Error {
+    return new Error(`brace expansion: more than ${MAX_BRACE_WORDS} words`);
+  }
+
+  /**
+   * Append a name to a path built during glob expansion
+   */
+  private static joinPath(base: string, name: string): string {
+    if (!base) return name;
+    return base.endsWith('/') ? base + name : base + '/' + name;
+  }
+
+  /**
+   * Escape a character for use in a regular expression
+   */
+  private static escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * Names of the supported hash algorithms
+ */
+export type HashAlgorithm = 'md5' | 'sha1' | 'sha256' | 'sha512';
+
+const MD5_SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21
+];
+
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) | 0);
+
+const SHA256_CONSTANTS = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+];
+
+const SHA512_CONSTANTS = [
+  '428a2f98d728ae22', '7137449123ef65cd', 'b5c0fbcfec4d3b2f', 'e9b5dba58189dbbc', '3956c25bf348b538',
+  '59f111f1b605d019', '923f82a4af194f9b', 'ab1c5ed5da6d8118', 'd807aa98a3030242', '12835b0145706fbe',
+  '243185be4ee4b28c', '550c7dc3d5ffb4e2', '72be5d74f27b896f', '80deb1fe3b1696b1', '9bdc06a725c71235',
+  'c19bf174cf692694', 'e49b69c19ef14ad2', 'efbe4786384f25e3', '0fc19dc68b8cd5b5', '240ca1cc77ac9c65',
+  '2de92c6f592b0275', '4a7484aa6ea6e483', '5cb0a9dcbd41fbd4', '76f988da831153b5', '983e5152ee66dfab',
+  'a831c66d2db43210', 'b00327c898fb213f', 'bf597fc7beef0ee4', 'c6e00bf33da88fc2', 'd5a79147930aa725',
+  '06ca6351e003826f', '142929670a0e6e70', '27b70a8546d22ffc', '2e1b21385c26c926', '4d2c6dfc5ac42aed',
+  '53380d139d95b3df', '650a73548baf63de', '766a0abb3c77b2a8', '81c2c92e47edaee6', '92722c851482353b',
+  'a2bfe8a14cf10364', 'a81a664bbc423001', 'c24b8b70d0f89791', 'c76c51a30654be30', 'd192e819d6ef5218',
+  'd69906245565a910', 'f40e35855771202a', '106aa07032bbd1b8', '19a4c116b8d2d0c8', '1e376c085141ab53',
+  '2748774cdf8eeb99', '34b0bcb5e19b48a8', '391c0cb3c5c95a63', '4ed8aa4ae3418acb', '5b9cca4f7763e373',
+  '682e6ff3d6b2b8a3', '748f82ee5defb2fc', '78a5636f43172f60', '84c87814a1f0ab72', '8cc702081a6439ec',
+  '90befffa23631e28', 'a4506cebde82bde9', 'bef9a3f7b2c67915', 'c67178f2e372532b', 'ca273eceea26619c',
+  'd186b8c721c0c207', 'eada7dd6cde0eb1e', 'f57d4f7fee6ed178', '06f067aa72176fba', '0a637dc5a2c898a6',
+  '113f9804bef90dae', '1b710b35131c471b', '28db77f523047d84', '32caab7b40c72493', '3c9ebe0a15c9bebc',
+  '431d67c49c100d4c', '4cc5d4becb3e42b6', '597f299cfc657e2a', '5fcb6fab3ad6faec', '6c44198c4a475817'
+].map(constant => BigInt('0x' + constant));
+
+/**
+ * Pure TypeScript implementations of the hash functions of md5sum and the sha*sum
+ * commands. They are synchronous, so that tools like john can hash many guesses
+ * in a loop, and work without the Web Crypto API, which needs a secure context.
+ */
+export class HashFunctions {
+  /**
+   * Names of the algorithms, as used in the hashsum command names
+   */
+  public static readonly algorithms: HashAlgorithm[] = ['md5', 'sha1', 'sha256', 'sha512'];
+
+  /**
+   * Hash data
+   * @param algorithm Hash algorithm
+   * @param data Data to hash; text is hashed as UTF-8
+   * @returns The digest
+   */
+  public static digest(algorithm: HashAlgorithm, data: Uint8Array | string): Uint8Array {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+    switch (algorithm) {
+      case 'md5': return this.md5(bytes);
+      case 'sha1': return this.sha1(bytes);
+      case 'sha256': return this.sha256(bytes);
+      case 'sha512': return this.sha512(bytes);
+    }
+  }
+
+  /**
+   * Hash data and format the digest as lowercase hexadecimal, as printed by md5sum
+   */
+  public static hexDigest(algorithm: HashAlgorithm, data: Uint8Array | string): string {
+    return this.toHex(this.digest(algorithm, data));
+  }
+
+  /**
+   * Get the length of the digests of an algorithm in hexadecimal digits
+   */
+  public static hexLength(algorithm: HashAlgorithm): number {
+    return { md5: 32, sha1: 40, sha256: 64, sha512: 128 }[algorithm];
+  }
+
+  public static toHex(bytes: Uint8Array): string {
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  private static md5(data: Uint8Array): Uint8Array {
+    const message = this.pad(data, 64, 8, true);
+    const view = new DataView(message.buffer);
+    const state = [0x67452301, 0xefcdab89 | 0, 0x98badcfe | 0, 0x10325476];
+    const words = new Array<number>(16);
+
+    for (let offset = 0; offset < message.length; offset += 64) {
+      for (let i = 0; i < 16; i++) words[i] = view.getInt32(offset + i * 4, true);
+      let [a, b, c, d] = state;
+
+      for (let i = 0; i < 64; i++) {
+        let f: number;
+        let g: number;
+        if (i < 16) {
+          f = (b & c) | (~b & d);
+          g = i;
+        } else if (i < 32) {
+          f = (d & b) | (~d & c);
+          g = (5 * i + 1) % 16;
+        } else if (i < 48) {
+          f = b ^ c ^ d;
+          g = (3 * i + 5) % 16;
+        } else {
+          f = c ^ (b | ~d);
+          g = (7 * i) % 16;
+        }
+        f = (f + a + MD5_CONSTANTS[i] + words[g]) | 0;
+        a = d;
+        d = c;
+        c = b;
+        b = (b + this.rotateLeft(f, MD5_SHIFTS[i])) | 0;
+      }
+
+      state[0] = (state[0] + a) | 0;
+      state[1] = (state[1] + b) | 0;
+      state[2] = (state[2] + c) | 0;
+      state[3] = (state[3] + d) | 0;
+    }
+
+    return this.words(state, true);
+  }
+
+  private static sha1(data: Uint8Array): Uint8Array {
+    const message = this.pad(data, 64, 8, false);
+    const view = new DataView(message.buffer);
+    const state = [0x67452301, 0xefcdab89 | 0, 0x98badcfe | 0, 0x10325476, 0xc3d2e1f0 | 0];
+    const words = new Array<number>(80);
+
+    for (let offset = 0; offset < message.length; offset += 64) {
+      for (let i = 0; i < 16; i++) words[i] = view.getInt32(offset + i * 4);
+      for (let i = 16; i < 80; i++) words[i] = this.rotateLeft(words[i - 3] ^ words[i - 8] ^ words[i - 14] ^ words[i - 16], 1);
+      let [a, b, c, d, e] = state;
+
+      for (let i = 0; i < 80; i++) {
+        let f: number;
+        let k: number;
+        if (i < 20) {
+          f = (b & c) | (~b & d);
+          k = 0x5a827999;
+        } else if (i < 40) {
+          f = b ^ c ^ d;
+          k = 0x6ed9eba1;
+        } else if (i < 60) {
+          f = (b & c) | (b & d) | (c & d);
+          k = 0x8f1bbcdc | 0;
+        } else {
+          f = b ^ c ^ d;
+          k = 0xca62c1d6 | 0;
+        }
+        const temp = (this.rotateLeft(a, 5) + f + e + k + words[i]) | 0;
+        e = d;
+        d = c;
+        c = this.rotateLeft(b, 30);
+        b = a;
+        a = temp;
+      }
+
+      state[0] = (state[0] + a) | 0;
+      state[1] = (state[1] + b) | 0;
+      state[2] = (state[2] + c) | 0;
+      state[3] = (state[3] + d) | 0;
+      state[4] = (state[4] + e) | 0;
+    }
+
+    return this.words(state, false);
+  }
+
+  private static sha256(data: Uint8Array): Uint8Array {
+    const message = this.pad(data, 64, 8, false);
+    const view = new DataView(message.buffer);
+    const state = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19].map(word => word | 0);
+    const words = new Array<number>(64);
+    const rotateRight = (value: number, bits: number) => (value >>> bits) | (value << (32 - bits));
+
+    for (let offset = 0; offset < message.length; offset += 64) {
+      for (let i = 0; i < 16; i++) words[i] = view.getInt32(offset + i * 4);
+      for (let i = 16; i < 64; i++) {
+        const s0 = rotateRight(words[i - 15], 7) ^ rotateRight(words[i - 15], 18) ^ (words[i - 15] >>> 3);
+        const s1 = rotateRight(words[i - 2], 17) ^ rotateRight(words[i - 2], 19) ^ (words[i - 2] >>> 10);
+        words[i] = (words[i - 16] + s0 + words[i - 7] + s1) | 0;
+      }
+      let [a, b, c, d, e, f, g, h] = state;
+
+      for (let i = 0; i < 64; i++) {
+        const s1 = rotateRight(e, 6) ^ rotateRight(e, 11) ^ rotateRight(e, 25);
+        const choice = (e & f) ^ (~e & g);
+        const temp1 = (h + s1 + choice + SHA256_CONSTANTS[i] + words[i]) | 0;
+        const s0 = rotateRight(a, 2) ^ rotateRight(a, 13) ^ rotateRight(a, 22);
+        const majority = (a & b) ^ (a & c) ^ (b & c);
+        const temp2 = (s0 + majority) | 0;
+        h = g;
+        g = f;
+        f = e;
+        e = (d + temp1) | 0;
+        d = c;
+        c = b;
+        b = a;
+        a = (temp1 + temp2) | 0;
+      }
+
+      [a, b, c, d, e, f, g, h].forEach((value, i) => state[i] = (state[i] + value) | 0);
+    }
+
+    return this.words(state, false);
+  }
+
+  private static sha512(data: Uint8Array): Uint8Array {
+    const message = this.pad(data, 128, 16, false);
+    const view = new DataView(message.buffer);
+    const state = [
+      '6a09e667f3bcc908', 'bb67ae8584caa73b', '3c6ef372fe94f82b', 'a54ff53a5f1d36f1',
+      '510e527fade682d1', '9b05688c2b3e6c1f', '1f83d9abfb41bd6b', '5be0cd19137e2179'
+    ].map(word => BigInt('0x' + word));
+    const words = new Array<bigint>(80);
+    const mask = (value: bigint) => BigInt.asUintN(64, value);
+    const rotateRight = (value: bigint, bits: bigint) => mask((value >> bits) | (value << (64n - bits)));
+
+    for (let offset = 0; offset < message.length; offset += 128) {
+      for (let i = 0; i < 16; i++) words[i] = view.getBigUint64(offset + i * 8);
+      for (let i = 16; i < 80; i++) {
+        const s0 = rotateRight(words[i - 15], 1n) ^ rotateRight(words[i - 15], 8n) ^ (words[i - 15] >> 7n);
+        const s1 = rotateRight(words[i - 2], 19n) ^ rotateRight(words[i - 2], 61n) ^ (words[i - 2] >> 6n);
+        words[i] = mask(words[i - 16] + s0 + words[i - 7] + s1);
+      }
+      let [a, b, c, d, e, f, g, h] = state;
+
+      for (let i = 0; i < 80; i++) {
+        const s1 = rotateRight(e, 14n) ^ rotateRight(e, 18n) ^ rotateRight(e, 41n);
+        const choice = (e & f) ^ (mask(~e) & g);
+        const temp1 = mask(h + s1 + choice + SHA512_CONSTANTS[i] + words[i]);
+        const s0 = rotateRight(a, 28n) ^ rotateRight(a, 34n) ^ rotateRight(a, 39n);
+        const majority = (a & b) ^ (a & c) ^ (b & c);
+        const temp2 = mask(s0 + majority);
+        h = g;
+        g = f;
+        f = e;
+        e = mask(d + temp1);
+        d = c;
+        c = b;
+        b = a;
+        a = mask(temp1 + temp2);
+      }
+
+      [a, b, c, d, e, f, g, h].forEach((value, i) => state[i] = mask(state[i] + value));
+    }
+
+    const digest = new Uint8Array(64);
+    const digestView = new DataView(digest.buffer);
+    state.forEach((word, i) => digestView.setBigUint64(i * 8, word));
+    return digest;
+  }
+
+  /**
+   * Append the padding: a 1 bit, zeros, and the length of the data in bits
+   * at the end of the last block
+   */
+  private static pad(data: Uint8Array, blockSize: number, lengthSize: number, littleEndian: boolean): Uint8Array {
+    const length = Math.ceil((data.length + 1 + lengthSize) / blockSize) * blockSize;
+    const message = new Uint8Array(length);
+    message.set(data);
+    message[data.length] = 0x80;
+
+    const view = new DataView(message.buffer);
+    const bits = data.length * 8;
+    const high = Math.floor(bits / 2 ** 32);
+    const low = bits >>> 0;
+    if (littleEndian) {
+      view.setUint32(length - lengthSize, low, true);
+      view.setUint32(length - lengthSize + 4, high, true);
+    } else {
+      view.setUint32(length - 8, high);
+      view.setUint32(length - 4, low);
+    }
+    return message;
+  }
+
+  private static words(state: number[], littleEndian: boolean): Uint8Array {
+    const bytes = new Uint8Array(state.length * 4);
+    const view = new DataView(bytes.buffer);
+    state.forEach((word, i) => view.setInt32(i * 4, word, littleEndian));
+    return bytes;
+  }
+
+  private static rotateLeft(value: number, bits: number): number {
+    return (value << bits) | (value >>> (32 - bits));
+  }
+}
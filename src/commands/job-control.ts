@@ -0,0 +1,353 @@
+import { ProcessManager } from '../core/process';
+import { CommandContext } from './command-processor';
+
+/**
+ * State of a job
+ */
+export type JobState = 'running' | 'stopped' | 'done';
+
+/**
+ * Exit code of a command stopped by Ctrl+C (128 + SIGINT)
+ */
+export const INTERRUPTED_EXIT_CODE = 130;
+
+/**
+ * Exit code reported by fg when the job is stopped again (128 + SIGTSTP)
+ */
+export const STOPPED_EXIT_CODE = 148;
+
+/**
+ * Thrown at a checkpoint when the job has been interrupted
+ */
+export class JobInterruptedError extends Error {
+  constructor() {
+    super('Interrupted');
+    this.name = 'JobInterruptedError';
+  }
+}
+
+/**
+ * A command line running in a terminal, in the foreground or in the background.
+ * Commands see it as context.job and context.signal.
+ */
+export class Job {
+  public state: JobState = 'running';
+  public exitCode: number = 0;
+  public background: boolean;
+  public finished!: Promise<number>;
+
+  private controller = new AbortController();
+  private listeners: (() => void)[] = [];
+
+  constructor(
+    public readonly id: number,
+    public readonly command: string,
+    public readonly pid: number,
+    private readonly processManager: ProcessManager,
+    background: boolean
+  ) {
+    this.background = background;
+  }
+
+  /**
+   * Signal aborted when the job is interrupted or killed
+   */
+  public get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * Stop the job (Ctrl+Z); it pauses at its next checkpoint
+   */
+  public stop(): void {
+    if (this.state !== 'running') return;
+    this.setState('stopped');
+  }
+
+  /**
+   * Continue a stopped job
+   */
+  public resume(): void {
+    if (this.state !== 'stopped') return;
+    this.setState('running');
+  }
+
+  /**
+   * Interrupt the job (Ctrl+C or kill); a stopped job is woken up so it can end
+   */
+  public interrupt(): void {
+    if (this.state === 'done') return;
+    this.controller.abort();
+    if (this.state === 'stopped') {
+      this.setState('running');
+    }
+    this.notify();
+  }
+
+  /**
+   * Wait while the job is stopped, then throw if it has been interrupted
+   * @throws JobInterruptedError
+   */
+  public async checkpoint(): Promise<void> {
+    while (this.state === 'stopped' && !this.signal.aborted) {
+      await this.waitForChange();
+    }
+    if (this.signal.aborted) {
+      throw new JobInterruptedError();
+    }
+  }
+
+  /**
+   * Resolve on the next state change
+   */
+  public waitForChange(): Promise<void> {
+    return new Promise(resolve => this.listeners.push(resolve));
+  }
+
+  /**
+   * Mark the job as finished
+   */
+  public complete(exitCode: number): void {
+    this.exitCode = exitCode;
+    this.setState('done');
+  }
+
+  private setState(state: JobState): void {
+    this.state = state;
+    const process = this.processManager.getProcess(this.pid);
+    if (process && state !== 'done') {
+      process.status = state;
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    const listeners = this.listeners;
+    this.listeners = [];
+    listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Jobs of one terminal session, with the foreground job that receives Ctrl+C and Ctrl+Z
+ */
+export class JobTable {
+  private jobs: Job[] = [];
+  private foregroundStack: Job[] = [];
+
+  /**
+   * Called with a message like "[1]+  Done  cmd" when a background job changes state
+   */
+  public onNotify: (message: string) => void = () => {};
+
+  /**
+   * Create a table
+   * @param processManager Process manager in which jobs are registered as processes
+   * @param parentPid Process of the terminal, the parent of all jobs
+   * @param user Owner of the job processes
+   */
+  constructor(private readonly processManager: ProcessManager, private readonly parentPid: number | undefined, private readonly user: string) {}
+
+  /**
+   * Start a job
+   * @param command The command line, shown by jobs and ps
+   * @param run Runs the command for the job
+   * @param background Start in the background
+   */
+  public start(command: string, run: (job: Job) => Promise<number>, background: boolean): Job {
+    let id = 1;
+    while (this.jobs.some(job => job.id === id)) {
+      id++;
+    }
+
+    let job: Job;
+    const name = command.trim().split(/\s+/)[0] || 'sh';
+    const pid = this.processManager.createProcess(name, this.user, 0.2, 5, command, undefined, this.parentPid,
+      () => job.interrupt());
+    job = new Job(id, command, pid, this.processManager, background);
+    this.jobs.push(job);
+    if (!background) {
+      this.foregroundStack.push(job);
+    }
+
+    job.finished = run(job)
+      .catch(error => {
+        if (!(error instanceof JobInterruptedError)) {
+          console.error(`Error in job [${job.id}] ${command}:`, error);
+        }
+        return job.signal.aborted ? INTERRUPTED_EXIT_CODE : 1;
+      })
+      .then(exitCode => {
+        const status = job.signal.aborted ? 'Terminated' : exitCode === 0 ? 'Done' : `Exit ${exitCode}`;
+        const message = this.format(job, status);
+        job.complete(exitCode);
+        this.jobs = this.jobs.filter(other => other !== job);
+        this.foregroundStack = this.foregroundStack.filter(other => other !== job);
+        if (this.processManager.getProcess(pid)) {
+          this.processManager.killProcess(pid);
+        }
+        if (job.background) {
+          this.onNotify(message);
+        }
+        return exitCode;
+      });
+
+    return job;
+  }
+
+  /**
+   * Get the background and stopped jobs, oldest first.
+   * Like in bash, a job running in the foreground is not listed.
+   */
+  public list(): Job[] {
+    return this.jobs.filter(job => !this.foregroundStack.includes(job));
+  }
+
+  /**
+   * Find a job from a job spec: %n or n, %+ / %% (current), %- (previous) or %prefix
+   * @returns The job, or undefined if there is no match
+   */
+  public get(spec?: string): Job | undefined {
+    if (spec === undefined || spec === '%+' || spec === '%%' || spec === '%') {
+      return this.current();
+    }
+    const jobs = this.list();
+    if (spec === '%-') {
+      return jobs.filter(job => job !== this.current()).pop();
+    }
+
+    const number = spec.replace(/^%/, '');
+    if (/^\d+$/.test(number)) {
+      return jobs.find(job => job.id === parseInt(number, 10));
+    }
+    return jobs.reverse().find(job => job.command.startsWith(number));
+  }
+
+  /**
+   * Get the current job (the most recent one, preferring stopped jobs like bash)
+   */
+  public current(): Job | undefined {
+    const jobs = this.list();
+    const stopped = jobs.filter(job => job.state === 'stopped');
+    return stopped.length > 0 ? stopped[stopped.length - 1] : jobs[jobs.length - 1];
+  }
+
+  /**
+   * Run a job in the foreground until it finishes or is stopped
+   * @returns The exit code, or null if the job was stopped
+   */
+  public async foreground(job: Job): Promise<number | null> {
+    job.background = false;
+    job.resume();
+    if (!this.foregroundStack.includes(job)) {
+      this.foregroundStack.push(job);
+    }
+
+    try {
+      while (job.state === 'running') {
+        await job.waitForChange();
+      }
+    } finally {
+      this.foregroundStack = this.foregroundStack.filter(other => other !== job);
+    }
+
+    if (job.state === 'stopped') {
+      // A stopped job reports its completion like a background job
+      job.background = true;
+      return null;
+    }
+    return job.exitCode;
+  }
+
+  /**
+   * Continue a stopped job in the background
+   */
+  public background(job: Job): void {
+    job.background = true;
+    job.resume();
+  }
+
+  /**
+   * Interrupt the foreground job (Ctrl+C)
+   * @returns False if there is no foreground job
+   */
+  public interruptForeground(): boolean {
+    const job = this.foregroundStack[this.foregroundStack.length - 1];
+    job?.interrupt();
+    return job !== undefined;
+  }
+
+  /**
+   * Stop the foreground job (Ctrl+Z)
+   * @returns False if there is no foreground job
+   */
+  public stopForeground(): boolean {
+    const job = this.foregroundStack[this.foregroundStack.length - 1];
+    job?.stop();
+    return job !== undefined;
+  }
+
+  /**
+   * Check if a job is running in the foreground
+   */
+  public hasForeground(): boolean {
+    return this.foregroundStack.length > 0;
+  }
+
+  /**
+   * Format a job like bash's job notifications: [1]+  Stopped                 ping host
+   */
+  public format(job: Job, status?: string): string {
+    const marker = job === this.current() ? '+' : job === this.get('%-') ? '-' : ' ';
+    const state = status ?? (job.state === 'stopped' ? 'Stopped' : job.state === 'done' ? 'Done' : 'Running');
+    return `[${job.id}]${marker}  ${state.padEnd(24)}${job.command}`;
+  }
+}
+
+/**
+ * Helper class for commands that run for a while and must respect Ctrl+C and Ctrl+Z
+ */
+export class JobControl {
+  private static lastYield: number = Date.now();
+
+  /**
+   * Pause while the command's job is stopped or its output pipe is full, and throw if it
+   * was interrupted or the pipe was closed. Also yields to the browser now and then, so busy loops do not freeze the terminal.
+   * @throws JobInterruptedError, or BrokenPipeError when the output pipe was closed
+   */
+  public static async checkpoint(context: CommandContext): Promise<void> {
+    if (Date.now() - this.lastYield > 50) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      this.lastYield = Date.now();
+    }
+
+    if (context.job) {
+      await context.job.checkpoint();
+    } else if (context.signal?.aborted) {
+      throw new JobInterruptedError();
+    }
+
+    // Writing to a pipe waits here for the reader, which may have exited
+    await context.stdout.drain?.();
+  }
+
+  /**
+   * Wait for a number of milliseconds, ending early when the command is interrupted
+   * @throws JobInterruptedError
+   */
+  public static async sleep(milliseconds: number, context: CommandContext): Promise<void> {
+    const signal = context.signal;
+
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(done, milliseconds);
+      function done() {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+      }
+      signal?.addEventListener('abort', done);
+    });
+
+    await this.checkpoint(context);
+  }
+}
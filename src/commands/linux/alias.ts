@@ -16,28 +16,89 @@ export class AliasCommand implements CommandModule {
   }
   
   public get description(): string {
-    return 'List all filesystem path aliases';
+    return 'Define shell aliases and list filesystem path aliases';
   }
     public get usage(): string {
-    return `Usage: alias [options]
+    return `Usage: alias [-p] [name[=value] ...]
 
-Display all defined filesystem path aliases.
+Define or display shell aliases, and display filesystem path aliases.
 
 Description:
-  The 'alias' command lists all path aliases in the filesystem, showing the
-  alias name and its target path. Different types of aliases are indicated:
+  alias name=value defines a shell alias: when name is the first word of a
+  command, it is replaced by value. Aliases are usually defined in ~/.bashrc
+  so that every terminal has them; unalias removes them.
+
+  Without arguments, 'alias' lists the shell aliases followed by all path
+  aliases in the filesystem, showing the alias name and its target path.
+  Different types of path aliases are indicated:
   - fixed: A permanent alias that points to a specific path
   - symlink: A symbolic link to another location in the filesystem
   - dynamic: A programmatically determined path
 
 Options:
-  None currently supported.
+  -p        List only the shell aliases, in a form that can be reused as input
 
 Examples:
-  alias              # List all defined path aliases`;
+  alias                       # List shell and path aliases
+  alias ll='ls -l'            # Define ll as a shortcut for ls -l
+  alias ll                    # Show the definition of ll`;
   }
   
   async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    // Alias values may look like options, so read the arguments unparsed
+    const argv = args.argv ?? args.args;
+    const aliases = context.aliases ??= {};
+    
+    if (argv.length === 0 || (argv.length === 1 && argv[0] === '-p')) {
+      const names = Object.keys(aliases).sort();
+      for (const name of names) {
+        context.stdout.writeLine(AliasCommand.formatAlias(name, aliases[name]));
+      }
+      if (argv.length === 1) {
+        return 0;
+      }
+      if (names.length > 0) {
+        context.stdout.writeLine('');
+      }
+      return this.listPathAliases(context);
+    }
+    
+    let exitCode = 0;
+    for (const arg of argv) {
+      const equals = arg.indexOf('=');
+      if (equals === -1) {
+        if (Object.prototype.hasOwnProperty.call(aliases, arg)) {
+          context.stdout.writeLine(AliasCommand.formatAlias(arg, aliases[arg]));
+        } else {
+          context.stderr.writeLine(`alias: ${arg}: not found`);
+          exitCode = 1;
+        }
+        continue;
+      }
+      
+      const name = arg.substring(0, equals);
+      if (!/^[^\s\/$`=\\'"|&;()<>]+$/.test(name)) {
+        context.stderr.writeLine(`alias: \`${name}': invalid alias name`);
+        exitCode = 1;
+        continue;
+      }
+      aliases[name] = arg.substring(equals + 1);
+    }
+    
+    return exitCode;
+  }
+  
+  /**
+   * Format an alias definition the way bash prints it: alias ll='ls -l'
+   */
+  public static formatAlias(name: string, value: string): string {
+    return `alias ${name}='${value.replace(/'/g, "'\\''")}'`;
+  }
+  
+  /**
+   * Print all path aliases of the filesystem
+   */
+  private listPathAliases(context: CommandContext): number {
     try {
       const aliases = this.os.getFileSystem().getAliases();
       
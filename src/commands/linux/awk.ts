@@ -0,0 +1,213 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { OS } from '../../core/os';
+import { CommandPipe } from '../command-pipe';
+import { JobControl, JobInterruptedError } from '../job-control';
+import { CommandOption, CommandOptions } from '../command-options';
+import { AwkInterpreter } from '../awk-interpreter';
+
+/**
+ * awk command - Pattern scanning and text processing language
+ */
+export class AwkCommand implements CommandModule {
+  private os: OS;
+
+  constructor(os: OS) {
+    this.os = os;
+  }
+
+  public get name(): string {
+    return 'awk';
+  }
+
+  public get description(): string {
+    return 'Pattern scanning and text processing language';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'field-separator', alias: 'F', type: 'string', valueName: 'fs', description: 'Use fs as the input field separator (the FS variable)' },
+      { name: 'assign', alias: 'v', type: 'string', repeatable: true, valueName: 'var=value', description: 'Assign the value to the variable before the program starts' },
+      { name: 'file', alias: 'f', type: 'string', repeatable: true, valueName: 'progfile', description: 'Read the program from a file' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage("awk [options] 'program' [var=value | file...]", this.options, `Run the program on each line of the files, or of standard input.
+
+A program is a list of pattern { action } rules. BEGIN and END rules run before
+and after the input; other rules run for each line whose pattern matches.
+$0 is the line, $1 to $NF its fields, split on FS (blanks by default).
+
+Operands like var=value assign the variable before the next file is read.`, `Examples:
+  awk '{ print $1 }' file.txt                  Print the first field of each line
+  awk -F: '{ print $1, $7 }' /etc/passwd       Use : as the field separator
+  awk '/error/ { n++ } END { print n }' log    Count lines matching a pattern
+  awk 'NR > 1 && $3 > 100' data.csv            Print lines where a field is large
+  awk '{ s += $2 } END { printf "%.2f\\n", s }'  Sum the second column
+  ps | awk -v OFS='\\t' '{ print $1, $NF }'      Reformat output of a command`);
+  }
+
+  /**
+   * Execute command with context and streams
+   * Returns the exit code given to exit, 2 for syntax and runtime errors
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    const fileSystem = this.os.getFileSystem();
+    const operands = [...args.args];
+    let interpreter: AwkInterpreter | undefined;
+
+    try {
+      // The program comes from -f, or else from the first operand
+      let program: string;
+      if (args.file.length > 0) {
+        const sources: string[] = [];
+        for (const file of args.file as string[]) {
+          const path = fileSystem.parsePath(file, context.cwd);
+          if (!await fileSystem.exists(path)) {
+            context.stderr.writeLine(`awk: can't open file ${file}`);
+            return 2;
+          }
+          sources.push(await fileSystem.readFile(path));
+        }
+        program = sources.join('\n');
+      } else if (operands.length > 0) {
+        program = operands.shift()!;
+      } else {
+        context.stderr.writeLine("usage: awk [options] 'program' [var=value | file...]");
+        return 2;
+      }
+
+      try {
+        interpreter = new AwkInterpreter(program, {
+          write: text => this.write(text, context),
+          writeFile: (file, text, append) => this.writeFile(file, text, append, context),
+          checkpoint: () => JobControl.checkpoint(context)
+        }, context.env);
+      } catch (error) {
+        context.stderr.writeLine(`awk: ${error instanceof Error ? error.message : String(error)}`);
+        return 2;
+      }
+
+      if (args['field-separator'] !== undefined) {
+        // -Ft is a tab, as in POSIX awk
+        interpreter.assign('FS', args['field-separator'] === 't' ? '\t' : args['field-separator']);
+      }
+      for (const assignment of args.assign as string[]) {
+        if (!this.isAssignment(assignment)) {
+          context.stderr.writeLine(`awk: invalid -v argument: ${assignment}`);
+          return 2;
+        }
+        this.assign(interpreter, assignment);
+      }
+      interpreter.setArguments(operands);
+
+      await interpreter.begin();
+      if (interpreter.readsInput && !interpreter.hasExited) {
+        const exitCode = await this.processInput(interpreter, operands, context);
+        if (exitCode !== 0) {
+          await interpreter.flush();
+          return exitCode;
+        }
+      }
+      await interpreter.end();
+
+      return interpreter.status;
+    } catch (error) {
+      // Ctrl+C and broken pipes end the command
+      if (error instanceof JobInterruptedError) {
+        throw error;
+      }
+      await interpreter?.flush().catch(() => undefined);
+      context.stderr.writeLine(`awk: ${error instanceof Error ? error.message : String(error)}`);
+      return 2;
+    }
+  }
+
+  /**
+   * Run the main rules on each line of the files, or of standard input when there are none
+   * @returns 0, or 2 when a file cannot be read
+   */
+  private async processInput(interpreter: AwkInterpreter, operands: string[], context: CommandContext): Promise<number> {
+    const fileSystem = this.os.getFileSystem();
+    const files = operands.filter(operand => !this.isAssignment(operand));
+
+    for (const operand of files.length > 0 ? operands : [...operands, '-']) {
+      if (interpreter.hasExited) {
+        break;
+      }
+
+      // var=value operands take effect before the files after them are read
+      if (this.isAssignment(operand)) {
+        this.assign(interpreter, operand);
+        continue;
+      }
+
+      if (operand === '-') {
+        interpreter.setFilename('');
+        for await (const line of CommandPipe.lines(context.stdin)) {
+          await interpreter.processRecord(line);
+          // Stop when the reader of our output has exited
+          await JobControl.checkpoint(context);
+          if (interpreter.hasExited) break;
+        }
+        continue;
+      }
+
+      const path = fileSystem.parsePath(operand, context.cwd);
+      if (!await fileSystem.exists(path) || (await fileSystem.stat(path)).isDirectory) {
+        context.stderr.writeLine(`awk: can't open file ${operand}`);
+        return 2;
+      }
+
+      const content = await fileSystem.readFile(path);
+      interpreter.setFilename(operand);
+      for (const line of content === '' ? [] : content.replace(/\n$/, '').split('\n')) {
+        await interpreter.processRecord(line);
+        await JobControl.checkpoint(context);
+        if (interpreter.hasExited) break;
+      }
+    }
+
+    return 0;
+  }
+
+  private isAssignment(operand: string): boolean {
+    return /^[A-Za-z_][A-Za-z0-9_]*=/.test(operand);
+  }
+
+  private assign(interpreter: AwkInterpreter, assignment: string): void {
+    const equals = assignment.indexOf('=');
+    interpreter.assign(assignment.substring(0, equals), assignment.substring(equals + 1));
+  }
+
+  /**
+   * Write program output line by line, so terminals get proper line breaks
+   */
+  private write(text: string, context: CommandContext): void {
+    const lines = text.split('\n');
+    const rest = lines.pop()!;
+    lines.forEach(line => context.stdout.writeLine(line));
+    if (rest) {
+      context.stdout.write(rest);
+    }
+  }
+
+  /**
+   * Write the output of print > file on the virtual file system
+   */
+  private async writeFile(file: string, text: string, append: boolean, context: CommandContext): Promise<void> {
+    const fileSystem = this.os.getFileSystem();
+    if (file === '/dev/stdout' || file === '-') {
+      this.write(text, context);
+      return;
+    }
+    if (file === '/dev/stderr') {
+      text.replace(/\n$/, '').split('\n').forEach(line => context.stderr.writeLine(line));
+      return;
+    }
+
+    const path = fileSystem.parsePath(file, context.cwd);
+    const existing = append && await fileSystem.exists(path) ? await fileSystem.readFile(path) : '';
+    await fileSystem.writeFile(path, existing + text);
+  }
+}
@@ -0,0 +1,96 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { CommandInput } from '../command-input';
+import { JobControl, JobInterruptedError } from '../job-control';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * base64 command - Encode or decode data in base64
+ */
+export class Base64Command implements CommandModule {
+  public get name(): string {
+    return 'base64';
+  }
+
+  public get description(): string {
+    return 'Encode or decode data in base64';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'decode', alias: 'd', type: 'boolean', description: 'Decode data' },
+      { name: 'ignore-garbage', alias: 'i', type: 'boolean', description: 'When decoding, ignore characters that are not in the base64 alphabet' },
+      { name: 'wrap', alias: 'w', type: 'number', default: 76, valueName: 'cols', description: 'Wrap encoded lines after cols characters; 0 disables wrapping' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('base64 [OPTION]... [FILE]', this.options,
+      'Base64 encode or decode FILE, or standard input, to standard output.\nWith no FILE, or when FILE is -, read standard input.', `Examples:
+  echo -n admin:secret | base64   Encode credentials for an HTTP header
+  base64 -d token.txt             Decode a base64 file
+  base64 -w 0 key.bin             Encode a binary file on one line`);
+  }
+
+  /**
+   * Execute command with context and streams
+   * Returns exit code (0 for success, 1 for unreadable files or invalid input)
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    if (args.args.length > 1) {
+      context.stderr.writeLine(`base64: extra operand '${args.args[1]}'`);
+      context.stderr.writeLine("Try 'base64 --help' for more information.");
+      return 1;
+    }
+    const wrap: number = args.wrap;
+    if (!Number.isInteger(wrap) || wrap < 0) {
+      context.stderr.writeLine(`base64: invalid wrap size: '${wrap}'`);
+      return 1;
+    }
+
+    try {
+      const data = await CommandInput.readBytes(args.args[0] ?? '-', context, 'base64');
+      if (data === null) {
+        return 1;
+      }
+
+      if (args.decode) {
+        let text = new TextDecoder().decode(data).replace(/\s+/g, '');
+        if (args['ignore-garbage']) {
+          text = text.replace(/[^A-Za-z0-9+/=]/g, '');
+        }
+        // Padding may be left out at the end of the input
+        if (!/^[A-Za-z0-9+/]*={0,2}$/.test(text) || text.length % 4 === 1) {
+          context.stderr.writeLine('base64: invalid input');
+          return 1;
+        }
+        const binary = atob(text.padEnd(Math.ceil(text.length / 4) * 4, '='));
+        const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+        context.stdout.write(new TextDecoder().decode(bytes));
+        return 0;
+      }
+
+      let binary = '';
+      for (const byte of data) {
+        binary += String.fromCharCode(byte);
+      }
+      const encoded = btoa(binary);
+      if (wrap === 0) {
+        context.stdout.writeLine(encoded);
+        return 0;
+      }
+      for (let i = 0; i < encoded.length; i += wrap) {
+        context.stdout.writeLine(encoded.substring(i, i + wrap));
+        // Stop when the reader of our output has exited
+        await JobControl.checkpoint(context);
+      }
+      return 0;
+    } catch (error) {
+      // Ctrl+C and broken pipes end the command
+      if (error instanceof JobInterruptedError) {
+        throw error;
+      }
+      context.stderr.writeLine(`base64: ${error instanceof Error ? error.message : String(error)}`);
+      return 1;
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+
+/**
+ * bg command - Continue a stopped job in the background
+ */
+export class BgCommand implements CommandModule {
+  public get name(): string {
+    return 'bg';
+  }
+  
+  public get description(): string {
+    return 'Continue a stopped job in the background';
+  }
+  
+  public get usage(): string {
+    return `Usage: bg [jobspec ...]
+
+Continue stopped jobs in the background, as if they had been started with &.
+Without a job spec, the current job (marked + by jobs) is used.
+
+Examples:
+  bg        # Continue the current job
+  bg %1     # Continue job 1`;
+  }
+  
+  /**
+   * Execute the bg command
+   * @param args Command arguments
+   * @param context Command execution context
+   * @returns Exit code (0 for success, 1 if a job does not exist or already runs in the background)
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    const jobs = context.jobs;
+    if (!jobs) {
+      context.stderr.writeLine('bg: no job control in this shell');
+      return 1;
+    }
+    
+    const specs = args.args.length > 0 ? args.args : [undefined];
+    let exitCode = 0;
+    
+    for (const spec of specs) {
+      const job = jobs.get(spec);
+      if (!job) {
+        context.stderr.writeLine(`bg: ${spec ?? 'current'}: no such job`);
+        exitCode = 1;
+        continue;
+      }
+      if (job.state === 'running') {
+        context.stderr.writeLine(`bg: job ${job.id} already in background`);
+        exitCode = 1;
+        continue;
+      }
+      
+      const line = jobs.format(job, '');
+      jobs.background(job);
+      context.stdout.writeLine(`${line.substring(0, line.indexOf(']') + 2)} ${job.command} &`);
+    }
+    
+    return exitCode;
+  }
+}
@@ -0,0 +1,46 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+
+/**
+ * builtin command - Run a built-in command without looking it up in PATH
+ */
+export class BuiltinCommand implements CommandModule {
+  public get name(): string {
+    return 'builtin';
+  }
+  
+  public get description(): string {
+    return 'Run a built-in command, bypassing PATH';
+  }
+  
+  public get usage(): string {
+    return `Usage: builtin command [arg ...]
+
+Run a built-in command of HackerOS even when a file with the same name comes
+first in PATH. The files of the built-in commands in /bin use it to run them.
+
+Examples:
+  builtin ls -l               # Run the built-in ls, not ~/bin/ls
+  cat /bin/grep               # See how /bin/grep calls builtin`;
+  }
+  
+  /**
+   * Execute the builtin command
+   * @param args Command arguments
+   * @param context Command execution context
+   * @returns Exit code of the command, 1 if it is not a built-in command
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    // Arguments belong to the command, so read them unparsed
+    const argv = args.argv ?? args.args;
+    if (argv.length === 0) {
+      return 0;
+    }
+    
+    const exitCode = await context.os.getCommandProcessor().executeBuiltin(argv[0], argv.slice(1), context);
+    if (exitCode === null) {
+      context.stderr.writeLine(`builtin: ${argv[0]}: not a shell builtin`);
+      return 1;
+    }
+    return exitCode;
+  }
+}
@@ -1,5 +1,6 @@
 import { CommandModule, CommandArgs, CommandContext, ExecuteMigrator } from '../command-processor';
 import { OS } from '../../core/os';
+import { CommandOption, CommandOptions } from '../command-options';
 
 /**
  * cat command - Concatenate and display file contents
@@ -19,15 +20,15 @@ export class CatCommand implements CommandModule {
       }
       
       // Parse options
-      const numberLines = args.n || false; // -n to number lines
-      const showEnds = args.E || false; // -E to show line endings
+      const numberLines = args.number; // -n to number lines
+      const showEnds = args['show-ends']; // -E to show line endings
       
       // Read each file and concatenate their contents
       const results: string[] = [];
       
       for (const filePath of args.args) {
         try {
-          const content = await this.os.getFileSystem().readFile(filePath);
+          const content = await this.os.getFileSystem().readFile(this.os.getFileSystem().parsePath(filePath, context.cwd));
           
           // Process content based on options
           if (numberLines || showEnds) {
@@ -77,21 +78,22 @@ export class CatCommand implements CommandModule {
   public get description(): string {
     return 'Concatenate and display file contents';
   }
-    public get usage(): string {
-    return `Usage: cat [options] file [file...]
-
-Concatenate and display the content of files.
-
-Options:
-  -n        Number all output lines, starting with 1
-  -E        Display $ at the end of each line
-
-Examples:
+  
+  public get options(): CommandOption[] {
+    return [
+      { name: 'number', alias: 'n', type: 'boolean', description: 'Number all output lines, starting with 1' },
+      { name: 'show-ends', alias: 'E', type: 'boolean', description: 'Display $ at the end of each line' }
+    ];
+  }
+  
+  public get usage(): string {
+    return CommandOptions.formatUsage('cat [options] file [file...]', this.options,
+      'Concatenate and display the content of files.', `Examples:
   cat file.txt                # Display contents of file.txt
   cat -n file.txt             # Display file.txt with line numbers
   cat -E file.txt             # Display file.txt with $ at end of each line
   cat -n -E file.txt          # Display file.txt with line numbers and $ markers
-  cat file1.txt file2.txt     # Concatenate and display multiple files`;
+  cat file1.txt file2.txt     # Concatenate and display multiple files`);
   }
   
   public async exec(args: CommandArgs): Promise<string> {
@@ -102,8 +104,8 @@ Examples:
       }
       
       // Parse options
-      const numberLines = args.n || false; // -n to number lines
-      const showEnds = args.E || false; // -E to show line endings
+      const numberLines = args.number; // -n to number lines
+      const showEnds = args['show-ends']; // -E to show line endings
       
       // Read each file and concatenate their contents
       const results: string[] = [];
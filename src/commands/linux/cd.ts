@@ -1,4 +1,5 @@
 import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { CompletionRequest, TabCompletion } from '../tab-completion';
 import { OS } from '../../core/os';
 import { PathUtils } from '../../core/path-utils';
 import { files } from 'jszip';
@@ -44,6 +45,13 @@ Exit status:
   Returns 0 if directory changed successfully, non-zero otherwise.`;
   }
   
+  /**
+   * Complete directory names only
+   */
+  public async complete(request: CompletionRequest, context: CommandContext): Promise<string[] | null> {
+    return TabCompletion.completePaths(this.os, request.current, context.cwd, true);
+  }
+
   /**
    * Execute command with context and streams
    * Returns exit code (0 for success, non-zero for error)
@@ -1,6 +1,7 @@
 import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
 import { OS } from '../../core/os';
 import { PathUtils } from '../../core/path-utils';
+import { CommandOption, CommandOptions } from '../command-options';
 
 /**
  * chmod command - Change file mode bits
@@ -19,16 +20,20 @@ export class ChmodCommand implements CommandModule {
     public get description(): string {
         return 'Change file mode bits';
     }
+    public get options(): CommandOption[] {
+        return [
+            { name: 'recursive', alias: ['r', 'R'], type: 'boolean', description: 'Change files and directories recursively' },
+            { name: 'verbose', alias: 'v', type: 'boolean', description: 'Output a diagnostic for every file processed' }
+        ];
+    }
+
     public get usage(): string {
-        return 'chmod [options] mode[,mode] file...\n' +
-            '  Options:\n' +
-            '    -r, -R, --recursive   Change files and directories recursively\n' +
-            '    -v, --verbose         Output a diagnostic for every file processed\n\n' +
-            '  Modes:\n' +
+        return CommandOptions.formatUsage('chmod [options] mode[,mode] file...', this.options, '',
+            'Modes:\n' +
             '    Octal:   chmod 755 file      (rwxr-xr-x)\n' +
             '    Symbolic: chmod u+x file     (Adds execute for user)\n' +
             '             chmod go-w file     (Removes write for group and others)\n' +
-            '             chmod a=r file      (Sets read-only for all)';
+            '             chmod a=r file      (Sets read-only for all)');
     }
 
     /**
@@ -45,8 +50,8 @@ export class ChmodCommand implements CommandModule {
             }
 
             // Parse options
-            const recursive = args.r || args.R || args.recursive || false; // -r, -R, --recursive
-            const verbose = args.v || args.verbose || false; // -v, --verbose
+            const recursive = args.recursive; // -r, -R, --recursive
+            const verbose = args.verbose; // -v, --verbose
 
             // Get mode and files
             const mode = args.args[0];
@@ -57,7 +62,7 @@ export class ChmodCommand implements CommandModule {
 
             for (const file of files) {
                 try {
-                    const absolutePath = PathUtils.resolve(context.cwd, file);
+                    const absolutePath = this.os.getFileSystem().parsePath(file, context.cwd);
 
                     // Check if file exists
                     const entry = await this.os.getFileSystem().exists(absolutePath);
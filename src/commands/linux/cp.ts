@@ -1,6 +1,7 @@
 import { CommandModule, CommandArgs, CommandContext, ExecuteMigrator } from '../command-processor';
 import { OS } from '../../core/os';
 import { PathUtils } from '../../core/path-utils';
+import { CommandOption, CommandOptions } from '../command-options';
 
 /**
  * cp command - Copy files and directories
@@ -21,19 +22,20 @@ export class CpCommand implements CommandModule {
   public get description(): string {
     return 'Copy files and directories';
   }
-    public get usage(): string {
-    return `Usage: cp [options] source... destination
-
-Options:
-  -r, -R, --recursive    Copy directories recursively
-  -v, --verbose          Explain what is being done
-
-Examples:
+  public get options(): CommandOption[] {
+    return [
+      { name: 'recursive', alias: ['r', 'R'], type: 'boolean', description: 'Copy directories recursively' },
+      { name: 'verbose', alias: 'v', type: 'boolean', description: 'Explain what is being done' }
+    ];
+  }
+  
+  public get usage(): string {
+    return CommandOptions.formatUsage('cp [options] source... destination', this.options, '', `Examples:
   cp file1.txt file2.txt             # Copy file1.txt to file2.txt
   cp file.txt dir/                   # Copy file.txt into directory dir/
   cp -r dir1/ dir2/                  # Copy directory dir1/ recursively to dir2/
   cp -v *.txt backups/               # Verbosely copy all .txt files to backups/ directory
-  cp file1.txt file2.txt dir/        # Copy multiple files to directory dir/`;
+  cp file1.txt file2.txt dir/        # Copy multiple files to directory dir/`);
   }
   
   public async exec(args: CommandArgs): Promise<string> {
@@ -43,8 +45,8 @@ Examples:
     }
     
     // Parse options
-    const recursive = args.r || args.R || args.recursive || false; // -r, -R or --recursive to copy directories recursively
-    const verbose = args.v || args.verbose || false; // -v or --verbose to explain what is being done
+    const recursive = args.recursive; // -r, -R or --recursive to copy directories recursively
+    const verbose = args.verbose; // -v or --verbose to explain what is being done
     
     // Get source and destination
     const sources = args.args.slice(0, -1);
@@ -1,5 +1,7 @@
 import { CommandModule, CommandArgs,CommandContext, ExecuteMigrator } from '../command-processor';
 import { OS } from '../../core/os';
+import { CompletionRequest, TabCompletion } from '../tab-completion';
+import { CommandOption, CommandOptions } from '../command-options';
 
 /**
  * curl command - Transfer data from or to a server
@@ -20,26 +22,55 @@ export class CurlCommand implements CommandModule {
   public get description(): string {
     return 'Transfer data from or to a server';
   }
-    public get usage(): string {
-    return `Usage: curl [options] [URL...]
-
-Options:
-  -o, --output <file>      Write output to <file> instead of stdout
-  -i, --include            Include protocol response headers in the output
-  -s, --silent             Silent mode, don't output progress or error messages
-  -X, --request <method>   Specify request method to use (GET, POST, PUT, etc.)
-  -H, --header <header>    Pass custom header to server (can be used multiple times)
-  -d, --data <data>        HTTP POST data (sets method to POST if not specified)
-  --help                   Display this help message
-
-Examples:
+  
+  public get options(): CommandOption[] {
+    return [
+      { name: 'output', alias: 'o', type: 'string', valueName: 'file', description: 'Write output to <file> instead of stdout' },
+      { name: 'include', alias: 'i', type: 'boolean', description: 'Include protocol response headers in the output' },
+      { name: 'silent', alias: 's', type: 'boolean', description: "Silent mode, don't output progress or error messages" },
+      { name: 'request', alias: 'X', type: 'string', valueName: 'method', description: 'Specify request method to use (GET, POST, PUT, etc.)' },
+      { name: 'header', alias: 'H', type: 'string', valueName: 'header', repeatable: true, description: 'Pass custom header to server (can be used multiple times)' },
+      { name: 'data', alias: 'd', type: 'string', valueName: 'data', description: 'HTTP POST data (sets method to POST if not specified)' }
+    ];
+  }
+  
+  public get usage(): string {
+    return CommandOptions.formatUsage('curl [options] [URL...]', this.options, '', `Examples:
   curl https://example.com                     # Simple GET request
   curl -o output.html https://example.com      # Save response to file
   curl -i https://example.com                  # Include response headers
   curl -X POST -d "name=value" https://api.com # POST with data
-  curl -H "User-Agent: MyApp" https://api.com  # Set custom header`;
+  curl -H "User-Agent: MyApp" https://api.com  # Set custom header`);
   }
   
+  /**
+   * Complete options, request methods and URLs of known hosts
+   */
+  public async complete(request: CompletionRequest, _context: CommandContext): Promise<string[] | null> {
+    const previous = request.args[request.args.length - 1];
+    const current = request.current;
+
+    if (previous === '-o' || previous === '--output') {
+      return null;
+    }
+    if (previous === '-X' || previous === '--request') {
+      return TabCompletion.completeOptions(['GET', 'POST', 'PUT', 'DELETE', 'HEAD', 'PATCH', 'OPTIONS'], current);
+    }
+    if (previous === '-H' || previous === '--header' || previous === '-d' || previous === '--data') {
+      return [];
+    }
+    if (current.startsWith('-')) {
+      return TabCompletion.completeDeclaredOptions(this.options, current);
+    }
+    if (current.startsWith('http')) {
+      return [
+        ...TabCompletion.completeHostnames(this.os, current, 'http://'),
+        ...TabCompletion.completeHostnames(this.os, current, 'https://')
+      ];
+    }
+    return TabCompletion.completeHostnames(this.os, current);
+  }
+
   public async exec(args: CommandArgs): Promise<string> {
     // Check if a URL is specified
     if (args.args.length === 0) {
@@ -49,55 +80,44 @@ Examples:
     const url = args.args[0];
     
     // Parse options
-    const outputFile = args.o || args.output; // -o, --output <file> Write to file instead of stdout
-    const includeHeaders = args.i || args.include || false; // -i, --include Include protocol response headers in the output
-    const silent = args.s || args.silent || false; // -s, --silent Silent mode
-    let method = args.X || args.request || 'GET'; // -X, --request <method> Specify request method to use
+    const outputFile = args.output; // -o, --output <file> Write to file instead of stdout
+    const includeHeaders = args.include; // -i, --include Include protocol response headers in the output
+    const silent = args.silent; // -s, --silent Silent mode
+    let method = args.request || 'GET'; // -X, --request <method> Specify request method to use
     const headers: Record<string, string> = {}; // Store custom headers
     
     // Process custom headers from -H or --header options
-    if (args.H || args.header) {
-      const headerList = Array.isArray(args.H || args.header) 
-        ? (args.H || args.header) 
-        : [args.H || args.header];
-      
-      headerList.forEach((headerStr: string) => {
-        const match = headerStr.match(/^(.*?):\s*(.*)$/);
-        if (match) {
-          const [, name, value] = match;
-          headers[name] = value;
-        }
-      });
-    }
+    args.header.forEach((headerStr: string) => {
+      const match = headerStr.match(/^(.*?):\s*(.*)$/);
+      if (match) {
+        const [, name, value] = match;
+        headers[name] = value;
+      }
+    });
     
     // Process data for POST requests
-    const data = args.d || args.data;
+    const data = args.data;
     if (data && (method === 'GET' || method === 'HEAD')) {
       // If data is provided but method is GET or HEAD, switch to POST
-      if (!args.X && !args.request) {
+      if (!args.request) {
         method = 'POST';
       }
     }
     
     try {
-      // Check if the URL can be resolved using our DNS server
-      const urlObj = new URL(url);
-      const hostname = urlObj.hostname;
-      
-      // Only attempt DNS resolution for non-IP hostnames
-      if (!/^\d+\.\d+\.\d+\.\d+$/.test(hostname)) {
-        const resolvedIP = this.os.getDNSServer().resolve(hostname);
-        if (!resolvedIP) {
-          return `curl: (6) Could not resolve host: ${hostname}`;
-        }
+      // Check if the URL can be resolved, /etc/hosts first
+      const hostname = new URL(url).hostname;
+      if (!await this.os.getResolver().resolve(hostname)) {
+        return `curl: (6) Could not resolve host: ${hostname}`;
       }
       
       // Make a request to the web server
-      const response = await this.os.getWebServer().request({
+      const response = await this.os.getWebClient().request({
         url,
         method,
         headers,
-        body: data
+        body: data,
+        owner: this.os.socketOwner('curl')
       });
       
       // Format the output
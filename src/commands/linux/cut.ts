@@ -0,0 +1,169 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { CommandInput } from '../command-input';
+import { JobControl, JobInterruptedError } from '../job-control';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * Range of positions selected by a cut list, from 1; end is Infinity for "N-"
+ */
+interface CutRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * cut command - Remove sections from each line of files
+ */
+export class CutCommand implements CommandModule {
+  public get name(): string {
+    return 'cut';
+  }
+
+  public get description(): string {
+    return 'Remove sections from each line of files';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'fields', alias: 'f', type: 'string', valueName: 'list', description: 'Select only these fields' },
+      { name: 'characters', alias: 'c', type: 'string', valueName: 'list', description: 'Select only these characters' },
+      { name: 'bytes', alias: 'b', type: 'string', valueName: 'list', description: 'Select only these bytes (same as -c)' },
+      { name: 'delimiter', alias: 'd', type: 'string', valueName: 'delim', description: 'Use delim instead of tab as the field delimiter' },
+      { name: 'only-delimited', alias: 's', type: 'boolean', description: 'Do not print lines without delimiters' },
+      { name: 'complement', type: 'boolean', description: 'Select everything except the list' },
+      { name: 'output-delimiter', type: 'string', valueName: 'string', description: 'Use string as the output delimiter' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('cut OPTION... [FILE]...', this.options, `Print selected parts of lines from each FILE to standard output.
+With no FILE, or when FILE is -, read standard input.
+
+A list is made of ranges separated by commas: N, N-M, N- (to the end) or -M (from the start).`, `Examples:
+  cut -d: -f1,7 /etc/passwd     Print the user names and shells
+  cut -c1-10 file.txt           Print the first 10 characters of each line
+  ps | cut -c1-20               Cut long lines of a command's output
+  cut -d, -f2- --complement data.csv   Print only the first column`);
+  }
+
+  /**
+   * Execute command with context and streams
+   * Returns exit code (0 for success, 1 for errors)
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    try {
+      const lists = [args.fields, args.characters, args.bytes].filter(list => list !== undefined);
+      if (lists.length !== 1) {
+        context.stderr.writeLine(lists.length === 0
+          ? 'cut: you must specify a list of bytes, characters, or fields'
+          : 'cut: only one type of list may be specified');
+        context.stderr.writeLine("Try 'cut --help' for more information.");
+        return 1;
+      }
+
+      const byFields = args.fields !== undefined;
+      if (!byFields && (args.delimiter !== undefined || args['only-delimited'])) {
+        context.stderr.writeLine('cut: an input delimiter may be specified only when operating on fields');
+        return 1;
+      }
+
+      const delimiter: string = args.delimiter ?? '\t';
+      if (Array.from(delimiter).length !== 1) {
+        context.stderr.writeLine('cut: the delimiter must be a single character');
+        return 1;
+      }
+
+      let ranges: CutRange[];
+      try {
+        ranges = this.parseList(lists[0]);
+      } catch (error) {
+        context.stderr.writeLine(`cut: ${error instanceof Error ? error.message : String(error)}`);
+        return 1;
+      }
+
+      const failed: string[] = [];
+      for await (const line of CommandInput.lines(args.args, context, 'cut', failed)) {
+        const output = byFields
+          ? this.cutFields(line, ranges, delimiter, args['output-delimiter'] ?? delimiter, args.complement, args['only-delimited'])
+          : this.cutCharacters(line, ranges, args['output-delimiter'] ?? '', args.complement);
+        if (output !== null) {
+          context.stdout.writeLine(output);
+        }
+        // Stop when the reader of our output has exited
+        await JobControl.checkpoint(context);
+      }
+
+      return failed.length > 0 ? 1 : 0;
+    } catch (error) {
+      // Ctrl+C and broken pipes end the command
+      if (error instanceof JobInterruptedError) {
+        throw error;
+      }
+      context.stderr.writeLine(`cut: ${error instanceof Error ? error.message : String(error)}`);
+      return 1;
+    }
+  }
+
+  /**
+   * Parse a list like 1,3-5,7-
+   * @throws Error for invalid ranges
+   */
+  private parseList(list: string): CutRange[] {
+    return list.split(',').map(part => {
+      const match = /^(\d*)(-?)(\d*)$/.exec(part);
+      if (!match || (!match[1] && !match[3]) || (!match[2] && !match[1])) {
+        throw new Error(`invalid field range '${part}'`);
+      }
+
+      const start = match[1] ? parseInt(match[1], 10) : 1;
+      const end = !match[2] ? start : match[3] ? parseInt(match[3], 10) : Infinity;
+      if (start === 0) {
+        throw new Error('fields and positions are numbered from 1');
+      }
+      if (end < start) {
+        throw new Error('invalid decreasing range');
+      }
+      return { start, end };
+    });
+  }
+
+  private isSelected(position: number, ranges: CutRange[], complement: boolean): boolean {
+    const selected = ranges.some(range => position >= range.start && position <= range.end);
+    return selected !== complement;
+  }
+
+  /**
+   * Cut fields of a line
+   * @returns The selected fields, or null when the line is skipped (-s)
+   */
+  private cutFields(line: string, ranges: CutRange[], delimiter: string, outputDelimiter: string, complement: boolean, onlyDelimited: boolean): string | null {
+    // Lines without delimiter are printed whole, unless -s is given
+    if (!line.includes(delimiter)) {
+      return onlyDelimited ? null : line;
+    }
+    return line.split(delimiter)
+      .filter((_field, index) => this.isSelected(index + 1, ranges, complement))
+      .join(outputDelimiter);
+  }
+
+  private cutCharacters(line: string, ranges: CutRange[], outputDelimiter: string, complement: boolean): string {
+    const characters = Array.from(line);
+    if (!outputDelimiter) {
+      return characters.filter((_char, index) => this.isSelected(index + 1, ranges, complement)).join('');
+    }
+
+    // With an output delimiter, each run of selected characters is a separate part
+    const parts: string[] = [];
+    let current = '';
+    characters.forEach((char, index) => {
+      if (this.isSelected(index + 1, ranges, complement)) {
+        current += char;
+      } else if (current) {
+        parts.push(current);
+        current = '';
+      }
+    });
+    if (current) parts.push(current);
+    return parts.join(outputDelimiter);
+  }
+}
@@ -1,6 +1,7 @@
 import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
 import { OS } from '../../core/os';
 import { PathUtils } from '../../core/path-utils';
+import { CommandOption, CommandOptions } from '../command-options';
 
 /**
  * diff command - Compare files line by line
@@ -19,14 +20,20 @@ export class DiffCommand implements CommandModule {
   public get description(): string {
     return 'Compare files line by line';
   }
-    public get usage(): string {
-    return 'diff [options] file1 file2\n' +
-      '  Options:\n' +
-      '    -i, --ignore-case        Ignore case differences in file contents\n' +
-      '    -w, --ignore-all-space   Ignore all white space\n' +
-      '    -B, --ignore-blank-lines Ignore changes where lines are all blank\n' +
-      '    -q, --brief              Report only when files differ\n' +
-      '    -u[N]                    Output N lines of unified context (default 3)';
+  
+  public get options(): CommandOption[] {
+    return [
+      { name: 'ignore-case', alias: 'i', type: 'boolean', description: 'Ignore case differences in file contents' },
+      { name: 'ignore-all-space', alias: 'w', type: 'boolean', description: 'Ignore all white space' },
+      { name: 'ignore-blank-lines', alias: 'B', type: 'boolean', description: 'Ignore changes where lines are all blank' },
+      { name: 'brief', alias: 'q', type: 'boolean', description: 'Report only when files differ' },
+      { name: 'unified', alias: 'u', type: 'boolean', description: 'Output 3 lines of unified context' },
+      { name: 'unified-lines', alias: 'U', type: 'number', valueName: 'N', description: 'Output N lines of unified context' }
+    ];
+  }
+  
+  public get usage(): string {
+    return CommandOptions.formatUsage('diff [options] file1 file2', this.options);
   }
   
   /**
@@ -43,11 +50,11 @@ export class DiffCommand implements CommandModule {
       }
       
       // Parse options
-      const ignoreCase = args.i || args['ignore-case'] || false; // -i, --ignore-case
-      const ignoreSpaces = args.w || args['ignore-all-space'] || false; // -w, --ignore-all-space
-      const ignoreBlankLines = args.B || args['ignore-blank-lines'] || false; // -B, --ignore-blank-lines
-      const brief = args.q || args.brief || false; // -q, --brief
-      const unifiedFormat = args.u !== undefined ? parseInt(args.u as string) || 3 : null; // -u[N]
+      const ignoreCase = args['ignore-case']; // -i, --ignore-case
+      const ignoreSpaces = args['ignore-all-space']; // -w, --ignore-all-space
+      const ignoreBlankLines = args['ignore-blank-lines']; // -B, --ignore-blank-lines
+      const brief = args.brief; // -q, --brief
+      const unifiedFormat = args['unified-lines'] ?? (args.unified ? 3 : null); // -u, -U N
       
       // Get file paths
       const file1 = args.args[0];
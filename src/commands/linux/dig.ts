@@ -0,0 +1,168 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { OS } from '../../core/os';
+import { DNSServer, DnsRecord, DnsRecordType } from '../../core/network';
+import { DnsAnswer, DnsQuery } from '../dns-query';
+import { CompletionRequest, TabCompletion } from '../tab-completion';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * Record types dig can query
+ */
+const RECORD_TYPES: DnsRecordType[] = ['A', 'AAAA', 'CNAME', 'MX', 'TXT', 'NS', 'PTR'];
+
+/**
+ * dig command - Query DNS name servers
+ */
+export class DigCommand implements CommandModule {
+  private os: OS;
+
+  constructor(os: OS) {
+    this.os = os;
+  }
+
+  public get name(): string {
+    return 'dig';
+  }
+
+  public get description(): string {
+    return 'Query DNS name servers';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'type', alias: 't', type: 'string', valueName: 'type', description: 'Type of the records to query (A, AAAA, CNAME, MX, TXT, NS or PTR)' },
+      { name: 'reverse', alias: 'x', type: 'string', valueName: 'addr', description: 'Reverse lookup: query the PTR record of an address' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('dig [@server] [-t type] [-x addr] [name] [type] [+short]', this.options,
+      `Query a name server for the records of a name and print its answer. The
+name server of the router is queried unless @server is given. Unlike other
+programs, dig does not read /etc/hosts. +short prints only the data of the
+records found.`, `Examples:
+  dig example.com               The address of example.com
+  dig targetbank.com MX +short  Its mail servers
+  dig -x 192.168.1.10           The name of an address`);
+  }
+
+  /**
+   * Complete options, record types and hostnames
+   */
+  public async complete(request: CompletionRequest, _context: CommandContext): Promise<string[] | null> {
+    const previous = request.args[request.args.length - 1];
+    if (previous === '-t') {
+      return RECORD_TYPES.filter(type => type.startsWith(request.current.toUpperCase()));
+    }
+    if (request.current.startsWith('-')) {
+      return TabCompletion.completeDeclaredOptions(this.options, request.current);
+    }
+    if (request.current.startsWith('+')) {
+      return ['+short'].filter(option => option.startsWith(request.current));
+    }
+    return TabCompletion.completeHostnames(this.os, request.current);
+  }
+
+  /**
+   * Execute command with context and streams
+   * Returns 9 when no name server answers, like dig
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    let server: string | undefined;
+    let name: string | undefined;
+    let type = args.type?.toUpperCase();
+    let short = false;
+
+    // Operands are the server, the name, the type and +options, in any order
+    for (const operand of args.args) {
+      if (operand.startsWith('@')) {
+        server = operand.substring(1);
+      } else if (operand.startsWith('+')) {
+        short = operand === '+short' ? true : operand === '+noshort' ? false : short;
+      } else if (type === undefined && RECORD_TYPES.includes(operand.toUpperCase() as DnsRecordType)) {
+        type = operand.toUpperCase();
+      } else if (name === undefined) {
+        name = operand;
+      }
+    }
+    if (args.reverse !== undefined) {
+      name = DNSServer.reverseName(args.reverse);
+      type = 'PTR';
+    }
+    if (name === undefined) {
+      context.stderr.writeLine('Usage: dig [@server] [-t type] [-x addr] name [type] [+short]');
+      return 1;
+    }
+    if (type !== undefined && !RECORD_TYPES.includes(type as DnsRecordType)) {
+      context.stderr.writeLine(`dig: invalid type: ${type}`);
+      return 1;
+    }
+
+    let serverAddress: string | undefined;
+    if (server !== undefined) {
+      const resolved = await this.os.getResolver().resolve(server);
+      if (!resolved) {
+        context.stderr.writeLine(`dig: couldn't get address for '${server}': not found`);
+        return 10;
+      }
+      serverAddress = resolved;
+    }
+
+    const recordType = (type ?? 'A') as DnsRecordType;
+    const answer = await DnsQuery.query(this.os, name, recordType, context, serverAddress);
+    if (!answer) {
+      context.stdout.writeLine(';; connection timed out; no servers could be reached');
+      return 9;
+    }
+
+    if (short) {
+      answer.records.forEach(record => context.stdout.writeLine(DnsQuery.formatValue(record)));
+      return 0;
+    }
+    context.stdout.write(this.formatAnswer(name, recordType, answer, args.argv ?? args.args));
+    return 0;
+  }
+
+  /**
+   * Format an answer like dig: header, question and answer sections, then statistics
+   */
+  private formatAnswer(name: string, type: DnsRecordType, answer: DnsAnswer, argv: string[]): string {
+    const question = name.replace(/\.?$/, '.');
+    const lines = [
+      '',
+      `; <<>> DiG 9.18.18 <<>> ${argv.join(' ')}`,
+      ';; global options: +cmd',
+      ';; Got answer:',
+      `;; ->>HEADER<<- opcode: QUERY, status: ${answer.status}, id: ${Math.floor(Math.random() * 65536)}`,
+      `;; flags: qr rd ra; QUERY: 1, ANSWER: ${answer.records.length}, AUTHORITY: 0, ADDITIONAL: 0`,
+      '',
+      ';; QUESTION SECTION:',
+      `;${question}\t\t\tIN\t${type}`,
+      ''
+    ];
+    if (answer.records.length > 0) {
+      lines.push(';; ANSWER SECTION:');
+      answer.records.forEach(record => lines.push(this.formatRecord(record)));
+      lines.push('');
+    }
+
+    // Names in the answer point back to the question, so they take 2 bytes
+    const size = 12 + question.length + 5 + answer.records.reduce((total, record) => total + 12 + DnsQuery.formatValue(record).length, 0);
+    const [day, date, month, year, time] = new Date().toUTCString().replace(',', '').split(' ');
+    lines.push(
+      `;; Query time: ${Math.round(answer.time)} msec`,
+      `;; SERVER: ${answer.server}#53(${answer.server}) (UDP)`,
+      `;; WHEN: ${day} ${month} ${date} ${time} UTC ${year}`,
+      `;; MSG SIZE  rcvd: ${size}`,
+      ''
+    );
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Format a record of the answer section like a line of a zone file
+   */
+  private formatRecord(record: DnsRecord): string {
+    return `${record.name}.\t\t${record.ttl}\tIN\t${record.type}\t${DnsQuery.formatValue(record)}`;
+  }
+}
@@ -16,12 +16,20 @@ export class EchoCommand implements CommandModule {
   }
   
   public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
-    // Parse options
-    const noNewline = args.n || false; // -n do not output trailing newline
-    const escapeBackslash = args.e || false; // -e enable interpretation of backslash escapes
+    // Like bash, only leading words made of option letters are options; anything else is printed
+    const argv = args.argv ?? args.args;
+    let noNewline = false; // -n do not output trailing newline
+    let escapeBackslash = false; // -e enable interpretation of backslash escapes, -E disable it
+    let i = 0;
+    for (; i < argv.length && /^-[neE]+$/.test(argv[i]); i++) {
+      for (const flag of argv[i].substring(1)) {
+        if (flag === 'n') noNewline = true;
+        else escapeBackslash = flag === 'e';
+      }
+    }
     
     // Combine all arguments into one string
-    let output = args.args.join(' ');
+    let output = argv.slice(i).join(' ');
     
     // Handle escape sequences if -e is set
     if (escapeBackslash) {
@@ -0,0 +1,84 @@
+import { CommandModule, CommandArgs, CommandContext, CommandProcessor } from '../command-processor';
+import { OS } from '../../core/os';
+import { ShellEnvironment } from '../shell-environment';
+
+/**
+ * env command - Run a command in a modified environment
+ */
+export class EnvCommand implements CommandModule {
+  private os: OS;
+  
+  constructor(os: OS) {
+    this.os = os;
+  }
+  
+  public get name(): string {
+    return 'env';
+  }
+  
+  public get description(): string {
+    return 'Print the environment or run a command in a modified environment';
+  }
+  
+  public get usage(): string {
+    return `Usage: env [-i] [-u name] [name=value ...] [command [arg ...]]
+
+Set each name to value in the environment and run command.
+Without a command, print the resulting environment.
+
+Options:
+  -i          Start with an empty environment
+  -u name     Remove name from the environment
+
+Examples:
+  env                               # Print the environment
+  env TARGET=example.com ping $TARGET
+  env -u HOME printenv HOME         # Run printenv without HOME`;
+  }
+  
+  /**
+   * Execute the env command
+   * @param args Command arguments
+   * @param context Command execution context
+   * @returns Exit code of the command that was run (0 when printing)
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    // Options are read from the raw arguments so the command's own options are kept
+    const argv = args.argv ?? args.args;
+    let env: Record<string, string> = { ...context.env };
+    let i = 0;
+    
+    for (; i < argv.length; i++) {
+      const arg = argv[i];
+      
+      if (arg === '-i' || arg === '-') {
+        env = {};
+      } else if (arg === '-u') {
+        if (i + 1 >= argv.length) {
+          context.stderr.writeLine('env: option requires an argument -- \'u\'');
+          return 125;
+        }
+        delete env[argv[++i]];
+      } else {
+        const assignment = ShellEnvironment.parseAssignment(arg);
+        if (!assignment) break;
+        env[assignment.name] = assignment.value;
+      }
+    }
+    
+    const command = argv.slice(i);
+    
+    // Without a command, print the environment
+    if (command.length === 0) {
+      for (const [name, value] of Object.entries(env)) {
+        context.stdout.writeLine(`${name}=${value}`);
+      }
+      return 0;
+    }
+    
+    // Run the command with the new environment; the session's environment is left untouched
+    const processor = this.os.getCommandProcessor();
+    const childContext = processor.createChildContext(context, env);
+    return processor.processCommand(CommandProcessor.quoteArgs(command), childContext);
+  }
+}
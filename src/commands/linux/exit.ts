@@ -0,0 +1,58 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+
+/**
+ * exit command - Exit the shell
+ */
+export class ExitCommand implements CommandModule {
+  public get name(): string {
+    return 'exit';
+  }
+
+  public get description(): string {
+    return 'Exit the shell';
+  }
+
+  public get usage(): string {
+    return `Usage: exit [n]
+
+Exit the shell with a status of n, or the status of the last command.
+In an ssh session, return to the shell of the previous host; otherwise close the terminal.
+In a script, end the script. logout is another name for exit.
+
+Examples:
+  exit      # Log out of the remote host
+  exit 1    # Exit with status 1`;
+  }
+
+  /**
+   * Execute the exit command
+   * @param args Command arguments
+   * @param context Command execution context
+   * @returns The exit status
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    const arg: string | undefined = args.args[0];
+    let status = context.lastExitCode ?? 0;
+    if (arg !== undefined) {
+      if (!/^-?\d+$/.test(arg)) {
+        context.stderr.writeLine(`exit: ${arg}: numeric argument required`);
+        status = 2;
+      } else {
+        // Exit codes are 8 bit like in bash
+        status = ((parseInt(arg, 10) % 256) + 256) % 256;
+      }
+    }
+
+    // Without a terminal (like a command run by ssh host cmd), there is no shell to leave
+    const terminal = context.terminalApp;
+    if (!terminal) {
+      return status;
+    }
+
+    context.stdout.writeLine('logout');
+    if (!terminal.closeRemoteShell()) {
+      terminal.close();
+    }
+    return status;
+  }
+}
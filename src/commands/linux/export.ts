@@ -0,0 +1,68 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { ShellEnvironment } from '../shell-environment';
+
+/**
+ * export command - Set environment variables for the shell session
+ */
+export class ExportCommand implements CommandModule {
+  public get name(): string {
+    return 'export';
+  }
+  
+  public get description(): string {
+    return 'Set environment variables for the current shell session';
+  }
+  
+  public get usage(): string {
+    return `Usage: export [-p] [name[=value] ...]
+
+Set environment variables. Variables are kept for the rest of the terminal
+session and are inherited by every command run from it.
+
+Options:
+  -p        List all exported variables (same as no arguments)
+
+Examples:
+  export                      # List all variables
+  export TARGET=targetbank.com
+  export PATH=$PATH:~/bin     # Append a directory to PATH`;
+  }
+  
+  /**
+   * Execute the export command
+   * @param args Command arguments
+   * @param context Command execution context
+   * @returns Exit code (0 for success)
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    // Without arguments, list the environment
+    if (args.args.length === 0) {
+      const names = Object.keys(context.env).sort();
+      for (const name of names) {
+        const value = context.env[name].replace(/["\\$]/g, '\\$&');
+        context.stdout.writeLine(`declare -x ${name}="${value}"`);
+      }
+      return 0;
+    }
+    
+    let exitCode = 0;
+    
+    for (const arg of args.args) {
+      const assignment = ShellEnvironment.parseAssignment(arg);
+      
+      if (assignment) {
+        context.env[assignment.name] = assignment.value;
+      } else if (ShellEnvironment.isValidName(arg)) {
+        // Exporting an unset name defines it as empty
+        if (context.env[arg] === undefined) {
+          context.env[arg] = '';
+        }
+      } else {
+        context.stderr.writeLine(`export: \`${arg}': not a valid identifier`);
+        exitCode = 1;
+      }
+    }
+    
+    return exitCode;
+  }
+}
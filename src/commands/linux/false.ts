@@ -0,0 +1,28 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+
+/**
+ * false command - Do nothing, unsuccessfully
+ */
+export class FalseCommand implements CommandModule {
+  public get name(): string {
+    return 'false';
+  }
+  
+  public get description(): string {
+    return 'Do nothing, unsuccessfully';
+  }
+  
+  public get usage(): string {
+    return `Usage: false
+
+Exit with a status code indicating failure.`;
+  }
+  
+  /**
+   * Execute the false command
+   * @returns Exit code 1
+   */
+  public async execute(_args: CommandArgs, _context: CommandContext): Promise<number> {
+    return 1;
+  }
+}
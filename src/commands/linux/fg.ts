@@ -0,0 +1,56 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { STOPPED_EXIT_CODE } from '../job-control';
+
+/**
+ * fg command - Move a job to the foreground
+ */
+export class FgCommand implements CommandModule {
+  public get name(): string {
+    return 'fg';
+  }
+  
+  public get description(): string {
+    return 'Move a job to the foreground';
+  }
+  
+  public get usage(): string {
+    return `Usage: fg [jobspec]
+
+Continue a stopped or background job in the foreground and wait for it.
+Without a job spec, the current job (marked + by jobs) is used.
+Press Ctrl+C to interrupt the job or Ctrl+Z to stop it again.
+
+Examples:
+  fg        # Continue the current job
+  fg %2     # Continue job 2`;
+  }
+  
+  /**
+   * Execute the fg command
+   * @param args Command arguments
+   * @param context Command execution context
+   * @returns Exit code of the job, or 1 if there is no such job
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    const jobs = context.jobs;
+    if (!jobs) {
+      context.stderr.writeLine('fg: no job control in this shell');
+      return 1;
+    }
+    
+    const spec = args.args[0];
+    const job = jobs.get(spec);
+    if (!job) {
+      context.stderr.writeLine(`fg: ${spec ?? 'current'}: no such job`);
+      return 1;
+    }
+    
+    context.stdout.writeLine(job.command);
+    const exitCode = await jobs.foreground(job);
+    if (exitCode === null) {
+      context.stdout.writeLine(jobs.format(job));
+      return STOPPED_EXIT_CODE;
+    }
+    return exitCode;
+  }
+}
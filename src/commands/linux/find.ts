@@ -1,6 +1,7 @@
 import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
 import { OS } from '../../core/os';
 import { PathUtils } from '../../core/path-utils';
+import { CommandOption, CommandOptions } from '../command-options';
 
 /**
  * find command - Search for files in a directory hierarchy
@@ -19,12 +20,17 @@ export class FindCommand implements CommandModule {
   public get description(): string {
     return 'Search for files in a directory hierarchy';
   }
-    public get usage(): string {
-    return 'find [path...] [expression]\n' +
-      '  Options:\n' +
-      '    -name PATTERN      Find files whose name matches the pattern\n' +
-      '    -type TYPE         Find files of type: f (regular file), d (directory)\n' +
-      '    -maxdepth LEVELS   Descend at most LEVELS of directories';
+  
+  public get options(): CommandOption[] {
+    return [
+      { name: 'name', alias: 'name', type: 'string', valueName: 'pattern', description: 'Find files whose name matches the pattern' },
+      { name: 'type', alias: 'type', type: 'string', valueName: 'type', description: 'Find files of type: f (regular file), d (directory)' },
+      { name: 'maxdepth', alias: 'maxdepth', type: 'number', valueName: 'levels', description: 'Descend at most LEVELS of directories' }
+    ];
+  }
+  
+  public get usage(): string {
+    return CommandOptions.formatUsage('find [path...] [expression]', this.options);
   }
   
   /**
@@ -39,7 +45,7 @@ export class FindCommand implements CommandModule {
       // Parse options
       const nameFilter = args.name as string | undefined;
       const typeFilter = args.type as string | undefined;
-      const maxDepth = args.maxdepth !== undefined ? parseInt(args.maxdepth as string) : undefined;
+      const maxDepth = args.maxdepth as number | undefined;
       
       for (const path of paths) {
         const absolutePath = PathUtils.resolve(context.cwd, path);
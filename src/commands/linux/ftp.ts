@@ -0,0 +1,490 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { OS } from '../../core/os';
+import { Connection, HostInfo } from '../../core/network';
+import { PathUtils } from '../../core/path-utils';
+import { FileStats } from '../../core/file-system-utils';
+import { ArchiveFiles } from '../archive-files';
+import { CommandPipe } from '../command-pipe';
+import { ConnectionError, RemoteConnection } from '../remote-connection';
+import { CompletionRequest, TabCompletion } from '../tab-completion';
+import { JobControl, JobInterruptedError } from '../job-control';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * Commands of the ftp prompt, as listed by help
+ */
+const FTP_COMMANDS: Record<string, string> = {
+  open: 'connect to remote ftp server',
+  user: 'send new user information',
+  ls: 'list contents of remote directory',
+  dir: 'list contents of remote directory',
+  cd: 'change remote working directory',
+  pwd: 'print working directory on remote machine',
+  get: 'receive file',
+  put: 'send one file',
+  close: 'terminate ftp session',
+  bye: 'terminate ftp session and exit',
+  quit: 'terminate ftp session and exit',
+  help: 'print local help information'
+};
+
+/**
+ * Connection of the ftp client to a server
+ */
+interface FtpSession {
+  host: HostInfo;
+
+  /**
+   * Host as given to open, for messages
+   */
+  hostName: string;
+
+  /**
+   * Control connection, in the connection table until the session is closed
+   */
+  connection: Connection;
+
+  /**
+   * System of the host as the logged in account; null until the login succeeds
+   */
+  system: OS | null;
+
+  /**
+   * Directory the server shows as /: the anonymous directory for anonymous logins
+   */
+  root: string;
+
+  /**
+   * Remote working directory, as the server shows it
+   */
+  cwd: string;
+
+  /**
+   * Anonymous logins can download but not upload
+   */
+  readOnly: boolean;
+}
+
+/**
+ * Reads the lines typed at the ftp prompt, or the lines of a script piped to ftp
+ * @param prompt Shown before reading from the terminal
+ * @param secret Do not echo what is typed, for passwords
+ * @returns The line, or null at the end of a script
+ */
+type FtpInput = (prompt: string, secret?: boolean) => Promise<string | null>;
+
+/**
+ * ftp command - Interactive client of the File Transfer Protocol
+ */
+export class FtpCommand implements CommandModule {
+  private os: OS;
+
+  constructor(os: OS) {
+    this.os = os;
+  }
+
+  public get name(): string {
+    return 'ftp';
+  }
+
+  public get description(): string {
+    return 'File Transfer Protocol client';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'no-login', alias: 'n', type: 'boolean', description: 'Do not ask for a login on connect; use the user command' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('ftp [OPTION]... [host [port]]', this.options,
+      `Transfer files to and from a remote FTP server, from an ftp> prompt.
+Log in with an account of the host, or as anonymous (any password) where the
+host allows it; anonymous users cannot upload.
+
+Commands: ${Object.keys(FTP_COMMANDS).join(', ')}.
+Commands can also be piped to ftp, one per line.`, `Examples:
+  ftp targetbank.com                          Connect and log in
+  ftp> get notes.txt                          Download a file to the current directory
+  ftp> put tool.sh /tmp/tool.sh               Upload a file
+  printf 'user anonymous x\\nls pub\\nbye\\n' | ftp -n targetbank.com`);
+  }
+
+  /**
+   * Complete options and hostnames
+   */
+  public async complete(request: CompletionRequest, _context: CommandContext): Promise<string[] | null> {
+    if (request.current.startsWith('-')) {
+      return TabCompletion.completeDeclaredOptions(this.options, request.current);
+    }
+    return request.args.length === 0 ? TabCompletion.completeHostnames(this.os, request.current) : [];
+  }
+
+  /**
+   * Execute command with context and streams
+   * Runs the commands read from stdin until bye or the end of the input
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    const input = this.createInput(context);
+    let session: FtpSession | null = null;
+
+    try {
+      if (args.args.length > 0) {
+        session = await this.open(args.args, !args['no-login'], input, context);
+      }
+
+      let line: string | null;
+      while ((line = await input('ftp> ')) !== null) {
+        const [command, ...operands] = line.trim().split(/\s+/);
+        if (!command) continue;
+
+        switch (command) {
+          case 'open':
+            if (session) {
+              context.stdout.writeLine(`Already connected to ${session.hostName}, use close first.`);
+            } else if (operands.length === 0) {
+              context.stdout.writeLine('usage: open host-name [port]');
+            } else {
+              session = await this.open(operands, !args['no-login'], input, context);
+            }
+            break;
+          case 'user':
+            if (!session) {
+              context.stdout.writeLine('Not connected.');
+            } else if (operands.length === 0) {
+              context.stdout.writeLine('usage: user user-name [password]');
+            } else {
+              await this.login(session, operands[0], operands[1], input, context);
+            }
+            break;
+          case 'ls':
+          case 'dir':
+            if (this.checkLoggedIn(session, context)) {
+              await this.list(session!, operands[0] ?? '.', context);
+            }
+            break;
+          case 'cd':
+            if (this.checkLoggedIn(session, context)) {
+              await this.changeDirectory(session!, operands[0] ?? '/', context);
+            }
+            break;
+          case 'pwd':
+            if (this.checkLoggedIn(session, context)) {
+              context.stdout.writeLine(`257 "${session!.cwd}" is the current directory`);
+            }
+            break;
+          case 'get':
+            if (operands.length === 0) {
+              context.stdout.writeLine('usage: get remote-file [local-file]');
+            } else if (this.checkLoggedIn(session, context)) {
+              await this.get(session!, operands[0], operands[1] ?? PathUtils.basename(operands[0]), context);
+            }
+            break;
+          case 'put':
+            if (operands.length === 0) {
+              context.stdout.writeLine('usage: put local-file [remote-file]');
+            } else if (this.checkLoggedIn(session, context)) {
+              await this.put(session!, operands[0], operands[1] ?? PathUtils.basename(operands[0]), context);
+            }
+            break;
+          case 'close':
+          case 'disconnect':
+            if (!session) {
+              context.stdout.writeLine('Not connected.');
+            } else {
+              this.close(session, context);
+              session = null;
+            }
+            break;
+          case 'bye':
+          case 'quit':
+          case 'exit':
+            if (session) {
+              this.close(session, context);
+              session = null;
+            }
+            return 0;
+          case 'help':
+          case '?':
+            for (const [name, description] of Object.entries(FTP_COMMANDS)) {
+              context.stdout.writeLine(`${name.padEnd(16)}${description}`);
+            }
+            break;
+          default:
+            context.stdout.writeLine('?Invalid command.');
+        }
+      }
+
+      // The end of a script closes the connection like bye
+      if (session) {
+        this.close(session, context);
+        session = null;
+      }
+      return 0;
+    } catch (error) {
+      // Ctrl+C and broken pipes end the command
+      if (error instanceof JobInterruptedError) {
+        throw error;
+      }
+      context.stderr.writeLine(`ftp: ${error instanceof Error ? error.message : String(error)}`);
+      return 1;
+    } finally {
+      // Ctrl+C drops the connection
+      if (session) {
+        this.os.getConnectionTracker().close(session.connection);
+      }
+    }
+  }
+
+  /**
+   * Read from the terminal with a prompt, or the lines of piped input without one.
+   * Only the terminal reads passwords, so a stdin with readPassword is the keyboard.
+   */
+  private createInput(context: CommandContext): FtpInput {
+    if (context.stdin.readPassword) {
+      return async (prompt: string, secret?: boolean) => {
+        context.stdout.write(prompt);
+        const line = secret ? await RemoteConnection.readPassword(context) : await context.stdin.readLine();
+        await JobControl.checkpoint(context);
+        return line;
+      };
+    }
+
+    const lines = CommandPipe.lines(context.stdin);
+    return async () => {
+      const next = await lines.next();
+      await JobControl.checkpoint(context);
+      return next.done ? null : next.value;
+    };
+  }
+
+  /**
+   * Connect to the server and, unless -n was given, ask for a login
+   * @param operands Host name and optional port
+   * @returns The session, or null if the connection failed
+   */
+  private async open(operands: string[], autoLogin: boolean, input: FtpInput, context: CommandContext): Promise<FtpSession | null> {
+    const hostName = operands[0];
+    const port = operands[1] !== undefined ? parseInt(operands[1], 10) : 21;
+    if (isNaN(port)) {
+      context.stdout.writeLine(`${operands[1]}: bad port number-- ${operands[1]}`);
+      return null;
+    }
+
+    let host: HostInfo;
+    try {
+      host = await RemoteConnection.open(this.os, hostName, port, context);
+    } catch (error) {
+      if (!(error instanceof ConnectionError)) throw error;
+      context.stderr.writeLine(error.reason === 'unresolved'
+        ? `ftp: ${hostName}: ${error.message}`
+        : `ftp: connect: ${error.message}`);
+      return null;
+    }
+
+    context.stdout.writeLine(`Connected to ${hostName}.`);
+    const service = host.ports.find(info => info.port === port)?.service;
+    if (service?.name !== 'ftp') {
+      context.stdout.writeLine('421 Service not available, remote server has closed connection.');
+      return null;
+    }
+    context.stdout.writeLine(`220 (${service.version ?? 'FTP server ready'})`);
+
+    const connection = this.os.getConnectionTracker().open(this.os.socketOwner('ftp', context.job?.pid), 'tcp', host.ip, port);
+    const session: FtpSession = { host, hostName, connection, system: null, root: '/', cwd: '/', readOnly: false };
+    if (autoLogin) {
+      const name = await input(`Name (${hostName}:${this.os.currentUserName}): `);
+      if (name !== null) {
+        await this.login(session, name.trim() || this.os.currentUserName, undefined, input, context);
+      }
+    }
+    return session;
+  }
+
+  /**
+   * Log in with USER and PASS; anonymous and ftp are the anonymous accounts
+   * @param password The password, or undefined to ask for it
+   */
+  private async login(session: FtpSession, user: string, password: string | undefined, input: FtpInput, context: CommandContext): Promise<void> {
+    context.stdout.writeLine('331 Please specify the password.');
+    if (password === undefined) {
+      password = await input('Password: ', true) ?? '';
+    }
+
+    const host = session.host;
+    const anonymous = user === 'anonymous' || user === 'ftp';
+    const account = host.accounts?.find(candidate => candidate.user === user);
+    if (anonymous && host.anonymousFtp) {
+      // Anonymous users only see the anonymous directory, which belongs to root
+      session.system = await this.os.loginToHost(host, 'root');
+      session.root = host.anonymousFtp;
+      session.cwd = '/';
+      session.readOnly = true;
+    } else if (!anonymous && account && account.password === password) {
+      session.system = await this.os.loginToHost(host, user);
+      session.root = '/';
+      session.cwd = session.system.getFileSystem().UserFolder;
+      session.readOnly = false;
+    } else {
+      // vsftpd waits before answering a failed login
+      await JobControl.sleep(1000, context);
+      context.stdout.writeLine('530 Login incorrect.');
+      context.stdout.writeLine('Login failed.');
+      return;
+    }
+
+    await JobControl.sleep(this.os.getNetworkInterface().getLatency(host.ip, this.os.hostInfo?.ip) * 2, context);
+    context.stdout.writeLine('230 Login successful.');
+    context.stdout.writeLine('Remote system type is UNIX.');
+    context.stdout.writeLine('Using binary mode to transfer files.');
+  }
+
+  /**
+   * Log out and close the connection
+   */
+  private close(session: FtpSession, context: CommandContext): void {
+    context.stdout.writeLine('221 Goodbye.');
+    this.os.getConnectionTracker().close(session.connection);
+  }
+
+  /**
+   * Report that commands need a login
+   * @returns True if the session is logged in
+   */
+  private checkLoggedIn(session: FtpSession | null, context: CommandContext): boolean {
+    if (!session) {
+      context.stdout.writeLine('Not connected.');
+      return false;
+    }
+    if (!session.system) {
+      context.stdout.writeLine('530 Please login with USER and PASS.');
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Get a path as the server shows it, and its path on the host's filesystem
+   */
+  private resolve(session: FtpSession, path: string): { shown: string; real: string } {
+    const shown = PathUtils.resolve(session.cwd, path);
+    return { shown, real: session.root === '/' ? shown : PathUtils.join(session.root, shown) };
+  }
+
+  /**
+   * List a remote directory like vsftpd, over a data connection
+   */
+  private async list(session: FtpSession, path: string, context: CommandContext): Promise<void> {
+    const fileSystem = session.system!.getFileSystem();
+    const { real } = this.resolve(session, path);
+
+    context.stdout.writeLine('200 PORT command successful. Consider using PASV.');
+    const lines: string[] = [];
+    if (await fileSystem.exists(real) && await fileSystem.canIRead(real)) {
+      const stats = await fileSystem.stat(real);
+      const entries = stats.isDirectory
+        ? (await fileSystem.readDirectory(real)).map(entry => ({ name: entry.name, path: PathUtils.join(real, entry.name) }))
+        : [{ name: PathUtils.basename(real), path: real }];
+      entries.sort((a, b) => a.name.localeCompare(b.name));
+      for (const entry of entries) {
+        lines.push(this.formatEntry(entry.name, await fileSystem.stat(entry.path), session.readOnly));
+      }
+    }
+    context.stdout.writeLine('150 Here comes the directory listing.');
+    await RemoteConnection.transfer(this.os, session.host, lines.join('\n').length, context);
+    for (const line of lines) {
+      context.stdout.writeLine(line);
+    }
+    context.stdout.writeLine('226 Directory send OK.');
+  }
+
+  /**
+   * Format a line of a listing, like
+   * -rw-r--r--    1 admin    admin         123 Jan 01 12:00 notes.txt
+   * @param hideOwner Show ftp as the owner, as vsftpd does for anonymous users
+   */
+  private formatEntry(name: string, stats: FileStats, hideOwner: boolean): string {
+    const permissions = stats.permissions ?? (stats.isDirectory ? 'drwxr-xr-x' : '-rw-r--r--');
+    const owner = hideOwner ? 'ftp' : (stats.owner ?? 'root');
+    const modified = stats.modifiedTime ?? new Date();
+    const month = modified.toLocaleString('en-US', { month: 'short' });
+    const date = `${month} ${String(modified.getDate()).padStart(2, '0')} ${String(modified.getHours()).padStart(2, '0')}:${String(modified.getMinutes()).padStart(2, '0')}`;
+    const size = stats.isDirectory ? 4096 : (stats.size ?? 0);
+    return `${permissions}    1 ${owner.padEnd(8)} ${owner.padEnd(8)} ${String(size).padStart(12)} ${date} ${name}`;
+  }
+
+  /**
+   * Change the remote working directory
+   */
+  private async changeDirectory(session: FtpSession, path: string, context: CommandContext): Promise<void> {
+    const fileSystem = session.system!.getFileSystem();
+    const { shown, real } = this.resolve(session, path);
+    if (!await fileSystem.exists(real) || !(await fileSystem.stat(real)).isDirectory || !await fileSystem.canIRead(real)) {
+      context.stdout.writeLine('550 Failed to change directory.');
+      return;
+    }
+    session.cwd = shown;
+    context.stdout.writeLine('250 Directory successfully changed.');
+  }
+
+  /**
+   * Download a remote file to a local file
+   */
+  private async get(session: FtpSession, remoteFile: string, localFile: string, context: CommandContext): Promise<void> {
+    const remoteFileSystem = session.system!.getFileSystem();
+    const localFileSystem = this.os.getFileSystem();
+    const { real } = this.resolve(session, remoteFile);
+    const localPath = localFileSystem.parsePath(localFile, context.cwd);
+
+    context.stdout.writeLine(`local: ${localFile} remote: ${remoteFile}`);
+    context.stdout.writeLine('200 PORT command successful. Consider using PASV.');
+    if (!await remoteFileSystem.exists(real) || (await remoteFileSystem.stat(real)).isDirectory || !await remoteFileSystem.canIRead(real)) {
+      context.stdout.writeLine('550 Failed to open file.');
+      return;
+    }
+    const existing = await localFileSystem.exists(localPath);
+    if (!await localFileSystem.canIWrite(existing ? localPath : PathUtils.dirname(localPath))) {
+      context.stdout.writeLine(`local: ${localFile}: Permission denied`);
+      return;
+    }
+
+    const bytes = await ArchiveFiles.readBytes(remoteFileSystem, real);
+    context.stdout.writeLine(`150 Opening BINARY mode data connection for ${remoteFile} (${bytes.length} bytes).`);
+    const duration = await RemoteConnection.transfer(this.os, session.host, bytes.length, context);
+    await ArchiveFiles.writeBytes(localFileSystem, localPath, bytes);
+    context.stdout.writeLine('226 Transfer complete.');
+    context.stdout.writeLine(`${bytes.length} bytes received in ${(duration / 1000).toFixed(2)} secs (${RemoteConnection.formatRate(bytes.length, duration)})`);
+  }
+
+  /**
+   * Upload a local file to a remote file
+   */
+  private async put(session: FtpSession, localFile: string, remoteFile: string, context: CommandContext): Promise<void> {
+    const remoteFileSystem = session.system!.getFileSystem();
+    const localFileSystem = this.os.getFileSystem();
+    const { real } = this.resolve(session, remoteFile);
+    const localPath = localFileSystem.parsePath(localFile, context.cwd);
+
+    context.stdout.writeLine(`local: ${localFile} remote: ${remoteFile}`);
+    if (!await localFileSystem.exists(localPath) || (await localFileSystem.stat(localPath)).isDirectory) {
+      context.stdout.writeLine(`local: ${localFile}: No such file or directory`);
+      return;
+    }
+    context.stdout.writeLine('200 PORT command successful. Consider using PASV.');
+    const existing = await remoteFileSystem.exists(real);
+    const parent = PathUtils.dirname(real);
+    if (session.readOnly || (!existing && !await remoteFileSystem.exists(parent))
+      || !await remoteFileSystem.canIWrite(existing ? real : parent)) {
+      context.stdout.writeLine('553 Could not create file.');
+      return;
+    }
+
+    const bytes = await ArchiveFiles.readBytes(localFileSystem, localPath);
+    context.stdout.writeLine('150 Ok to send data.');
+    const duration = await RemoteConnection.transfer(this.os, session.host, bytes.length, context);
+    await ArchiveFiles.writeBytes(remoteFileSystem, real, bytes);
+    context.stdout.writeLine('226 Transfer complete.');
+    context.stdout.writeLine(`${bytes.length} bytes sent in ${(duration / 1000).toFixed(2)} secs (${RemoteConnection.formatRate(bytes.length, duration)})`);
+  }
+}
@@ -1,5 +1,8 @@
 import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
 import { OS } from '../../core/os';
+import { CommandPipe } from '../command-pipe';
+import { JobControl, JobInterruptedError } from '../job-control';
+import { CommandOption, CommandOptions } from '../command-options';
 
 /**
  * grep command - Print lines that match patterns
@@ -18,21 +21,23 @@ export class GrepCommand implements CommandModule {
   public get description(): string {
     return 'Print lines that match patterns';
   }
-    public get usage(): string {
-    return `grep [options] PATTERN [FILE...]
-
-Options:
-  -i, --ignore-case       Ignore case distinctions in patterns and data
-  -v, --invert-match      Select non-matching lines
-  -n, --line-number       Prefix each line of output with its line number
-  -c, --count             Print only a count of matching lines
-  -o, --only-matching     Show only the part of a line matching PATTERN
-  -r, -R, --recursive     Read all files under each directory recursively
-
-Examples:
+  
+  public get options(): CommandOption[] {
+    return [
+      { name: 'ignore-case', alias: 'i', type: 'boolean', description: 'Ignore case distinctions in patterns and data' },
+      { name: 'invert-match', alias: 'v', type: 'boolean', description: 'Select non-matching lines' },
+      { name: 'line-number', alias: 'n', type: 'boolean', description: 'Prefix each line of output with its line number' },
+      { name: 'count', alias: 'c', type: 'boolean', description: 'Print only a count of matching lines' },
+      { name: 'only-matching', alias: 'o', type: 'boolean', description: 'Show only the part of a line matching PATTERN' },
+      { name: 'recursive', alias: ['r', 'R'], type: 'boolean', description: 'Read all files under each directory recursively' }
+    ];
+  }
+  
+  public get usage(): string {
+    return CommandOptions.formatUsage('grep [options] PATTERN [FILE...]', this.options, '', `Examples:
   grep "error" log.txt     Display all lines containing "error" in log.txt
   grep -i "warning" *.log  Case-insensitive search for "warning" in all .log files
-  grep -v "success" log    Display all lines NOT containing "success"`;
+  grep -v "success" log    Display all lines NOT containing "success"`);
   }
   
   /**
@@ -48,12 +53,12 @@ Examples:
       }
       
       // Parse options
-      const ignoreCase = args.i || args['ignore-case'] || false; // -i, --ignore-case
-      const invertMatch = args.v || args['invert-match'] || false; // -v, --invert-match
-      const lineNumbers = args.n || args['line-number'] || false; // -n, --line-number
-      const onlyCount = args.c || args.count || false; // -c, --count
-      const onlyMatching = args.o || args['only-matching'] || false; // -o, --only-matching
-      const recursive = args.r || args.R || args.recursive || false; // -r, -R, --recursive
+      const ignoreCase = args['ignore-case']; // -i, --ignore-case
+      const invertMatch = args['invert-match']; // -v, --invert-match
+      const lineNumbers = args['line-number']; // -n, --line-number
+      const onlyCount = args.count; // -c, --count
+      const onlyMatching = args['only-matching']; // -o, --only-matching
+      const recursive = args.recursive; // -r, -R, --recursive
       
       // Get pattern and files
       const pattern = args.args[0];
@@ -61,25 +66,13 @@ Examples:
       
       // If no files specified but pattern is, read from stdin
       if (files.length === 0) {
-        const input = await context.stdin.read();
-        
-        if (!input) {
-          return 0; // No input, no results
-        }
-        
-        const results = this.processContent(input, pattern, {
+        return await this.filterInput(context, pattern, {
           ignoreCase,
           invertMatch,
           lineNumbers,
           onlyCount,
           onlyMatching
         });
-        
-        if (results) {
-          context.stdout.writeLine(results);
-        }
-        
-        return 0;
       }
       
       // Process each file
@@ -88,7 +81,7 @@ Examples:
       for (const file of files) {
         try {
           // Read file content
-          const content = await this.os.getFileSystem().readFile(file);
+          const content = await this.os.getFileSystem().readFile(this.os.getFileSystem().parsePath(file, context.cwd));
           
           // Process content
           const results = this.processContent(content, pattern, {
@@ -118,11 +111,65 @@ Examples:
       
       return exitCode;
     } catch (error) {
+      // Ctrl+C and broken pipes end the command
+      if (error instanceof JobInterruptedError) {
+        throw error;
+      }
       context.stderr.writeLine(`grep: error: ${error instanceof Error ? error.message : String(error)}`);
       return 1;
     }
   }
   
+  /**
+   * Filter standard input line by line, so matches from a pipe are shown as they arrive
+   */
+  private async filterInput(
+    context: CommandContext,
+    pattern: string,
+    options: {
+      ignoreCase: boolean;
+      invertMatch: boolean;
+      lineNumbers: boolean;
+      onlyCount: boolean;
+      onlyMatching: boolean;
+    }
+  ): Promise<number> {
+    const flags = options.ignoreCase ? 'i' : '';
+    const regex = new RegExp(pattern, flags);
+    let lineNumber = 0;
+    let count = 0;
+    
+    for await (const line of CommandPipe.lines(context.stdin)) {
+      lineNumber++;
+      if (regex.test(line) === options.invertMatch) {
+        continue;
+      }
+      
+      count++;
+      if (options.onlyCount) {
+        continue;
+      }
+      
+      const prefix = options.lineNumbers ? `${lineNumber}:` : '';
+      if (options.onlyMatching) {
+        for (const match of line.match(new RegExp(pattern, flags + 'g')) ?? []) {
+          context.stdout.writeLine(prefix + match);
+        }
+      } else {
+        context.stdout.writeLine(prefix + line);
+      }
+      
+      // Stop when the reader of our output has exited
+      await JobControl.checkpoint(context);
+    }
+    
+    if (options.onlyCount) {
+      context.stdout.writeLine(count.toString());
+    }
+    
+    return 0;
+  }
+  
   /**
    * Process content with the given pattern and options
    */
@@ -0,0 +1,216 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { OS } from '../../core/os';
+import { ArchiveFiles } from '../archive-files';
+import { JobControl, JobInterruptedError } from '../job-control';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * gzip command - Compress or decompress files
+ */
+export class GzipCommand implements CommandModule {
+  private os: OS;
+
+  constructor(os: OS) {
+    this.os = os;
+  }
+
+  public get name(): string {
+    return 'gzip';
+  }
+
+  public get description(): string {
+    return 'Compress or decompress files';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'decompress', alias: 'd', type: 'boolean', description: 'Decompress' },
+      { name: 'stdout', alias: 'c', type: 'boolean', description: 'Write the decompressed data on standard output, keep the files' },
+      { name: 'keep', alias: 'k', type: 'boolean', description: 'Keep (do not delete) the input files' },
+      { name: 'force', alias: 'f', type: 'boolean', description: 'Overwrite existing output files' },
+      { name: 'list', alias: 'l', type: 'boolean', description: 'List the sizes of compressed files' },
+      { name: 'verbose', alias: 'v', type: 'boolean', description: 'Show the name and compression ratio of each file' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage(`${this.name} [OPTION]... FILE...`, this.options,
+      `Compress each FILE to FILE.gz, or decompress FILE.gz (and .tgz) files, replacing the original.
+Permissions and modification times are kept.`, `Examples:
+  gzip access.log               Replace access.log with access.log.gz
+  gzip -k notes.txt             Compress and keep notes.txt
+  gunzip backup.tar.gz          Restore backup.tar
+  gzip -dc report.txt.gz        Show a compressed text file
+  gzip -l *.gz                  Show the compression ratios`);
+  }
+
+  /**
+   * Execute command with context and streams
+   * Returns exit code (0 for success, 1 for errors, 2 if files were ignored)
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    const decompress = args.decompress || this.name === 'gunzip';
+    if (args.args.length === 0) {
+      context.stderr.writeLine(`${this.name}: missing file operand`);
+      context.stderr.writeLine(`Try '${this.name} --help' for more information.`);
+      return 1;
+    }
+    if (args.stdout && !decompress && !args.list) {
+      context.stderr.writeLine(`${this.name}: compressed data not written to a terminal; use it without -c`);
+      return 1;
+    }
+
+    let exitCode = 0;
+
+    try {
+      if (args.list) {
+        context.stdout.writeLine('         compressed        uncompressed  ratio uncompressed_name');
+      }
+
+      for (const file of args.args) {
+        const status = args.list
+          ? await this.list(file, context)
+          : await this.process(file, decompress, args, context);
+        // Errors (1) take precedence over warnings (2)
+        if (status === 1 || (status === 2 && exitCode === 0)) {
+          exitCode = status;
+        }
+        await JobControl.checkpoint(context);
+      }
+      return exitCode;
+    } catch (error) {
+      // Ctrl+C and broken pipes end the command
+      if (error instanceof JobInterruptedError) {
+        throw error;
+      }
+      context.stderr.writeLine(`${this.name}: ${error instanceof Error ? error.message : String(error)}`);
+      return 1;
+    }
+  }
+
+  /**
+   * Compress or decompress one file
+   * @returns Exit status for this file
+   */
+  private async process(file: string, decompress: boolean, args: CommandArgs, context: CommandContext): Promise<number> {
+    const fileSystem = this.os.getFileSystem();
+    const path = fileSystem.parsePath(file, context.cwd);
+    if (!await fileSystem.exists(path)) {
+      context.stderr.writeLine(`${this.name}: ${file}: No such file or directory`);
+      return 1;
+    }
+    const stats = await fileSystem.stat(path);
+    if (stats.isDirectory) {
+      context.stderr.writeLine(`${this.name}: ${file} is a directory -- ignored`);
+      return 2;
+    }
+
+    let outputPath: string;
+    if (decompress) {
+      const output = this.decompressedName(path);
+      if (output === null) {
+        context.stderr.writeLine(`${this.name}: ${file}: unknown suffix -- ignored`);
+        return 2;
+      }
+      outputPath = output;
+    } else {
+      if (/\.(gz|tgz)$/.test(path)) {
+        context.stderr.writeLine(`${this.name}: ${file} already has .gz suffix -- unchanged`);
+        return 2;
+      }
+      outputPath = `${path}.gz`;
+    }
+
+    const input = await ArchiveFiles.readBytes(fileSystem, path);
+    let output: Uint8Array;
+    let modified = stats.modifiedTime ?? new Date();
+    try {
+      if (decompress) {
+        const result = await ArchiveFiles.gunzip(input);
+        output = result.data;
+        modified = result.modified ?? modified;
+      } else {
+        output = await ArchiveFiles.gzip(input, modified, file.split('/').pop());
+      }
+    } catch (error) {
+      context.stderr.writeLine(`${this.name}: ${file}: ${error instanceof Error ? error.message : String(error)}`);
+      return 1;
+    }
+
+    if (args.stdout) {
+      const text = new TextDecoder().decode(output);
+      context.stdout.write(text);
+      return 0;
+    }
+
+    if (await fileSystem.exists(outputPath) && !args.force) {
+      context.stderr.writeLine(`${this.name}: ${outputPath.split('/').pop()} already exists; not overwritten`);
+      return 2;
+    }
+    await ArchiveFiles.writeBytes(fileSystem, outputPath, output);
+    await ArchiveFiles.restore(fileSystem, outputPath, false, ArchiveFiles.permissionsToMode(stats.permissions), modified);
+    if (!args.keep) {
+      await fileSystem.deleteFile(path);
+    }
+
+    if (args.verbose) {
+      const [compressed, uncompressed] = decompress ? [input.length, output.length] : [output.length, input.length];
+      const action = args.keep ? 'created' : 'replaced with';
+      context.stderr.writeLine(`${file}:\t${this.ratio(compressed, uncompressed).padStart(6)} -- ${action} ${outputPath.split('/').pop()}`);
+    }
+    return 0;
+  }
+
+  /**
+   * Show the sizes of one compressed file, for -l
+   * @returns Exit status for this file
+   */
+  private async list(file: string, context: CommandContext): Promise<number> {
+    const fileSystem = this.os.getFileSystem();
+    const path = fileSystem.parsePath(file, context.cwd);
+    if (!await fileSystem.exists(path) || (await fileSystem.stat(path)).isDirectory) {
+      context.stderr.writeLine(`${this.name}: ${file}: No such file or directory`);
+      return 1;
+    }
+
+    const data = await ArchiveFiles.readBytes(fileSystem, path);
+    if (!ArchiveFiles.isGzip(data)) {
+      context.stderr.writeLine(`${this.name}: ${file}: not in gzip format`);
+      return 1;
+    }
+
+    // The uncompressed size is stored in the last 4 bytes
+    const uncompressed = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(data.length - 4, true);
+    const name = this.decompressedName(file) ?? file;
+    context.stdout.writeLine(`${String(data.length).padStart(19)} ${String(uncompressed).padStart(19)} ${this.ratio(data.length, uncompressed).padStart(6)} ${name}`);
+    return 0;
+  }
+
+  /**
+   * Get the name of a decompressed file: without .gz, or .tar for .tgz
+   * @returns The name, or null when the file has neither suffix
+   */
+  private decompressedName(path: string): string | null {
+    if (/[^/]\.gz$/.test(path)) return path.slice(0, -3);
+    if (/[^/]\.tgz$/.test(path)) return path.slice(0, -4) + '.tar';
+    return null;
+  }
+
+  private ratio(compressed: number, uncompressed: number): string {
+    const ratio = uncompressed === 0 ? 0 : (uncompressed - compressed) / uncompressed * 100;
+    return `${ratio.toFixed(1)}%`;
+  }
+}
+
+/**
+ * gunzip command - Decompress files, like gzip -d
+ */
+export class GunzipCommand extends GzipCommand {
+  public get name(): string {
+    return 'gunzip';
+  }
+
+  public get description(): string {
+    return 'Decompress files';
+  }
+}
@@ -0,0 +1,144 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { CommandInput } from '../command-input';
+import { HashAlgorithm, HashFunctions } from '../hash-functions';
+import { JobControl, JobInterruptedError } from '../job-control';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * md5sum, sha1sum, sha256sum and sha512sum commands - Compute and check message digests
+ */
+export class HashsumCommand implements CommandModule {
+  private algorithm: HashAlgorithm;
+
+  constructor(algorithm: HashAlgorithm) {
+    this.algorithm = algorithm;
+  }
+
+  public get name(): string {
+    return `${this.algorithm}sum`;
+  }
+
+  public get description(): string {
+    return `Compute and check ${this.algorithm.toUpperCase()} message digests`;
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'check', alias: 'c', type: 'boolean', description: 'Read checksums from the FILEs and check them' },
+      { name: 'binary', alias: 'b', type: 'boolean', description: 'Mark the files as binary (*) in the output' },
+      { name: 'text', alias: 't', type: 'boolean', description: 'Mark the files as text in the output (default)' },
+      { name: 'quiet', type: 'boolean', description: "With --check, don't print OK for each verified file" },
+      { name: 'status', type: 'boolean', description: "With --check, don't output anything; the exit status shows success" }
+    ];
+  }
+
+  public get usage(): string {
+    const example = (command: string, description: string) => `  ${command.padEnd(30)}${description}`;
+    return CommandOptions.formatUsage(`${this.name} [OPTION]... [FILE]...`, this.options,
+      `Print or check ${this.algorithm.toUpperCase()} checksums.
+With no FILE, or when FILE is -, read standard input.`, ['Examples:',
+      example(`echo -n secret | ${this.name}`, 'Hash a password'),
+      example(`${this.name} *.tar > SUMS`, 'Save the checksums of some files'),
+      example(`${this.name} -c SUMS`, 'Check the files against the saved checksums')].join('\n'));
+  }
+
+  /**
+   * Execute command with context and streams
+   * Returns exit code (0 for success, 1 if a file could not be read or a checksum did not match)
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    const files: string[] = args.args.length > 0 ? args.args : ['-'];
+
+    try {
+      if (args.check) {
+        let exitCode = 0;
+        for (const file of files) {
+          exitCode = Math.max(exitCode, await this.check(file, args, context));
+        }
+        return exitCode;
+      }
+
+      let exitCode = 0;
+      for (const file of files) {
+        const data = await CommandInput.readBytes(file, context, this.name);
+        if (data === null) {
+          exitCode = 1;
+          continue;
+        }
+        context.stdout.writeLine(`${HashFunctions.hexDigest(this.algorithm, data)} ${args.binary ? '*' : ' '}${file}`);
+        // Stop when the reader of our output has exited
+        await JobControl.checkpoint(context);
+      }
+      return exitCode;
+    } catch (error) {
+      // Ctrl+C and broken pipes end the command
+      if (error instanceof JobInterruptedError) {
+        throw error;
+      }
+      context.stderr.writeLine(`${this.name}: ${error instanceof Error ? error.message : String(error)}`);
+      return 1;
+    }
+  }
+
+  /**
+   * Check the files listed in a checksum file, in the format written by this command
+   * @returns Exit status for this checksum file
+   */
+  private async check(file: string, args: CommandArgs, context: CommandContext): Promise<number> {
+    const content = await CommandInput.read(file, context, this.name);
+    if (content === null) {
+      return 1;
+    }
+
+    const pattern = new RegExp(`^([0-9a-fA-F]{${HashFunctions.hexLength(this.algorithm)}}) ([ *])(.+)$`);
+    let checked = 0;
+    let mismatched = 0;
+    let unreadable = 0;
+    let malformed = 0;
+
+    for (const line of CommandInput.splitLines(content)) {
+      const match = line.match(pattern);
+      if (!match) {
+        malformed++;
+        continue;
+      }
+      checked++;
+
+      const [, expected, , name] = match;
+      const data = await CommandInput.readBytes(name, context, this.name);
+      let result = 'OK';
+      if (data === null) {
+        result = 'FAILED open or read';
+        unreadable++;
+      } else if (HashFunctions.hexDigest(this.algorithm, data) !== expected.toLowerCase()) {
+        result = 'FAILED';
+        mismatched++;
+      }
+
+      if (!args.status && !(args.quiet && result === 'OK')) {
+        context.stdout.writeLine(`${name}: ${result}`);
+      }
+      await JobControl.checkpoint(context);
+    }
+
+    if (checked === 0) {
+      context.stderr.writeLine(`${this.name}: ${file}: no properly formatted checksum lines found`);
+      return 1;
+    }
+
+    if (!args.status) {
+      const plural = (count: number, singular: string, multiple: string) => count === 1 ? `1 ${singular}` : `${count} ${multiple}`;
+      if (malformed > 0) {
+        context.stderr.writeLine(`${this.name}: WARNING: ${plural(malformed, 'line is', 'lines are')} improperly formatted`);
+      }
+      if (unreadable > 0) {
+        context.stderr.writeLine(`${this.name}: WARNING: ${plural(unreadable, 'listed file', 'listed files')} could not be read`);
+      }
+      if (mismatched > 0) {
+        context.stderr.writeLine(`${this.name}: WARNING: ${plural(mismatched, 'computed checksum', 'computed checksums')} did NOT match`);
+      }
+    }
+
+    return mismatched > 0 || unreadable > 0 ? 1 : 0;
+  }
+}
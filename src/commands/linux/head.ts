@@ -1,5 +1,7 @@
 import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
 import { OS } from '../../core/os';
+import { CommandPipe } from '../command-pipe';
+import { CommandOption, CommandOptions } from '../command-options';
 
 /**
  * head command - Output the first part of files
@@ -18,14 +20,18 @@ export class HeadCommand implements CommandModule {
   public get description(): string {
     return 'Output the first part of files';
   }
-    public get usage(): string {
-    return 'head [OPTION]... [FILE]...\n' +
-           'Print the first 10 lines of each FILE to standard output.\n' +
-           'With more than one FILE, precede each with a header giving the file name.\n\n' +
-           'Options:\n' +
-           '  -n N         output the first N lines (default: 10)\n' +
-           '  -N           same as -n N\n\n' +
-           'If no FILE is specified, or when FILE is -, read standard input.';
+  
+  public get options(): CommandOption[] {
+    return [
+      { name: 'lines', alias: 'n', type: 'number', valueName: 'N', description: 'Output the first N lines (default: 10); -N is the same as -n N' }
+    ];
+  }
+  
+  public get usage(): string {
+    return CommandOptions.formatUsage('head [OPTION]... [FILE]...', this.options,
+      'Print the first 10 lines of each FILE to standard output.\n' +
+      'With more than one FILE, precede each with a header giving the file name.',
+      'If no FILE is specified, or when FILE is -, read standard input.');
   }
   
   /**
@@ -39,15 +45,12 @@ export class HeadCommand implements CommandModule {
       let numLines = 10;
       
       // Parse -n option
-      if (args.n !== undefined) {
-        const n = parseInt(args.n.toString());
-        if (!isNaN(n)) {
-          numLines = n;
-        }
+      if (args.lines !== undefined) {
+        numLines = args.lines;
       }
       
       // Parse first argument as number if no -n provided
-      if (args.n === undefined && args.args.length > 0 && args.args[0].startsWith('-')) {
+      if (args.lines === undefined && args.args.length > 0 && args.args[0].startsWith('-')) {
         const n = parseInt(args.args[0].substring(1));
         if (!isNaN(n)) {
           numLines = n;
@@ -60,9 +63,14 @@ export class HeadCommand implements CommandModule {
       
       // If no files specified, read from stdin
       if (files.length === 0) {
-        const content = await context.stdin.read();
-        const result = this.getHeadLines(content, numLines);
-        context.stdout.writeLine(result);
+        // Stop reading after the last line needed, which closes a pipe early
+        let count = 0;
+        if (numLines > 0) {
+          for await (const line of CommandPipe.lines(context.stdin)) {
+            context.stdout.writeLine(line);
+            if (++count >= numLines) break;
+          }
+        }
         return 0;
       }
       
@@ -72,7 +80,7 @@ export class HeadCommand implements CommandModule {
       for (const file of files) {
         try {
           // Read file content
-          const content = await this.os.getFileSystem().readFile(file);
+          const content = await this.os.getFileSystem().readFile(this.os.getFileSystem().parsePath(file, context.cwd));
           
           // If multiple files, print filename header
           if (files.length > 1) {
@@ -0,0 +1,100 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { CommandInput } from '../command-input';
+import { ArchiveFiles } from '../archive-files';
+import { JobControl, JobInterruptedError } from '../job-control';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * hexdump command - Display file contents in hexadecimal
+ */
+export class HexdumpCommand implements CommandModule {
+  public get name(): string {
+    return 'hexdump';
+  }
+
+  public get description(): string {
+    return 'Display file contents in hexadecimal';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'canonical', alias: 'C', type: 'boolean', description: 'Canonical hex+ASCII display' },
+      { name: 'length', alias: 'n', type: 'number', valueName: 'length', description: 'Interpret only length bytes of input' },
+      { name: 'skip', alias: 's', type: 'number', default: 0, valueName: 'offset', description: 'Skip offset bytes from the beginning of the input' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('hexdump [OPTION]... [FILE]...', this.options,
+      'Display the contents of the FILEs, one after the other, or of standard input.\nWithout -C, the data is shown as 16-bit little-endian words.', `Examples:
+  hexdump -C payload.bin        Show bytes and characters
+  hexdump -C -n 64 disk.img     Show the first 64 bytes`);
+  }
+
+  /**
+   * Execute command with context and streams
+   * Returns exit code (0 for success, 1 if a file could not be read)
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    try {
+      const chunks: Uint8Array[] = [];
+      let exitCode = 0;
+      for (const file of args.args.length > 0 ? args.args : ['-']) {
+        const data = await CommandInput.readBytes(file, context, 'hexdump');
+        if (data === null) {
+          exitCode = 1;
+          continue;
+        }
+        chunks.push(data);
+      }
+
+      const skip: number = Math.max(0, args.skip);
+      const all = ArchiveFiles.concat(chunks);
+      const end = args.length !== undefined ? Math.min(all.length, skip + Math.max(0, args.length)) : all.length;
+      const data = all.subarray(Math.min(skip, all.length), end);
+
+      for (let offset = 0; offset < data.length; offset += 16) {
+        const row = data.subarray(offset, offset + 16);
+        context.stdout.writeLine(args.canonical ? this.canonicalLine(row, skip + offset) : this.wordLine(row, skip + offset));
+        // Stop when the reader of our output has exited
+        await JobControl.checkpoint(context);
+      }
+      // The last line is the offset after the data
+      const last = skip + data.length;
+      context.stdout.writeLine(args.canonical ? last.toString(16).padStart(8, '0') : last.toString(16).padStart(7, '0'));
+      return exitCode;
+    } catch (error) {
+      // Ctrl+C and broken pipes end the command
+      if (error instanceof JobInterruptedError) {
+        throw error;
+      }
+      context.stderr.writeLine(`hexdump: ${error instanceof Error ? error.message : String(error)}`);
+      return 1;
+    }
+  }
+
+  /**
+   * Format a line like "00000000  68 65 6c 6c 6f 0a                                 |hello.|"
+   */
+  private canonicalLine(row: Uint8Array, offset: number): string {
+    let hex = '';
+    row.forEach((byte, i) => {
+      hex += byte.toString(16).padStart(2, '0') + ' ';
+      if (i === 7) hex += ' ';
+    });
+    const text = Array.from(row, byte => byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.').join('');
+    return `${offset.toString(16).padStart(8, '0')}  ${hex.padEnd(49)} |${text}|`;
+  }
+
+  /**
+   * Format a line of 16-bit little-endian words, like "0000000 6568 6c6c 0a6f"
+   */
+  private wordLine(row: Uint8Array, offset: number): string {
+    const words: string[] = [];
+    for (let i = 0; i < row.length; i += 2) {
+      const word = row[i] | ((row[i + 1] ?? 0) << 8);
+      words.push(word.toString(16).padStart(4, '0'));
+    }
+    return `${offset.toString(16).padStart(7, '0')} ${words.join(' ')}`;
+  }
+}
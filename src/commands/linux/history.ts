@@ -0,0 +1,79 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { OS } from '../../core/os';
+import { ShellHistory } from '../shell-history';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * history command - Display or clear the command history
+ */
+export class HistoryCommand implements CommandModule {
+  private os: OS;
+  
+  constructor(os: OS) {
+    this.os = os;
+  }
+  
+  public get name(): string {
+    return 'history';
+  }
+  
+  public get description(): string {
+    return 'Display or clear the command history';
+  }
+  
+  public get options(): CommandOption[] {
+    return [
+      { name: 'clear', alias: 'c', type: 'boolean', description: 'Clear the history' }
+    ];
+  }
+  
+  public get usage(): string {
+    return CommandOptions.formatUsage('history [-c] [n]', this.options, `Display the command history with line numbers, or only the last n commands.
+The history is saved in ~/.bash_history and shared by all terminal windows.`, `History expansion in the terminal:
+  !!        The last command
+  !n        Command number n
+  !-n       The n-th previous command
+  !prefix   The last command starting with prefix
+  Ctrl+R    Search the history interactively
+
+Examples:
+  history 10         # Show the last 10 commands
+  sudo !!            # Run the last command again with a prefix
+  !nmap              # Repeat the last nmap scan`);
+  }
+  
+  /**
+   * Execute the history command
+   * @param args Command arguments
+   * @param context Command execution context
+   * @returns Exit code (0 for success)
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    const history = ShellHistory.forCurrentUser(this.os);
+    await history.ready();
+    
+    if (args.clear) {
+      await history.clear();
+      return 0;
+    }
+    
+    const entries = history.getEntries();
+    let start = 0;
+    
+    if (args.args.length > 0) {
+      const count = parseInt(args.args[0], 10);
+      if (isNaN(count) || count < 0) {
+        context.stderr.writeLine(`history: ${args.args[0]}: numeric argument required`);
+        return 1;
+      }
+      start = Math.max(entries.length - count, 0);
+    }
+    
+    const width = String(entries.length).length;
+    for (let i = start; i < entries.length; i++) {
+      context.stdout.writeLine(`${String(i + 1).padStart(Math.max(width, 4))}  ${entries[i]}`);
+    }
+    
+    return 0;
+  }
+}
@@ -0,0 +1,140 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { OS } from '../../core/os';
+import { DNSServer, DnsRecord, DnsRecordType } from '../../core/network';
+import { IpUtils } from '../../core/ip-utils';
+import { DnsQuery } from '../dns-query';
+import { CompletionRequest, TabCompletion } from '../tab-completion';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * Record types host can query
+ */
+const RECORD_TYPES: DnsRecordType[] = ['A', 'AAAA', 'CNAME', 'MX', 'TXT', 'NS', 'PTR'];
+
+/**
+ * host command - DNS lookup utility
+ */
+export class HostCommand implements CommandModule {
+  private os: OS;
+
+  constructor(os: OS) {
+    this.os = os;
+  }
+
+  public get name(): string {
+    return 'host';
+  }
+
+  public get description(): string {
+    return 'DNS lookup utility';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'type', alias: 't', type: 'string', valueName: 'type', description: 'Type of the records to query (A, AAAA, CNAME, MX, TXT, NS or PTR)' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('host [-t type] name [server]', this.options,
+      `Print the records of a name in sentences: its addresses and mail servers by
+default, the name of an address when it is given one. The name server of the
+router is queried unless a server is given; /etc/hosts is not read.`, `Examples:
+  host targetbank.com           Its addresses and mail servers
+  host -t txt example.com       Its TXT records
+  host 192.168.1.10             The name of an address`);
+  }
+
+  /**
+   * Complete options, record types and hostnames
+   */
+  public async complete(request: CompletionRequest, _context: CommandContext): Promise<string[] | null> {
+    const previous = request.args[request.args.length - 1];
+    if (previous === '-t') {
+      return RECORD_TYPES.filter(type => type.startsWith(request.current.toUpperCase()));
+    }
+    if (request.current.startsWith('-')) {
+      return TabCompletion.completeDeclaredOptions(this.options, request.current);
+    }
+    return TabCompletion.completeHostnames(this.os, request.current);
+  }
+
+  /**
+   * Execute command with context and streams
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    const [name, server] = args.args;
+    if (!name) {
+      context.stderr.writeLine('Usage: host [-t type] name [server]');
+      return 1;
+    }
+    const type = args.type?.toUpperCase();
+    if (type !== undefined && !RECORD_TYPES.includes(type as DnsRecordType)) {
+      context.stderr.writeLine(`host: invalid type: ${args.type}`);
+      return 1;
+    }
+
+    let serverAddress: string | undefined;
+    if (server !== undefined) {
+      const resolved = await this.os.getResolver().resolve(server);
+      if (!resolved) {
+        context.stderr.writeLine(`host: couldn't get address for '${server}': not found`);
+        return 1;
+      }
+      serverAddress = resolved;
+    }
+
+    // An address is looked up by its PTR record, a name by its addresses and mail servers
+    const reverse = IpUtils.isAddress(name) && type === undefined;
+    const query = reverse ? DNSServer.reverseName(name) : name;
+    const types: DnsRecordType[] = reverse ? ['PTR'] : type ? [type as DnsRecordType] : ['A', 'AAAA', 'MX'];
+
+    // Aliases show once, even when followed for every type
+    const lines: string[] = [];
+    for (const recordType of types) {
+      const answer = await DnsQuery.query(this.os, query, recordType, context, serverAddress);
+      if (!answer) {
+        context.stdout.writeLine(';; connection timed out; no servers could be reached');
+        return 1;
+      }
+      if (answer.status === 'NXDOMAIN') {
+        context.stdout.writeLine(`Host ${query} not found: 3(NXDOMAIN)`);
+        return 1;
+      }
+      const found = answer.records.map(record => this.formatRecord(record)).filter(line => !lines.includes(line));
+      if (found.length === 0 && type !== undefined) {
+        found.push(`${query} has no ${type} record`);
+      }
+      lines.push(...found);
+    }
+
+    if (server !== undefined) {
+      context.stdout.writeLine(`Using domain server:\nName: ${server}\nAddress: ${serverAddress}#53\nAliases: \n`);
+    }
+    lines.forEach(line => context.stdout.writeLine(line));
+    return 0;
+  }
+
+  /**
+   * Format a record of the answer as a sentence, like host
+   */
+  private formatRecord(record: DnsRecord): string {
+    const value = DnsQuery.formatValue(record);
+    switch (record.type) {
+      case 'A':
+        return `${record.name} has address ${value}`;
+      case 'AAAA':
+        return `${record.name} has IPv6 address ${value}`;
+      case 'CNAME':
+        return `${record.name} is an alias for ${value}`;
+      case 'MX':
+        return `${record.name} mail is handled by ${value}`;
+      case 'TXT':
+        return `${record.name} descriptive text ${value}`;
+      case 'NS':
+        return `${record.name} name server ${value}`;
+      case 'PTR':
+        return `${record.name} domain name pointer ${value}`;
+    }
+  }
+}
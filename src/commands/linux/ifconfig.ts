@@ -0,0 +1,152 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { OS } from '../../core/os';
+import { NetworkAdapter } from '../../core/network';
+import { IpUtils } from '../../core/ip-utils';
+import { CompletionRequest } from '../tab-completion';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * ifconfig command - Configure a network interface
+ */
+export class IfconfigCommand implements CommandModule {
+  private os: OS;
+
+  constructor(os: OS) {
+    this.os = os;
+  }
+
+  public get name(): string {
+    return 'ifconfig';
+  }
+
+  public get description(): string {
+    return 'Configure a network interface';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'all', alias: 'a', type: 'boolean', description: 'Display all interfaces, even those that are down' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('ifconfig [-a] [interface]\n       ifconfig interface up|down', this.options,
+      `Display the network interfaces of this system: their address, netmask and
+MAC address. Given up or down, bring an interface of this machine up or down;
+the routes through an interface that is down are not used.`, `Examples:
+  ifconfig              Interfaces that are up
+  ifconfig wlan0        The Wi-Fi interface
+  ifconfig tun0 down    Disconnect the VPN interface`);
+  }
+
+  /**
+   * Complete interface names and up/down
+   */
+  public async complete(request: CompletionRequest, _context: CommandContext): Promise<string[] | null> {
+    const operands = request.args.filter(arg => !arg.startsWith('-'));
+    const candidates = operands.length === 0
+      ? this.getAdapters().map(adapter => adapter.name)
+      : operands.length === 1 ? ['up', 'down'] : [];
+    return candidates.filter(candidate => candidate.startsWith(request.current));
+  }
+
+  /**
+   * Execute command with context and streams
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    const [name, action] = args.args;
+    const adapters = this.getAdapters();
+
+    if (name === undefined) {
+      const shown = adapters.filter(adapter => args.all || adapter.isUp);
+      context.stdout.write(shown.map(adapter => this.formatAdapter(adapter)).join(''));
+      return 0;
+    }
+
+    const adapter = adapters.find(candidate => candidate.name === name);
+    if (!adapter) {
+      context.stderr.writeLine(`${name}: error fetching interface information: Device not found`);
+      return 1;
+    }
+    if (action === undefined) {
+      context.stdout.write(this.formatAdapter(adapter));
+      return 0;
+    }
+    if (action !== 'up' && action !== 'down') {
+      context.stderr.writeLine(`${action}: Unknown host`);
+      context.stderr.writeLine(`ifconfig: \`--help' gives usage information.`);
+      return 1;
+    }
+
+    // The interfaces of remote hosts are not configurable
+    if (this.os.hostInfo) {
+      context.stderr.writeLine('SIOCSIFFLAGS: Operation not permitted');
+      return 1;
+    }
+    this.os.getNetworkInterface().setAdapterUp(name, action === 'up');
+    return 0;
+  }
+
+  /**
+   * Get the network interfaces of the system the command runs on
+   */
+  private getAdapters(): NetworkAdapter[] {
+    return this.os.getNetworkInterface().getAdapters(this.os.hostInfo?.ip);
+  }
+
+  /**
+   * Format an interface like net-tools ifconfig, followed by a blank line
+   */
+  private formatAdapter(adapter: NetworkAdapter): string {
+    const lines = [`${adapter.name}: flags=${IfconfigCommand.flagsValue(adapter)}<${IfconfigCommand.flags(adapter).join(',')}>  mtu ${adapter.mtu}`];
+
+    let inet = `inet ${adapter.address}  netmask ${adapter.netmask}`;
+    if (adapter.type === 'tunnel') {
+      inet += `  destination ${adapter.address}`;
+    } else if (adapter.type !== 'loopback') {
+      inet += `  broadcast ${IpUtils.broadcast(adapter.address, IpUtils.prefixLength(adapter.netmask))}`;
+    }
+    lines.push(inet);
+
+    if (adapter.type === 'loopback') {
+      lines.push('loop  txqueuelen 1000  (Local Loopback)');
+    } else if (adapter.type === 'tunnel') {
+      lines.push(`unspec ${Array(16).fill('00').join('-')}  txqueuelen 500  (UNSPEC)`);
+    } else {
+      lines.push(`ether ${adapter.mac}  txqueuelen 1000  (Ethernet)`);
+    }
+    return lines.map((line, index) => index === 0 ? line : '        ' + line).join('\n') + '\n\n';
+  }
+
+  /**
+   * Get the flags of an interface, like UP, BROADCAST, RUNNING, MULTICAST
+   */
+  private static flags(adapter: NetworkAdapter): string[] {
+    const flags: string[] = adapter.isUp ? ['UP'] : [];
+    if (adapter.type === 'loopback') {
+      flags.push('LOOPBACK');
+    } else if (adapter.type === 'tunnel') {
+      flags.push('POINTOPOINT');
+    } else {
+      flags.push('BROADCAST');
+    }
+    if (adapter.isUp) {
+      flags.push('RUNNING');
+    }
+    if (adapter.type === 'tunnel') {
+      flags.push('NOARP');
+    }
+    if (adapter.type !== 'loopback') {
+      flags.push('MULTICAST');
+    }
+    return flags;
+  }
+
+  /**
+   * Get the value of the flags of an interface, as the kernel numbers them
+   */
+  private static flagsValue(adapter: NetworkAdapter): number {
+    const values: Record<string, number> = { UP: 1, BROADCAST: 2, LOOPBACK: 8, POINTOPOINT: 16, RUNNING: 64, NOARP: 128, MULTICAST: 4096 };
+    return this.flags(adapter).reduce((value, flag) => value + values[flag], 0);
+  }
+}
@@ -0,0 +1,238 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { OS } from '../../core/os';
+import { NetworkAdapter, Route } from '../../core/network';
+import { IpUtils } from '../../core/ip-utils';
+import { CompletionRequest } from '../tab-completion';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * Objects ip manages; any prefix of their name selects them, like ip a or ip ro
+ */
+const OBJECTS = ['address', 'link', 'route'];
+
+/**
+ * ip command - Show and manipulate network interfaces and routing
+ */
+export class IpCommand implements CommandModule {
+  private os: OS;
+
+  constructor(os: OS) {
+    this.os = os;
+  }
+
+  public get name(): string {
+    return 'ip';
+  }
+
+  public get description(): string {
+    return 'Show and manipulate network interfaces and routing';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'brief', alias: ['br', 'brief'], type: 'boolean', description: 'Print one line per interface, for address and link' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('ip [-br] OBJECT [COMMAND]', this.options,
+      `Objects and their commands:
+  address [show [dev] IFACE]      Addresses of the network interfaces
+  link [show [dev] IFACE]         Network interfaces and their MAC address
+  link set [dev] IFACE up|down    Bring an interface of this machine up or down
+  route [show]                    Routing table
+  route get ADDRESS               Route packets to an address take
+Objects can be abbreviated, like ip a or ip r.`, `Examples:
+  ip addr                 Addresses of all interfaces
+  ip -br a                One line per interface
+  ip route get 10.0.0.5   How 10.0.0.5 is reached`);
+  }
+
+  /**
+   * Complete objects, their commands and interface names
+   */
+  public async complete(request: CompletionRequest, _context: CommandContext): Promise<string[] | null> {
+    const operands = request.args.filter(arg => !arg.startsWith('-'));
+    const object = operands.length > 0 ? this.findObject(operands[0]) : undefined;
+    const last = operands[operands.length - 1];
+    let candidates: string[] = [];
+    if (operands.length === 0) {
+      candidates = OBJECTS;
+    } else if (operands.length === 1) {
+      candidates = object === 'route' ? ['show', 'get'] : object === 'link' ? ['show', 'set'] : ['show'];
+    } else if (object !== 'route' && ['show', 'set', 'dev'].includes(last)) {
+      candidates = this.getAdapters().map(adapter => adapter.name);
+    } else if (object === 'link' && operands[1] === 'set') {
+      candidates = ['up', 'down'];
+    }
+    return candidates.filter(candidate => candidate.startsWith(request.current));
+  }
+
+  /**
+   * Execute command with context and streams
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    if (args.args.length === 0 || args.args[0] === 'help') {
+      (args.args.length === 0 ? context.stderr : context.stdout).writeLine(this.usage);
+      return args.args.length === 0 ? 1 : 0;
+    }
+    const object = this.findObject(args.args[0]);
+    const [command = 'show', ...rest] = args.args.slice(1);
+
+    switch (object) {
+      case 'address':
+        if (command !== 'show' && command !== 'list') break;
+        return this.showAdapters(rest, args.brief, true, context);
+      case 'link':
+        if (command === 'set') return this.setLink(rest, context);
+        if (command !== 'show' && command !== 'list') break;
+        return this.showAdapters(rest, args.brief, false, context);
+      case 'route':
+        if (command === 'get') return this.getRoute(rest, context);
+        if (command !== 'show' && command !== 'list') break;
+        this.os.getNetworkInterface().getRoutes(this.os.hostInfo?.ip)
+          .forEach(route => context.stdout.writeLine(this.formatRoute(route)));
+        return 0;
+      default:
+        context.stderr.writeLine(`Object "${args.args[0]}" is unknown, try "ip help".`);
+        return 1;
+    }
+    context.stderr.writeLine(`Command "${command}" is unknown, try "ip ${object} help".`);
+    return 1;
+  }
+
+  /**
+   * Find the object an abbreviation stands for
+   */
+  private findObject(name: string): string | undefined {
+    return OBJECTS.find(object => object.startsWith(name));
+  }
+
+  /**
+   * Get the network interfaces of the system the command runs on
+   */
+  private getAdapters(): NetworkAdapter[] {
+    return this.os.getNetworkInterface().getAdapters(this.os.hostInfo?.ip);
+  }
+
+  /**
+   * Show the interfaces, or the one given as [dev] IFACE, with their addresses or only their link
+   */
+  private showAdapters(operands: string[], brief: boolean, withAddress: boolean, context: CommandContext): number {
+    const name = operands[0] === 'dev' ? operands[1] : operands[0];
+    const adapters = this.getAdapters();
+    const shown = name === undefined ? adapters : adapters.filter(adapter => adapter.name === name);
+    if (shown.length === 0) {
+      context.stderr.writeLine(`Device "${name}" does not exist.`);
+      return 1;
+    }
+
+    for (const adapter of shown) {
+      const prefix = IpUtils.prefixLength(adapter.netmask);
+      if (brief) {
+        const detail = withAddress ? `${adapter.address}/${prefix}` : `${this.linkAddress(adapter)} <${this.flags(adapter).join(',')}>`;
+        context.stdout.writeLine(`${adapter.name.padEnd(16)} ${this.state(adapter).padEnd(14)} ${detail}`);
+        continue;
+      }
+
+      const index = adapters.indexOf(adapter) + 1;
+      const queue = adapter.type === 'tunnel' ? 500 : 1000;
+      const qdisc = adapter.type === 'loopback' ? 'noqueue' : 'fq_codel';
+      context.stdout.writeLine(`${index}: ${adapter.name}: <${this.flags(adapter).join(',')}> mtu ${adapter.mtu} qdisc ${qdisc} state ${this.state(adapter)} group default qlen ${queue}`);
+      context.stdout.writeLine(adapter.type === 'tunnel'
+        ? '    link/none'
+        : `    link/${adapter.type === 'loopback' ? 'loopback' : 'ether'} ${this.linkAddress(adapter)} brd ${adapter.type === 'loopback' ? '00:00:00:00:00:00' : 'ff:ff:ff:ff:ff:ff'}`);
+      if (withAddress) {
+        const broadcast = adapter.type === 'ethernet' || adapter.type === 'wireless' ? ` brd ${IpUtils.broadcast(adapter.address, prefix)}` : '';
+        const scope = adapter.type === 'loopback' ? 'host' : 'global';
+        context.stdout.writeLine(`    inet ${adapter.address}/${prefix}${broadcast} scope ${scope} ${adapter.name}`);
+        context.stdout.writeLine('       valid_lft forever preferred_lft forever');
+      }
+    }
+    return 0;
+  }
+
+  /**
+   * Bring an interface up or down, given as [dev] IFACE up|down
+   */
+  private setLink(operands: string[], context: CommandContext): number {
+    const [name, action] = operands[0] === 'dev' ? operands.slice(1) : operands;
+    if (!name || (action !== 'up' && action !== 'down')) {
+      context.stderr.writeLine('Usage: ip link set [dev] IFACE up|down');
+      return 1;
+    }
+    if (!this.getAdapters().some(adapter => adapter.name === name)) {
+      context.stderr.writeLine(`Cannot find device "${name}"`);
+      return 1;
+    }
+    // The interfaces of remote hosts are not configurable
+    if (this.os.hostInfo) {
+      context.stderr.writeLine('RTNETLINK answers: Operation not permitted');
+      return 2;
+    }
+    this.os.getNetworkInterface().setAdapterUp(name, action === 'up');
+    return 0;
+  }
+
+  /**
+   * Show the route packets to an address take, with the address they leave from
+   */
+  private getRoute(operands: string[], context: CommandContext): number {
+    const address = operands[0];
+    if (!address || !IpUtils.isAddress(address)) {
+      context.stderr.writeLine(`Error: any valid prefix is expected rather than "${address ?? ''}".`);
+      return 1;
+    }
+    const network = this.os.getNetworkInterface();
+    const route = network.route(address, this.os.hostInfo?.ip);
+    if (!route) {
+      context.stderr.writeLine('RTNETLINK answers: Network is unreachable');
+      return 2;
+    }
+    const via = route.gateway ? ` via ${route.gateway}` : '';
+    context.stdout.writeLine(`${address}${via} dev ${route.device} src ${network.sourceAddress(address, this.os.hostInfo?.ip)}`);
+    return 0;
+  }
+
+  /**
+   * Format a route like iproute2: routes without a gateway are those of the interfaces' subnets
+   */
+  private formatRoute(route: Route): string {
+    const destination = route.prefix === 0 ? 'default' : `${route.destination}/${route.prefix}`;
+    let line = destination;
+    if (route.gateway) {
+      line += ` via ${route.gateway} dev ${route.device}`;
+      if (route.prefix === 0) line += ' proto dhcp';
+    } else {
+      const source = this.getAdapters().find(adapter => adapter.name === route.device)?.address;
+      line += ` dev ${route.device} proto kernel scope link src ${source}`;
+    }
+    if (route.metric > 0) line += ` metric ${route.metric}`;
+    return line;
+  }
+
+  /**
+   * Get the flags of an interface in iproute2 order, like BROADCAST,MULTICAST,UP,LOWER_UP
+   */
+  private flags(adapter: NetworkAdapter): string[] {
+    const flags = adapter.type === 'loopback' ? ['LOOPBACK']
+      : adapter.type === 'tunnel' ? ['POINTOPOINT', 'MULTICAST', 'NOARP']
+      : ['BROADCAST', 'MULTICAST'];
+    return adapter.isUp ? [...flags, 'UP', 'LOWER_UP'] : flags;
+  }
+
+  /**
+   * Get the operational state of an interface; loopback and tunnels do not report one
+   */
+  private state(adapter: NetworkAdapter): string {
+    if (!adapter.isUp) return 'DOWN';
+    return adapter.type === 'loopback' || adapter.type === 'tunnel' ? 'UNKNOWN' : 'UP';
+  }
+
+  /**
+   * Get the link-layer address of an interface
+   */
+  private linkAddress(adapter: NetworkAdapter): string {
+    return adapter.mac ?? '00:00:00:00:00:00';
+  }
+}
@@ -0,0 +1,311 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { OS } from '../../core/os';
+import { ConnectionTracker } from '../../core/network';
+import { Firewall, FirewallChain, FirewallProtocol, FirewallRule, FirewallTarget, FIREWALL_CHAINS } from '../../core/firewall';
+import { IpUtils } from '../../core/ip-utils';
+import { CompletionRequest, TabCompletion } from '../tab-completion';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * Version iptables reports in its errors
+ */
+const VERSION = 'iptables v1.8.7 (nf_tables)';
+
+/**
+ * Targets a rule can jump to
+ */
+const TARGETS: FirewallTarget[] = ['ACCEPT', 'DROP', 'REJECT'];
+
+/**
+ * Options that each select what iptables does; exactly one is given
+ */
+const COMMANDS = ['append', 'insert', 'delete', 'list', 'list-rules', 'flush', 'policy'];
+
+/**
+ * Average size of a packet, for the byte counters of the rules
+ */
+const PACKET_SIZE = 60;
+
+/**
+ * iptables command - Administration tool for packet filtering
+ */
+export class IptablesCommand implements CommandModule {
+  private os: OS;
+
+  constructor(os: OS) {
+    this.os = os;
+  }
+
+  public get name(): string {
+    return 'iptables';
+  }
+
+  public get description(): string {
+    return 'Administration tool for packet filtering';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'append', alias: 'A', type: 'string', valueName: 'chain', description: 'Append a rule to the end of a chain' },
+      { name: 'insert', alias: 'I', type: 'string', valueName: 'chain', description: 'Insert a rule in a chain, at the position given after the chain (default: first)' },
+      { name: 'delete', alias: 'D', type: 'string', valueName: 'chain', description: 'Delete a rule of a chain, given by its position or its specification' },
+      { name: 'list', alias: 'L', type: 'boolean', description: 'List the rules of a chain, or of all chains' },
+      { name: 'list-rules', alias: 'S', type: 'boolean', description: 'Print the rules of a chain, or of all chains, as iptables options' },
+      { name: 'flush', alias: 'F', type: 'boolean', description: 'Delete the rules of a chain, or of all chains' },
+      { name: 'policy', alias: 'P', type: 'string', valueName: 'chain', description: 'Set the target of the packets no rule of a chain matches (ACCEPT or DROP)' },
+      { name: 'protocol', alias: 'p', type: 'string', valueName: 'proto', description: 'Match the protocol: tcp, udp, icmp or all' },
+      { name: 'source', alias: 's', type: 'string', valueName: 'address[/mask]', description: 'Match the source address or subnet' },
+      { name: 'destination', alias: 'd', type: 'string', valueName: 'address[/mask]', description: 'Match the destination address or subnet' },
+      { name: 'dport', type: 'number', valueName: 'port', description: 'Match the destination port, with -p tcp or -p udp' },
+      { name: 'jump', alias: 'j', type: 'string', valueName: 'target', description: 'Target of the rule: ACCEPT, DROP or REJECT' },
+      { name: 'numeric', alias: 'n', type: 'boolean', description: 'Print addresses and ports as numbers' },
+      { name: 'verbose', alias: 'v', type: 'boolean', description: 'Print the packet and byte counters of the rules' },
+      { name: 'line-numbers', type: 'boolean', description: 'Print the position of each rule in its chain' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('iptables -A|-D chain rule-specification\n       iptables -I chain [rulenum] rule-specification\n       iptables -D chain rulenum\n       iptables -L|-S|-F [chain]\n       iptables -P chain target', this.options,
+      `Set up the firewall of this system; on remote hosts, only root can.
+Connections to the system go through its INPUT chain, those it opens through
+its OUTPUT chain; FORWARD is for the packets it routes, which it does not.
+The first rule of a chain matching the first packet of a connection decides:
+ACCEPT lets it through, DROP drops it silently (ports look filtered,
+connections time out), REJECT refuses it. The replies of accepted
+connections are accepted.`, `Examples:
+  iptables -L -n -v                               The rules with their counters
+  iptables -A INPUT -p tcp --dport 22 -j DROP     Refuse ssh connections
+  iptables -I OUTPUT -d 192.168.1.30 -j REJECT    Block targetbank.com
+  iptables -D INPUT 1                             Delete the first INPUT rule`);
+  }
+
+  /**
+   * Complete options, chains, targets and protocols
+   */
+  public async complete(request: CompletionRequest, _context: CommandContext): Promise<string[] | null> {
+    const previous = request.args[request.args.length - 1];
+    let candidates: string[];
+    if (['-A', '-I', '-D', '-L', '-S', '-F', '-P'].includes(previous)) {
+      candidates = FIREWALL_CHAINS;
+    } else if (previous === '-j' || request.args[request.args.length - 2] === '-P') {
+      candidates = TARGETS;
+    } else if (previous === '-p') {
+      candidates = ['tcp', 'udp', 'icmp', 'all'];
+    } else if (previous === '-s' || previous === '-d') {
+      return TabCompletion.completeHostnames(this.os, request.current);
+    } else if (request.current.startsWith('-')) {
+      return TabCompletion.completeDeclaredOptions(this.options, request.current);
+    } else {
+      candidates = [];
+    }
+    return candidates.filter(candidate => candidate.startsWith(request.current));
+  }
+
+  /**
+   * Execute command with context and streams
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    const commands = COMMANDS.filter(command => args[command] !== undefined && args[command] !== false);
+    if (commands.length !== 1) {
+      context.stderr.writeLine(`${VERSION}: ${commands.length === 0 ? 'no command specified' : 'Cannot use more than one command'}`);
+      context.stderr.writeLine(`Try \`iptables -h' or 'iptables --help' for more information.`);
+      return 2;
+    }
+    // The player owns this machine, like the Firewall app; remote hosts need root
+    if (this.os.hostInfo && this.os.currentUserName !== 'root') {
+      context.stderr.writeLine(`${VERSION}: Could not fetch rule set generation id: Permission denied (you must be root)`);
+      return 4;
+    }
+
+    // The firewall of the system the command runs on
+    const firewall = this.os.getNetworkInterface().getFirewall(this.os.hostInfo?.ip);
+    const command = commands[0];
+    const [operand] = args.args;
+
+    try {
+      switch (command) {
+        case 'list':
+          await this.list(firewall, this.chains(operand), args, context);
+          return 0;
+        case 'list-rules':
+          this.listRules(firewall, this.chains(operand), context);
+          return 0;
+        case 'flush':
+          if (operand === undefined) {
+            firewall.flush();
+          } else {
+            firewall.flush(this.chain(operand));
+          }
+          return 0;
+        case 'policy': {
+          const chain = this.chain(args.policy);
+          if (operand !== 'ACCEPT' && operand !== 'DROP') {
+            context.stderr.writeLine(`${VERSION}: Bad policy name. Run \`dmesg' for more information.`);
+            return 1;
+          }
+          firewall.setPolicy(chain, operand);
+          return 0;
+        }
+        case 'append':
+          firewall.appendRule(await this.parseRule(this.chain(args.append), args));
+          return 0;
+        case 'insert': {
+          const position = operand === undefined ? 1 : Number(operand);
+          if (!Number.isInteger(position) || !firewall.insertRule(await this.parseRule(this.chain(args.insert), args), position)) {
+            context.stderr.writeLine('iptables: Index of insertion too big.');
+            return 1;
+          }
+          return 0;
+        }
+        case 'delete': {
+          const chain = this.chain(args.delete);
+          const position = operand !== undefined ? Number(operand) : firewall.findRule(await this.parseRule(chain, args));
+          if (operand === undefined && position === 0) {
+            context.stderr.writeLine('iptables: Bad rule (does a matching rule exist in that chain?).');
+            return 1;
+          }
+          if (!Number.isInteger(position) || !firewall.deleteRule(chain, position)) {
+            context.stderr.writeLine('iptables: Index of deletion too big.');
+            return 1;
+          }
+          return 0;
+        }
+      }
+    } catch (error) {
+      context.stderr.writeLine(error instanceof Error ? error.message : String(error));
+      return error instanceof Error && error.message.startsWith('iptables:') ? 1 : 2;
+    }
+    return 0;
+  }
+
+  /**
+   * Check a chain name
+   */
+  private chain(name: string): FirewallChain {
+    if (!FIREWALL_CHAINS.includes(name as FirewallChain)) {
+      throw new Error('iptables: No chain/target/match by that name.');
+    }
+    return name as FirewallChain;
+  }
+
+  /**
+   * Get the chains to show: the one given, or all of them
+   */
+  private chains(name: string | undefined): FirewallChain[] {
+    return name === undefined ? FIREWALL_CHAINS : [this.chain(name)];
+  }
+
+  /**
+   * Build a rule from its specification: -p, -s, -d, --dport and -j.
+   * Host names in -s and -d are resolved, like iptables does when the rule is added.
+   */
+  private async parseRule(chain: FirewallChain, args: CommandArgs): Promise<FirewallRule> {
+    const target = args.jump?.toUpperCase();
+    if (!TARGETS.includes(target)) {
+      throw new Error(target === undefined
+        ? `${VERSION}: a target is required, given with -j`
+        : `${VERSION}: Couldn't load target \`${args.jump}':No such file or directory`);
+    }
+
+    const protocol = args.protocol?.toLowerCase();
+    if (protocol !== undefined && !['tcp', 'udp', 'icmp', 'all'].includes(protocol)) {
+      throw new Error(`${VERSION}: unknown protocol "${args.protocol}" specified`);
+    }
+    if (args.dport !== undefined && protocol !== 'tcp' && protocol !== 'udp') {
+      throw new Error(`${VERSION}: unknown option "--dport"`);
+    }
+
+    const rule: FirewallRule = { chain, target };
+    if (protocol !== undefined && protocol !== 'all') rule.protocol = protocol as FirewallProtocol;
+    if (args.source !== undefined) rule.source = await this.parseAddress(args.source);
+    if (args.destination !== undefined) rule.destination = await this.parseAddress(args.destination);
+    if (args.dport !== undefined) rule.port = args.dport;
+    return rule;
+  }
+
+  /**
+   * Parse an address, subnet or host name of a rule; /32 is a single address
+   */
+  private async parseAddress(value: string): Promise<string> {
+    const [host, mask] = value.split('/');
+    const address = await this.os.getResolver().resolve(host);
+    const prefix = mask === undefined ? 32 : Number(mask);
+    if (!address || !Number.isInteger(prefix) || prefix < 0 || prefix > 32) {
+      throw new Error(`${VERSION}: host/network \`${value}' not found`);
+    }
+    return prefix === 32 ? address : `${IpUtils.network(address, prefix)}/${prefix}`;
+  }
+
+  /**
+   * List the rules of chains in a table, like iptables -L
+   */
+  private async list(firewall: Firewall, chains: FirewallChain[], args: CommandArgs, context: CommandContext): Promise<void> {
+    const blocks: string[] = [];
+    for (const chain of chains) {
+      const rules = firewall.getRules(chain);
+      const counters = args.verbose ? ' 0 packets, 0 bytes' : '';
+      const lines = [`Chain ${chain} (policy ${firewall.getPolicy(chain)}${counters})`];
+      const number = args['line-numbers'] ? 'num  ' : '';
+      lines.push(args.verbose
+        ? `${number} pkts bytes target     prot opt in     out     source               destination         `
+        : `${number}target     prot opt source               destination         `);
+
+      for (const [index, rule] of rules.entries()) {
+        const source = (await this.formatAddress(rule.source, args.numeric)).padEnd(20);
+        const destination = (await this.formatAddress(rule.destination, args.numeric)).padEnd(20);
+        let line = args['line-numbers'] ? String(index + 1).padEnd(5) : '';
+        if (args.verbose) {
+          const packets = rule.packets ?? 0;
+          line += `${String(packets).padStart(5)} ${String(packets * PACKET_SIZE).padStart(5)} `;
+        }
+        line += `${rule.target.padEnd(10)} ${(rule.protocol ?? 'all').padEnd(4)} --  `;
+        if (args.verbose) {
+          line += `${'*'.padEnd(6)} ${'*'.padEnd(6)}  `;
+        }
+        line += `${source} ${destination} ${this.formatMatch(rule, args.numeric)}`;
+        lines.push(line.trimEnd());
+      }
+      blocks.push(lines.join('\n'));
+    }
+    context.stdout.writeLine(blocks.join('\n\n'));
+  }
+
+  /**
+   * Print the policies and rules of chains as the iptables options that create them, like iptables -S
+   */
+  private listRules(firewall: Firewall, chains: FirewallChain[], context: CommandContext): void {
+    chains.forEach(chain => context.stdout.writeLine(`-P ${chain} ${firewall.getPolicy(chain)}`));
+    for (const chain of chains) {
+      for (const rule of firewall.getRules(chain)) {
+        let line = `-A ${chain}`;
+        if (rule.source) line += ` -s ${rule.source.includes('/') ? rule.source : rule.source + '/32'}`;
+        if (rule.destination) line += ` -d ${rule.destination.includes('/') ? rule.destination : rule.destination + '/32'}`;
+        if (rule.protocol) line += ` -p ${rule.protocol}`;
+        if (rule.port !== undefined) line += ` -m ${rule.protocol} --dport ${rule.port}`;
+        context.stdout.writeLine(`${line} -j ${rule.target}`);
+      }
+    }
+  }
+
+  /**
+   * Format the address of a rule for -L: anywhere when it matches all, otherwise its name unless numeric
+   */
+  private async formatAddress(address: string | undefined, numeric: boolean): Promise<string> {
+    if (address === undefined) {
+      return numeric ? '0.0.0.0/0' : 'anywhere';
+    }
+    if (numeric || address.includes('/')) {
+      return address;
+    }
+    return (await this.os.getResolver().reverseLookup(address)) ?? address;
+  }
+
+  /**
+   * Format the port a rule matches, like tcp dpt:ssh
+   */
+  private formatMatch(rule: FirewallRule, numeric: boolean): string {
+    if (rule.port === undefined) return '';
+    const port = numeric ? undefined : ConnectionTracker.portName(rule.port);
+    return `${rule.protocol} dpt:${port ?? rule.port}`;
+  }
+}
@@ -0,0 +1,79 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * jobs command - List the jobs of the terminal session
+ */
+export class JobsCommand implements CommandModule {
+  public get name(): string {
+    return 'jobs';
+  }
+  
+  public get description(): string {
+    return 'List background and stopped jobs';
+  }
+  
+  public get options(): CommandOption[] {
+    return [
+      { name: 'long', alias: 'l', type: 'boolean', description: 'Also show the process ID' },
+      { name: 'pid', alias: 'p', type: 'boolean', description: 'Only show the process IDs' }
+    ];
+  }
+  
+  public get usage(): string {
+    return CommandOptions.formatUsage('jobs [-l] [-p] [jobspec ...]', this.options, `List the jobs started from this terminal. Jobs are command lines started with
+"command &" or stopped with Ctrl+Z. In the list, + marks the current job (used
+by fg and bg without arguments) and - the previous one.`, `Job specs:
+  %n        Job number n
+  %+, %%    The current job
+  %-        The previous job
+  %prefix   The job whose command starts with prefix
+
+Examples:
+  ping -c 100 targetbank.com &
+  jobs -l`);
+  }
+  
+  /**
+   * Execute the jobs command
+   * @param args Command arguments
+   * @param context Command execution context
+   * @returns Exit code (0 for success, 1 if a job spec matches no job)
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    const jobs = context.jobs;
+    if (!jobs) {
+      context.stderr.writeLine('jobs: no job control in this shell');
+      return 1;
+    }
+    
+    let exitCode = 0;
+    let selected = jobs.list();
+    if (args.args.length > 0) {
+      selected = [];
+      for (const spec of args.args) {
+        const job = jobs.get(spec);
+        if (job) {
+          selected.push(job);
+        } else {
+          context.stderr.writeLine(`jobs: ${spec}: no such job`);
+          exitCode = 1;
+        }
+      }
+    }
+    
+    for (const job of selected) {
+      if (args.pid) {
+        context.stdout.writeLine(String(job.pid));
+      } else if (args.long) {
+        const line = jobs.format(job);
+        const prefix = line.substring(0, line.indexOf(']') + 2);
+        context.stdout.writeLine(`${prefix} ${job.pid} ${line.substring(prefix.length).trimStart()}`);
+      } else {
+        context.stdout.writeLine(jobs.format(job));
+      }
+    }
+    
+    return exitCode;
+  }
+}
@@ -0,0 +1,459 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { OS } from '../../core/os';
+import { PathUtils } from '../../core/path-utils';
+import { CommandInput } from '../command-input';
+import { HashAlgorithm, HashFunctions } from '../hash-functions';
+import { CandidateSpace, CrackCandidates } from '../crack-candidates';
+import { JobControl, JobInterruptedError } from '../job-control';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * Hash to crack, from a line like "admin:5f4dcc3b5aa765d61d8327deb882cf99"
+ */
+interface CrackTarget {
+  user: string;
+  hash: string;
+}
+
+/**
+ * State of a cracking session, saved in ~/.john/NAME.rec so that it can be resumed
+ */
+interface CrackSession {
+  files: string[];
+  format: HashAlgorithm;
+  mode: 'wordlist' | 'mask' | 'incremental';
+  wordlist?: string;
+  mask?: string;
+  incremental?: string;
+  minLength: number;
+  maxLength: number;
+  /**
+   * Index of the next candidate to try
+   */
+  position: number;
+  /**
+   * Time spent cracking, in milliseconds
+   */
+  elapsed: number;
+}
+
+/**
+ * Hash formats by name, like john's --format
+ */
+const FORMATS: Record<string, HashAlgorithm> = {
+  'raw-md5': 'md5',
+  'raw-sha1': 'sha1',
+  'raw-sha256': 'sha256',
+  'raw-sha512': 'sha512'
+};
+
+const FORMAT_LABELS: Record<HashAlgorithm, string> = {
+  md5: 'Raw-MD5',
+  sha1: 'Raw-SHA1',
+  sha256: 'Raw-SHA256',
+  sha512: 'Raw-SHA512'
+};
+
+/**
+ * Guesses per second of one core at 1 GHz for MD5; the other formats are slower by their cost
+ */
+const GUESSES_PER_CORE_GHZ = 2500;
+const FORMAT_COSTS: Record<HashAlgorithm, number> = { md5: 1, sha1: 1.25, sha256: 2.5, sha512: 5 };
+
+/**
+ * Candidates are tried in slices of this many milliseconds, paced to the simulated CPU
+ */
+const TICK_MS = 100;
+
+/**
+ * Real time a slice may spend hashing, in milliseconds, so that the page stays responsive.
+ * A slice the browser cannot hash in time is cut short, and its simulated time is shortened
+ * to match: the clock, speed and ETA of the session follow the simulated CPU, not the browser.
+ */
+const HASH_BUDGET_MS = 40;
+
+/**
+ * The session file is saved this often while cracking, in milliseconds
+ */
+const SAVE_INTERVAL_MS = 5000;
+
+/**
+ * john command - Crack password hashes with a wordlist, a mask or by brute force
+ */
+export class JohnCommand implements CommandModule {
+  private os: OS;
+
+  constructor(os: OS) {
+    this.os = os;
+  }
+
+  public get name(): string {
+    return 'john';
+  }
+
+  public get description(): string {
+    return 'Crack password hashes with a wordlist, a mask or by brute force';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'wordlist', alias: 'w', type: 'string', valueName: 'FILE', description: 'Wordlist mode: try the words of FILE, one per line' },
+      { name: 'mask', type: 'string', valueName: 'MASK', description: 'Mask mode: ?l lower, ?u upper, ?d digit, ?s special, ?a any, other characters as is' },
+      { name: 'incremental', type: 'string', optionalValue: true, valueName: 'MODE', description: `Incremental (brute force) mode: ${CrackCandidates.incrementalModes.join(', ')} (default: ascii)` },
+      { name: 'min-length', type: 'number', default: 1, valueName: 'N', description: 'Shortest candidates of incremental mode' },
+      { name: 'max-length', type: 'number', default: 6, valueName: 'N', description: 'Longest candidates of incremental mode' },
+      { name: 'format', type: 'string', valueName: 'NAME', description: `Hash format: ${Object.keys(FORMATS).join(', ')} (detected from the hash length)` },
+      { name: 'session', type: 'string', default: 'john', valueName: 'NAME', description: 'Name of the session, saved in ~/.john/NAME.rec' },
+      { name: 'restore', type: 'string', optionalValue: true, valueName: 'NAME', description: 'Continue an interrupted session (default: john)' },
+      { name: 'show', type: 'boolean', description: 'Show the cracked passwords of the hash files' },
+      { name: 'progress-every', type: 'number', default: 5, valueName: 'N', description: 'Print a status line every N seconds' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('john [OPTION]... [HASH-FILE]...', this.options,
+      `Crack the password hashes of the HASH-FILEs, with lines like "user:hash" or "hash".
+The speed depends on the CPU of the computer (cpu.cores and cpu.clock in /etc/hardware.conf).
+Cracked passwords are saved in ~/.john/john.pot. Press Ctrl+C to stop, and continue with --restore.`, `Examples:
+  john --wordlist=rockyou.txt hashes.txt     Try the words of a wordlist
+  john --mask='?u?l?l?l?d?d' hashes.txt      Try Abcd12 to Zzzz99
+  john --incremental=digits --max-length=8 pins.txt
+  john --restore                             Continue the interrupted session
+  john --show hashes.txt                     Show the cracked passwords`);
+  }
+
+  /**
+   * Execute command with context and streams
+   * Returns exit code (0 for success, 1 for errors)
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    const fileSystem = this.os.getFileSystem();
+    const directory = PathUtils.join(context.env.HOME || `/home/${this.os.currentUserName}`, '.john');
+
+    try {
+      let session: CrackSession | null;
+      let sessionName: string;
+      if (args.restore !== undefined) {
+        sessionName = args.restore || 'john';
+        const recordPath = PathUtils.join(directory, `${sessionName}.rec`);
+        if (!await fileSystem.exists(recordPath)) {
+          context.stderr.writeLine(`john: ${recordPath}: No such session to restore`);
+          return 1;
+        }
+        session = JSON.parse(await fileSystem.readFile(recordPath)) as CrackSession;
+      } else {
+        sessionName = args.session;
+        session = this.createSession(args, context);
+        if (session === null) {
+          return 1;
+        }
+      }
+
+      // Load the hashes, without the ones cracked before
+      const potPath = PathUtils.join(directory, 'john.pot');
+      const pot = await this.readPot(potPath);
+      const loaded = await this.loadTargets(session, args.format === undefined && args.restore === undefined, context);
+      if (loaded === null) {
+        return 1;
+      }
+      if (args.show) {
+        return this.show(loaded, pot, context);
+      }
+      if (loaded.length === 0) {
+        context.stdout.writeLine('No password hashes loaded (see FAQ)');
+        return 1;
+      }
+      const targets = loaded.filter(target => !pot.has(target.hash));
+      if (targets.length === 0) {
+        context.stdout.writeLine('No password hashes left to crack (see FAQ)');
+        return 0;
+      }
+
+      const candidates = await this.candidates(session, context);
+      if (candidates === null) {
+        return 1;
+      }
+
+      if (!await fileSystem.exists(directory)) {
+        await fileSystem.createDirectory(directory);
+      }
+      return await this.crack(session, sessionName, targets, candidates, args['progress-every'], context, directory);
+    } catch (error) {
+      // Ctrl+C and broken pipes end the command
+      if (error instanceof JobInterruptedError) {
+        throw error;
+      }
+      context.stderr.writeLine(`john: ${error instanceof Error ? error.message : String(error)}`);
+      return 1;
+    }
+  }
+
+  /**
+   * Create a session from the command line
+   * @returns The session, or null after reporting an error
+   */
+  private createSession(args: CommandArgs, context: CommandContext): CrackSession | null {
+    const fileSystem = this.os.getFileSystem();
+    if (args.args.length === 0) {
+      context.stderr.writeLine('john: no hash files given');
+      context.stderr.writeLine("Try 'john --help' for more information.");
+      return null;
+    }
+
+    const modes = ['wordlist', 'mask', 'incremental'].filter(mode => args[mode] !== undefined);
+    if (modes.length > 1) {
+      context.stderr.writeLine('john: only one of --wordlist, --mask and --incremental can be used');
+      return null;
+    }
+
+    let format: HashAlgorithm = 'md5';
+    if (args.format !== undefined) {
+      const named = FORMATS[String(args.format).toLowerCase()];
+      if (!named) {
+        context.stderr.writeLine(`john: Unknown ciphertext format name requested: ${args.format}`);
+        return null;
+      }
+      format = named;
+    }
+
+    const minLength: number = args['min-length'];
+    const maxLength: number = args['max-length'];
+    if (minLength < 1 || maxLength < minLength) {
+      context.stderr.writeLine(`john: invalid length range: ${minLength} to ${maxLength}`);
+      return null;
+    }
+
+    const mode = (modes[0] ?? 'incremental') as CrackSession['mode'];
+    return {
+      files: args.args.map((file: string) => fileSystem.parsePath(file, context.cwd)),
+      format,
+      mode,
+      wordlist: mode === 'wordlist' ? fileSystem.parsePath(args.wordlist, context.cwd) : undefined,
+      mask: args.mask,
+      incremental: mode === 'incremental' ? args.incremental || 'ascii' : undefined,
+      minLength,
+      maxLength,
+      position: 0,
+      elapsed: 0
+    };
+  }
+
+  /**
+   * Read the hashes of the session's files
+   * @param detect Set the format of the session from the first hash
+   * @returns The hashes of the session's format, or null after reporting an unreadable file
+   */
+  private async loadTargets(session: CrackSession, detect: boolean, context: CommandContext): Promise<CrackTarget[] | null> {
+    const targets: CrackTarget[] = [];
+    for (const file of session.files) {
+      const content = await CommandInput.read(file, context, 'john');
+      if (content === null) {
+        return null;
+      }
+
+      for (const line of CommandInput.splitLines(content)) {
+        if (line.trim() === '' || line.startsWith('#')) continue;
+        const fields = line.trim().split(':');
+        const [user, hash] = fields.length > 1 ? [fields[0], fields[1]] : ['?', fields[0]];
+        if (!/^[0-9a-fA-F]+$/.test(hash)) continue;
+
+        const format = HashFunctions.algorithms.find(algorithm => HashFunctions.hexLength(algorithm) === hash.length);
+        if (detect && targets.length === 0 && format) {
+          session.format = format;
+        }
+        if (format === session.format) {
+          targets.push({ user, hash: hash.toLowerCase() });
+        }
+      }
+    }
+    return targets;
+  }
+
+  /**
+   * Get the candidates of the session's mode
+   * @returns The candidates, or null after reporting an error
+   */
+  private async candidates(session: CrackSession, context: CommandContext): Promise<CandidateSpace | null> {
+    try {
+      if (session.mode === 'wordlist') {
+        const content = await CommandInput.read(session.wordlist!, context, 'john');
+        return content === null ? null : CrackCandidates.wordlist(CommandInput.splitLines(content));
+      }
+      if (session.mode === 'mask') {
+        return CrackCandidates.mask(session.mask!);
+      }
+      return CrackCandidates.incremental(session.incremental!, session.minLength, session.maxLength);
+    } catch (error) {
+      context.stderr.writeLine(`john: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+
+  /**
+   * Try the candidates from the session's position, at the speed of the CPU
+   */
+  private async crack(session: CrackSession, sessionName: string, targets: CrackTarget[], candidates: CandidateSpace,
+    progressEvery: number, context: CommandContext, directory: string): Promise<number> {
+    const fileSystem = this.os.getFileSystem();
+    const processManager = this.os.getProcessManager();
+    const recordPath = PathUtils.join(directory, `${sessionName}.rec`);
+    const potPath = PathUtils.join(directory, 'john.pot');
+
+    const cpu = await this.os.getComputerSettings().getCpuInfo();
+    const rate = Math.max(1, Math.round(cpu.cores * cpu.clock * GUESSES_PER_CORE_GHZ / FORMAT_COSTS[session.format]));
+    const perTick = Math.max(1, Math.round(rate * TICK_MS / 1000));
+
+    const remaining = new Map<string, CrackTarget[]>();
+    for (const target of targets) {
+      remaining.set(target.hash, [...(remaining.get(target.hash) ?? []), target]);
+    }
+
+    const count = targets.length;
+    context.stdout.writeLine(`Loaded ${count} password hash${count === 1 ? '' : 'es'} (${FORMAT_LABELS[session.format]})`);
+    context.stdout.writeLine(`Using ${cpu.cores} cores of ${cpu.model} @ ${cpu.clock} GHz: ${rate} p/s`);
+    const modeName = session.mode === 'wordlist' ? session.wordlist : session.mode === 'mask' ? session.mask : session.incremental;
+    context.stdout.writeLine(`${session.position > 0 ? 'Resuming' : 'Proceeding'} with ${session.mode}:${modeName}`);
+    context.stdout.writeLine('Press Ctrl+C to abort (resume with --restore), Ctrl+Z to pause');
+
+    // The cracking process keeps the CPU busy, as shown by ps and the system monitor
+    const pid = processManager.createProcess('john', this.os.currentUserName, 1, 5 + targets.length / 100,
+      context.job?.command ?? 'john', undefined, context.job?.pid, () => context.job?.interrupt());
+
+    let cracked = 0;
+    let lastProgress = session.elapsed;
+    let lastSave = session.elapsed;
+    const startPosition = session.position;
+    const startElapsed = session.elapsed;
+    let completed = false;
+
+    try {
+      while (session.position < candidates.total && remaining.size > 0) {
+        const tickStart = Date.now();
+        const tickPosition = session.position;
+        const found: string[] = [];
+        const end = Math.min(candidates.total, session.position + perTick);
+        for (; session.position < end; session.position++) {
+          if ((session.position - tickPosition) % 64 === 63 && Date.now() - tickStart >= HASH_BUDGET_MS) break;
+          const candidate = candidates.at(session.position);
+          const hash = HashFunctions.hexDigest(session.format, candidate);
+          const matches = remaining.get(hash);
+          if (!matches) continue;
+
+          remaining.delete(hash);
+          found.push(`${hash}:${candidate}`);
+          for (const target of matches) {
+            context.stdout.writeLine(`${candidate.padEnd(16)} (${target.user})`);
+            cracked++;
+          }
+        }
+        if (found.length > 0) {
+          await this.appendPot(potPath, found);
+        }
+
+        const process = processManager.getProcess(pid);
+        if (process) process.cpuUsage = 1;
+        // The slice takes the time the simulated CPU needs for it; time paused with Ctrl+Z does not count
+        const simulated = (session.position - tickPosition) / rate * 1000;
+        await JobControl.sleep(Math.max(0, simulated - (Date.now() - tickStart)), context);
+        session.elapsed += simulated;
+
+        if (session.elapsed - lastProgress >= progressEvery * 1000 && progressEvery > 0) {
+          lastProgress = session.elapsed;
+          context.stdout.writeLine(this.status(session, candidates, cracked, startPosition, startElapsed, false));
+        }
+        if (session.elapsed - lastSave >= SAVE_INTERVAL_MS) {
+          lastSave = session.elapsed;
+          await fileSystem.writeFile(recordPath, JSON.stringify(session));
+        }
+      }
+      completed = true;
+    } finally {
+      processManager.killProcess(pid);
+      if (completed) {
+        if (await fileSystem.exists(recordPath)) {
+          await fileSystem.deleteFile(recordPath);
+        }
+      } else {
+        // Interrupted: keep the position for --restore
+        await fileSystem.writeFile(recordPath, JSON.stringify(session));
+        context.stderr.writeLine('Session aborted');
+      }
+    }
+
+    context.stdout.writeLine(this.status(session, candidates, cracked, startPosition, startElapsed, true));
+    if (cracked > 0) {
+      context.stdout.writeLine('Use the "--show" option to display all of the cracked passwords reliably');
+    }
+    context.stdout.writeLine('Session completed');
+    return 0;
+  }
+
+  /**
+   * Format a status line like john's: "1g 0:00:00:05 42.00% (ETA: 2026-10-19 12:34) 0.2000g/s 19000p/s abc12"
+   */
+  private status(session: CrackSession, candidates: CandidateSpace, cracked: number, startPosition: number, startElapsed: number, done: boolean): string {
+    const seconds = Math.floor(session.elapsed / 1000);
+    const elapsed = `${Math.floor(seconds / 86400)}:${this.pad(Math.floor(seconds / 3600) % 24)}:${this.pad(Math.floor(seconds / 60) % 60)}:${this.pad(seconds % 60)}`;
+    // Speeds are measured over this run, so that a restored session does not count the earlier ones
+    const runSeconds = Math.max(0.001, (session.elapsed - startElapsed) / 1000);
+    const speed = Math.round((session.position - startPosition) / runSeconds);
+    const crackSpeed = (cracked / runSeconds).toFixed(4);
+    const current = session.position > 0 ? candidates.at(session.position - 1) : '';
+
+    if (done) {
+      return `${cracked}g ${elapsed} DONE (${this.formatDate(new Date())}) ${crackSpeed}g/s ${speed}p/s ${current}`;
+    }
+    const percent = (session.position / candidates.total * 100).toFixed(2);
+    const eta = speed > 0 ? this.formatDate(new Date(Date.now() + (candidates.total - session.position) / speed * 1000)) : 'unknown';
+    return `${cracked}g ${elapsed} ${percent}% (ETA: ${eta}) ${crackSpeed}g/s ${speed}p/s ${current}`;
+  }
+
+  /**
+   * Show the cracked passwords of the hashes, for --show
+   */
+  private show(targets: CrackTarget[], pot: Map<string, string>, context: CommandContext): number {
+    let cracked = 0;
+    for (const target of targets) {
+      const password = pot.get(target.hash);
+      if (password !== undefined) {
+        context.stdout.writeLine(`${target.user}:${password}`);
+        cracked++;
+      }
+    }
+    context.stdout.writeLine('');
+    context.stdout.writeLine(`${cracked} password hash${cracked === 1 ? '' : 'es'} cracked, ${targets.length - cracked} left`);
+    return 0;
+  }
+
+  /**
+   * Read the cracked passwords, by hash, from lines like "hash:password"
+   */
+  private async readPot(path: string): Promise<Map<string, string>> {
+    const pot = new Map<string, string>();
+    const fileSystem = this.os.getFileSystem();
+    if (!await fileSystem.exists(path)) {
+      return pot;
+    }
+    for (const line of CommandInput.splitLines(await fileSystem.readFile(path))) {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        pot.set(line.substring(0, separator).toLowerCase(), line.substring(separator + 1));
+      }
+    }
+    return pot;
+  }
+
+  private async appendPot(path: string, lines: string[]): Promise<void> {
+    const fileSystem = this.os.getFileSystem();
+    const content = await fileSystem.exists(path) ? await fileSystem.readFile(path) : '';
+    await fileSystem.writeFile(path, content + lines.map(line => line + '\n').join(''));
+  }
+
+  private formatDate(date: Date): string {
+    return `${date.getFullYear()}-${this.pad(date.getMonth() + 1)}-${this.pad(date.getDate())} ${this.pad(date.getHours())}:${this.pad(date.getMinutes())}`;
+  }
+
+  private pad(value: number): string {
+    return String(value).padStart(2, '0');
+  }
+}
@@ -1,5 +1,6 @@
 import { CommandModule, CommandArgs, CommandContext, ExecuteMigrator } from '../command-processor';
 import { OS } from '../../core/os';
+import { CommandOption, CommandOptions } from '../command-options';
 
 /**
  * kill command - Terminate processes
@@ -18,13 +19,17 @@ export class KillCommand implements CommandModule {
   public get description(): string {
     return 'Terminate processes by PID';
   }
-    public get usage(): string {
-    return 'kill [OPTION]... PID...\n' +
-           'Terminate processes by process ID (PID).\n\n' +
-           'Options:\n' +
-           '  -s SIGNAL    specify the signal to send (default: TERM)\n\n' +
-           'PIDs must be positive integer process IDs.\n' +
-           'If no processes are found matching the specified PIDs, an error message is displayed.';
+  public get options(): CommandOption[] {
+    return [
+      { name: 'signal', alias: 's', type: 'string', valueName: 'signal', default: 'TERM', description: 'Specify the signal to send' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('kill [options] pid...', this.options,
+      'Terminate processes by process ID (PID).',
+      'PIDs must be positive integer process IDs. A signal can also be given as a number, like -9.\n' +
+      'If no processes are found matching the specified PIDs, an error message is displayed.');
   }
   public execute(args: CommandArgs, context: CommandContext): Promise<number>{
     return ExecuteMigrator.execute(this, args, context);
@@ -35,10 +40,16 @@ export class KillCommand implements CommandModule {
       return 'kill: usage: kill [-s signal] pid...';
     }
     
+    // A leading -9 is the signal in short form, not a PID
+    const pids = /^-\d+$/.test(args.args[0]) ? args.args.slice(1) : args.args;
+    if (pids.length === 0) {
+      return 'kill: usage: kill [-s signal] pid...';
+    }
+    
     // Process each PID
     const results: string[] = [];
     
-    for (const pidStr of args.args) {
+    for (const pidStr of pids) {
       try {
         const pid = parseInt(pidStr, 10);
         
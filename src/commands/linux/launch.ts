@@ -31,7 +31,7 @@ export class LaunchCommand implements CommandModule {
    */
   public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
     // Check if we should list available applications
-    if (args.args.length === 0 || (args.options && args.options.list)) {
+    if (args.args.length === 0 || args.list) {
       this.listAvailableApps(context);
       return 0; // Success exit code
     }
@@ -2,6 +2,7 @@ import { CommandModule, CommandArgs } from '../command-processor';
 import { EnhancedCommandModule, CommandContext } from '../enhanced-command-processor';
 import { OS } from '../../core/os';
 import { FileEntryUtils } from '../../core/file-entry-utils';
+import { CommandOption, CommandOptions } from '../command-options';
 
 /**
  * ls command - List directory contents
@@ -20,14 +21,19 @@ export class LsCommand implements CommandModule, EnhancedCommandModule {
   public get description(): string {
     return 'List directory contents';
   }
-    public get usage(): string {
-    return 'ls [OPTION]... [FILE]...\n' +
-           'List information about the FILEs (the current directory by default).\n\n' +
-           'Options:\n' +
-           '  -a, --all       do not ignore entries starting with .\n' +
-           '  -l              use a long listing format\n' +
-           '  -h              with -l, print sizes in human readable format (e.g., 1K 234M 2G)\n\n' +
-           'If no path is specified, the contents of the current working directory are displayed.';
+  
+  public get options(): CommandOption[] {
+    return [
+      { name: 'all', alias: 'a', type: 'boolean', description: 'Do not ignore entries starting with .' },
+      { name: 'long', alias: 'l', type: 'boolean', description: 'Use a long listing format' },
+      { name: 'human-readable', alias: 'h', type: 'boolean', description: 'With -l, print sizes in human readable format (e.g., 1K 234M 2G)' }
+    ];
+  }
+  
+  public get usage(): string {
+    return CommandOptions.formatUsage('ls [OPTION]... [FILE]...', this.options,
+      'List information about the FILEs (the current directory by default).',
+      'If no path is specified, the contents of the current working directory are displayed.');
   }
    
   /**
@@ -36,12 +42,12 @@ export class LsCommand implements CommandModule, EnhancedCommandModule {
   public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
     try {
       // Parse options
-      const showAll = args.a || args.all || false; // -a or --all to show hidden files
-      const longFormat = args.l || false; // -l for long listing format
-      const humanReadable = args.h || false; // -h for human readable sizes
+      const showAll = args.all; // -a or --all to show hidden files
+      const longFormat = args.long; // -l for long listing format
+      const humanReadable = args['human-readable']; // -h for human readable sizes
       
       // Get target path (default to current working directory)
-      const path = args.args[0] || context.cwd;
+      const path = args.args[0] ? context.os.getFileSystem().parsePath(args.args[0], context.cwd) : context.cwd;
       
       // Get directory contents
       const entries = await context.os.getFileSystem().listDirectory(path);
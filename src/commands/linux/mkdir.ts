@@ -1,5 +1,6 @@
 import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
 import { OS } from '../../core/os';
+import { CommandOption, CommandOptions } from '../command-options';
 
 /**
  * mkdir command - Create directories
@@ -18,16 +19,20 @@ export class MkdirCommand implements CommandModule {
     return 'Create directories';
   }
   
+  public get options(): CommandOption[] {
+    return [
+      { name: 'parents', alias: 'p', type: 'boolean', description: 'Create parent directories as needed, no error if existing' }
+    ];
+  }
+  
   public get usage(): string {
-    return 'mkdir [OPTION]... DIRECTORY...\n' +
-           'Create the DIRECTORY(ies), if they do not already exist.\n\n' +
-           'Options:\n' +
-           '  -p, --parents     create parent directories as needed, no error if existing\n\n' +
+    return CommandOptions.formatUsage('mkdir [OPTION]... DIRECTORY...', this.options,
+           'Create the DIRECTORY(ies), if they do not already exist.',
            'Examples:\n' +
            '  mkdir dir1 dir2     Create two directories dir1 and dir2 in the current directory\n' +
            '  mkdir -p a/b/c      Create directory c and any parent directories that do not exist\n' +
            '  mkdir /tmp/new      Create directory new in the /tmp directory\n\n' +
-           'Each created directory will have permission mode according to the system default.';
+           'Each created directory will have permission mode according to the system default.');
   }
   
   public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
@@ -38,7 +43,7 @@ export class MkdirCommand implements CommandModule {
     }
     
     // Parse options
-    const createParents = args.p || args.parents || false; // -p or --parents to create parent directories
+    const createParents = args.parents; // -p or --parents to create parent directories
     
     // Process each directory
     const errors: string[] = [];
@@ -1,6 +1,7 @@
 import { CommandModule, CommandArgs, CommandContext, ExecuteMigrator } from '../command-processor';
 import { OS } from '../../core/os';
 import { PathUtils } from '../../core/path-utils';
+import { CommandOption, CommandOptions } from '../command-options';
 
 /**
  * mv command - Move (rename) files
@@ -20,16 +21,16 @@ export class MvCommand implements CommandModule {
   public get description(): string {
     return 'Move (rename) files';
   }
-    public get usage(): string {
-    return `Usage: mv [options] source... destination
-
-Move (rename) files and directories from source to destination.
-
-Options:
-  -f, --force     Force overwrite without confirmation
-  -v, --verbose   Explain what is being done
-
-Examples:
+  public get options(): CommandOption[] {
+    return [
+      { name: 'force', alias: 'f', type: 'boolean', description: 'Force overwrite without confirmation' },
+      { name: 'verbose', alias: 'v', type: 'boolean', description: 'Explain what is being done' }
+    ];
+  }
+  
+  public get usage(): string {
+    return CommandOptions.formatUsage('mv [options] source... destination', this.options,
+      'Move (rename) files and directories from source to destination.', `Examples:
   mv file.txt newname.txt      # Rename a file
   mv file.txt /path/to/dir/    # Move a file to directory
   mv dir1 dir2                 # Move or rename directories
@@ -38,7 +39,7 @@ Examples:
 Notes:
   - If destination is a directory, source files are moved inside it
   - If destination doesn't exist and moving a single source, creates destination
-  - If multiple sources provided, destination must be a directory`;
+  - If multiple sources provided, destination must be a directory`);
   }
   
   public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
@@ -52,8 +53,8 @@ Notes:
     }
     
     // Parse options
-    const force = args.f || args.force || false; // -f or --force to overwrite without prompt
-    const verbose = args.v || args.verbose || false; // -v or --verbose to explain what is being done
+    const force = args.force; // -f or --force to overwrite without prompt
+    const verbose = args.verbose; // -v or --verbose to explain what is being done
     
     // Get source and destination
     const sources = args.args.slice(0, -1);
@@ -0,0 +1,106 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { OS } from '../../core/os';
+import { Connection, ConnectionTracker } from '../../core/network';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * netstat command - Print network connections and listening ports
+ */
+export class NetstatCommand implements CommandModule {
+  private os: OS;
+
+  constructor(os: OS) {
+    this.os = os;
+  }
+
+  public get name(): string {
+    return 'netstat';
+  }
+
+  public get description(): string {
+    return 'Print network connections and listening ports';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'tcp', alias: 't', type: 'boolean', description: 'Show TCP sockets' },
+      { name: 'udp', alias: 'u', type: 'boolean', description: 'Show UDP sockets' },
+      { name: 'raw', alias: 'w', type: 'boolean', description: 'Show raw sockets, like the ones of ping' },
+      { name: 'listening', alias: 'l', type: 'boolean', description: 'Show only listening sockets' },
+      { name: 'all', alias: 'a', type: 'boolean', description: 'Show both listening and non-listening sockets' },
+      { name: 'numeric', alias: 'n', type: 'boolean', description: 'Show numerical addresses and ports instead of names' },
+      { name: 'program', alias: 'p', type: 'boolean', description: 'Show the PID and name of the program of each socket' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('netstat [OPTION]...', this.options,
+      `Print the sockets of this system: the services listening on its ports and the
+connections opened by programs (web requests, ping, nmap probes, ssh...).
+Without -t, -u or -w, sockets of all protocols are shown. Without -l or -a,
+only connections are shown.`, `Examples:
+  netstat -tulpn        Listening TCP and UDP ports with their programs
+  netstat -tn           Open TCP connections, numerically`);
+  }
+
+  /**
+   * Execute command with context and streams
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    const protocols = (['tcp', 'udp', 'raw'] as const).filter(protocol => args[protocol]);
+    const sockets = this.os.getConnectionTracker().getConnections(this.os.ipAddress)
+      .filter(socket => protocols.length === 0 || protocols.includes(socket.protocol))
+      .filter(socket => args.all || (args.listening ? this.isListening(socket) : !this.isListening(socket)));
+
+    const title = args.all ? 'servers and established' : args.listening ? 'only servers' : 'w/o servers';
+    const isRoot = this.os.currentUserName === 'root';
+    if (args.program && !isRoot) {
+      context.stdout.writeLine('(Not all processes could be identified, non-owned process info');
+      context.stdout.writeLine(' will not be shown, you would have to be root to see it all.)');
+    }
+    context.stdout.writeLine(`Active Internet connections (${title})`);
+    context.stdout.writeLine(`Proto Recv-Q Send-Q ${'Local Address'.padEnd(23)} ${'Foreign Address'.padEnd(23)} State      ${args.program ? ' PID/Program name' : ''}`.trimEnd());
+
+    for (const socket of sockets) {
+      const local = this.formatAddress(socket.localAddress, socket.localPort, args.numeric);
+      const foreign = this.formatAddress(socket.remoteAddress, socket.remotePort, args.numeric);
+      const state = socket.state === 'UNCONN' ? '' : socket.state;
+      let line = `${socket.protocol.padEnd(5)} ${'0'.padStart(6)} ${'0'.padStart(6)} ${local.padEnd(23)} ${foreign.padEnd(23)} ${state.padEnd(11)}`;
+      if (args.program) {
+        line += ` ${this.formatProgram(socket, isRoot)}`;
+      }
+      context.stdout.writeLine(line.trimEnd());
+    }
+    return 0;
+  }
+
+  /**
+   * Listening sockets are the services of the system, TCP or UDP, with no peer
+   */
+  private isListening(socket: Connection): boolean {
+    return socket.remoteAddress === '0.0.0.0';
+  }
+
+  /**
+   * Format address:port, with host and service names unless numeric
+   */
+  private formatAddress(address: string, port: number, numeric: boolean): string {
+    const name = numeric || address === '0.0.0.0' ? address : (this.os.getDNSServer().reverseLookup(address) ?? address);
+    const portName = port === 0 ? '*' : numeric ? String(port) : (ConnectionTracker.portName(port) ?? String(port));
+    return `${name}:${portName}`;
+  }
+
+  /**
+   * Format PID/Program name. Sockets in TIME_WAIT have no program any more, and only root
+   * sees the programs of other users.
+   */
+  private formatProgram(socket: Connection, isRoot: boolean): string {
+    if (socket.state === 'TIME_WAIT' || (!isRoot && socket.owner.user !== this.os.currentUserName)) {
+      return '-';
+    }
+    // Services of this machine are its system processes, like sshd
+    const pid = socket.owner.pid ?? (this.os.hostInfo ? undefined
+      : this.os.getProcessManager().getAllProcesses().find(process => process.name === socket.owner.program)?.pid);
+    return `${pid ?? '-'}/${socket.owner.program}`;
+  }
+}
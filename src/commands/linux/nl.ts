@@ -0,0 +1,96 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { CommandInput } from '../command-input';
+import { JobControl, JobInterruptedError } from '../job-control';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * nl command - Number lines of files
+ */
+export class NlCommand implements CommandModule {
+  public get name(): string {
+    return 'nl';
+  }
+
+  public get description(): string {
+    return 'Number lines of files';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'body-numbering', alias: 'b', type: 'string', default: 't', valueName: 'style', description: 'Lines to number: a (all), t (non-empty) or n (none)' },
+      { name: 'number-format', alias: 'n', type: 'string', default: 'rn', valueName: 'format', description: 'Number format: ln (left), rn (right) or rz (right with zeros)' },
+      { name: 'number-width', alias: 'w', type: 'number', default: 6, valueName: 'N', description: 'Use N columns for line numbers' },
+      { name: 'number-separator', alias: 's', type: 'string', default: '\t', valueName: 'string', description: 'Add string after the line number' },
+      { name: 'starting-line-number', alias: 'v', type: 'number', default: 1, valueName: 'N', description: 'First line number' },
+      { name: 'line-increment', alias: 'i', type: 'number', default: 1, valueName: 'N', description: 'Line number increment' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('nl [OPTION]... [FILE]...', this.options,
+      'Write each FILE to standard output, with line numbers added.\nWith no FILE, or when FILE is -, read standard input.', `Examples:
+  nl script.sh                 Number the non-empty lines
+  nl -b a notes.txt            Number all lines
+  cat log | nl -w 3 -s ': '    Number lines as "  1: ..."`);
+  }
+
+  /**
+   * Execute command with context and streams
+   * Returns exit code (0 for success, 1 for errors)
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    try {
+      const style: string = args['body-numbering'];
+      const format: string = args['number-format'];
+      const width: number = args['number-width'];
+      const separator: string = args['number-separator'];
+      const increment: number = args['line-increment'];
+
+      if (!['a', 't', 'n'].includes(style)) {
+        context.stderr.writeLine(`nl: invalid body numbering style: '${style}'`);
+        return 1;
+      }
+      if (!['ln', 'rn', 'rz'].includes(format)) {
+        context.stderr.writeLine(`nl: invalid line number format: '${format}'`);
+        return 1;
+      }
+      if (width < 1) {
+        context.stderr.writeLine(`nl: invalid line number field width: '${width}'`);
+        return 1;
+      }
+
+      let number: number = args['starting-line-number'];
+      const failed: string[] = [];
+
+      for await (const line of CommandInput.lines(args.args, context, 'nl', failed)) {
+        const numbered = style === 'a' || (style === 't' && line.trim() !== '');
+        if (numbered) {
+          context.stdout.writeLine(this.formatNumber(number, format, width) + separator + line);
+          number += increment;
+        } else {
+          // Lines without number are indented like numbered ones
+          context.stdout.writeLine(' '.repeat(width + separator.length) + line);
+        }
+
+        // Stop when the reader of our output has exited
+        await JobControl.checkpoint(context);
+      }
+
+      return failed.length > 0 ? 1 : 0;
+    } catch (error) {
+      // Ctrl+C and broken pipes end the command
+      if (error instanceof JobInterruptedError) {
+        throw error;
+      }
+      context.stderr.writeLine(`nl: ${error instanceof Error ? error.message : String(error)}`);
+      return 1;
+    }
+  }
+
+  private formatNumber(number: number, format: string, width: number): string {
+    const text = String(number);
+    if (format === 'ln') return text.padEnd(width);
+    if (format === 'rz') return number < 0 ? '-' + String(-number).padStart(width - 1, '0') : text.padStart(width, '0');
+    return text.padStart(width);
+  }
+}
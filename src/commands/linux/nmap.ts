@@ -1,5 +1,7 @@
 import { CommandModule, CommandArgs, CommandContext, ExecuteMigrator } from '../command-processor';
 import { OS } from '../../core/os';
+import { CompletionRequest, TabCompletion } from '../tab-completion';
+import { CommandOption, CommandOptions } from '../command-options';
 
 /**
  * nmap command - Network exploration and security scanning
@@ -18,33 +20,44 @@ export class NmapCommand implements CommandModule {
   public get description(): string {
     return 'Network exploration tool and security / port scanner';
   }
-    public get usage(): string {
-    return `Usage: nmap [options] target
-
-Network exploration tool and security / port scanner.
-
-Options:
-  -p, --ports <range>   Specify port range to scan (default: 1-1000)
-                        Examples: -p 22; -p 1-65535; -p 80,443,8080
-  -s<C|T|U>             Scan type:
-                         -sS: TCP SYN scan (default, stealthy)
-                         -sT: TCP connect scan (more detectable)
-                         -sU: UDP scan
-  -T<0-5>               Set timing template (higher is faster)
-                         -T0: Paranoid; -T5: Insane
-  -O                    Enable OS detection
-  -sV                   Probe open ports to determine service/version info
-  -sC                   Perform script scanning (default scripts)
-  -v                    Increase verbosity level
+  public get options(): CommandOption[] {
+    return [
+      { name: 'ports', alias: 'p', type: 'string', valueName: 'range', default: '1-1000', description: 'Ports to scan, like 22, 1-65535 or 80,443,8080' },
+      { name: 'syn-scan', alias: 'sS', type: 'boolean', description: 'TCP SYN scan (default, stealthy)' },
+      { name: 'connect-scan', alias: 'sT', type: 'boolean', description: 'TCP connect scan (more detectable)' },
+      { name: 'udp-scan', alias: 'sU', type: 'boolean', description: 'UDP scan' },
+      { name: 'timing', alias: 'T', type: 'number', valueName: '0-5', default: 3, description: 'Timing template, T0 (paranoid) to T5 (insane)' },
+      { name: 'os-detection', alias: 'O', type: 'boolean', description: 'Enable OS detection' },
+      { name: 'service-version', alias: 'sV', type: 'boolean', description: 'Probe open ports to determine service/version info' },
+      { name: 'script-scan', alias: 'sC', type: 'boolean', description: 'Perform script scanning (default scripts)' },
+      { name: 'verbose', alias: 'v', type: 'boolean', repeatable: true, description: 'Increase verbosity level' }
+    ];
+  }
 
-Examples:
+  public get usage(): string {
+    return CommandOptions.formatUsage('nmap [options] target', this.options,
+      'Network exploration tool and security / port scanner.', `Examples:
   nmap localhost               # Scan localhost with default options
   nmap -p 80,443 example.com   # Scan specific ports of a domain
   nmap -sS -T4 192.168.1.1     # Fast SYN scan of an IP address
   nmap -sV -O 10.0.0.1         # Detect OS and service versions
 
-Target can be hostname, IP address, network range, or CIDR notation.`;
+Target can be hostname, IP address, network range, or CIDR notation.`);
+  }
+  /**
+   * Complete options and hostnames
+   */
+  public async complete(request: CompletionRequest, _context: CommandContext): Promise<string[] | null> {
+    const previous = request.args[request.args.length - 1];
+    if (previous === '-p' || previous === '--ports') {
+      return [];
+    }
+    if (request.current.startsWith('-')) {
+      return TabCompletion.completeDeclaredOptions(this.options, request.current);
+    }
+    return TabCompletion.completeHostnames(this.os, request.current);
   }
+
   public execute(args: CommandArgs, context: CommandContext): Promise<number>{
     return ExecuteMigrator.execute(this, args, context);
     }
@@ -57,13 +70,13 @@ Target can be hostname, IP address, network range, or CIDR notation.`;
     const target = args.args[0];
     
     // Parse options
-    const portScan = args.p || args.ports || '1-1000'; // -p <port ranges> - Scan specified ports
-    const scanType = args.s || 'S'; // -s<type> - Scan type (S: SYN, T: TCP connect, U: UDP)
-    const timing = args.T || 3; // -T<0-5> - Timing template (higher is faster)
-    const osDetection = args.O || false; // -O - Enable OS detection
-    const serviceInfo = args.sV || false; // -sV - Probe open ports to determine service/version info
-    const scriptScan = args.sC || false; // -sC - Equivalent to --script=default
-    const verbose = args.v || false; // -v - Increase verbosity level
+    const portScan = args.ports; // -p <port ranges> - Scan specified ports
+    const scanType = args['udp-scan'] ? 'U' : args['connect-scan'] ? 'T' : 'S'; // -sS, -sT or -sU - Scan type
+    const timing = args.timing; // -T<0-5> - Timing template (higher is faster)
+    const osDetection = args['os-detection']; // -O - Enable OS detection
+    const serviceInfo = args['service-version']; // -sV - Probe open ports to determine service/version info
+    const scriptScan = args['script-scan']; // -sC - Equivalent to --script=default
+    const verbose = args.verbose > 0; // -v - Increase verbosity level
     
     try {
       // Simulate network scanning delay based on target and options
@@ -72,8 +85,9 @@ Target can be hostname, IP address, network range, or CIDR notation.`;
       // Format port range for display
       const portRangeDisplay = this.formatPortRange(portScan);
       
-      // Simulate scan results
-      const scanResults = this.simulateScanResults(target, portScan, scanType, osDetection, serviceInfo, scriptScan);
+      // Simulate scan results, for the address the target resolves to (/etc/hosts first)
+      const resolvedIP = await this.os.getResolver().resolve(target);
+      const scanResults = this.simulateScanResults(target, resolvedIP, portScan, scanType, osDetection, serviceInfo, scriptScan);
       
       // Format output
       return this.formatScanOutput(target, scanResults, portRangeDisplay, scanType, osDetection, serviceInfo, scriptScan, verbose);
@@ -142,6 +156,7 @@ Target can be hostname, IP address, network range, or CIDR notation.`;
    */
   private simulateScanResults(
     target: string, 
+    resolvedIP: string | null,
     portRange: string, 
     scanType: string,
     osDetection: boolean,
@@ -154,26 +169,17 @@ Target can be hostname, IP address, network range, or CIDR notation.`;
       filteredPorts: [],
       closedPorts: [],
       osInfo: null,
-      serviceVersions: {}
+      serviceVersions: {},
+      latency: 15
     };
     
-    // Resolve target to IP if it's a hostname
-    let targetIP = target;
-    
-    // Use the DNS server to resolve hostname to IP
-    if (!/^\d+\.\d+\.\d+\.\d+$/.test(target)) {
-      const resolvedIP = this.os.getDNSServer().resolve(target);
-      if (resolvedIP) {
-        targetIP = resolvedIP;
-      } else {
-        // For unknown hosts, generate a random IP
-        targetIP = `192.168.${Math.floor(Math.random() * 255)}.${Math.floor(Math.random() * 255)}`;
-      }
-    }
+    // For unknown hosts, generate a random IP
+    const targetIP = resolvedIP ?? `192.168.${Math.floor(Math.random() * 255)}.${Math.floor(Math.random() * 255)}`;
+    results.ip = targetIP;
     
     // Use NetworkInterface to get host information
     const networkInterface = this.os.getNetworkInterface();
-    const hostInfo = networkInterface.scanHost(targetIP, portRange);
+    const hostInfo = networkInterface.scanHost(targetIP, portRange, this.os.hostInfo?.ip, scanType === 'U' ? 'udp' : 'tcp');
     
     if (hostInfo) {
       // Extract open and filtered ports
@@ -185,6 +191,14 @@ Target can be hostname, IP address, network range, or CIDR notation.`;
         .filter(port => port.state === 'filtered')
         .map(port => port.port);
       
+      results.latency = networkInterface.getLatency(targetIP, this.os.hostInfo?.ip);
+      
+      // Probes answered by open ports are connections, which stay in the table in TIME_WAIT
+      const connections = this.os.getConnectionTracker();
+      for (const port of results.openPorts) {
+        connections.close(connections.open(this.os.socketOwner('nmap'), scanType === 'U' ? 'udp' : 'tcp', targetIP, port));
+      }
+      
       // Extract OS info if available
       if (osDetection && hostInfo.osInfo) {
         results.osInfo = {
@@ -298,22 +312,21 @@ Target can be hostname, IP address, network range, or CIDR notation.`;
                          scanType === 'U' ? 'UDP Scan' : 'Custom Scan';
     
     output.push(`Nmap scan report for ${target}`);
+    const latency = `${(results.latency / 1000).toFixed(results.latency < 1 ? 5 : 3)}s latency`;
       // Attempt to resolve hostname if IP address
     if (/^\d+\.\d+\.\d+\.\d+$/.test(target)) {
       // For IP addresses, try reverse DNS lookup
       const hostname = this.os.getDNSServer().reverseLookup(target);
       if (hostname) {
-        output.push(`Host is up (0.00042s latency).`);
+        output.push(`Host is up (${latency}).`);
         output.push(`rDNS record for ${target}: ${hostname}`);
       } else {
-        output.push(`Host is up (0.015s latency).`);
+        output.push(`Host is up (${latency}).`);
       }
     } else {
       // For hostnames, show resolved IP
-      const resolvedIP = this.os.getDNSServer().resolve(target) || 
-        `192.168.${Math.floor(Math.random() * 255)}.${Math.floor(Math.random() * 255)}`;
-      output.push(`Host is up (0.015s latency).`);
-      output.push(`rDNS record for ${resolvedIP}: ${target}`);
+      output.push(`Host is up (${latency}).`);
+      output.push(`rDNS record for ${results.ip}: ${target}`);
     }
     
     // Port scan results
@@ -0,0 +1,125 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { OS } from '../../core/os';
+import { NodeSandbox } from '../node-sandbox';
+
+/**
+ * Default CPU time limit for a script, in seconds
+ */
+const DEFAULT_CPU_LIMIT = 10;
+
+/**
+ * node command - Run JavaScript in a sandbox
+ */
+export class NodeCommand implements CommandModule {
+  private os: OS;
+
+  constructor(os: OS) {
+    this.os = os;
+  }
+
+  public get name(): string {
+    return 'node';
+  }
+
+  public get description(): string {
+    return 'Run a JavaScript file in a sandbox';
+  }
+
+  public get usage(): string {
+    return `Usage: node [options] script.js [arg ...]
+       node [options] -e code [arg ...]
+
+Run JavaScript in an isolated sandbox. Scripts can use top-level await and have
+no access to the browser; the game is reached through these modules:
+
+  fs     readFile(path), writeFile(path, data), appendFile(path, data),
+         readdir(path), exists(path), stat(path), mkdir(path), unlink(path)
+  http   request({url, method, headers, body}), get(url), post(url, body)
+  net    scanHost(host, ports), resolve(hostname)
+
+Modules are available as globals or through require('fs'). All their functions
+return promises. console, process.argv, process.env and process.exit work as in Node.
+
+Options:
+  -e, --eval code        Run code instead of a file
+  --cpu-limit=seconds    Kill the script after this much CPU time (default: ${DEFAULT_CPU_LIMIT})
+  -v, --version          Print the version
+
+Examples:
+  node scanner.js 10.0.0.0
+  node -e 'console.log(await net.resolve("targetbank.com"))'
+  node --cpu-limit=60 bruteforce.js`;
+  }
+
+  /**
+   * Execute the node command
+   * @param args Command arguments
+   * @param context Command execution context
+   * @returns Exit code of the script
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    // Arguments after the script belong to the script, so read them unparsed
+    const argv = args.argv ?? args.args;
+    let cpuLimit = DEFAULT_CPU_LIMIT;
+    let code: string | null = null;
+    let i = 0;
+
+    for (; i < argv.length && argv[i].startsWith('-'); i++) {
+      const arg = argv[i];
+
+      if (arg === '-v' || arg === '--version') {
+        context.stdout.writeLine('v20.0.0-sandbox');
+        return 0;
+      } else if (arg === '-e' || arg === '--eval') {
+        if (i + 1 >= argv.length) {
+          context.stderr.writeLine(`node: ${arg} requires an argument`);
+          return 9;
+        }
+        code = argv[++i];
+        i++;
+        break;
+      } else if (arg.startsWith('--cpu-limit=')) {
+        cpuLimit = parseFloat(arg.substring('--cpu-limit='.length));
+        if (isNaN(cpuLimit) || cpuLimit <= 0) {
+          context.stderr.writeLine(`node: invalid value for --cpu-limit: ${arg.substring('--cpu-limit='.length)}`);
+          return 9;
+        }
+      } else {
+        context.stderr.writeLine(`node: bad option: ${arg}`);
+        return 9;
+      }
+    }
+
+    let scriptArgv: string[];
+    if (code !== null) {
+      scriptArgv = ['node', ...argv.slice(i)];
+    } else {
+      if (i >= argv.length) {
+        context.stderr.writeLine('node: no script given, interactive mode is not supported');
+        context.stderr.writeLine('Try \'node script.js\' or \'node -e code\'');
+        return 9;
+      }
+
+      const fileSystem = this.os.getFileSystem();
+      const path = fileSystem.parsePath(argv[i], context.cwd);
+      if (!await fileSystem.exists(path) || (await fileSystem.stat(path)).isDirectory) {
+        context.stderr.writeLine(`node: cannot find module '${argv[i]}'`);
+        return 1;
+      }
+      code = await fileSystem.readFile(path);
+      // A shebang line is allowed like in Node
+      code = code.replace(/^#!.*/, '');
+      scriptArgv = ['node', path, ...argv.slice(i + 1)];
+    }
+
+    if (!NodeSandbox.isSupported()) {
+      context.stderr.writeLine('node: the sandbox is not supported by this browser (Web Workers are required)');
+      return 1;
+    }
+
+    return new NodeSandbox(this.os, context).run(code, {
+      argv: scriptArgv,
+      timeLimit: cpuLimit * 1000
+    });
+  }
+}
@@ -0,0 +1,146 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { OS } from '../../core/os';
+import { DNSServer, DnsRecord, DnsRecordType } from '../../core/network';
+import { IpUtils } from '../../core/ip-utils';
+import { DnsQuery } from '../dns-query';
+import { CompletionRequest, TabCompletion } from '../tab-completion';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * Record types nslookup can query
+ */
+const RECORD_TYPES: DnsRecordType[] = ['A', 'AAAA', 'CNAME', 'MX', 'TXT', 'NS', 'PTR'];
+
+/**
+ * nslookup command - Query name servers
+ */
+export class NslookupCommand implements CommandModule {
+  private os: OS;
+
+  constructor(os: OS) {
+    this.os = os;
+  }
+
+  public get name(): string {
+    return 'nslookup';
+  }
+
+  public get description(): string {
+    return 'Query name servers';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'type', alias: ['type', 'query', 'querytype'], type: 'string', valueName: 'TYPE', description: 'Type of the records to query, given as -type=MX (A, AAAA, CNAME, MX, TXT, NS or PTR)' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('nslookup [-type=TYPE] name [server]', this.options,
+      `Look up the records of a name with a name server, the one of the router
+unless a server is given. The addresses of a name are looked up by default,
+the name of an address when it is given one. /etc/hosts is not read.`, `Examples:
+  nslookup example.com              The addresses of example.com
+  nslookup -type=mx techcorp.com    Its mail servers
+  nslookup 192.168.1.30             The name of an address`);
+  }
+
+  /**
+   * Complete options and hostnames
+   */
+  public async complete(request: CompletionRequest, _context: CommandContext): Promise<string[] | null> {
+    if (request.current.startsWith('-type=')) {
+      return RECORD_TYPES.map(type => `-type=${type}`).filter(option => option.startsWith(request.current));
+    }
+    if (request.current.startsWith('-')) {
+      return ['-type='].filter(option => option.startsWith(request.current));
+    }
+    return TabCompletion.completeHostnames(this.os, request.current);
+  }
+
+  /**
+   * Execute command with context and streams
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    const [name, server] = args.args;
+    if (!name) {
+      context.stderr.writeLine('Usage: nslookup [-type=TYPE] name [server]');
+      return 1;
+    }
+    const type = args.type?.toUpperCase();
+    if (type !== undefined && !RECORD_TYPES.includes(type as DnsRecordType)) {
+      context.stderr.writeLine(`nslookup: unknown query type: ${args.type}`);
+      return 1;
+    }
+
+    let serverAddress: string | undefined;
+    if (server !== undefined) {
+      const resolved = await this.os.getResolver().resolve(server);
+      if (!resolved) {
+        context.stderr.writeLine(`nslookup: couldn't get address for '${server}': not found`);
+        return 1;
+      }
+      serverAddress = resolved;
+    }
+
+    // An address is looked up by its PTR record, a name by its addresses unless a type is given
+    const reverse = IpUtils.isAddress(name);
+    const query = reverse ? DNSServer.reverseName(name) : name;
+    const types: DnsRecordType[] = reverse ? ['PTR'] : type ? [type as DnsRecordType] : ['A', 'AAAA'];
+
+    const records: DnsRecord[] = [];
+    let found = true;
+    for (const recordType of types) {
+      const answer = await DnsQuery.query(this.os, query, recordType, context, serverAddress);
+      if (!answer) {
+        context.stdout.writeLine(';; connection timed out; no servers could be reached');
+        return 1;
+      }
+      serverAddress = answer.server;
+      if (answer.status === 'NXDOMAIN') {
+        found = false;
+        break;
+      }
+      // Aliases show once, even when followed for both A and AAAA
+      records.push(...answer.records.filter(record => !records.some(known => known.type === record.type && known.name === record.name && known.value === record.value)));
+    }
+
+    context.stdout.writeLine(`Server:\t\t${serverAddress}`);
+    context.stdout.writeLine(`Address:\t${serverAddress}#53`);
+    context.stdout.writeLine('');
+    if (!found) {
+      context.stdout.writeLine(`** server can't find ${query}: NXDOMAIN`);
+      return 1;
+    }
+    if (records.length === 0) {
+      context.stdout.writeLine(`*** Can't find ${query}: No answer`);
+      return 1;
+    }
+    context.stdout.writeLine('Non-authoritative answer:');
+    records.forEach(record => context.stdout.writeLine(this.formatRecord(record)));
+    context.stdout.writeLine('');
+    return 0;
+  }
+
+  /**
+   * Format a record of the answer like nslookup
+   */
+  private formatRecord(record: DnsRecord): string {
+    const value = DnsQuery.formatValue(record);
+    switch (record.type) {
+      case 'A':
+      case 'AAAA':
+        return `Name:\t${record.name}\nAddress: ${value}`;
+      case 'CNAME':
+        return `${record.name}\tcanonical name = ${value}`;
+      case 'MX':
+        return `${record.name}\tmail exchanger = ${value}`;
+      case 'TXT':
+        return `${record.name}\ttext = ${value}`;
+      case 'NS':
+        return `${record.name}\tnameserver = ${value}`;
+      case 'PTR':
+        return `${record.name}\tname = ${value}`;
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { CommandInput } from '../command-input';
+import { CommandPipe } from '../command-pipe';
+import { JobControl, JobInterruptedError } from '../job-control';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * paste command - Merge lines of files
+ */
+export class PasteCommand implements CommandModule {
+  public get name(): string {
+    return 'paste';
+  }
+
+  public get description(): string {
+    return 'Merge lines of files';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'delimiters', alias: 'd', type: 'string', default: '\t', valueName: 'list', description: 'Use characters from list instead of tabs, in turn' },
+      { name: 'serial', alias: 's', type: 'boolean', description: 'Paste one file at a time instead of in parallel' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('paste [OPTION]... [FILE]...', this.options, `Write lines consisting of the corresponding lines from each FILE,
+separated by tabs, to standard output.
+With no FILE, or when FILE is -, read standard input; each - takes the next line.`, `Examples:
+  paste names.txt ages.txt      Join two files side by side
+  paste -d, -s list.txt         Join all lines with commas
+  ls | paste - - -              Print the listing in three columns`);
+  }
+
+  /**
+   * Execute command with context and streams
+   * Returns exit code (0 for success, 1 if a file could not be read)
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    try {
+      const delimiters = this.parseDelimiters(args.delimiters);
+      const files: string[] = args.args.length > 0 ? args.args : ['-'];
+
+      // Read each file; all - operands share the lines of standard input
+      let stdinLines: string[] | null = null;
+      const columns: (string[] | null)[] = [];
+      for (const file of files) {
+        if (file === '-') {
+          if (stdinLines === null) {
+            stdinLines = [];
+            for await (const line of CommandPipe.lines(context.stdin)) stdinLines.push(line);
+          }
+          columns.push(null);
+          continue;
+        }
+        const content = await CommandInput.read(file, context, 'paste');
+        if (content === null) {
+          return 1;
+        }
+        columns.push(CommandInput.splitLines(content));
+      }
+
+      const stdin = stdinLines ?? [];
+      let stdinIndex = 0;
+      const join = (parts: string[]) => parts.reduce((result, part, index) =>
+        index === 0 ? part : result + delimiters[(index - 1) % delimiters.length] + part, '');
+
+      if (args.serial) {
+        for (const column of columns) {
+          const lines = column ?? stdin.slice(stdinIndex);
+          if (column === null) stdinIndex = stdin.length;
+          context.stdout.writeLine(join(lines));
+          await JobControl.checkpoint(context);
+        }
+        return 0;
+      }
+
+      for (let row = 0; ; row++) {
+        let remaining = false;
+        const parts = columns.map(column => {
+          if (column === null) {
+            if (stdinIndex < stdin.length) {
+              remaining = true;
+              return stdin[stdinIndex++];
+            }
+            return '';
+          }
+          if (row < column.length) remaining = true;
+          return column[row] ?? '';
+        });
+        if (!remaining) break;
+
+        context.stdout.writeLine(join(parts));
+        // Stop when the reader of our output has exited
+        await JobControl.checkpoint(context);
+      }
+
+      return 0;
+    } catch (error) {
+      // Ctrl+C and broken pipes end the command
+      if (error instanceof JobInterruptedError) {
+        throw error;
+      }
+      context.stderr.writeLine(`paste: ${error instanceof Error ? error.message : String(error)}`);
+      return 1;
+    }
+  }
+
+  /**
+   * Get the delimiters of a -d list, where \n, \t, \\ and \0 (no delimiter) are escapes
+   */
+  private parseDelimiters(list: string): string[] {
+    const delimiters: string[] = [];
+    for (let i = 0; i < list.length; i++) {
+      if (list[i] === '\\' && i + 1 < list.length) {
+        const escaped = list[++i];
+        delimiters.push(escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped === '0' ? '' : escaped);
+      } else {
+        delimiters.push(list[i]);
+      }
+    }
+    return delimiters.length > 0 ? delimiters : [''];
+  }
+}
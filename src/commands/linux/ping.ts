@@ -1,5 +1,8 @@
 import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
 import { OS } from '../../core/os';
+import { CompletionRequest, TabCompletion } from '../tab-completion';
+import { JobControl, JobInterruptedError } from '../job-control';
+import { CommandOption, CommandOptions } from '../command-options';
 
 /**
  * ping command - Send ICMP ECHO_REQUEST to network hosts
@@ -19,24 +22,38 @@ export class PingCommand implements CommandModule {
     return 'Send ICMP ECHO_REQUEST to network hosts';
   }
   
+  public get options(): CommandOption[] {
+    return [
+      { name: 'count', alias: 'c', type: 'number', valueName: 'count', default: 4, description: 'Stop after sending count packets' },
+      { name: 'interval', alias: 'i', type: 'number', valueName: 'interval', default: 1, description: 'Wait interval seconds between sending each packet' }
+    ];
+  }
+  
   public get usage(): string {
-    return `Usage: ping [options] destination
-
-Send ICMP ECHO_REQUEST packets to network hosts.
-
-Options:
-  -c count       Stop after sending count packets (default: 4)
-  -i interval    Wait interval seconds between sending each packet (default: 1)
-
-Examples:
+    return CommandOptions.formatUsage('ping [options] destination', this.options,
+      'Send ICMP ECHO_REQUEST packets to network hosts.', `Examples:
   ping google.com             # Ping hostname with default settings
   ping -c 10 192.168.1.1      # Send 10 packets to an IP address
   ping -i 0.5 -c 3 localhost  # Ping with custom interval and count
 
 Destination can be a hostname (e.g., google.com) or an IP address (e.g., 8.8.8.8).
-Press Ctrl+C to stop ping when running continuously.`;
+Press Ctrl+C to stop ping when running continuously.`);
   }
   
+  /**
+   * Complete options and hostnames
+   */
+  public async complete(request: CompletionRequest, _context: CommandContext): Promise<string[] | null> {
+    const previous = request.args[request.args.length - 1];
+    if (previous === '-c' || previous === '-i') {
+      return [];
+    }
+    if (request.current.startsWith('-')) {
+      return TabCompletion.completeDeclaredOptions(this.options, request.current);
+    }
+    return TabCompletion.completeHostnames(this.os, request.current);
+  }
+
   /**
    * Execute command with context for pipe support
    * Returns exit code (0 for success, non-zero for error)
@@ -52,16 +69,16 @@ Press Ctrl+C to stop ping when running continuously.`;
       const destination = args.args[0];
       
       // Parse options
-      const count = args.c || 4; // -c count, number of packets to send (default 4)
-      const interval = args.i || 1; // -i interval in seconds (default 1)
+      const count = args.count; // -c count, number of packets to send (default 4)
+      const interval = args.interval; // -i interval in seconds (default 1)
       
       // Try to resolve the destination using DNS if it's not an IP address
       let targetIP = destination;
       let resolvedHostname = destination;
       
       if (!/^\d+\.\d+\.\d+\.\d+$/.test(destination)) {
-        // It's a hostname, try to resolve it
-        const resolvedIP = this.os.getDNSServer().resolve(destination);
+        // It's a hostname, try to resolve it, /etc/hosts first
+        const resolvedIP = await this.os.getResolver().resolve(destination);
         if (resolvedIP) {
           targetIP = resolvedIP;
         } else {
@@ -71,7 +88,7 @@ Press Ctrl+C to stop ping when running continuously.`;
         }
       } else {
         // It's an IP address, try reverse lookup
-        const hostname = this.os.getDNSServer().reverseLookup(destination);
+        const hostname = await this.os.getResolver().reverseLookup(destination);
         if (hostname) {
           resolvedHostname = hostname;
         }
@@ -80,39 +97,65 @@ Press Ctrl+C to stop ping when running continuously.`;
       // Get host information from network interface
       const networkInterface = this.os.getNetworkInterface();
       const hostInfo = networkInterface.getHostByIp(targetIP);
-        if (!hostInfo || !hostInfo.isUp) {
-        // Host not found or not up - simulate timeouts with proper intervals
-        // First output the initial line
-        context.stdout.writeLine(`PING ${destination} (${targetIP}): 56 data bytes`);
-          // Then simulate each timeout with the proper delay
+      if (!networkInterface.route(targetIP, this.os.hostInfo?.ip)) {
+        context.stderr.writeLine('ping: connect: Network is unreachable');
+        return 2;
+      }
+      // Hosts on a private network of another subnet never answer, like hosts that are down
+      const reachable = networkInterface.isReachable(targetIP, this.os.hostInfo?.ip);
+      const latency = networkInterface.getLatency(targetIP, this.os.hostInfo?.ip);
+      // The firewall of this system may not let the echo requests out, the one of the host may drop or reject them
+      const verdict = networkInterface.filter(targetIP, 'icmp', undefined, this.os.hostInfo?.ip);
+      const delays: number[] = [];
+      let transmitted = 0;
+      
+      context.stdout.writeLine(`PING ${destination} (${targetIP}): 56 data bytes`);
+      
+      // The raw socket of ping is in the connection table while it runs
+      const connections = this.os.getConnectionTracker();
+      const connection = connections.open(this.os.socketOwner('ping', context.job?.pid), 'raw', targetIP, 0);
+      
+      // Send the packets one at a time, so Ctrl+C stops ping and still shows the statistics
+      try {
         for (let i = 0; i < count; i++) {
-          // In a real implementation, this would use an actual delay
-          // For simulation purposes, we're just writing the lines with simulated timestamps
-          context.stdout.writeLine(`Request timeout for icmp_seq ${i}`);
-          
           // Wait for the specified interval before the next request
-          // Skip the wait after the last ping
-          if (i < count - 1) {
-            await new Promise(resolve => setTimeout(resolve, interval * 1000));
+          if (i > 0) {
+            await JobControl.sleep(interval * 1000, context);
           }
+          transmitted++;
+          
+          if (verdict.chain === 'OUTPUT' && verdict.target !== 'ACCEPT') {
+            context.stdout.writeLine('ping: sendto: Operation not permitted');
+            continue;
+          }
+          
+          // Host not found or not up - simulate timeouts
+          if (!hostInfo || !reachable || verdict.target === 'DROP') {
+            context.stdout.writeLine(`Request timeout for icmp_seq ${i}`);
+            continue;
+          }
+          if (verdict.target === 'REJECT') {
+            context.stdout.writeLine(`From ${targetIP} icmp_seq=${i} Destination Port Unreachable`);
+            continue;
+          }
+          
+          // Add some random variation to the delay
+          const delay = latency + Math.random() * latency * 0.2;
+          delays.push(delay);
+          context.stdout.writeLine(`64 bytes from ${targetIP}: icmp_seq=${i} ttl=64 time=${delay.toFixed(1)} ms`);
         }
-        
-        // Final statistics
-        context.stdout.writeLine('');
-        context.stdout.writeLine(`--- ${destination} ping statistics ---`);
-        context.stdout.writeLine(`${count} packets transmitted, 0 packets received, 100.0% packet loss`);
-        
-        return 1; // Return non-zero exit code for failure to reach host
+      } catch (error) {
+        if (!(error instanceof JobInterruptedError)) {
+          throw error;
+        }
+      } finally {
+        connections.close(connection);
       }
       
-      // Host is available, simulate successful ping
-      const result = this.simulateSuccessfulPing(destination, hostInfo.latency, count, targetIP);
-      
-      // Write the result to stdout for pipe support
-      context.stdout.writeLine(result);
+      this.writeStatistics(context, destination, transmitted, delays);
       
-      // Return success exit code
-      return 0;
+      // Return non-zero exit code for failure to reach host
+      return delays.length > 0 ? 0 : 1;
     } catch (error) {
       // Write error to stderr and return error exit code
       context.stderr.writeLine(`ping: error: ${error instanceof Error ? error.message : String(error)}`);
@@ -152,47 +195,24 @@ Press Ctrl+C to stop ping when running continuously.`;
   }
   
   /**
-   * Simulate a successful ping response
+   * Write the statistics shown when ping ends
+   * @param transmitted Number of packets sent
+   * @param delays Round-trip times of the packets that were answered
    */
-  private simulateSuccessfulPing(destination: string, baseDelay: number, count: number, ipAddress: string): string {
-    const results: string[] = [];
-    let totalDelay = 0;
-    let minDelay = Number.MAX_VALUE;
-    let maxDelay = 0;
+  private writeStatistics(context: CommandContext, destination: string, transmitted: number, delays: number[]): void {
+    const received = delays.length;
+    const loss = transmitted > 0 ? (transmitted - received) / transmitted * 100 : 0;
     
-    results.push(`PING ${destination} (${ipAddress}): 56 data bytes`);
+    context.stdout.writeLine('');
+    context.stdout.writeLine(`--- ${destination} ping statistics ---`);
+    context.stdout.writeLine(`${transmitted} packets transmitted, ${received} packets received, ${loss.toFixed(1)}% packet loss`);
     
-    for (let i = 0; i < count; i++) {
-      // Add some random variation to the delay
-      const jitter = Math.random() * baseDelay * 0.2;
-      const delay = baseDelay + jitter;
-      
-      // Track min, max, and total for statistics
-      minDelay = Math.min(minDelay, delay);
-      maxDelay = Math.max(maxDelay, delay);
-      totalDelay += delay;
-      
-      results.push(`64 bytes from ${ipAddress}: icmp_seq=${i} ttl=64 time=${delay.toFixed(1)} ms`);
+    if (received > 0) {
+      const minDelay = Math.min(...delays);
+      const maxDelay = Math.max(...delays);
+      const avgDelay = delays.reduce((total, delay) => total + delay, 0) / received;
+      const stdDev = Math.sqrt(delays.reduce((total, delay) => total + Math.pow(delay - avgDelay, 2), 0) / received);
+      context.stdout.writeLine(`round-trip min/avg/max/stddev = ${minDelay.toFixed(1)}/${avgDelay.toFixed(1)}/${maxDelay.toFixed(1)}/${stdDev.toFixed(1)} ms`);
     }
-    
-    // Calculate average
-    const avgDelay = totalDelay / count;
-    
-    // Calculate standard deviation
-    let sumSquaredDiff = 0;
-    for (let i = 0; i < count; i++) {
-      const jitter = Math.random() * baseDelay * 0.2;
-      const delay = baseDelay + jitter;
-      sumSquaredDiff += Math.pow(delay - avgDelay, 2);
-    }
-    const stdDev = Math.sqrt(sumSquaredDiff / count);
-    
-    // Add statistics
-    results.push('');
-    results.push(`--- ${destination} ping statistics ---`);
-    results.push(`${count} packets transmitted, ${count} packets received, 0.0% packet loss`);
-    results.push(`round-trip min/avg/max/stddev = ${minDelay.toFixed(1)}/${avgDelay.toFixed(1)}/${maxDelay.toFixed(1)}/${stdDev.toFixed(1)} ms`);
-    
-    return results.join('\n');
   }
 }
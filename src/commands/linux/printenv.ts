@@ -0,0 +1,52 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+
+/**
+ * printenv command - Print environment variables
+ */
+export class PrintenvCommand implements CommandModule {
+  public get name(): string {
+    return 'printenv';
+  }
+  
+  public get description(): string {
+    return 'Print all or part of the environment';
+  }
+  
+  public get usage(): string {
+    return `Usage: printenv [name ...]
+
+Print the values of the specified environment variables.
+If no name is specified, print name=value pairs for all of them.
+
+Exit status:
+  Returns 1 if one of the named variables is not set.`;
+  }
+  
+  /**
+   * Execute the printenv command
+   * @param args Command arguments
+   * @param context Command execution context
+   * @returns Exit code (0 for success)
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    if (args.args.length === 0) {
+      for (const [name, value] of Object.entries(context.env)) {
+        context.stdout.writeLine(`${name}=${value}`);
+      }
+      return 0;
+    }
+    
+    let exitCode = 0;
+    
+    for (const name of args.args) {
+      const value = context.env[name];
+      if (value === undefined) {
+        exitCode = 1;
+      } else {
+        context.stdout.writeLine(value);
+      }
+    }
+    
+    return exitCode;
+  }
+}
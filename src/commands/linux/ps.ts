@@ -1,6 +1,7 @@
 import { CommandModule, CommandArgs, CommandContext, ExecuteMigrator } from '../command-processor';
 import { OS } from '../../core/os';
 import { Process } from '../../core/process';
+import { CommandOption, CommandOptions } from '../command-options';
 
 /**
  * ps command - Report process status
@@ -19,27 +20,28 @@ export class PsCommand implements CommandModule {
   public get description(): string {
     return 'Report a snapshot of the current processes';
   }
-    public get usage(): string {
-    return `ps [options]
-    
-Options:
-  -a, -e, -A    show all processes
-  -f            full format listing
-  -u            include user-oriented format
-  
-Examples:
+  public get options(): CommandOption[] {
+    return [
+      { name: 'all', alias: ['a', 'e', 'A'], type: 'boolean', description: 'Show all processes' },
+      { name: 'full', alias: 'f', type: 'boolean', description: 'Full format listing' },
+      { name: 'user', alias: 'u', type: 'boolean', description: 'Include user-oriented format' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('ps [options]', this.options, '', `Examples:
   ps            show basic process list for current user
   ps -a         show all processes in simple format
-  ps -af        show all processes with full details`;
+  ps -af        show all processes with full details`);
   }
   public execute(args: CommandArgs, context: CommandContext): Promise<number>{
     return ExecuteMigrator.execute(this, args, context);
     }
   public async exec(args: CommandArgs): Promise<string> {
     // Parse options
-    const all = args.a || args.e || args.A || false; // -a, -e, -A show all processes
-    const full = args.f || false; // -f full format listing
-    const showUser = args.u || false; // -u include user-oriented format
+    const all = args.all; // -a, -e, -A show all processes
+    const full = args.full; // -f full format listing
+    const showUser = args.user; // -u include user-oriented format
     
     // Get processes
     const processes = this.os.getProcessManager().getAllProcesses();
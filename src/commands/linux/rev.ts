@@ -0,0 +1,51 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { CommandInput } from '../command-input';
+import { JobControl, JobInterruptedError } from '../job-control';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * rev command - Reverse the characters of each line
+ */
+export class RevCommand implements CommandModule {
+  public get name(): string {
+    return 'rev';
+  }
+
+  public get description(): string {
+    return 'Reverse the characters of each line';
+  }
+
+  public get options(): CommandOption[] {
+    return [];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('rev [FILE]...', this.options,
+      'Copy each FILE to standard output, reversing the order of the characters in every line.\nWith no FILE, or when FILE is -, read standard input.', `Examples:
+  echo hello | rev             Print "olleh"
+  rev names.txt | sort | rev   Sort lines by their endings`);
+  }
+
+  /**
+   * Execute command with context and streams
+   * Returns exit code (0 for success, 1 if a file could not be read)
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    try {
+      const failed: string[] = [];
+      for await (const line of CommandInput.lines(args.args, context, 'rev', failed)) {
+        context.stdout.writeLine(Array.from(line).reverse().join(''));
+        // Stop when the reader of our output has exited
+        await JobControl.checkpoint(context);
+      }
+      return failed.length > 0 ? 1 : 0;
+    } catch (error) {
+      // Ctrl+C and broken pipes end the command
+      if (error instanceof JobInterruptedError) {
+        throw error;
+      }
+      context.stderr.writeLine(`rev: ${error instanceof Error ? error.message : String(error)}`);
+      return 1;
+    }
+  }
+}
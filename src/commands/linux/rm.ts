@@ -1,6 +1,7 @@
 import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
 import { OS } from '../../core/os';
 import { PathUtils } from '../../core/path-utils';
+import { CommandOption, CommandOptions } from '../command-options';
 
 /**
  * rm command - Remove files or directories
@@ -19,63 +20,41 @@ export class RmCommand implements CommandModule {
   public get description(): string {
     return 'Remove files or directories';
   }
-    public get usage(): string {
-    return `Usage: rm [OPTION]... [FILE]...
-Remove (unlink) the FILE(s).
-
-Options:
-  -f, --force           ignore nonexistent files and arguments, never prompt
-  -r, -R, --recursive   remove directories and their contents recursively
-  -v, --verbose         explain what is being done
-  -i                    prompt before every removal
-  -I                    prompt once before removing multiple files
-  -d, --dir             remove empty directories
-      --help            display this help and exit
-
-By default, rm does not remove directories. Use the --recursive (-r or -R)
-option to remove each listed directory, too, along with all of its contents.`;
+  public get options(): CommandOption[] {
+    return [
+      { name: 'force', alias: 'f', type: 'boolean', description: 'Ignore nonexistent files and arguments, never prompt' },
+      { name: 'recursive', alias: ['r', 'R'], type: 'boolean', description: 'Remove directories and their contents recursively' },
+      { name: 'verbose', alias: 'v', type: 'boolean', description: 'Explain what is being done' },
+      { name: 'interactive', alias: 'i', type: 'boolean', description: 'Prompt before every removal' },
+      { name: 'interactive-once', alias: 'I', type: 'boolean', description: 'Prompt once before removing multiple files' },
+      { name: 'dir', alias: 'd', type: 'boolean', description: 'Remove empty directories' }
+    ];
   }
   
-  /**
-   * Display help information for the rm command
-   */
-  private displayHelp(context: CommandContext): void {
-    context.stdout.writeLine('Usage: rm [OPTION]... [FILE]...');
-    context.stdout.writeLine('Remove (unlink) the FILE(s).');
-    context.stdout.writeLine('');
-    context.stdout.writeLine('Options:');
-    context.stdout.writeLine('  -f, --force           ignore nonexistent files and arguments, never prompt');
-    context.stdout.writeLine('  -r, -R, --recursive   remove directories and their contents recursively');
-    context.stdout.writeLine('  -v, --verbose         explain what is being done');
-    context.stdout.writeLine('      --help            display this help and exit');
-    context.stdout.writeLine('');
-    context.stdout.writeLine('By default, rm does not remove directories. Use the --recursive (-r or -R)');
-    context.stdout.writeLine('option to remove each listed directory, too, along with all of its contents.');
+  public get usage(): string {
+    return CommandOptions.formatUsage('rm [OPTION]... [FILE]...', this.options, 'Remove (unlink) the FILE(s).',
+      `By default, rm does not remove directories. Use the --recursive (-r or -R)
+option to remove each listed directory, too, along with all of its contents.`);
   }
+  
     /**
    * Execute command with context and streams
    * Returns exit code (0 for success, non-zero for error)
    */
   public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
     try {
-      // Check for help argument
-      if (args.help) {
-        this.displayHelp(context);
-        return 0;
-      }
-      
       // Check if any file is specified
       if (args.args.length === 0) {
         context.stderr.writeLine('rm: missing operand');
         context.stderr.writeLine('Try \'rm --help\' for more information.');
         return 1;
       }      // Parse options
-      const recursive = args.r || args.R || args.recursive || false; // -r, -R, --recursive to remove directories and their contents
-      const force = args.f || args.force || false; // -f or --force to ignore nonexistent files and never prompt
-      const verbose = args.v || args.verbose || false; // -v or --verbose to explain what is being done
-      const promptEach = args.i || false; // -i prompt before every removal
-      const promptBulk = args.I || false; // -I prompt once before removing multiple files
-      const removeEmptyDir = args.d || args.dir || false; // -d, --dir remove empty directories
+      const recursive = args.recursive; // -r, -R, --recursive to remove directories and their contents
+      const force = args.force; // -f or --force to ignore nonexistent files and never prompt
+      const verbose = args.verbose; // -v or --verbose to explain what is being done
+      const promptEach = args.interactive; // -i prompt before every removal
+      const promptBulk = args['interactive-once']; // -I prompt once before removing multiple files
+      const removeEmptyDir = args.dir; // -d, --dir remove empty directories
 
       // Check if bulk prompt is needed
       if (promptBulk && !force && args.args.length > 3) {
@@ -0,0 +1,272 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { OS } from '../../core/os';
+import { FileSystem } from '../../core/filesystem';
+import { Connection, HostInfo } from '../../core/network';
+import { PathUtils } from '../../core/path-utils';
+import { ArchiveFiles } from '../archive-files';
+import { RemoteConnection } from '../remote-connection';
+import { CompletionRequest, TabCompletion } from '../tab-completion';
+import { JobInterruptedError } from '../job-control';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * Source or target of a copy: a local path, or a path on a remote host
+ */
+interface ScpLocation {
+  /**
+   * Host of a remote location, as given on the command line
+   */
+  hostName?: string;
+
+  /**
+   * Account to log in with on the remote host
+   */
+  user?: string;
+
+  /**
+   * Path as given; relative remote paths start at the remote user's home
+   */
+  path: string;
+}
+
+/**
+ * Side of a copy once connected: the filesystem to use and the absolute path on it
+ */
+interface ScpEndpoint {
+  fileSystem: FileSystem;
+  path: string;
+
+  /**
+   * Remote host the data goes to or comes from, which sets the transfer time
+   */
+  host?: HostInfo;
+}
+
+/**
+ * scp command - Copy files between this system and a remote host over ssh
+ */
+export class ScpCommand implements CommandModule {
+  private os: OS;
+
+  constructor(os: OS) {
+    this.os = os;
+  }
+
+  public get name(): string {
+    return 'scp';
+  }
+
+  public get description(): string {
+    return 'OpenSSH secure file copy';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'port', alias: 'P', type: 'number', default: 22, valueName: 'port', description: 'Port to connect to on the remote host' },
+      { name: 'recursive', alias: 'r', type: 'boolean', description: 'Copy directories recursively' },
+      { name: 'quiet', alias: 'q', type: 'boolean', description: 'Do not show the progress of each file' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('scp [OPTION]... source... target', this.options,
+      `Copy files between this system and a remote host, logging in like ssh.
+A remote file is written [user@]host:path; relative remote paths start at the
+remote user's home directory. Either the sources or the target are remote.`, `Examples:
+  scp admin@targetbank.com:notes.txt .          Download a file to the current directory
+  scp -r admin@targetbank.com:/var/www loot/    Download a directory
+  scp tool.sh admin@targetbank.com:/tmp/        Upload a file`);
+  }
+
+  /**
+   * Complete options, hostnames after user@, and local paths
+   */
+  public async complete(request: CompletionRequest, _context: CommandContext): Promise<string[] | null> {
+    const previous = request.args[request.args.length - 1];
+    if (previous === '-P') {
+      return [];
+    }
+    if (request.current.startsWith('-')) {
+      return TabCompletion.completeDeclaredOptions(this.options, request.current);
+    }
+    const at = request.current.indexOf('@');
+    if (at !== -1 && !request.current.includes(':')) {
+      return TabCompletion.completeHostnames(this.os, request.current, request.current.substring(0, at + 1)).map(host => host + ':');
+    }
+    return null;
+  }
+
+  /**
+   * Execute command with context and streams
+   * Returns 0 when every file was copied, 1 otherwise
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    if (args.args.length < 2) {
+      context.stderr.writeLine('usage: scp [-qr] [-P port] source ... target');
+      return 1;
+    }
+    const locations = args.args.map((arg: string) => this.parseLocation(arg));
+    const target: ScpLocation = locations[locations.length - 1];
+    const sources: ScpLocation[] = locations.slice(0, -1);
+
+    const remoteSources = sources.filter(source => source.hostName !== undefined);
+    if (target.hostName === undefined && remoteSources.length === 0) {
+      context.stderr.writeLine('scp: no remote file given; use cp to copy local files');
+      return 1;
+    }
+    if (target.hostName !== undefined && remoteSources.length > 0) {
+      context.stderr.writeLine('scp: copies between two remote hosts are not supported');
+      return 1;
+    }
+    if (remoteSources.length > 0 && remoteSources.length < sources.length) {
+      context.stderr.writeLine('scp: local and remote sources cannot be mixed');
+      return 1;
+    }
+
+    const connections = this.os.getConnectionTracker();
+    const opened: Connection[] = [];
+    try {
+      // One login per account and host, like the connection ssh keeps open
+      const logins = new Map<string, OS>();
+      const connect = async (location: ScpLocation): Promise<OS | null> => {
+        if (location.hostName === undefined) {
+          return this.os;
+        }
+        const key = `${location.user}@${location.hostName}`;
+        let system = logins.get(key);
+        if (!system) {
+          const remote = await RemoteConnection.sshLogin(this.os, location.hostName, args.port, location.user!, context);
+          if (!remote) {
+            context.stderr.writeLine('scp: Connection closed');
+            return null;
+          }
+          system = remote;
+          logins.set(key, system);
+          opened.push(connections.open(this.os.socketOwner('scp', context.job?.pid), 'tcp', remote.ipAddress, args.port));
+        }
+        return system;
+      };
+
+      const targetSystem = await connect(target);
+      if (!targetSystem) {
+        return 1;
+      }
+      const targetEndpoint = this.endpoint(targetSystem, target, context);
+      const targetIsDirectory = await targetEndpoint.fileSystem.exists(targetEndpoint.path)
+        && (await targetEndpoint.fileSystem.stat(targetEndpoint.path)).isDirectory;
+      if (sources.length > 1 && !targetIsDirectory) {
+        context.stderr.writeLine(`scp: ${target.path}: Not a directory`);
+        return 1;
+      }
+
+      let status = 0;
+      for (const source of sources) {
+        const sourceSystem = await connect(source);
+        if (!sourceSystem) {
+          return 1;
+        }
+        const sourceEndpoint = this.endpoint(sourceSystem, source, context);
+        const destination = targetIsDirectory
+          ? PathUtils.join(targetEndpoint.path, PathUtils.basename(sourceEndpoint.path))
+          : targetEndpoint.path;
+        const copied = await this.copy(sourceEndpoint, { ...targetEndpoint, path: destination }, source.path, args, context);
+        if (!copied) {
+          status = 1;
+        }
+      }
+      return status;
+    } catch (error) {
+      // Ctrl+C and broken pipes end the command
+      if (error instanceof JobInterruptedError) {
+        throw error;
+      }
+      context.stderr.writeLine(`scp: ${error instanceof Error ? error.message : String(error)}`);
+      return 1;
+    } finally {
+      opened.forEach(connection => connections.close(connection));
+    }
+  }
+
+  /**
+   * Split [user@]host:path; a colon after a slash, as in ./a:b, is part of a local path
+   */
+  private parseLocation(arg: string): ScpLocation {
+    const match = /^(?:([^@/:]+)@)?([^@/:]+):(.*)$/.exec(arg);
+    if (!match) {
+      return { path: arg };
+    }
+    return { user: match[1] ?? this.os.currentUserName, hostName: match[2], path: match[3] };
+  }
+
+  /**
+   * Get the filesystem and absolute path of a location on the system it belongs to
+   */
+  private endpoint(system: OS, location: ScpLocation, context: CommandContext): ScpEndpoint {
+    const fileSystem = system.getFileSystem();
+    if (location.hostName === undefined) {
+      return { fileSystem, path: fileSystem.parsePath(location.path, context.cwd) };
+    }
+    return { fileSystem, path: fileSystem.parsePath(location.path || '.', fileSystem.UserFolder), host: system.hostInfo ?? undefined };
+  }
+
+  /**
+   * Copy a file, or a directory with -r, showing the progress of each file
+   * @param name The source as given, for messages
+   * @returns False if something could not be copied
+   */
+  private async copy(source: ScpEndpoint, target: ScpEndpoint, name: string, args: CommandArgs, context: CommandContext): Promise<boolean> {
+    if (!await source.fileSystem.exists(source.path)) {
+      context.stderr.writeLine(`scp: ${name}: No such file or directory`);
+      return false;
+    }
+    const members = await ArchiveFiles.collect(source.fileSystem, source.path, PathUtils.basename(source.path), args.recursive);
+    if (members[0].isDirectory && !args.recursive) {
+      context.stderr.writeLine(`scp: ${name}: not a regular file`);
+      return false;
+    }
+
+    // The remote host is the one at either end
+    const host = source.host ?? target.host!;
+    let copied = true;
+    for (const member of members) {
+      const relative = member.name.split('/').slice(1).join('/');
+      const path = relative ? PathUtils.join(target.path, relative) : target.path;
+
+      if (member.isDirectory) {
+        await ArchiveFiles.createDirectories(target.fileSystem, path);
+        continue;
+      }
+      if (!await source.fileSystem.canIRead(member.path)) {
+        context.stderr.writeLine(`scp: ${member.path}: Permission denied`);
+        copied = false;
+        continue;
+      }
+      const existing = await target.fileSystem.exists(path);
+      if (!await target.fileSystem.canIWrite(existing ? path : PathUtils.dirname(path))) {
+        context.stderr.writeLine(`scp: ${path}: Permission denied`);
+        copied = false;
+        continue;
+      }
+
+      const bytes = await ArchiveFiles.readBytes(source.fileSystem, member.path);
+      const duration = await RemoteConnection.transfer(this.os, host, bytes.length, context);
+      await ArchiveFiles.writeBytes(target.fileSystem, path, bytes);
+      if (!args.quiet) {
+        context.stdout.writeLine(this.formatProgress(PathUtils.basename(member.path), bytes.length, duration));
+      }
+    }
+    return copied;
+  }
+
+  /**
+   * Format the line shown when a file is copied, like
+   * notes.txt                100%  123     2.1KB/s   00:00
+   */
+  private formatProgress(fileName: string, bytes: number, milliseconds: number): string {
+    const size = bytes < 1024 ? String(bytes) : `${(bytes / 1024).toFixed(1)}KB`;
+    const rate = RemoteConnection.formatRate(bytes, milliseconds).replace(' ', '');
+    const seconds = Math.round(milliseconds / 1000);
+    const time = `${String(Math.floor(seconds / 60)).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`;
+    return `${fileName.padEnd(32)} 100% ${size.padStart(6)} ${rate.padStart(10)}   ${time}`;
+  }
+}
@@ -0,0 +1,247 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { OS } from '../../core/os';
+import { CommandPipe } from '../command-pipe';
+import { JobControl, JobInterruptedError } from '../job-control';
+import { CommandOption, CommandOptions } from '../command-options';
+import { SedScript } from '../sed-script';
+
+/**
+ * sed command - Stream editor for filtering and transforming text
+ */
+export class SedCommand implements CommandModule {
+  private os: OS;
+
+  constructor(os: OS) {
+    this.os = os;
+  }
+
+  public get name(): string {
+    return 'sed';
+  }
+
+  public get description(): string {
+    return 'Stream editor for filtering and transforming text';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'quiet', alias: 'n', type: 'boolean', description: 'Suppress automatic printing of pattern space' },
+      { name: 'expression', alias: 'e', type: 'string', repeatable: true, valueName: 'script', description: 'Add the script to the commands to be executed' },
+      { name: 'file', alias: 'f', type: 'string', repeatable: true, valueName: 'script-file', description: 'Add the contents of script-file to the commands to be executed' },
+      { name: 'in-place', alias: 'i', type: 'boolean', description: 'Edit files in place' },
+      { name: 'regexp-extended', alias: ['E', 'r'], type: 'boolean', description: 'Use extended regular expressions in the script' },
+      { name: 'separate', alias: 's', type: 'boolean', description: 'Consider files as separate rather than as a single stream' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('sed [options] script [file...]', this.options, `Run the script on each line of the files, or of standard input, and print the result.
+
+Addresses select lines: a number, $ for the last line, /regex/, first~step,
+or a range addr1,addr2. A ! after the address inverts it.
+
+Commands:
+  s/regex/replacement/flags   Replace matches (flags: g, p, i, or a number N)
+  y/source/dest/              Translate characters
+  d                           Delete the line
+  p                           Print the line
+  =                           Print the line number
+  a text, i text, c text      Append, insert or change lines
+  q [code], Q [code]          Quit, printing the line or not
+  { commands }                Group commands under one address`, `Examples:
+  sed 's/foo/bar/g' file.txt         Replace every foo with bar
+  sed -n '10,20p' file.txt           Print lines 10 to 20
+  sed '/^#/d' config                 Delete comment lines
+  sed -i 's/debug=1/debug=0/' conf   Edit a file in place
+  sed -E 's/([a-z]+)@/\\1 at /' list    Use extended regular expressions
+  cat log | sed -n '/ERROR/,$p'      Print from the first error to the end`);
+  }
+
+  /**
+   * Execute command with context and streams
+   * Returns exit code (0 for success, 1 for an invalid script, 2 for unreadable files)
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    try {
+      const fileSystem = this.os.getFileSystem();
+      const files = [...args.args];
+
+      // The script comes from -e and -f, or else from the first argument
+      const scripts: string[] = [...args.expression];
+      for (const scriptFile of args.file as string[]) {
+        const path = fileSystem.parsePath(scriptFile, context.cwd);
+        if (!await fileSystem.exists(path)) {
+          context.stderr.writeLine(`sed: couldn't open file ${scriptFile}: No such file or directory`);
+          return 1;
+        }
+        scripts.push((await fileSystem.readFile(path)).replace(/\n$/, ''));
+      }
+      if (scripts.length === 0) {
+        if (files.length === 0) {
+          context.stderr.writeLine('sed: no script specified');
+          context.stderr.writeLine("Try 'sed --help' for more information.");
+          return 1;
+        }
+        scripts.push(files.shift()!);
+      }
+
+      let script: SedScript;
+      try {
+        script = SedScript.parse(scripts.join('\n'), args['regexp-extended']);
+      } catch (error) {
+        context.stderr.writeLine(`sed: ${error instanceof Error ? error.message : String(error)}`);
+        return 1;
+      }
+
+      if (args['in-place']) {
+        if (files.length === 0) {
+          context.stderr.writeLine('sed: no input files');
+          return 1;
+        }
+        return await this.editInPlace(script, files, args.quiet, context);
+      }
+
+      if (args.separate) {
+        let exitCode = 0;
+        for (const file of files) {
+          script.reset();
+          const result = await this.runScript(script, this.readLines([file], context), args.quiet, context);
+          if (result.quit) return result.exitCode;
+          exitCode = Math.max(exitCode, result.readError ? 2 : 0);
+        }
+        return exitCode;
+      }
+
+      const result = await this.runScript(script, this.readLines(files, context), args.quiet, context);
+      return result.quit ? result.exitCode : result.readError ? 2 : 0;
+    } catch (error) {
+      // Ctrl+C and broken pipes end the command
+      if (error instanceof JobInterruptedError) {
+        throw error;
+      }
+      context.stderr.writeLine(`sed: ${error instanceof Error ? error.message : String(error)}`);
+      return 1;
+    }
+  }
+
+  /**
+   * Run the script on each line of the input and print the result as it is produced
+   */
+  private async runScript(
+    script: SedScript,
+    input: AsyncGenerator<string, boolean>,
+    quiet: boolean,
+    context: CommandContext
+  ): Promise<{ quit: boolean; exitCode: number; readError: boolean }> {
+    let lineNumber = 0;
+
+    // Read one line ahead, to know which line is the last one ($)
+    let next = await input.next();
+    while (!next.done) {
+      const line = next.value;
+      next = await input.next();
+
+      const result = script.execute(line, ++lineNumber, next.done === true, quiet);
+      for (const output of result.output) {
+        context.stdout.writeLine(output);
+      }
+
+      // Stop when the reader of our output has exited
+      await JobControl.checkpoint(context);
+
+      if (result.quit) {
+        await input.return(false);
+        return { quit: true, exitCode: result.exitCode, readError: false };
+      }
+    }
+
+    return { quit: false, exitCode: 0, readError: next.value };
+  }
+
+  /**
+   * Read the lines of files as one stream; no files or - means standard input
+   * @returns True when a file could not be read
+   */
+  private async *readLines(files: string[], context: CommandContext): AsyncGenerator<string, boolean> {
+    const fileSystem = this.os.getFileSystem();
+    let readError = false;
+
+    if (files.length === 0) {
+      files = ['-'];
+    }
+
+    for (const file of files) {
+      if (file === '-') {
+        yield* CommandPipe.lines(context.stdin);
+        continue;
+      }
+
+      const path = fileSystem.parsePath(file, context.cwd);
+      if (!await fileSystem.exists(path)) {
+        context.stderr.writeLine(`sed: can't read ${file}: No such file or directory`);
+        readError = true;
+        continue;
+      }
+      if ((await fileSystem.stat(path)).isDirectory) {
+        context.stderr.writeLine(`sed: read error on ${file}: Is a directory`);
+        readError = true;
+        continue;
+      }
+
+      yield* this.splitLines(await fileSystem.readFile(path));
+    }
+
+    return readError;
+  }
+
+  /**
+   * Run the script on each file separately and write the result back to the file (sed -i)
+   */
+  private async editInPlace(script: SedScript, files: string[], quiet: boolean, context: CommandContext): Promise<number> {
+    const fileSystem = this.os.getFileSystem();
+    let exitCode = 0;
+
+    for (const file of files) {
+      const path = fileSystem.parsePath(file, context.cwd);
+      if (!await fileSystem.exists(path)) {
+        context.stderr.writeLine(`sed: can't read ${file}: No such file or directory`);
+        exitCode = 2;
+        continue;
+      }
+      if ((await fileSystem.stat(path)).isDirectory) {
+        context.stderr.writeLine(`sed: couldn't edit ${file}: not a regular file`);
+        exitCode = 2;
+        continue;
+      }
+
+      const content = await fileSystem.readFile(path);
+      const lines = this.splitLines(content);
+      const output: string[] = [];
+      let quit = false;
+      script.reset();
+
+      for (let i = 0; i < lines.length && !quit; i++) {
+        const result = script.execute(lines[i], i + 1, i === lines.length - 1, quiet);
+        output.push(...result.output);
+        quit = result.quit;
+        exitCode = quit ? result.exitCode : exitCode;
+        await JobControl.checkpoint(context);
+      }
+
+      // Keep the missing newline at the end of a file that had none
+      const newline = output.length > 0 && content.endsWith('\n') ? '\n' : '';
+      await fileSystem.writeFile(path, output.join('\n') + newline);
+
+      if (quit) break;
+    }
+
+    return exitCode;
+  }
+
+  private splitLines(content: string): string[] {
+    if (content === '') {
+      return [];
+    }
+    return content.replace(/\n$/, '').split('\n');
+  }
+}
@@ -0,0 +1,101 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { OS } from '../../core/os';
+import { ShellInterpreter } from '../shell-interpreter';
+
+/**
+ * sh command - Run shell scripts
+ */
+export class ShCommand implements CommandModule {
+  private os: OS;
+
+  constructor(os: OS) {
+    this.os = os;
+  }
+
+  public get name(): string {
+    return 'sh';
+  }
+
+  public get description(): string {
+    return 'Run a shell script';
+  }
+
+  public get usage(): string {
+    return `Usage: sh [file [arg ...]]
+       sh -c command [name [arg ...]]
+
+Run commands from a script file, from a string (-c) or from standard input.
+Arguments are available in the script as $1, $2 ... and "$@".
+
+Scripts support variables, $((arithmetic)), if/elif/else/fi, for and while/until
+loops, functions with local variables, exit, return, break, continue and shift.
+A script runs in its own environment and working directory.
+
+A script made executable with chmod +x can also be run as ./script.sh
+
+Examples:
+  sh scan.sh 10.0.0.1
+  sh -c 'for h in 1 2 3; do ping -c 1 10.0.0.$h; done'
+  chmod +x attack.sh && ./attack.sh target.com`;
+  }
+
+  /**
+   * Execute the sh command
+   * @param args Command arguments
+   * @param context Command execution context
+   * @returns Exit code of the script
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    // Arguments after the script belong to the script, so read them unparsed
+    const argv = args.argv ?? args.args;
+    const fileSystem = this.os.getFileSystem();
+    let script: string;
+    let positionalArgs: string[];
+
+    if (argv[0] === '-c') {
+      if (argv.length < 2) {
+        context.stderr.writeLine('sh: -c: option requires an argument');
+        return 2;
+      }
+      script = argv[1];
+      positionalArgs = argv.length > 2 ? argv.slice(2) : ['sh'];
+    } else if (argv.length > 0) {
+      const path = fileSystem.parsePath(argv[0], context.cwd);
+
+      if (!await fileSystem.exists(path)) {
+        context.stderr.writeLine(`sh: ${argv[0]}: No such file or directory`);
+        return 127;
+      }
+
+      if ((await fileSystem.stat(path)).isDirectory) {
+        context.stderr.writeLine(`sh: ${argv[0]}: Is a directory`);
+        return 126;
+      }
+
+      if (!await fileSystem.canIRead(path)) {
+        context.stderr.writeLine(`sh: ${argv[0]}: Permission denied`);
+        return 126;
+      }
+
+      script = await fileSystem.readFile(path);
+      positionalArgs = argv;
+    } else {
+      script = await context.stdin.read();
+      positionalArgs = ['sh'];
+    }
+
+    // The script gets a copy of the environment and its own working directory,
+    // so variables and cd inside it do not change the terminal session
+    const processor = this.os.getCommandProcessor();
+    const scriptContext = processor.createChildContext(context, { ...context.env });
+    let cwd = context.cwd;
+    Object.defineProperty(scriptContext, 'cwd', {
+      get: () => cwd,
+      set: (newPath: string) => { cwd = newPath; }
+    });
+    scriptContext.positionalArgs = positionalArgs;
+    scriptContext.lastExitCode = 0;
+
+    return new ShellInterpreter(processor, scriptContext).run(script);
+  }
+}
@@ -1,5 +1,6 @@
 import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
 import { OS } from '../../core/os';
+import { CommandOption, CommandOptions } from '../command-options';
 
 /**
  * sort command - Sort lines of text files
@@ -18,26 +19,25 @@ export class SortCommand implements CommandModule {
   public get description(): string {
     return 'Sort lines of text files';
   }
-    public get usage(): string {
-    return `Usage: sort [options] [file...]
-
-Sort lines of text files.
-
-Options:
-  -r, --reverse       reverse the result of comparisons
-  -f, --ignore-case   fold lower case to upper case characters
-  -n, --numeric-sort  compare according to string numerical value
-  -u, --unique        output only the first of an equal run
+  public get options(): CommandOption[] {
+    return [
+      { name: 'reverse', alias: 'r', type: 'boolean', description: 'Reverse the result of comparisons' },
+      { name: 'ignore-case', alias: 'f', type: 'boolean', description: 'Fold lower case to upper case characters' },
+      { name: 'numeric-sort', alias: 'n', type: 'boolean', description: 'Compare according to string numerical value' },
+      { name: 'unique', alias: 'u', type: 'boolean', description: 'Output only the first of an equal run' }
+    ];
+  }
 
-If no file is specified, read from standard input.
+  public get usage(): string {
+    return CommandOptions.formatUsage('sort [options] [file...]', this.options, `Sort lines of text files.
 
-Examples:
+If no file is specified, read from standard input.`, `Examples:
   sort file.txt                Sort lines in file.txt
   sort -r file.txt             Sort lines in reverse order
   sort -f file.txt             Sort lines ignoring case
   sort -n file.txt             Sort lines numerically
   sort -u file.txt             Output only unique lines
-  echo "text" | sort           Sort text from standard input`;
+  echo "text" | sort           Sort text from standard input`);
   }
   
   /**
@@ -47,10 +47,10 @@ Examples:
   public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
     try {
       // Parse options
-      const reverse = args.r || args.reverse || false; // -r, --reverse
-      const ignoreCase = args.f || args['ignore-case'] || false; // -f, --ignore-case
-      const numeric = args.n || args.numeric || false; // -n, --numeric-sort
-      const unique = args.u || args.unique || false; // -u, --unique
+      const reverse = args.reverse; // -r, --reverse
+      const ignoreCase = args['ignore-case']; // -f, --ignore-case
+      const numeric = args['numeric-sort']; // -n, --numeric-sort
+      const unique = args.unique; // -u, --unique
       
       // Get files from arguments
       const files = args.args;
@@ -65,7 +65,7 @@ Examples:
         // Read content from each file
         for (const file of files) {
           try {
-            const fileContent = await this.os.getFileSystem().readFile(file);
+            const fileContent = await this.os.getFileSystem().readFile(this.os.getFileSystem().parsePath(file, context.cwd));
             content += fileContent + '\n';
           } catch (error) {
             context.stderr.writeLine(`sort: cannot read '${file}': ${error}`);
@@ -0,0 +1,74 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { OS } from '../../core/os';
+import { ShellInterpreter } from '../shell-interpreter';
+
+/**
+ * source command - Run a script in the current shell session
+ */
+export class SourceCommand implements CommandModule {
+  private os: OS;
+
+  constructor(os: OS) {
+    this.os = os;
+  }
+
+  public get name(): string {
+    return 'source';
+  }
+
+  public get description(): string {
+    return 'Run commands from a file in the current shell';
+  }
+
+  public get usage(): string {
+    return `Usage: source file [arg ...]
+       . file [arg ...]
+
+Read and run the commands of a file in the current shell session. Unlike sh,
+variables, aliases and cd in the file change the session itself, which is how
+~/.bashrc is loaded when a terminal starts.
+
+Examples:
+  source ~/.bashrc            # Reload the startup file after editing it
+  . ./env.sh                  # Load variables defined in env.sh`;
+  }
+
+  /**
+   * Execute the source command
+   * @param args Command arguments
+   * @param context Command execution context
+   * @returns Exit code of the last command of the file
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    // Arguments after the file belong to the file, so read them unparsed
+    const argv = args.argv ?? args.args;
+    const fileSystem = this.os.getFileSystem();
+
+    if (argv.length === 0) {
+      context.stderr.writeLine('source: filename argument required');
+      context.stderr.writeLine('source: usage: source filename [arguments]');
+      return 2;
+    }
+
+    const path = fileSystem.parsePath(argv[0], context.cwd);
+    if (!await fileSystem.exists(path) || (await fileSystem.stat(path)).isDirectory) {
+      context.stderr.writeLine(`source: ${argv[0]}: No such file or directory`);
+      return 1;
+    }
+    if (!await fileSystem.canIRead(path)) {
+      context.stderr.writeLine(`source: ${argv[0]}: Permission denied`);
+      return 1;
+    }
+
+    const script = await fileSystem.readFile(path);
+
+    // Arguments replace the positional parameters only while the file runs
+    let sourceContext = context;
+    if (argv.length > 1) {
+      sourceContext = Object.create(context);
+      sourceContext.positionalArgs = [context.positionalArgs?.[0] ?? 'bash', ...argv.slice(1)];
+    }
+
+    return new ShellInterpreter(this.os.getCommandProcessor(), sourceContext).run(script);
+  }
+}
@@ -0,0 +1,108 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { OS } from '../../core/os';
+import { Connection, ConnectionTracker } from '../../core/network';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * Socket states as ss names them
+ */
+const SS_STATES: Record<Connection['state'], string> = {
+  LISTEN: 'LISTEN',
+  ESTABLISHED: 'ESTAB',
+  TIME_WAIT: 'TIME-WAIT',
+  UNCONN: 'UNCONN'
+};
+
+/**
+ * ss command - Another utility to investigate sockets
+ */
+export class SsCommand implements CommandModule {
+  private os: OS;
+
+  constructor(os: OS) {
+    this.os = os;
+  }
+
+  public get name(): string {
+    return 'ss';
+  }
+
+  public get description(): string {
+    return 'Another utility to investigate sockets';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'tcp', alias: 't', type: 'boolean', description: 'Display TCP sockets' },
+      { name: 'udp', alias: 'u', type: 'boolean', description: 'Display UDP sockets' },
+      { name: 'raw', alias: 'w', type: 'boolean', description: 'Display raw sockets' },
+      { name: 'listening', alias: 'l', type: 'boolean', description: 'Display only listening sockets' },
+      { name: 'all', alias: 'a', type: 'boolean', description: 'Display both listening and non-listening sockets' },
+      { name: 'numeric', alias: 'n', type: 'boolean', description: 'Do not resolve service names' },
+      { name: 'processes', alias: 'p', type: 'boolean', description: 'Show the process using each socket' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('ss [OPTION]...', this.options,
+      `Dump socket statistics, like netstat: the services listening on the ports of
+this system and the connections opened by its programs. Without -l or -a,
+only connections are shown.`, `Examples:
+  ss -tulpn             Listening TCP and UDP ports with their processes
+  ss -ta                All TCP sockets`);
+  }
+
+  /**
+   * Execute command with context and streams
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    const protocols = (['tcp', 'udp', 'raw'] as const).filter(protocol => args[protocol]);
+    const sockets = this.os.getConnectionTracker().getConnections(this.os.ipAddress)
+      .filter(socket => protocols.length === 0 || protocols.includes(socket.protocol))
+      .filter(socket => args.all || (args.listening ? socket.remoteAddress === '0.0.0.0' : socket.remoteAddress !== '0.0.0.0'));
+
+    const rows = [['Netid', 'State', 'Recv-Q', 'Send-Q', 'Local Address:Port', 'Peer Address:Port', args.processes ? 'Process' : '']];
+    for (const socket of sockets) {
+      rows.push([
+        socket.protocol,
+        SS_STATES[socket.state],
+        '0',
+        '0',
+        this.formatAddress(socket.localAddress, socket.localPort, args.numeric),
+        this.formatAddress(socket.remoteAddress, socket.remotePort, args.numeric),
+        args.processes ? this.formatProcess(socket) : ''
+      ]);
+    }
+
+    // Columns are as wide as their widest cell; addresses are right-aligned like ss does
+    const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+    for (const row of rows) {
+      const cells = row.map((cell, column) => column === 4 || column === 5 ? cell.padStart(widths[column]) : cell.padEnd(widths[column]));
+      context.stdout.writeLine(cells.join(' ').trimEnd());
+    }
+    return 0;
+  }
+
+  /**
+   * Format address:port, with the service name of the port unless numeric
+   */
+  private formatAddress(address: string, port: number, numeric: boolean): string {
+    const portName = port === 0 ? '*' : numeric ? String(port) : (ConnectionTracker.portName(port) ?? String(port));
+    return `${address}:${portName}`;
+  }
+
+  /**
+   * Format the process of a socket, like users:(("sshd",pid=4,fd=3)). Sockets in TIME-WAIT
+   * have none, and only root sees the processes of other users.
+   */
+  private formatProcess(socket: Connection): string {
+    const isRoot = this.os.currentUserName === 'root';
+    if (socket.state === 'TIME_WAIT' || (!isRoot && socket.owner.user !== this.os.currentUserName)) {
+      return '';
+    }
+    // Services of this machine are its system processes, like sshd
+    const pid = socket.owner.pid ?? (this.os.hostInfo ? undefined
+      : this.os.getProcessManager().getAllProcesses().find(process => process.name === socket.owner.program)?.pid);
+    return `users:(("${socket.owner.program}"${pid !== undefined ? `,pid=${pid}` : ''},fd=3))`;
+  }
+}
@@ -0,0 +1,152 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { OS } from '../../core/os';
+import { ShellEnvironment } from '../shell-environment';
+import { CommandInput } from '../command-input';
+import { CompletionRequest, TabCompletion } from '../tab-completion';
+import { JobInterruptedError } from '../job-control';
+import { RemoteConnection } from '../remote-connection';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * Exit code of ssh for its own errors, as opposed to the exit code of the remote command
+ */
+const SSH_ERROR_EXIT_CODE = 255;
+
+/**
+ * ssh command - Log in to a remote host and run a shell or a command there
+ */
+export class SshCommand implements CommandModule {
+  private os: OS;
+
+  constructor(os: OS) {
+    this.os = os;
+  }
+
+  public get name(): string {
+    return 'ssh';
+  }
+
+  public get description(): string {
+    return 'OpenSSH remote login client';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'port', alias: 'p', type: 'number', default: 22, valueName: 'port', description: 'Port to connect to on the remote host' },
+      { name: 'login', alias: 'l', type: 'string', valueName: 'login_name', description: 'User to log in as on the remote host' }
+    ];
+  }
+
+  /**
+   * The remote command keeps its own options
+   */
+  public get optionsEndAtOperand(): boolean {
+    return true;
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('ssh [OPTION]... [user@]hostname [command]', this.options,
+      `Log in to a remote host and open a shell there; exit returns to the previous shell.
+With a command, run it on the remote host instead and exit with its status.
+From a remote host, ssh can reach hosts of its private network (pivoting).`, `Examples:
+  ssh admin@targetbank.com              Open a shell on targetbank.com
+  ssh -l admin 192.168.1.30 cat /etc/passwd
+  ssh dbadmin@10.0.0.5                  From targetbank.com, reach its database server`);
+  }
+
+  /**
+   * Complete options and hostnames, also after user@
+   */
+  public async complete(request: CompletionRequest, _context: CommandContext): Promise<string[] | null> {
+    const previous = request.args[request.args.length - 1];
+    if (previous === '-p' || previous === '-l') {
+      return [];
+    }
+    if (request.current.startsWith('-')) {
+      return TabCompletion.completeDeclaredOptions(this.options, request.current);
+    }
+    const at = request.current.indexOf('@');
+    return TabCompletion.completeHostnames(this.os, request.current, at === -1 ? '' : request.current.substring(0, at + 1));
+  }
+
+  /**
+   * Execute command with context and streams
+   * Returns the exit code of the remote command, 0 when a shell was opened, or 255 for errors
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    const destination: string | undefined = args.args[0];
+    if (destination === undefined) {
+      context.stderr.writeLine('usage: ssh [-l login_name] [-p port] [user@]hostname [command]');
+      return SSH_ERROR_EXIT_CODE;
+    }
+    const at = destination.lastIndexOf('@');
+    const hostName = at === -1 ? destination : destination.substring(at + 1);
+    const user: string = args.login ?? (at === -1 ? this.os.currentUserName : destination.substring(0, at));
+    const command = args.args.slice(1).join(' ');
+    const port: number = args.port;
+
+    // The shell replaces the terminal's, so it needs one
+    if (!command && !context.terminalApp) {
+      context.stderr.writeLine(`ssh: ${hostName}: a shell needs a terminal; give a command to run instead`);
+      return SSH_ERROR_EXIT_CODE;
+    }
+
+    try {
+      const remote = await RemoteConnection.sshLogin(this.os, hostName, port, user, context);
+      if (!remote) {
+        return SSH_ERROR_EXIT_CODE;
+      }
+
+      // The connection is in the connection tables of both hosts until the session ends
+      const connections = this.os.getConnectionTracker();
+      const connection = connections.open(this.os.socketOwner('ssh', context.job?.pid), 'tcp', remote.ipAddress, port);
+      if (command) {
+        try {
+          return await remote.getCommandProcessor().processCommand(command, this.createRemoteContext(context, remote));
+        } finally {
+          connections.close(connection);
+        }
+      }
+
+      const fileSystem = remote.getFileSystem();
+      if (await fileSystem.exists('/etc/motd')) {
+        for (const line of CommandInput.splitLines(await fileSystem.readFile('/etc/motd'))) {
+          context.stdout.writeLine(line);
+        }
+      }
+      await context.terminalApp!.openRemoteShell(remote, `Connection to ${hostName} closed.`, () => connections.close(connection));
+      return 0;
+    } catch (error) {
+      // Ctrl+C and broken pipes end the command
+      if (error instanceof JobInterruptedError) {
+        throw error;
+      }
+      context.stderr.writeLine(`ssh: ${error instanceof Error ? error.message : String(error)}`);
+      return SSH_ERROR_EXIT_CODE;
+    }
+  }
+
+  /**
+   * Create the context of a command run on the remote host: it has the remote user's
+   * environment and home directory, and no terminal or functions of a local script
+   */
+  private createRemoteContext(context: CommandContext, remote: OS): CommandContext {
+    const remoteContext: CommandContext = Object.create(context);
+    let cwd = remote.getFileSystem().UserFolder;
+    Object.defineProperty(remoteContext, 'cwd', {
+      get: () => cwd,
+      set: (path: string) => {
+        cwd = path;
+        remoteContext.env.PWD = path;
+      }
+    });
+    remoteContext.os = remote;
+    remoteContext.env = ShellEnvironment.createDefault(remote, cwd);
+    remoteContext.aliases = {};
+    remoteContext.lastExitCode = 0;
+    remoteContext.positionalArgs = undefined;
+    remoteContext.terminalApp = undefined;
+    remoteContext.shellCommand = undefined;
+    return remoteContext;
+  }
+}
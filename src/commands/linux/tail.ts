@@ -1,5 +1,6 @@
 import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
 import { OS } from '../../core/os';
+import { CommandOption, CommandOptions } from '../command-options';
 
 /**
  * tail command - Output the last part of files
@@ -18,17 +19,16 @@ export class TailCommand implements CommandModule {
   public get description(): string {
     return 'Output the last part of files';
   }
-    public get usage(): string {
-    return `Usage: tail [options] [file...]
-
-Output the last part of files.
-
-Options:
-  -n <num>           output the last <num> lines (default: 10)
-  -<num>             same as -n <num>
-  -f, --follow       output appended data as the file grows (not fully supported)
-
-If no file is specified, read from standard input.
+  
+  public get options(): CommandOption[] {
+    return [
+      { name: 'lines', alias: 'n', type: 'number', valueName: 'num', description: 'Output the last <num> lines (default: 10); -<num> is the same' },
+      { name: 'follow', alias: 'f', type: 'boolean', description: 'Output appended data as the file grows (not fully supported)' }
+    ];
+  }
+  
+  public get usage(): string {
+    return CommandOptions.formatUsage('tail [options] [file...]', this.options, 'Output the last part of files.', `If no file is specified, read from standard input.
 
 Examples:
   tail file.txt              Display last 10 lines of file.txt
@@ -36,7 +36,7 @@ Examples:
   tail -15 file.txt          Display last 15 lines of file.txt
   tail -f log.txt            Follow and display new content as it's added
   tail file1.txt file2.txt   Display last 10 lines of multiple files
-  cat file.txt | tail        Display last 10 lines from standard input`;
+  cat file.txt | tail        Display last 10 lines from standard input`);
   }
   
   /**
@@ -50,15 +50,12 @@ Examples:
       let numLines = 10;
       
       // Parse -n option
-      if (args.n !== undefined) {
-        const n = parseInt(args.n.toString());
-        if (!isNaN(n)) {
-          numLines = n;
-        }
+      if (args.lines !== undefined) {
+        numLines = args.lines;
       }
       
       // Parse first argument as number if no -n provided
-      if (args.n === undefined && args.args.length > 0 && args.args[0].startsWith('-')) {
+      if (args.lines === undefined && args.args.length > 0 && args.args[0].startsWith('-')) {
         const n = parseInt(args.args[0].substring(1));
         if (!isNaN(n)) {
           numLines = n;
@@ -67,7 +64,7 @@ Examples:
       }
       
       // Handle special case: -f (follow) option
-      const follow = args.f || args.follow || false;
+      const follow = args.follow;
       if (follow) {
         context.stderr.writeLine('tail: warning: --follow (-f) is not fully supported in this environment');
       }
@@ -89,7 +86,7 @@ Examples:
       for (const file of files) {
         try {
           // Read file content
-          const content = await this.os.getFileSystem().readFile(file);
+          const content = await this.os.getFileSystem().readFile(this.os.getFileSystem().parsePath(file, context.cwd));
           
           // If multiple files, print filename header
           if (files.length > 1) {
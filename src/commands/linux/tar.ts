@@ -0,0 +1,240 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { OS } from '../../core/os';
+import { PathUtils } from '../../core/path-utils';
+import { ArchiveFiles } from '../archive-files';
+import { TarArchive, TarEntry } from '../tar-archive';
+import { JobControl, JobInterruptedError } from '../job-control';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * tar command - Create, list and extract tar archives
+ */
+export class TarCommand implements CommandModule {
+  private os: OS;
+
+  constructor(os: OS) {
+    this.os = os;
+  }
+
+  public get name(): string {
+    return 'tar';
+  }
+
+  public get description(): string {
+    return 'Create, list and extract tar archives';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'create', alias: 'c', type: 'boolean', description: 'Create a new archive' },
+      { name: 'extract', alias: 'x', type: 'boolean', description: 'Extract files from an archive' },
+      { name: 'list', alias: 't', type: 'boolean', description: 'List the contents of an archive' },
+      { name: 'file', alias: 'f', type: 'string', valueName: 'archive', description: 'Use archive file' },
+      { name: 'gzip', alias: 'z', type: 'boolean', description: 'Compress the archive with gzip; compressed archives are read without it too' },
+      { name: 'directory', alias: 'C', type: 'string', valueName: 'dir', description: 'Change to dir before creating or extracting' },
+      { name: 'verbose', alias: 'v', type: 'boolean', description: 'List the files processed' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('tar -c|-x|-t [OPTION]... -f ARCHIVE [FILE]...', this.options,
+      'Store FILEs in ARCHIVE, or list or extract the FILEs of ARCHIVE (all files when none are given).\nPermissions and modification times are kept.', `Examples:
+  tar -cvf backup.tar docs/      Archive the docs directory
+  tar -czf logs.tar.gz /var/log  Archive and compress the logs
+  tar -tvf backup.tar            List the archive with details
+  tar -xzf logs.tar.gz -C /tmp   Extract the logs into /tmp`);
+  }
+
+  /**
+   * Execute command with context and streams
+   * Returns exit code (0 for success, 2 for errors)
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    const modes = ['create', 'extract', 'list'].filter(mode => args[mode]);
+    if (modes.length !== 1) {
+      context.stderr.writeLine(modes.length === 0
+        ? "tar: You must specify one of the '-c', '-t' or '-x' options"
+        : "tar: You may not specify more than one '-c', '-t' or '-x' option");
+      context.stderr.writeLine("Try 'tar --help' for more information.");
+      return 2;
+    }
+    if (args.file === undefined) {
+      context.stderr.writeLine('tar: Refusing to use the terminal as archive; use -f ARCHIVE');
+      return 2;
+    }
+
+    try {
+      const fileSystem = this.os.getFileSystem();
+      const directory = args.directory !== undefined ? fileSystem.parsePath(args.directory, context.cwd) : context.cwd;
+      if (!await fileSystem.exists(directory) || !(await fileSystem.stat(directory)).isDirectory) {
+        context.stderr.writeLine(`tar: ${args.directory}: Cannot open: No such file or directory`);
+        return 2;
+      }
+
+      if (args.create) {
+        return await this.create(args, context, directory);
+      }
+
+      const archivePath = fileSystem.parsePath(args.file, context.cwd);
+      if (!await fileSystem.exists(archivePath) || (await fileSystem.stat(archivePath)).isDirectory) {
+        context.stderr.writeLine(`tar: ${args.file}: Cannot open: No such file or directory`);
+        return 2;
+      }
+      let data = await ArchiveFiles.readBytes(fileSystem, archivePath);
+      if (ArchiveFiles.isGzip(data)) {
+        data = (await ArchiveFiles.gunzip(data)).data;
+      }
+
+      // Select the entries given as operands, with everything below them
+      const entries = TarArchive.unpack(data);
+      const selected = args.args.length === 0 ? entries : entries.filter(entry =>
+        args.args.some(name => this.matches(entry.name, name)));
+      let exitCode = 0;
+      for (const name of args.args) {
+        if (!entries.some(entry => this.matches(entry.name, name))) {
+          context.stderr.writeLine(`tar: ${name}: Not found in archive`);
+          exitCode = 2;
+        }
+      }
+
+      const status = args.list
+        ? await this.list(selected, args.verbose, context)
+        : await this.extract(selected, args.verbose, context, directory);
+      return Math.max(status, exitCode);
+    } catch (error) {
+      // Ctrl+C and broken pipes end the command
+      if (error instanceof JobInterruptedError) {
+        throw error;
+      }
+      context.stderr.writeLine(`tar: ${error instanceof Error ? error.message : String(error)}`);
+      return 2;
+    }
+  }
+
+  private async create(args: CommandArgs, context: CommandContext, directory: string): Promise<number> {
+    if (args.args.length === 0) {
+      context.stderr.writeLine('tar: Cowardly refusing to create an empty archive');
+      return 2;
+    }
+
+    const fileSystem = this.os.getFileSystem();
+    const archivePath = fileSystem.parsePath(args.file, context.cwd);
+    const entries: TarEntry[] = [];
+    let exitCode = 0;
+    let removedSlash = false;
+
+    for (const file of args.args) {
+      const path = fileSystem.parsePath(file, directory);
+      if (!await fileSystem.exists(path)) {
+        context.stderr.writeLine(`tar: ${file}: Cannot stat: No such file or directory`);
+        exitCode = 2;
+        continue;
+      }
+      if (file.startsWith('/') && !removedSlash) {
+        context.stderr.writeLine("tar: Removing leading '/' from member names");
+        removedSlash = true;
+      }
+
+      for (const member of await ArchiveFiles.collect(fileSystem, path, file, true)) {
+        if (member.path === archivePath) {
+          context.stderr.writeLine(`tar: ${member.name}: file is the archive; not dumped`);
+          continue;
+        }
+        entries.push({
+          ...member,
+          data: member.isDirectory ? new Uint8Array(0) : await ArchiveFiles.readBytes(fileSystem, member.path)
+        });
+        if (args.verbose) {
+          context.stdout.writeLine(member.isDirectory ? `${member.name}/` : member.name);
+          await JobControl.checkpoint(context);
+        }
+      }
+    }
+
+    let archive = TarArchive.pack(entries);
+    if (args.gzip) {
+      archive = await ArchiveFiles.gzip(archive, new Date());
+    }
+    await ArchiveFiles.writeBytes(fileSystem, archivePath, archive);
+    return exitCode;
+  }
+
+  private async list(entries: TarEntry[], verbose: boolean, context: CommandContext): Promise<number> {
+    for (const entry of entries) {
+      const name = entry.isDirectory ? `${entry.name}/` : entry.name;
+      if (verbose) {
+        const permissions = ArchiveFiles.modeToPermissions(entry.mode, entry.isDirectory);
+        const owner = `${entry.owner}/${entry.owner}`;
+        context.stdout.writeLine(`${permissions} ${owner} ${String(entry.data.length).padStart(8)} ${this.formatDate(entry.modified)} ${name}`);
+      } else {
+        context.stdout.writeLine(name);
+      }
+      // Stop when the reader of our output has exited
+      await JobControl.checkpoint(context);
+    }
+    return 0;
+  }
+
+  private async extract(entries: TarEntry[], verbose: boolean, context: CommandContext, directory: string): Promise<number> {
+    const fileSystem = this.os.getFileSystem();
+    const directories: { path: string; entry: TarEntry }[] = [];
+    let exitCode = 0;
+
+    for (const entry of entries) {
+      const path = ArchiveFiles.extractPath(directory, entry.name);
+      if (path === null) {
+        context.stderr.writeLine(`tar: ${entry.name}: Member name contains '..'`);
+        exitCode = 2;
+        continue;
+      }
+
+      try {
+        if (entry.isDirectory) {
+          await ArchiveFiles.createDirectories(fileSystem, path);
+          // Directories get their times after their files are extracted
+          directories.push({ path, entry });
+        } else {
+          await ArchiveFiles.createDirectories(fileSystem, PathUtils.dirname(path));
+          if (await fileSystem.exists(path) && (await fileSystem.stat(path)).isDirectory) {
+            throw new Error('Cannot open: Is a directory');
+          }
+          await ArchiveFiles.writeBytes(fileSystem, path, entry.data);
+          await ArchiveFiles.restore(fileSystem, path, false, entry.mode, entry.modified);
+        }
+      } catch (error) {
+        context.stderr.writeLine(`tar: ${entry.name}: ${error instanceof Error ? error.message : String(error)}`);
+        exitCode = 2;
+        continue;
+      }
+
+      if (verbose) {
+        context.stdout.writeLine(entry.isDirectory ? `${entry.name}/` : entry.name);
+      }
+      await JobControl.checkpoint(context);
+    }
+
+    for (const { path, entry } of directories.reverse()) {
+      try {
+        await ArchiveFiles.restore(fileSystem, path, true, entry.mode, entry.modified);
+      } catch (error) {
+        context.stderr.writeLine(`tar: ${entry.name}: ${error instanceof Error ? error.message : String(error)}`);
+        exitCode = 2;
+      }
+    }
+
+    return exitCode;
+  }
+
+  /**
+   * Check if an entry is a member given as operand, or is below it
+   */
+  private matches(entryName: string, name: string): boolean {
+    const member = ArchiveFiles.memberName(name);
+    return entryName === member || entryName.startsWith(`${member}/`);
+  }
+
+  private formatDate(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  }
+}
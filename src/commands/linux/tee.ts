@@ -0,0 +1,95 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { OS } from '../../core/os';
+import { PathUtils } from '../../core/path-utils';
+import { CommandPipe } from '../command-pipe';
+import { JobControl, JobInterruptedError } from '../job-control';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * tee command - Read from standard input and write to standard output and files
+ */
+export class TeeCommand implements CommandModule {
+  private os: OS;
+
+  constructor(os: OS) {
+    this.os = os;
+  }
+
+  public get name(): string {
+    return 'tee';
+  }
+
+  public get description(): string {
+    return 'Read from standard input and write to standard output and files';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'append', alias: 'a', type: 'boolean', description: 'Append to the given files, do not overwrite' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('tee [OPTION]... [FILE]...', this.options,
+      'Copy standard input to each FILE, and also to standard output.', `Examples:
+  ls -l | tee listing.txt          Show a listing and save it
+  nmap 10.0.0.1 | tee -a scans.log Add the scan results to a log
+  echo data | tee a.txt b.txt      Write to several files`);
+  }
+
+  /**
+   * Execute command with context and streams
+   * Returns exit code (0 for success, 1 if a file could not be written)
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    const fileSystem = this.os.getFileSystem();
+    const outputs: { file: string; path: string; content: string }[] = [];
+    let exitCode = 0;
+
+    for (const file of args.args) {
+      const path = fileSystem.parsePath(file, context.cwd);
+      if (await fileSystem.exists(path)) {
+        if ((await fileSystem.stat(path)).isDirectory) {
+          context.stderr.writeLine(`tee: ${file}: Is a directory`);
+          exitCode = 1;
+          continue;
+        }
+      } else if (!await fileSystem.exists(PathUtils.dirname(path))) {
+        context.stderr.writeLine(`tee: ${file}: No such file or directory`);
+        exitCode = 1;
+        continue;
+      }
+      const content = args.append && await fileSystem.exists(path) ? await fileSystem.readFile(path) : '';
+      outputs.push({ file, path, content });
+    }
+
+    try {
+      for await (const line of CommandPipe.lines(context.stdin)) {
+        context.stdout.writeLine(line);
+        outputs.forEach(output => output.content += line + '\n');
+
+        // Stop when the reader of our output has exited
+        await JobControl.checkpoint(context);
+      }
+    } catch (error) {
+      // Ctrl+C and broken pipes end the command
+      if (error instanceof JobInterruptedError) {
+        throw error;
+      }
+      context.stderr.writeLine(`tee: ${error instanceof Error ? error.message : String(error)}`);
+      exitCode = 1;
+    } finally {
+      // Files keep what was read, even when Ctrl+C or a closed pipe ends the command
+      for (const output of outputs) {
+        try {
+          await fileSystem.writeFile(output.path, output.content);
+        } catch (error) {
+          context.stderr.writeLine(`tee: ${output.file}: ${error instanceof Error ? error.message : String(error)}`);
+          exitCode = 1;
+        }
+      }
+    }
+
+    return exitCode;
+  }
+}
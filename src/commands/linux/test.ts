@@ -0,0 +1,249 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { OS } from '../../core/os';
+import { FileSystem } from '../../core/filesystem';
+
+/**
+ * Operators that test a file
+ */
+const FILE_OPERATORS = ['-e', '-f', '-d', '-r', '-w', '-x', '-s'];
+
+/**
+ * Operators that compare two values
+ */
+const BINARY_OPERATORS = ['=', '==', '!=', '<', '>', '-eq', '-ne', '-lt', '-le', '-gt', '-ge'];
+
+/**
+ * test command - Evaluate a conditional expression
+ */
+export class TestCommand implements CommandModule {
+  protected os: OS;
+
+  constructor(os: OS) {
+    this.os = os;
+  }
+
+  public get name(): string {
+    return 'test';
+  }
+
+  public get description(): string {
+    return 'Evaluate a conditional expression';
+  }
+
+  public get usage(): string {
+    return `Usage: test expression
+       [ expression ]
+
+Exit with status 0 if the expression is true, 1 if it is false and 2 on errors.
+
+File tests:
+  -e file    file exists             -f file    file is a regular file
+  -d file    file is a directory     -s file    file is not empty
+  -r file    file is readable        -w file    file is writable
+  -x file    file is executable
+
+String tests:
+  -z string  string is empty         -n string  string is not empty
+  s1 = s2    strings are equal       s1 != s2   strings differ
+
+Integer tests:
+  n1 -eq n2, -ne, -lt, -le, -gt, -ge
+
+Combining:
+  ! expr     expr is false           ( expr )   grouping
+  e1 -a e2   both are true           e1 -o e2   either is true
+
+Examples:
+  test -f /etc/passwd && echo found
+  [ "$1" = "--force" ]
+  [ $count -gt 10 -o -z "$TARGET" ]`;
+  }
+
+  /**
+   * Execute the test command
+   * @param args Command arguments
+   * @param context Command execution context
+   * @returns Exit code (0 true, 1 false, 2 error)
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    // Operands like -f would otherwise be read as options
+    let tokens = [...(args.argv ?? args.args)];
+
+    if (this.name === '[') {
+      if (tokens[tokens.length - 1] !== ']') {
+        context.stderr.writeLine('[: missing `]\'');
+        return 2;
+      }
+      tokens = tokens.slice(0, -1);
+    }
+
+    try {
+      if (tokens.length === 0) {
+        return 1;
+      }
+      // Each call parses with its own cursor: pipelines, jobs and terminals run tests at the same time
+      const result = await new TestExpression(tokens, this.os.getFileSystem(), context.cwd).evaluate();
+      return result ? 0 : 1;
+    } catch (error) {
+      context.stderr.writeLine(`${this.name}: ${error instanceof Error ? error.message : String(error)}`);
+      return 2;
+    }
+  }
+}
+
+/**
+ * [ command - Evaluate a conditional expression closed by ]
+ */
+export class BracketCommand extends TestCommand {
+  public get name(): string {
+    return '[';
+  }
+}
+
+/**
+ * Recursive descent parser evaluating the expression of one test call
+ */
+class TestExpression {
+  private position: number = 0;
+
+  constructor(private tokens: string[], private fileSystem: FileSystem, private cwd: string) {}
+
+  /**
+   * Evaluate the whole expression
+   * @throws Error for a malformed expression or a bad integer
+   */
+  public async evaluate(): Promise<boolean> {
+    const result = await this.parseOr();
+    if (this.position < this.tokens.length) {
+      throw new Error(`${this.tokens[this.position]}: unexpected operator`);
+    }
+    return result;
+  }
+
+  private async parseOr(): Promise<boolean> {
+    let result = await this.parseAnd();
+    while (this.tokens[this.position] === '-o') {
+      this.position++;
+      const right = await this.parseAnd();
+      result = result || right;
+    }
+    return result;
+  }
+
+  private async parseAnd(): Promise<boolean> {
+    let result = await this.parseNot();
+    while (this.tokens[this.position] === '-a') {
+      this.position++;
+      const right = await this.parseNot();
+      result = result && right;
+    }
+    return result;
+  }
+
+  private async parseNot(): Promise<boolean> {
+    // A lone "!" is a string, not an operator
+    if (this.tokens[this.position] === '!' && this.position + 1 < this.tokens.length) {
+      this.position++;
+      return !(await this.parseNot());
+    }
+    return this.parsePrimary();
+  }
+
+  private async parsePrimary(): Promise<boolean> {
+    const token = this.tokens[this.position];
+    const next = this.tokens[this.position + 1];
+
+    if (token === undefined) {
+      throw new Error('argument expected');
+    }
+
+    // Binary operators take precedence, so [ -f = -f ] compares strings
+    if (next !== undefined && BINARY_OPERATORS.includes(next) && this.position + 2 < this.tokens.length) {
+      const right = this.tokens[this.position + 2];
+      this.position += 3;
+      return this.compare(token, next, right);
+    }
+
+    if (token === '(' && this.position + 1 < this.tokens.length) {
+      this.position++;
+      const result = await this.parseOr();
+      if (this.tokens[this.position] !== ')') {
+        throw new Error('`)\' expected');
+      }
+      this.position++;
+      return result;
+    }
+
+    if ((token === '-z' || token === '-n') && next !== undefined) {
+      this.position += 2;
+      return token === '-z' ? next.length === 0 : next.length > 0;
+    }
+
+    if (FILE_OPERATORS.includes(token) && next !== undefined) {
+      this.position += 2;
+      return this.testFile(token, next);
+    }
+
+    // A single string is true when it is not empty
+    this.position++;
+    return token.length > 0;
+  }
+
+  /**
+   * Compare two strings or integers
+   */
+  private compare(left: string, operator: string, right: string): boolean {
+    switch (operator) {
+      case '=':
+      case '==':
+        return left === right;
+      case '!=':
+        return left !== right;
+      case '<':
+        return left < right;
+      case '>':
+        return left > right;
+    }
+
+    const a = this.toInteger(left);
+    const b = this.toInteger(right);
+    switch (operator) {
+      case '-eq': return a === b;
+      case '-ne': return a !== b;
+      case '-lt': return a < b;
+      case '-le': return a <= b;
+      case '-gt': return a > b;
+      default: return a >= b;
+    }
+  }
+
+  private toInteger(value: string): number {
+    if (!/^\s*-?\d+\s*$/.test(value)) {
+      throw new Error(`${value}: integer expression expected`);
+    }
+    return parseInt(value, 10);
+  }
+
+  /**
+   * Apply a file test operator
+   */
+  private async testFile(operator: string, file: string): Promise<boolean> {
+    const fileSystem = this.fileSystem;
+    const path = fileSystem.parsePath(file, this.cwd);
+
+    if (!file || !await fileSystem.exists(path)) {
+      return false;
+    }
+
+    const stats = await fileSystem.stat(path);
+    switch (operator) {
+      case '-f': return !stats.isDirectory;
+      case '-d': return stats.isDirectory;
+      case '-s': return !stats.isDirectory && (stats.size ?? 0) > 0;
+      case '-r': return fileSystem.canIRead(path);
+      case '-w': return fileSystem.canIWrite(path);
+      case '-x': return fileSystem.canIExecute(path);
+      default: return true;
+    }
+  }
+}
@@ -0,0 +1,253 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { CommandPipe } from '../command-pipe';
+import { JobControl, JobInterruptedError } from '../job-control';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * Characters of the classes tr accepts in sets, like [:upper:]
+ */
+const CHARACTER_CLASSES: Record<string, (code: number) => boolean> = {
+  alnum: code => /[a-zA-Z0-9]/.test(String.fromCharCode(code)),
+  alpha: code => /[a-zA-Z]/.test(String.fromCharCode(code)),
+  blank: code => code === 32 || code === 9,
+  cntrl: code => code < 32 || code === 127,
+  digit: code => code >= 48 && code <= 57,
+  graph: code => code > 32 && code < 127,
+  lower: code => code >= 97 && code <= 122,
+  print: code => code >= 32 && code < 127,
+  punct: code => code > 32 && code < 127 && !/[a-zA-Z0-9]/.test(String.fromCharCode(code)),
+  space: code => (code >= 9 && code <= 13) || code === 32,
+  upper: code => code >= 65 && code <= 90,
+  xdigit: code => /[0-9A-Fa-f]/.test(String.fromCharCode(code))
+};
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', a: '\x07', b: '\b', f: '\f', v: '\v', '\\': '\\' };
+
+/**
+ * tr command - Translate, squeeze and delete characters
+ */
+export class TrCommand implements CommandModule {
+  public get name(): string {
+    return 'tr';
+  }
+
+  public get description(): string {
+    return 'Translate, squeeze and delete characters';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'complement', alias: ['c', 'C'], type: 'boolean', description: 'Use the complement of SET1' },
+      { name: 'delete', alias: 'd', type: 'boolean', description: 'Delete characters in SET1, do not translate' },
+      { name: 'squeeze-repeats', alias: 's', type: 'boolean', description: 'Replace each sequence of a repeated character in the last SET with one occurrence' },
+      { name: 'truncate-set1', alias: 't', type: 'boolean', description: 'First truncate SET1 to the length of SET2' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('tr [OPTION]... SET1 [SET2]', this.options, `Translate, squeeze, and/or delete characters from standard input, writing to standard output.
+
+SETs are strings of characters, with:
+  a-z         the characters from a to z
+  [:class:]   alnum, alpha, blank, cntrl, digit, graph, lower, print, punct, space, upper, xdigit
+  [c*n]       n copies of c in SET2; [c*] repeats c to the length of SET1
+  \\n \\t \\\\     newline, tab, backslash (and \\NNN for an octal code)`, `Examples:
+  echo hello | tr a-z A-Z          Convert to upper case
+  tr -d '\\r' < dos.txt             Delete carriage returns
+  tr -s ' ' < file.txt             Squeeze repeated spaces
+  tr -c '[:alnum:]' '\\n' < text    Put each word on its own line`);
+  }
+
+  /**
+   * Execute command with context and streams
+   * Returns exit code (0 for success, 1 for invalid operands)
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    try {
+      const operands = args.args;
+      const deleting = args.delete;
+      const squeezing = args['squeeze-repeats'];
+      const translating = !deleting && operands.length >= 2;
+
+      const expected = deleting && squeezing ? 2 : deleting || (squeezing && operands.length < 2) ? 1 : 2;
+      if (operands.length < expected) {
+        context.stderr.writeLine(operands.length === 0 ? 'tr: missing operand' : `tr: missing operand after '${operands[operands.length - 1]}'`);
+        context.stderr.writeLine("Try 'tr --help' for more information.");
+        return 1;
+      }
+      if (operands.length > expected) {
+        context.stderr.writeLine(`tr: extra operand '${operands[expected]}'`);
+        return 1;
+      }
+
+      let set1: string[];
+      let set2: string[] = [];
+      try {
+        set1 = this.parseSet(operands[0]);
+        if (operands.length > 1) {
+          set2 = this.parseSet(operands[1], set1.length);
+        }
+      } catch (error) {
+        context.stderr.writeLine(`tr: ${error instanceof Error ? error.message : String(error)}`);
+        return 1;
+      }
+
+      if (args.complement) {
+        set1 = this.complement(set1);
+      }
+
+      // Build the translation table; SET2 is extended with its last character
+      const translation = new Map<string, string>();
+      if (translating) {
+        if (set2.length === 0) {
+          context.stderr.writeLine('tr: when translating, SET2 must not be empty');
+          return 1;
+        }
+        if (args['truncate-set1']) {
+          set1 = set1.slice(0, set2.length);
+        }
+        set1.forEach((char, index) => translation.set(char, set2[Math.min(index, set2.length - 1)]));
+      }
+
+      const deleteSet = new Set(deleting ? set1 : []);
+      const squeezeSet = new Set(squeezing ? (operands.length > 1 ? set2 : set1) : []);
+      const complemented = args.complement;
+      const inSet1 = (char: string) => set1.includes(char) || (complemented && char.charCodeAt(0) > 255);
+
+      let lastSqueezed: string | null = null;
+      let pending = '';
+
+      for await (const line of CommandPipe.lines(context.stdin)) {
+        for (const char of line + '\n') {
+          if (deleteSet.has(char) || (deleting && complemented && inSet1(char))) {
+            continue;
+          }
+
+          let output = char;
+          if (translating) {
+            output = translation.get(char) ?? (complemented && inSet1(char) ? set2[set2.length - 1] : char);
+          }
+
+          if (squeezeSet.has(output) && output === lastSqueezed) {
+            continue;
+          }
+          lastSqueezed = squeezeSet.has(output) ? output : null;
+          pending += output;
+        }
+
+        // Write complete lines, keeping the rest for the next input line
+        const lines = pending.split('\n');
+        pending = lines.pop()!;
+        lines.forEach(outputLine => context.stdout.writeLine(outputLine));
+
+        // Stop when the reader of our output has exited
+        await JobControl.checkpoint(context);
+      }
+
+      if (pending) {
+        context.stdout.write(pending);
+      }
+      return 0;
+    } catch (error) {
+      // Ctrl+C and broken pipes end the command
+      if (error instanceof JobInterruptedError) {
+        throw error;
+      }
+      context.stderr.writeLine(`tr: ${error instanceof Error ? error.message : String(error)}`);
+      return 1;
+    }
+  }
+
+  /**
+   * Expand a set into its characters
+   * @param spec The set as given on the command line
+   * @param fillLength Length of SET1, for [c*] and [c*n] in SET2; not given for SET1
+   * @throws Error for invalid ranges and classes, and for repeats in SET1
+   */
+  private parseSet(spec: string, fillLength?: number): string[] {
+    const chars: string[] = [];
+    let fillIndex = -1;
+    let fillChar = '';
+    let i = 0;
+
+    const readChar = (): string => {
+      const char = spec[i++];
+      if (char !== '\\' || i >= spec.length) {
+        return char;
+      }
+      const octal = /^[0-7]{1,3}/.exec(spec.substring(i));
+      if (octal) {
+        i += octal[0].length;
+        return String.fromCharCode(parseInt(octal[0], 8));
+      }
+      const escaped = spec[i++];
+      return ESCAPES[escaped] ?? escaped;
+    };
+
+    while (i < spec.length) {
+      const className = /^\[:([a-z]+):\]/.exec(spec.substring(i));
+      if (className) {
+        const test = CHARACTER_CLASSES[className[1]];
+        if (!test) {
+          throw new Error(`invalid character class '${className[1]}'`);
+        }
+        for (let code = 0; code < 128; code++) {
+          if (test(code)) chars.push(String.fromCharCode(code));
+        }
+        i += className[0].length;
+        continue;
+      }
+
+      const repeat = /^\[(\\?.)\*(\d*)\]/.exec(spec.substring(i));
+      if (repeat) {
+        if (fillLength === undefined) {
+          throw new Error('the [c*] repeat construct may not appear in string1');
+        }
+        const char = repeat[1].length === 2 ? ESCAPES[repeat[1][1]] ?? repeat[1][1] : repeat[1];
+        if (repeat[2]) {
+          // Like in GNU tr, a count starting with 0 is octal. Copies past the length of SET1
+          // are never used, so one is enough (it still counts when SET2 is only squeezed).
+          const count = Math.min(parseInt(repeat[2], repeat[2].startsWith('0') ? 8 : 10), Math.max(1, fillLength - chars.length));
+          for (let n = 0; n < count; n++) chars.push(char);
+        } else {
+          fillIndex = chars.length;
+          fillChar = char;
+        }
+        i += repeat[0].length;
+        continue;
+      }
+
+      const char = readChar();
+      if (spec[i] === '-' && i + 1 < spec.length) {
+        i++;
+        const end = readChar();
+        if (end.charCodeAt(0) < char.charCodeAt(0)) {
+          throw new Error(`range-endpoints of '${char}-${end}' are in reverse collating sequence order`);
+        }
+        for (let code = char.charCodeAt(0); code <= end.charCodeAt(0); code++) {
+          chars.push(String.fromCharCode(code));
+        }
+        continue;
+      }
+      chars.push(char);
+    }
+
+    if (fillIndex !== -1) {
+      const fill = new Array(Math.max(0, (fillLength ?? 0) - chars.length)).fill(fillChar);
+      chars.splice(fillIndex, 0, ...fill);
+    }
+    return chars;
+  }
+
+  /**
+   * Get the characters (of the first 256) that are not in a set, in order
+   */
+  private complement(set: string[]): string[] {
+    const result: string[] = [];
+    for (let code = 0; code < 256; code++) {
+      const char = String.fromCharCode(code);
+      if (!set.includes(char)) result.push(char);
+    }
+    return result;
+  }
+}
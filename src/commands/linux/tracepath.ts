@@ -0,0 +1,109 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { OS } from '../../core/os';
+import { TraceHop } from '../../core/network';
+import { CompletionRequest, TabCompletion } from '../tab-completion';
+import { JobControl } from '../job-control';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * Seconds tracepath waits for the answer to a probe
+ */
+const PROBE_WAIT = 1;
+
+/**
+ * tracepath command - Trace the path to a network host, discovering its MTU
+ */
+export class TracepathCommand implements CommandModule {
+  private os: OS;
+
+  constructor(os: OS) {
+    this.os = os;
+  }
+
+  public get name(): string {
+    return 'tracepath';
+  }
+
+  public get description(): string {
+    return 'Trace the path to a network host, discovering its MTU';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'numeric', alias: 'n', type: 'boolean', description: 'Print the addresses of the hops, not their names' },
+      { name: 'max-hops', alias: 'm', type: 'number', default: 30, valueName: 'max_hops', description: 'Maximum number of hops to probe' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('tracepath [-n] [-m max_hops] destination', this.options,
+      `Trace the path to a host like traceroute, without needing root, along with
+the MTU of the path. Hops that do not answer are shown as * * *.`, `Examples:
+  tracepath example.com         The hops to example.com
+  tracepath -n ipcam.home       Numeric addresses`);
+  }
+
+  /**
+   * Complete options and hostnames
+   */
+  public async complete(request: CompletionRequest, _context: CommandContext): Promise<string[] | null> {
+    if (request.current.startsWith('-')) {
+      return TabCompletion.completeDeclaredOptions(this.options, request.current);
+    }
+    return TabCompletion.completeHostnames(this.os, request.current);
+  }
+
+  /**
+   * Execute command with context and streams
+   * Returns 0 when the destination was reached
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    const destination = args.args[0];
+    if (!destination) {
+      context.stderr.writeLine('Usage: tracepath [-n] [-m max_hops] destination');
+      return 255;
+    }
+    const resolver = this.os.getResolver();
+    const ip = await resolver.resolve(destination);
+    if (!ip) {
+      context.stderr.writeLine(`tracepath: ${destination}: Name or service not known`);
+      return 1;
+    }
+
+    const network = this.os.getNetworkInterface();
+    const from = this.os.hostInfo?.ip;
+    const hops = network.traceRoute(ip, from);
+    if (!hops) {
+      context.stderr.writeLine('tracepath: connect: Network is unreachable');
+      return 1;
+    }
+
+    // The path MTU is the one of the interface packets leave from
+    const device = network.route(ip, from)?.device;
+    const pmtu = network.getAdapters(from).find(adapter => adapter.name === device)?.mtu ?? 1500;
+    context.stdout.writeLine(` 1?: ${'[LOCALHOST]'.padEnd(47)}pmtu ${pmtu}`);
+
+    for (let ttl = 1; ttl <= args['max-hops']; ttl++) {
+      const hop: TraceHop | undefined = hops[ttl - 1];
+      const number = `${String(ttl).padStart(2)}:  `;
+      if (!hop || !hop.answers) {
+        await JobControl.sleep(PROBE_WAIT * 1000, context);
+        context.stdout.writeLine(`${number}* * *`);
+        continue;
+      }
+
+      await JobControl.sleep(hop.latency, context);
+      const name = args.numeric ? hop.ip : ((await resolver.reverseLookup(hop.ip)) ?? hop.ip);
+      const time = `${(hop.latency + Math.random() * hop.latency * 0.1).toFixed(3)}ms`;
+      if (hop.ip === ip) {
+        context.stdout.writeLine(`${number}${name.padEnd(40)}${time.padStart(12)} reached`);
+        context.stdout.writeLine(`     Resume: pmtu ${pmtu} hops ${ttl} back ${ttl}`);
+        return 0;
+      }
+      context.stdout.writeLine(`${number}${name.padEnd(40)}${time.padStart(12)}`);
+    }
+    context.stdout.writeLine(`     Too many hops: pmtu ${pmtu}`);
+    context.stdout.writeLine(`     Resume: pmtu ${pmtu}`);
+    return 1;
+  }
+}
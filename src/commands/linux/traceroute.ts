@@ -0,0 +1,99 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { OS } from '../../core/os';
+import { TraceHop } from '../../core/network';
+import { CompletionRequest, TabCompletion } from '../tab-completion';
+import { JobControl } from '../job-control';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * traceroute command - Print the route packets take to a network host
+ */
+export class TracerouteCommand implements CommandModule {
+  private os: OS;
+
+  constructor(os: OS) {
+    this.os = os;
+  }
+
+  public get name(): string {
+    return 'traceroute';
+  }
+
+  public get description(): string {
+    return 'Print the route packets take to a network host';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'numeric', alias: 'n', type: 'boolean', description: 'Do not resolve the addresses of the hops to names' },
+      { name: 'max-hops', alias: 'm', type: 'number', default: 30, valueName: 'max_ttl', description: 'Maximum number of hops to probe' },
+      { name: 'queries', alias: 'q', type: 'number', default: 3, valueName: 'nqueries', description: 'Number of probes per hop' },
+      { name: 'wait', alias: 'w', type: 'number', default: 1, valueName: 'waittime', description: 'Seconds to wait for the answer to a probe' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('traceroute [OPTION]... host', this.options,
+      `Print the routers packets go through to reach a host, with the round trip
+time to each of them. Hops that do not answer, like routers dropping the
+probes or a host that cannot be reached, are shown as * * *.`, `Examples:
+  traceroute targetbank.com     The hops to targetbank.com
+  traceroute -n -m 10 10.0.0.5  Numeric addresses, at most 10 hops`);
+  }
+
+  /**
+   * Complete options and hostnames
+   */
+  public async complete(request: CompletionRequest, _context: CommandContext): Promise<string[] | null> {
+    if (request.current.startsWith('-')) {
+      return TabCompletion.completeDeclaredOptions(this.options, request.current);
+    }
+    return TabCompletion.completeHostnames(this.os, request.current);
+  }
+
+  /**
+   * Execute command with context and streams
+   * Returns 0 when the host was reached
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    const destination = args.args[0];
+    if (!destination) {
+      context.stderr.writeLine('Specify "host" missing argument.');
+      return 2;
+    }
+    const resolver = this.os.getResolver();
+    const ip = await resolver.resolve(destination);
+    if (!ip) {
+      context.stderr.writeLine(`${destination}: Name or service not known`);
+      context.stderr.writeLine(`Cannot handle "host" cmdline arg \`${destination}' on position 1 (argc 1)`);
+      return 2;
+    }
+
+    context.stdout.writeLine(`traceroute to ${destination} (${ip}), ${args['max-hops']} hops max, 60 byte packets`);
+    const hops = this.os.getNetworkInterface().traceRoute(ip, this.os.hostInfo?.ip);
+    if (!hops) {
+      context.stderr.writeLine('connect: Network is unreachable');
+      return 1;
+    }
+
+    // Once the hops run out, the probes get no answer up to the maximum
+    for (let ttl = 1; ttl <= args['max-hops']; ttl++) {
+      const hop: TraceHop | undefined = hops[ttl - 1];
+      const number = String(ttl).padStart(2);
+      if (!hop || !hop.answers) {
+        await JobControl.sleep(args.wait * 1000, context);
+        context.stdout.writeLine(`${number}  ${Array(args.queries).fill('*').join(' ')}`);
+        continue;
+      }
+
+      await JobControl.sleep(hop.latency, context);
+      const name = args.numeric ? hop.ip : `${(await resolver.reverseLookup(hop.ip)) ?? hop.ip} (${hop.ip})`;
+      const times = Array.from({ length: args.queries }, () => `${(hop.latency + Math.random() * hop.latency * 0.1).toFixed(3)} ms`);
+      context.stdout.writeLine(`${number}  ${name}  ${times.join('  ')}`);
+      if (hop.ip === ip) {
+        return 0;
+      }
+    }
+    return 1;
+  }
+}
@@ -0,0 +1,28 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+
+/**
+ * true command - Do nothing, successfully
+ */
+export class TrueCommand implements CommandModule {
+  public get name(): string {
+    return 'true';
+  }
+  
+  public get description(): string {
+    return 'Do nothing, successfully';
+  }
+  
+  public get usage(): string {
+    return `Usage: true
+
+Exit with a status code indicating success. Useful in scripts, like: while true; do ...; done`;
+  }
+  
+  /**
+   * Execute the true command
+   * @returns Exit code 0
+   */
+  public async execute(_args: CommandArgs, _context: CommandContext): Promise<number> {
+    return 0;
+  }
+}
@@ -0,0 +1,93 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { CommandOption, CommandOptions } from '../command-options';
+import { CommandPath } from '../command-path';
+
+/**
+ * type command - Tell how a command name would be run
+ */
+export class TypeCommand implements CommandModule {
+  public get name(): string {
+    return 'type';
+  }
+  
+  public get description(): string {
+    return 'Display how each command name would be run';
+  }
+  
+  public get options(): CommandOption[] {
+    return [
+      { name: 'all', alias: 'a', type: 'boolean', description: 'Show every alias, builtin and file with the name' },
+      { name: 'type', alias: 't', type: 'boolean', description: 'Print only alias, builtin or file' },
+      { name: 'path', alias: 'p', type: 'boolean', description: 'Print only the path of the file that would run' }
+    ];
+  }
+  
+  public get usage(): string {
+    return CommandOptions.formatUsage('type [-a] [-t|-p] name [name ...]', this.options,
+      'Tell whether each name is a shell alias, a shell builtin or an executable file\nfound through PATH, in the order the shell checks them.', `Examples:
+  type ll                     # ll is aliased to \`ls -l'
+  type cd                     # cd is a shell builtin
+  type -a echo                # The builtin and /bin/echo`);
+  }
+  
+  /**
+   * Execute the type command
+   * @param args Command arguments
+   * @param context Command execution context
+   * @returns Exit code (0 if all names were found, 1 otherwise)
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    let exitCode = 0;
+    
+    for (const name of args.args) {
+      const found = await this.describe(name, context, args.all);
+      if (found.length === 0) {
+        if (!args.type && !args.path) {
+          context.stderr.writeLine(`type: ${name}: not found`);
+        }
+        exitCode = 1;
+        continue;
+      }
+      
+      for (const { kind, text } of found) {
+        if (args.type) {
+          context.stdout.writeLine(kind);
+        } else if (args.path) {
+          // -p only prints files, and only when they would run
+          if (kind === 'file' && (args.all || found[0].kind === 'file')) {
+            context.stdout.writeLine(text);
+          }
+        } else {
+          context.stdout.writeLine(kind === 'file' ? `${name} is ${text}` : text);
+        }
+      }
+    }
+    
+    return exitCode;
+  }
+  
+  /**
+   * Find what a name stands for, in the order the shell looks it up
+   * @returns The matches; only the first one unless all is set
+   */
+  private async describe(name: string, context: CommandContext, all: boolean): Promise<{ kind: string; text: string }[]> {
+    const found: { kind: string; text: string }[] = [];
+    
+    const aliases = context.aliases ?? {};
+    if (Object.prototype.hasOwnProperty.call(aliases, name)) {
+      found.push({ kind: 'alias', text: `${name} is aliased to \`${aliases[name]}'` });
+    }
+    
+    if (CommandPath.isShellBuiltin(name) && context.os.getCommandProcessor().getCommand(name)) {
+      found.push({ kind: 'builtin', text: `${name} is a shell builtin` });
+    }
+    
+    if (all || found.length === 0) {
+      for (const path of await CommandPath.find(name, context, all)) {
+        found.push({ kind: 'file', text: path });
+      }
+    }
+    
+    return all ? found : found.slice(0, 1);
+  }
+}
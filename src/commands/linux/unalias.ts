@@ -0,0 +1,60 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * unalias command - Remove shell aliases
+ */
+export class UnaliasCommand implements CommandModule {
+  public get name(): string {
+    return 'unalias';
+  }
+
+  public get description(): string {
+    return 'Remove shell aliases from the current shell session';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'all', alias: 'a', type: 'boolean', description: 'Remove all shell aliases' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('unalias [-a] name [name ...]', this.options,
+      'Remove each named shell alias defined with alias. Path aliases are removed with rmalias.', `Examples:
+  unalias ll          # Remove the ll alias
+  unalias -a          # Remove all aliases`);
+  }
+
+  /**
+   * Execute the unalias command
+   * @param args Command arguments
+   * @param context Command execution context
+   * @returns Exit code (0 for success, 1 if an alias does not exist)
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    const aliases = context.aliases ?? {};
+
+    if (args.all) {
+      Object.keys(aliases).forEach(name => delete aliases[name]);
+      return 0;
+    }
+
+    if (args.args.length === 0) {
+      context.stderr.writeLine('unalias: usage: unalias [-a] name [name ...]');
+      return 2;
+    }
+
+    let exitCode = 0;
+    for (const name of args.args) {
+      if (!Object.prototype.hasOwnProperty.call(aliases, name)) {
+        context.stderr.writeLine(`unalias: ${name}: not found`);
+        exitCode = 1;
+        continue;
+      }
+      delete aliases[name];
+    }
+
+    return exitCode;
+  }
+}
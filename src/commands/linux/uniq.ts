@@ -0,0 +1,117 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { OS } from '../../core/os';
+import { CommandInput } from '../command-input';
+import { JobControl, JobInterruptedError } from '../job-control';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * uniq command - Report or omit repeated lines
+ */
+export class UniqCommand implements CommandModule {
+  private os: OS;
+
+  constructor(os: OS) {
+    this.os = os;
+  }
+
+  public get name(): string {
+    return 'uniq';
+  }
+
+  public get description(): string {
+    return 'Report or omit repeated lines';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'count', alias: 'c', type: 'boolean', description: 'Prefix lines by the number of occurrences' },
+      { name: 'repeated', alias: 'd', type: 'boolean', description: 'Only print duplicate lines, one for each group' },
+      { name: 'unique', alias: 'u', type: 'boolean', description: 'Only print unique lines' },
+      { name: 'ignore-case', alias: 'i', type: 'boolean', description: 'Ignore differences in case when comparing' },
+      { name: 'skip-fields', alias: 'f', type: 'number', valueName: 'N', description: 'Avoid comparing the first N fields' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('uniq [OPTION]... [INPUT [OUTPUT]]', this.options, `Filter adjacent matching lines from INPUT (or standard input),
+writing to OUTPUT (or standard output).
+
+Only adjacent lines are compared, so the input is usually sorted first.`, `Examples:
+  sort names.txt | uniq            Remove duplicate lines
+  sort access.log | uniq -c        Count occurrences of each line
+  sort list | uniq -d              Show only lines that appear more than once
+  cut -d' ' -f1 log | sort | uniq -c | sort -rn   Most frequent first fields`);
+  }
+
+  /**
+   * Execute command with context and streams
+   * Returns exit code (0 for success, 1 for errors)
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    try {
+      if (args.args.length > 2) {
+        context.stderr.writeLine(`uniq: extra operand '${args.args[2]}'`);
+        return 1;
+      }
+      const [input, output] = args.args;
+      const skipFields: number = args['skip-fields'] ?? 0;
+
+      // With an OUTPUT file, lines are collected and written at the end
+      const written: string[] = [];
+      const write = output !== undefined && output !== '-'
+        ? (line: string) => { written.push(line); }
+        : (line: string) => context.stdout.writeLine(line);
+
+      const key = (line: string): string => {
+        let compared = line;
+        if (skipFields > 0) {
+          compared = compared.replace(new RegExp(`^(\\s*\\S+){${skipFields}}`), '');
+        }
+        return args['ignore-case'] ? compared.toLowerCase() : compared;
+      };
+
+      let current: string | null = null;
+      let currentKey = '';
+      let count = 0;
+      const flush = () => {
+        if (current === null) return;
+        if ((args.repeated && count < 2) || (args.unique && count > 1)) return;
+        write(args.count ? `${count.toString().padStart(7)} ${current}` : current);
+      };
+
+      const failed: string[] = [];
+      for await (const line of CommandInput.lines(input !== undefined ? [input] : [], context, 'uniq', failed)) {
+        const lineKey = key(line);
+        if (current !== null && lineKey === currentKey) {
+          count++;
+          continue;
+        }
+        flush();
+        current = line;
+        currentKey = lineKey;
+        count = 1;
+
+        // Stop when the reader of our output has exited
+        await JobControl.checkpoint(context);
+      }
+      flush();
+
+      if (failed.length > 0) {
+        return 1;
+      }
+
+      if (output !== undefined && output !== '-') {
+        const fileSystem = this.os.getFileSystem();
+        await fileSystem.writeFile(fileSystem.parsePath(output, context.cwd), written.map(line => line + '\n').join(''));
+      }
+      return 0;
+    } catch (error) {
+      // Ctrl+C and broken pipes end the command
+      if (error instanceof JobInterruptedError) {
+        throw error;
+      }
+      context.stderr.writeLine(`uniq: ${error instanceof Error ? error.message : String(error)}`);
+      return 1;
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { ShellEnvironment } from '../shell-environment';
+
+/**
+ * unset command - Remove environment variables
+ */
+export class UnsetCommand implements CommandModule {
+  public get name(): string {
+    return 'unset';
+  }
+  
+  public get description(): string {
+    return 'Remove environment variables from the current shell session';
+  }
+  
+  public get usage(): string {
+    return `Usage: unset name [name ...]
+
+Remove each named variable from the environment of the terminal session.
+
+Examples:
+  unset TARGET        # Remove the TARGET variable
+  unset http_proxy no_proxy`;
+  }
+  
+  /**
+   * Execute the unset command
+   * @param args Command arguments
+   * @param context Command execution context
+   * @returns Exit code (0 for success)
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    let exitCode = 0;
+    
+    for (const name of args.args) {
+      if (!ShellEnvironment.isValidName(name)) {
+        context.stderr.writeLine(`unset: \`${name}': not a valid identifier`);
+        exitCode = 1;
+        continue;
+      }
+      
+      delete context.env[name];
+    }
+    
+    return exitCode;
+  }
+}
@@ -0,0 +1,187 @@
+import JSZip from 'jszip';
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { OS } from '../../core/os';
+import { PathUtils } from '../../core/path-utils';
+import { ArchiveFiles } from '../archive-files';
+import { JobControl, JobInterruptedError } from '../job-control';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * unzip command - List and extract files from a zip archive
+ */
+export class UnzipCommand implements CommandModule {
+  private os: OS;
+
+  constructor(os: OS) {
+    this.os = os;
+  }
+
+  public get name(): string {
+    return 'unzip';
+  }
+
+  public get description(): string {
+    return 'List and extract files from a zip archive';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'list', alias: 'l', type: 'boolean', description: 'List the files of the archive' },
+      { name: 'directory', alias: 'd', type: 'string', valueName: 'exdir', description: 'Extract files into exdir' },
+      { name: 'overwrite', alias: 'o', type: 'boolean', description: 'Overwrite existing files' },
+      { name: 'quiet', alias: 'q', type: 'boolean', description: 'Do not list the files extracted' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('unzip [OPTION]... ARCHIVE[.zip] [FILE]...', this.options,
+      `Extract the FILEs of ARCHIVE (all files when none are given) into the current directory.
+Existing files are kept unless -o is given. Permissions and modification times are restored.`, `Examples:
+  unzip project.zip             Extract everything
+  unzip -l project.zip          List the contents
+  unzip -o project.zip -d /tmp  Extract into /tmp, replacing files`);
+  }
+
+  /**
+   * Execute command with context and streams
+   * Returns exit code (0 for success, 1 if files were skipped, 9 for a bad archive, 11 if FILEs were not found)
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    if (args.args.length === 0) {
+      context.stderr.writeLine('unzip: missing archive name');
+      context.stderr.writeLine("Try 'unzip --help' for more information.");
+      return 10;
+    }
+
+    const fileSystem = this.os.getFileSystem();
+    let archiveName: string = args.args[0];
+
+    try {
+      // Like unzip, ARCHIVE may be given without its .zip suffix
+      let archivePath = fileSystem.parsePath(archiveName, context.cwd);
+      if (!await fileSystem.exists(archivePath) && await fileSystem.exists(`${archivePath}.zip`)) {
+        archivePath += '.zip';
+        archiveName += '.zip';
+      }
+      if (!await fileSystem.exists(archivePath) || (await fileSystem.stat(archivePath)).isDirectory) {
+        context.stderr.writeLine(`unzip:  cannot find or open ${archiveName}, ${archiveName}.zip or ${archiveName}.ZIP.`);
+        return 9;
+      }
+
+      let zip: JSZip;
+      try {
+        zip = await JSZip.loadAsync(await ArchiveFiles.readBytes(fileSystem, archivePath));
+      } catch {
+        context.stderr.writeLine(`unzip:  cannot find zipfile directory in ${archiveName}`);
+        return 9;
+      }
+
+      // Select the files given as operands, with everything below them
+      const patterns = args.args.slice(1).map(name => ArchiveFiles.memberName(name));
+      const matches = (name: string, pattern: string) => name.replace(/\/$/, '') === pattern || name.startsWith(`${pattern}/`);
+      const files = Object.values(zip.files).filter(file =>
+        patterns.length === 0 || patterns.some(pattern => matches(file.name, pattern)));
+      let exitCode = 0;
+      for (const pattern of patterns) {
+        if (!files.some(file => matches(file.name, pattern))) {
+          context.stderr.writeLine(`caution: filename not matched:  ${pattern}`);
+          exitCode = 11;
+        }
+      }
+
+      if (!args.quiet || args.list) {
+        context.stdout.writeLine(`Archive:  ${archiveName}`);
+      }
+      const status = args.list
+        ? await this.list(files, context)
+        : await this.extract(files, args, context);
+      return exitCode || status;
+    } catch (error) {
+      // Ctrl+C and broken pipes end the command
+      if (error instanceof JobInterruptedError) {
+        throw error;
+      }
+      context.stderr.writeLine(`unzip: ${error instanceof Error ? error.message : String(error)}`);
+      return 1;
+    }
+  }
+
+  private async list(files: JSZip.JSZipObject[], context: CommandContext): Promise<number> {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    let total = 0;
+
+    context.stdout.writeLine('  Length      Date    Time    Name');
+    context.stdout.writeLine('---------  ---------- -----   ----');
+    for (const file of files) {
+      const length = file.dir ? 0 : (await file.async('uint8array')).length;
+      const date = file.date;
+      const dateText = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+      context.stdout.writeLine(`${String(length).padStart(9)}  ${dateText}   ${file.name}`);
+      total += length;
+      // Stop when the reader of our output has exited
+      await JobControl.checkpoint(context);
+    }
+    context.stdout.writeLine('---------                     -------');
+    context.stdout.writeLine(`${String(total).padStart(9)}                     ${files.length} file${files.length === 1 ? '' : 's'}`);
+    return 0;
+  }
+
+  private async extract(files: JSZip.JSZipObject[], args: CommandArgs, context: CommandContext): Promise<number> {
+    const fileSystem = this.os.getFileSystem();
+    const destination = args.directory !== undefined ? fileSystem.parsePath(args.directory, context.cwd) : context.cwd;
+    const prefix = args.directory !== undefined ? `${args.directory.replace(/\/+$/, '')}/` : '';
+    const directories: { path: string; file: JSZip.JSZipObject }[] = [];
+    let exitCode = 0;
+
+    await ArchiveFiles.createDirectories(fileSystem, destination);
+    for (const file of files) {
+      const path = ArchiveFiles.extractPath(destination, file.name);
+      if (path === null) {
+        context.stderr.writeLine(`warning:  skipped "${file.name}": name leaves the extraction directory`);
+        exitCode = 1;
+        continue;
+      }
+
+      try {
+        if (file.dir) {
+          await ArchiveFiles.createDirectories(fileSystem, path);
+          // Directories get their times after their files are extracted
+          directories.push({ path, file });
+          if (!args.quiet) context.stdout.writeLine(`   creating: ${prefix}${file.name}`);
+        } else {
+          if (await fileSystem.exists(path) && !args.overwrite) {
+            context.stderr.writeLine(`unzip: ${prefix}${file.name} exists; not overwritten (use -o to overwrite)`);
+            exitCode = 1;
+            continue;
+          }
+          await ArchiveFiles.createDirectories(fileSystem, PathUtils.dirname(path));
+          await ArchiveFiles.writeBytes(fileSystem, path, await file.async('uint8array'));
+          await ArchiveFiles.restore(fileSystem, path, false, this.modeOf(file, 0o644), file.date);
+          if (!args.quiet) context.stdout.writeLine(`  inflating: ${prefix}${file.name}`);
+        }
+      } catch (error) {
+        context.stderr.writeLine(`unzip: ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+        exitCode = 1;
+      }
+      await JobControl.checkpoint(context);
+    }
+
+    for (const { path, file } of directories.reverse()) {
+      try {
+        await ArchiveFiles.restore(fileSystem, path, true, this.modeOf(file, 0o755), file.date);
+      } catch (error) {
+        context.stderr.writeLine(`unzip: ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+        exitCode = 1;
+      }
+    }
+
+    return exitCode;
+  }
+
+  /**
+   * Get the permission bits of a file, for archives made on Unix
+   */
+  private modeOf(file: JSZip.JSZipObject, fallback: number): number {
+    return typeof file.unixPermissions === 'number' && file.unixPermissions !== 0 ? file.unixPermissions & 0o777 : fallback;
+  }
+}
@@ -1,5 +1,6 @@
 import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
 import { OS } from '../../core/os';
+import { CommandOption, CommandOptions } from '../command-options';
 
 /**
  * wc command - Print newline, word, and byte counts for files
@@ -18,28 +19,27 @@ export class WcCommand implements CommandModule {
     return 'Print newline, word, and byte counts';
   }
   
-  public get usage(): string {
-    return `Usage: wc [options] [file...]
-
-Print newline, word, and byte counts for each file.
+  public get options(): CommandOption[] {
+    return [
+      { name: 'lines', alias: 'l', type: 'boolean', description: 'Print the newline counts' },
+      { name: 'words', alias: 'w', type: 'boolean', description: 'Print the word counts' },
+      { name: 'bytes', alias: 'c', type: 'boolean', description: 'Print the byte counts' },
+      { name: 'chars', alias: 'm', type: 'boolean', description: 'Print the character counts' }
+    ];
+  }
 
-Options:
-  -l, --lines     print the newline counts
-  -w, --words     print the word counts
-  -c, --bytes     print the byte counts
-  -m, --chars     print the character counts
+  public get usage(): string {
+    return CommandOptions.formatUsage('wc [options] [file...]', this.options, `Print newline, word, and byte counts for each file.
 
 With no options, print line, word, and byte counts.
-With no file, read standard input.
-
-Examples:
+With no file, read standard input.`, `Examples:
   wc file.txt            Print line, word, and byte counts for file.txt
   wc -l file.txt         Print only line count for file.txt
   wc -w file.txt         Print only word count for file.txt
   wc -c file.txt         Print only byte count for file.txt
   wc -m file.txt         Print only character count for file.txt
   wc file1.txt file2.txt Print counts for each file and a total
-  cat file.txt | wc      Print counts for data from standard input`;
+  cat file.txt | wc      Print counts for data from standard input`);
   }
   
   /**
@@ -49,10 +49,10 @@ Examples:
   public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
     try {
       // Parse options
-      const countLines = args.l || args.lines || false; // -l, --lines
-      const countWords = args.w || args.words || false; // -w, --words
-      const countBytes = args.c || args.bytes || false; // -c, --bytes
-      const countChars = args.m || args.chars || false; // -m, --chars
+      const countLines = args.lines; // -l, --lines
+      const countWords = args.words; // -w, --words
+      const countBytes = args.bytes; // -c, --bytes
+      const countChars = args.chars; // -m, --chars
       
       // If no specific counts requested, count everything
       const countAll = !(countLines || countWords || countBytes || countChars);
@@ -87,7 +87,7 @@ Examples:
       // Process each file
       for (const file of files) {
         try {
-          const content = await this.os.getFileSystem().readFile(file);
+          const content = await this.os.getFileSystem().readFile(this.os.getFileSystem().parsePath(file, context.cwd));
           const { lines, words, bytes, chars } = this.getCounts(content);
           
           // Add to totals
@@ -0,0 +1,49 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { CommandOption, CommandOptions } from '../command-options';
+import { CommandPath } from '../command-path';
+
+/**
+ * which command - Locate a command in PATH
+ */
+export class WhichCommand implements CommandModule {
+  public get name(): string {
+    return 'which';
+  }
+  
+  public get description(): string {
+    return 'Locate a command in the directories of PATH';
+  }
+  
+  public get options(): CommandOption[] {
+    return [
+      { name: 'all', alias: 'a', type: 'boolean', description: 'Print all matching files, not only the first' }
+    ];
+  }
+  
+  public get usage(): string {
+    return CommandOptions.formatUsage('which [-a] command [command ...]', this.options,
+      'Print the path of the executable file that runs for each command, searching the\ndirectories of PATH in order. Shell builtins and aliases are not files; use type for them.', `Examples:
+  which nmap                  # Prints /bin/nmap
+  which -a scan               # Every scan script in PATH`);
+  }
+  
+  /**
+   * Execute the which command
+   * @param args Command arguments
+   * @param context Command execution context
+   * @returns Exit code (0 if all commands were found, 1 otherwise)
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    let exitCode = 0;
+    
+    for (const name of args.args) {
+      const paths = await CommandPath.find(name, context, args.all);
+      if (paths.length === 0) {
+        exitCode = 1;
+      }
+      paths.forEach(path => context.stdout.writeLine(path));
+    }
+    
+    return exitCode;
+  }
+}
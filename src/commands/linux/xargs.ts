@@ -0,0 +1,201 @@
+import { CommandModule, CommandArgs, CommandContext, CommandProcessor } from '../command-processor';
+import { OS } from '../../core/os';
+import { CommandPipe } from '../command-pipe';
+import { StringInputStream } from '../enhanced-command-processor';
+import { JobControl, JobInterruptedError } from '../job-control';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * xargs command - Build and execute command lines from standard input
+ */
+export class XargsCommand implements CommandModule {
+  private os: OS;
+
+  constructor(os: OS) {
+    this.os = os;
+  }
+
+  public get name(): string {
+    return 'xargs';
+  }
+
+  public get description(): string {
+    return 'Build and execute command lines from standard input';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'max-args', alias: 'n', type: 'number', valueName: 'max-args', description: 'Use at most max-args arguments per command line' },
+      { name: 'replace', alias: 'I', type: 'string', valueName: 'replace-str', description: 'Run the command for each input line, replacing replace-str in its arguments' },
+      { name: 'delimiter', alias: 'd', type: 'string', valueName: 'delim', description: 'Items are separated by delim; quotes and backslashes are not special' },
+      { name: 'null', alias: '0', type: 'boolean', description: 'Items are separated by a null character instead of blanks' },
+      { name: 'no-run-if-empty', alias: 'r', type: 'boolean', description: 'Do not run the command if the input is empty' },
+      { name: 'verbose', alias: 't', type: 'boolean', description: 'Print each command line on standard error before running it' }
+    ];
+  }
+
+  public get optionsEndAtOperand(): boolean {
+    return true;
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('xargs [OPTION]... [COMMAND [INITIAL-ARGS]...]', this.options, `Run COMMAND with INITIAL-ARGS and the items read from standard input as arguments.
+Items are separated by blanks and newlines, and can be quoted with ' or ".
+The default COMMAND is echo.
+
+Exit status is 123 if a command failed, 127 if the command was not found.`, `Examples:
+  find . -name "*.log" | xargs rm              Remove the files found
+  find /var -name "*.conf" | xargs grep -n port  Search the files found
+  cat hosts.txt | xargs -n 1 ping -c 1         Ping each host in turn
+  ls | xargs -I {} cp {} /tmp/backup/{}        Copy each file separately`);
+  }
+
+  /**
+   * Execute command with context and streams
+   * Returns exit code (0 for success, 123 if a command failed, 124-127 for other errors)
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    const command: string[] = args.args.length > 0 ? args.args : ['echo'];
+    const replace: string | undefined = args.replace;
+    const maxArgs: number | undefined = replace !== undefined ? 1 : args['max-args'];
+
+    if (maxArgs !== undefined && maxArgs < 1) {
+      context.stderr.writeLine(`xargs: value ${maxArgs} for -n option should be >= 1`);
+      return 1;
+    }
+
+    const processor = this.os.getCommandProcessor();
+    // The commands get an empty standard input, since xargs reads it
+    const childContext = processor.createChildContext(context, context.env);
+    childContext.stdin = new StringInputStream('');
+
+    let exitCode = 0;
+    let ranCommand = false;
+    const items: string[] = [];
+
+    const run = async (batch: string[]): Promise<number | null> => {
+      ranCommand = true;
+      const argv = replace !== undefined
+        ? command.map(arg => arg.split(replace).join(batch[0] ?? ''))
+        : [...command, ...batch];
+      if (args.verbose) {
+        context.stderr.writeLine(argv.join(' '));
+      }
+
+      const status = await processor.processCommand(CommandProcessor.quoteArgs(argv), childContext);
+      await JobControl.checkpoint(context);
+
+      // Like GNU xargs: stop when a command is missing or exits with 255
+      if (status === 126 || status === 127) {
+        return status;
+      }
+      if (status === 255) {
+        context.stderr.writeLine(`xargs: ${command[0]}: exited with status 255; aborting`);
+        return 124;
+      }
+      if (status !== 0) {
+        exitCode = 123;
+      }
+      return null;
+    };
+
+    try {
+      for await (const item of this.readItems(args, context)) {
+        items.push(item);
+        if (maxArgs !== undefined && items.length >= maxArgs) {
+          const stop = await run(items.splice(0, maxArgs));
+          if (stop !== null) return stop;
+        }
+      }
+
+      // The rest of the items, or a single run without items unless -r is given
+      if (items.length > 0 || (!ranCommand && !args['no-run-if-empty'] && replace === undefined)) {
+        const stop = await run(items);
+        if (stop !== null) return stop;
+      }
+
+      return exitCode;
+    } catch (error) {
+      // Ctrl+C and broken pipes end the command
+      if (error instanceof JobInterruptedError) {
+        throw error;
+      }
+      context.stderr.writeLine(`xargs: ${error instanceof Error ? error.message : String(error)}`);
+      return 1;
+    }
+  }
+
+  /**
+   * Read the items of standard input as they arrive
+   * @throws Error for unmatched quotes
+   */
+  private async *readItems(args: CommandArgs, context: CommandContext): AsyncGenerator<string> {
+    // With -d and -0, items may span lines, so the whole input is read first
+    if (args.null || args.delimiter !== undefined) {
+      const delimiter = args.null ? '\0' : this.parseDelimiter(args.delimiter);
+      const items = (await context.stdin.read()).split(delimiter);
+      // A final delimiter (or newline, with -d) ends the last item
+      if (items[items.length - 1] === '' || (!args.null && items[items.length - 1] === '\n')) {
+        items.pop();
+      }
+      yield* items;
+      return;
+    }
+
+    for await (const line of CommandPipe.lines(context.stdin)) {
+      if (args.replace !== undefined) {
+        // With -I, each line is one item
+        const item = line.trimStart();
+        if (item) yield item;
+        continue;
+      }
+      yield* this.splitItems(line);
+    }
+  }
+
+  /**
+   * Split a line into items at blanks, handling quotes and backslashes
+   */
+  private splitItems(line: string): string[] {
+    const items: string[] = [];
+    let current = '';
+    let inItem = false;
+    let quote: string | null = null;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (quote) {
+        if (char === quote) {
+          quote = null;
+        } else {
+          current += char;
+        }
+      } else if (char === '"' || char === "'") {
+        quote = char;
+        inItem = true;
+      } else if (char === '\\' && i + 1 < line.length) {
+        current += line[++i];
+        inItem = true;
+      } else if (char === ' ' || char === '\t') {
+        if (inItem) items.push(current);
+        current = '';
+        inItem = false;
+      } else {
+        current += char;
+        inItem = true;
+      }
+    }
+
+    if (quote) {
+      const name = quote === '"' ? 'double' : 'single';
+      throw new Error(`unmatched ${name} quote; by default quotes are special to xargs unless you use the -0 option`);
+    }
+    if (inItem) items.push(current);
+    return items;
+  }
+
+  private parseDelimiter(delimiter: string): string {
+    const escapes: Record<string, string> = { '\\n': '\n', '\\t': '\t', '\\0': '\0', '\\\\': '\\' };
+    return escapes[delimiter] ?? delimiter.charAt(0);
+  }
+}
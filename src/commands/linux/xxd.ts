@@ -0,0 +1,192 @@
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { OS } from '../../core/os';
+import { CommandInput } from '../command-input';
+import { ArchiveFiles } from '../archive-files';
+import { JobControl, JobInterruptedError } from '../job-control';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * xxd command - Make a hex dump of a file, or turn a hex dump back into bytes
+ */
+export class XxdCommand implements CommandModule {
+  private os: OS;
+
+  constructor(os: OS) {
+    this.os = os;
+  }
+
+  public get name(): string {
+    return 'xxd';
+  }
+
+  public get description(): string {
+    return 'Make a hex dump or do the reverse';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'revert', alias: 'r', type: 'boolean', description: 'Convert a hex dump back into binary' },
+      { name: 'plain', alias: 'p', type: 'boolean', description: 'Plain hex dump without offsets and characters' },
+      { name: 'cols', alias: 'c', type: 'number', valueName: 'cols', description: 'Bytes per line (default 16, 30 with -p)' },
+      { name: 'groupsize', alias: 'g', type: 'number', default: 2, valueName: 'bytes', description: 'Bytes per group, separated by spaces; 0 for no grouping' },
+      { name: 'len', alias: 'l', type: 'number', valueName: 'len', description: 'Stop after len bytes' },
+      { name: 'seek', alias: 's', type: 'number', default: 0, valueName: 'offset', description: 'Start at byte offset' },
+      { name: 'uppercase', alias: 'u', type: 'boolean', description: 'Use upper case hex letters' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('xxd [OPTION]... [INFILE [OUTFILE]]', this.options,
+      'Write a hex dump of INFILE, or standard input, to OUTFILE or standard output.\nWith -r, read a hex dump and write the bytes it describes.', `Examples:
+  xxd firmware.bin | head       Show the first bytes of a file
+  xxd -p key.bin                Print the bytes as plain hex
+  xxd -r -p key.hex key.bin     Turn plain hex back into a binary file
+  xxd -s 16 -l 32 image.png     Dump 32 bytes from offset 16`);
+  }
+
+  /**
+   * Execute command with context and streams
+   * Returns exit code (0 for success, 1 for errors)
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    if (args.args.length > 2) {
+      context.stderr.writeLine(`xxd: too many arguments: '${args.args[2]}'`);
+      return 1;
+    }
+    const cols: number = args.cols ?? (args.plain ? 30 : 16);
+    const groupSize: number = args.groupsize;
+    if (!Number.isInteger(cols) || cols < 1 || cols > 256) {
+      context.stderr.writeLine('xxd: invalid number of columns (max. 256)');
+      return 1;
+    }
+    if (!Number.isInteger(groupSize) || groupSize < 0) {
+      context.stderr.writeLine(`xxd: invalid group size: '${groupSize}'`);
+      return 1;
+    }
+
+    try {
+      const input = args.args[0] ?? '-';
+      const output: string | undefined = args.args[1];
+
+      if (args.revert) {
+        const content = await CommandInput.read(input, context, 'xxd');
+        if (content === null) {
+          return 1;
+        }
+        const bytes = args.plain ? this.parsePlain(content) : this.parseDump(content);
+        if (output !== undefined) {
+          await this.writeOutput(output, bytes, context);
+        } else {
+          context.stdout.write(new TextDecoder().decode(bytes));
+        }
+        return 0;
+      }
+
+      const data = await CommandInput.readBytes(input, context, 'xxd');
+      if (data === null) {
+        return 1;
+      }
+      const seek: number = Math.max(0, args.seek);
+      const end = args.len !== undefined ? Math.min(data.length, seek + Math.max(0, args.len)) : data.length;
+      const lines = args.plain
+        ? this.plainLines(data.subarray(seek, end), cols, args.uppercase)
+        : this.dumpLines(data.subarray(seek, end), seek, cols, groupSize, args.uppercase);
+
+      if (output !== undefined) {
+        await this.writeOutput(output, new TextEncoder().encode(lines.map(line => line + '\n').join('')), context);
+        return 0;
+      }
+      for (const line of lines) {
+        context.stdout.writeLine(line);
+        // Stop when the reader of our output has exited
+        await JobControl.checkpoint(context);
+      }
+      return 0;
+    } catch (error) {
+      // Ctrl+C and broken pipes end the command
+      if (error instanceof JobInterruptedError) {
+        throw error;
+      }
+      context.stderr.writeLine(`xxd: ${error instanceof Error ? error.message : String(error)}`);
+      return 1;
+    }
+  }
+
+  /**
+   * Format lines like "00000000: 6865 6c6c 6f0a                           hello."
+   */
+  private dumpLines(data: Uint8Array, start: number, cols: number, groupSize: number, uppercase: boolean): string[] {
+    const lines: string[] = [];
+    const groups = groupSize === 0 ? 1 : Math.ceil(cols / groupSize);
+    const width = cols * 2 + groups - 1;
+
+    for (let offset = 0; offset < data.length; offset += cols) {
+      const row = data.subarray(offset, offset + cols);
+      let hex = '';
+      row.forEach((byte, i) => {
+        if (i > 0 && groupSize > 0 && i % groupSize === 0) hex += ' ';
+        hex += this.hex(byte, uppercase);
+      });
+      const text = Array.from(row, byte => byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.').join('');
+      lines.push(`${(start + offset).toString(16).padStart(8, '0')}: ${hex.padEnd(width)}  ${text}`);
+    }
+
+    return lines;
+  }
+
+  private plainLines(data: Uint8Array, cols: number, uppercase: boolean): string[] {
+    const lines: string[] = [];
+    for (let offset = 0; offset < data.length; offset += cols) {
+      lines.push(Array.from(data.subarray(offset, offset + cols), byte => this.hex(byte, uppercase)).join(''));
+    }
+    return lines;
+  }
+
+  /**
+   * Read the bytes of a dump made by xxd; each line is placed at its offset
+   */
+  private parseDump(content: string): Uint8Array {
+    const bytes: number[] = [];
+    for (const line of CommandInput.splitLines(content)) {
+      const match = line.match(/^\s*([0-9a-fA-F]+):\s?(.*)$/);
+      if (!match) continue;
+
+      let offset = parseInt(match[1], 16);
+      // The hex columns end where the characters column starts, after two spaces
+      const columns = match[2].split('  ')[0].replace(/\s+/g, '');
+      for (let i = 0; i + 1 < columns.length; i += 2) {
+        const byte = columns.substring(i, i + 2);
+        if (!/^[0-9a-fA-F]{2}$/.test(byte)) break;
+        while (bytes.length < offset) bytes.push(0);
+        bytes[offset++] = parseInt(byte, 16);
+      }
+    }
+    return Uint8Array.from(bytes);
+  }
+
+  /**
+   * Read the bytes of plain hex, ignoring whitespace
+   */
+  private parsePlain(content: string): Uint8Array {
+    const hex = content.replace(/[^0-9a-fA-F]/g, '');
+    const bytes = new Uint8Array(Math.floor(hex.length / 2));
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+    }
+    return bytes;
+  }
+
+  private async writeOutput(file: string, bytes: Uint8Array, context: CommandContext): Promise<void> {
+    const fileSystem = this.os.getFileSystem();
+    const path = fileSystem.parsePath(file, context.cwd);
+    if (await fileSystem.exists(path) && (await fileSystem.stat(path)).isDirectory) {
+      throw new Error(`${file}: Is a directory`);
+    }
+    await ArchiveFiles.writeBytes(fileSystem, path, bytes);
+  }
+
+  private hex(byte: number, uppercase: boolean): string {
+    const hex = byte.toString(16).padStart(2, '0');
+    return uppercase ? hex.toUpperCase() : hex;
+  }
+}
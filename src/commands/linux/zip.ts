@@ -0,0 +1,115 @@
+import JSZip from 'jszip';
+import { CommandModule, CommandArgs, CommandContext } from '../command-processor';
+import { OS } from '../../core/os';
+import { PathUtils } from '../../core/path-utils';
+import { ArchiveFiles, ArchiveMember } from '../archive-files';
+import { JobControl, JobInterruptedError } from '../job-control';
+import { CommandOption, CommandOptions } from '../command-options';
+
+/**
+ * zip command - Package and compress files into a zip archive
+ */
+export class ZipCommand implements CommandModule {
+  private os: OS;
+
+  constructor(os: OS) {
+    this.os = os;
+  }
+
+  public get name(): string {
+    return 'zip';
+  }
+
+  public get description(): string {
+    return 'Package and compress files into a zip archive';
+  }
+
+  public get options(): CommandOption[] {
+    return [
+      { name: 'recurse-paths', alias: 'r', type: 'boolean', description: 'Add the contents of directories' },
+      { name: 'quiet', alias: 'q', type: 'boolean', description: 'Do not list the files added' }
+    ];
+  }
+
+  public get usage(): string {
+    return CommandOptions.formatUsage('zip [OPTION]... ARCHIVE FILE...', this.options,
+      `Add the FILEs to ARCHIVE (.zip is added to its name when it has no suffix).
+An existing archive is updated. Permissions and modification times are kept.`, `Examples:
+  zip notes.zip a.txt b.txt     Archive two files
+  zip -r project.zip project/   Archive a directory with its contents`);
+  }
+
+  /**
+   * Execute command with context and streams
+   * Returns exit code (0 for success, 12 if there was nothing to add, 18 if files were missing)
+   */
+  public async execute(args: CommandArgs, context: CommandContext): Promise<number> {
+    if (args.args.length === 0) {
+      context.stderr.writeLine('zip error: missing archive name');
+      context.stderr.writeLine("Try 'zip --help' for more information.");
+      return 16;
+    }
+
+    const fileSystem = this.os.getFileSystem();
+    let archiveName: string = args.args[0];
+    if (!PathUtils.basename(archiveName).includes('.')) {
+      archiveName += '.zip';
+    }
+    const archivePath = fileSystem.parsePath(archiveName, context.cwd);
+
+    try {
+      const zip = await fileSystem.exists(archivePath)
+        ? await JSZip.loadAsync(await ArchiveFiles.readBytes(fileSystem, archivePath))
+        : new JSZip();
+
+      let missing = false;
+      const members: ArchiveMember[] = [];
+      for (const file of args.args.slice(1)) {
+        const path = fileSystem.parsePath(file, context.cwd);
+        if (!await fileSystem.exists(path)) {
+          context.stderr.writeLine(`zip warning: name not matched: ${file}`);
+          missing = true;
+          continue;
+        }
+        members.push(...await ArchiveFiles.collect(fileSystem, path, file, args['recurse-paths']));
+      }
+
+      const added = members.filter(member => member.path !== archivePath && member.name !== '.');
+      if (added.length === 0) {
+        context.stderr.writeLine(`zip error: Nothing to do! (${archiveName})`);
+        return 12;
+      }
+
+      for (const member of added) {
+        const name = member.isDirectory ? `${member.name}/` : member.name;
+        const action = zip.files[name] ? 'updating' : '  adding';
+        if (member.isDirectory) {
+          // The file type bits are part of the Unix permissions in zip archives
+          zip.file(name, null, { dir: true, date: member.modified, unixPermissions: 0o40000 | member.mode });
+        } else {
+          zip.file(name, await ArchiveFiles.readBytes(fileSystem, member.path), {
+            binary: true,
+            date: member.modified,
+            unixPermissions: 0o100000 | member.mode
+          });
+        }
+
+        if (!args.quiet) {
+          context.stdout.writeLine(`${action}: ${name}`);
+          await JobControl.checkpoint(context);
+        }
+      }
+
+      const archive = await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE', platform: 'UNIX' });
+      await ArchiveFiles.writeBytes(fileSystem, archivePath, archive);
+      return missing ? 18 : 0;
+    } catch (error) {
+      // Ctrl+C and broken pipes end the command
+      if (error instanceof JobInterruptedError) {
+        throw error;
+      }
+      context.stderr.writeLine(`zip error: ${error instanceof Error ? error.message : String(error)}`);
+      return 1;
+    }
+  }
+}
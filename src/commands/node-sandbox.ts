@@ -0,0 +1,564 @@
+import { OS } from '../core/os';
+import { PathUtils } from '../core/path-utils';
+import { CommandContext } from './command-processor';
+import { INTERRUPTED_EXIT_CODE } from './job-control';
+
+/**
+ * Options for running a script in the sandbox
+ */
+export interface NodeSandboxOptions {
+  /**
+   * process.argv for the script: ['node', script path, ...args]
+   */
+  argv: string[];
+
+  /**
+   * CPU time budget in milliseconds; time spent waiting (for the API or timers) or stopped does not count
+   */
+  timeLimit: number;
+
+  /**
+   * Name shown in ps while the script runs
+   */
+  processName?: string;
+}
+
+/**
+ * Message sent by the sandbox worker
+ */
+type WorkerMessage =
+  | { type: 'stdout' | 'stderr'; text: string }
+  | { type: 'call'; id: number; api: string; method: string; args: any[] }
+  | { type: 'busy' | 'idle' }
+  | { type: 'exit'; code: number };
+
+/**
+ * Exit code used when a script is stopped for exceeding its CPU time limit
+ */
+export const TIME_LIMIT_EXIT_CODE = 124;
+
+/**
+ * Source of the sandbox worker.
+ *
+ * The worker has no DOM and its network primitives are removed before the script runs,
+ * so a script can only reach the game through the curated API below. Every API call is
+ * forwarded to the main thread as a message and answered with a 'result' message.
+ * The worker reports when it is busy running a task, so that only that time counts as CPU
+ * time, and holds its timers while the job is stopped.
+ */
+const WORKER_SOURCE = `
+'use strict';
+const post = self.postMessage.bind(self);
+const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+const pending = new Map();
+let nextCallId = 0;
+let activeTimers = 0;
+let finished = false;
+let exited = false;
+let busy = false;
+let stopped = false;
+const heldTimers = new Set();
+
+// Remove globals from the global scope and its prototypes so they cannot be recovered
+function removeGlobals(names) {
+  for (const name of names) {
+    for (let target = self; target; target = Object.getPrototypeOf(target)) {
+      if (target === self || Object.prototype.hasOwnProperty.call(target, name)) {
+        try { Object.defineProperty(target, name, { value: undefined, writable: false, configurable: false }); } catch (e) {}
+      }
+    }
+  }
+}
+
+removeGlobals(['fetch', 'XMLHttpRequest', 'WebSocket', 'WebTransport', 'EventSource', 'importScripts', 'indexedDB', 'caches',
+  'Worker', 'SharedWorker', 'BroadcastChannel', 'eval', 'Function']);
+
+// Code compiled from strings could use import(), which loads modules from the network
+for (const fn of [function () {}, async function () {}, function* () {}, async function* () {}]) {
+  try { Object.defineProperty(Object.getPrototypeOf(fn), 'constructor', { value: undefined, writable: false, configurable: false }); } catch (e) {}
+}
+const IMPORT_CALL = /(^|[^.\\w$])import(\\s|\\/\\*[\\s\\S]*?\\*\\/|\\/\\/[^\\n]*\\n)*\\(/;
+
+// The CPU clock runs from the start of a task until the microtasks it queued are done
+function markBusy() {
+  if (busy) return;
+  busy = true;
+  post({ type: 'busy' });
+  nativeSetTimeout(() => {
+    busy = false;
+    post({ type: 'idle' });
+  }, 0);
+}
+
+function call(api, method, args) {
+  return new Promise((resolve, reject) => {
+    const id = nextCallId++;
+    pending.set(id, { resolve, reject });
+    post({ type: 'call', id, api, method, args });
+  });
+}
+
+function format(values) {
+  return values.map(value => {
+    if (typeof value === 'string') return value;
+    if (value instanceof Error) return value.stack || String(value);
+    try {
+      // Short values stay on one line, like Node's console
+      const inline = JSON.stringify(value);
+      return inline === undefined || inline.length <= 72 ? String(inline) : JSON.stringify(value, null, 2);
+    } catch (e) {
+      return String(value);
+    }
+  }).join(' ');
+}
+
+function exit(code) {
+  if (exited) return;
+  exited = true;
+  post({ type: 'exit', code });
+}
+
+function checkDone() {
+  if (finished && activeTimers === 0 && pending.size === 0) exit(0);
+}
+
+class ExitSignal {}
+
+const sandboxConsole = {
+  log: (...values) => post({ type: 'stdout', text: format(values) + '\\n' }),
+  info: (...values) => post({ type: 'stdout', text: format(values) + '\\n' }),
+  debug: (...values) => post({ type: 'stdout', text: format(values) + '\\n' }),
+  warn: (...values) => post({ type: 'stderr', text: format(values) + '\\n' }),
+  error: (...values) => post({ type: 'stderr', text: format(values) + '\\n' })
+};
+
+const fs = {
+  readFile: path => call('fs', 'readFile', [String(path)]),
+  writeFile: (path, content) => call('fs', 'writeFile', [String(path), String(content)]),
+  appendFile: (path, content) => call('fs', 'appendFile', [String(path), String(content)]),
+  readdir: path => call('fs', 'readdir', [String(path)]),
+  exists: path => call('fs', 'exists', [String(path)]),
+  stat: path => call('fs', 'stat', [String(path)]),
+  mkdir: path => call('fs', 'mkdir', [String(path)]),
+  unlink: path => call('fs', 'unlink', [String(path)])
+};
+
+const http = {
+  request: options => call('http', 'request', [options]),
+  get: (url, headers) => call('http', 'request', [{ url, method: 'GET', headers }]),
+  post: (url, body, headers) => call('http', 'request', [{ url, method: 'POST', body, headers }])
+};
+
+const net = {
+  scanHost: (host, ports) => call('net', 'scanHost', [String(host), ports === undefined ? undefined : String(ports)]),
+  resolve: hostname => call('net', 'resolve', [String(hostname)])
+};
+
+const modules = { fs, http, net };
+
+function wrapTimer(schedule, repeat) {
+  return (callback, delay, ...args) => {
+    activeTimers++;
+    let handle;
+    const run = () => {
+      if (!timers.has(handle)) return;
+      // Timers of a stopped job fire when it continues
+      if (stopped) {
+        heldTimers.add(run);
+        return;
+      }
+      markBusy();
+      if (!repeat) {
+        activeTimers--;
+        timers.delete(handle);
+      }
+      try { callback(...args); } catch (error) { fail(error); }
+      if (!repeat) checkDone();
+    };
+    handle = schedule(run, delay);
+    timers.set(handle, repeat);
+    return handle;
+  };
+}
+
+const timers = new Map();
+const nativeSetTimeout = self.setTimeout.bind(self);
+const nativeSetInterval = self.setInterval.bind(self);
+const nativeClearTimeout = self.clearTimeout.bind(self);
+const sandboxSetTimeout = wrapTimer(nativeSetTimeout, false);
+const sandboxSetInterval = wrapTimer(nativeSetInterval, true);
+const sandboxClearTimer = handle => {
+  if (timers.has(handle)) {
+    timers.delete(handle);
+    activeTimers--;
+    nativeClearTimeout(handle);
+    checkDone();
+  }
+};
+
+function fail(error) {
+  if (error instanceof ExitSignal) return;
+  post({ type: 'stderr', text: (error && error.stack ? error.stack : 'Uncaught ' + String(error)) + '\\n' });
+  exit(1);
+}
+
+self.addEventListener('unhandledrejection', event => { event.preventDefault(); fail(event.reason); });
+
+self.addEventListener('message', async event => {
+  const message = event.data;
+
+  if (message.type === 'stop') {
+    stopped = true;
+    return;
+  }
+  if (message.type === 'continue') {
+    stopped = false;
+    const timers = [...heldTimers];
+    heldTimers.clear();
+    timers.forEach(run => run());
+    return;
+  }
+
+  markBusy();
+  if (message.type === 'result') {
+    const call = pending.get(message.id);
+    if (!call) return;
+    pending.delete(message.id);
+    if (message.error !== undefined) call.reject(new Error(message.error));
+    else call.resolve(message.value);
+    nativeSetTimeout(checkDone, 0);
+    return;
+  }
+
+  if (message.type !== 'run') return;
+
+  const process = {
+    argv: message.argv,
+    env: message.env,
+    platform: 'linux',
+    exitCode: 0,
+    cwd: () => message.cwd,
+    exit: code => {
+      exit(code === undefined ? process.exitCode : Number(code) || 0);
+      throw new ExitSignal();
+    },
+    stdout: { write: text => post({ type: 'stdout', text: String(text) }) },
+    stderr: { write: text => post({ type: 'stderr', text: String(text) }) }
+  };
+  const require = name => {
+    const module = modules[String(name).replace(/^node:/, '')];
+    if (!module) throw new Error("Cannot find module '" + name + "'");
+    return module;
+  };
+  const module = { exports: {} };
+
+  try {
+    if (IMPORT_CALL.test(message.code)) {
+      throw new SyntaxError('import() is not available in the sandbox, use require()');
+    }
+    const script = new AsyncFunction(
+      'console', 'require', 'process', 'module', 'exports', 'fs', 'http', 'net',
+      '__filename', '__dirname', 'setTimeout', 'setInterval', 'clearTimeout', 'clearInterval',
+      'self', 'globalThis', 'postMessage', 'fetch', 'importScripts',
+      // Strict, so that this is not the global object; on the same line to keep line numbers
+      "'use strict'; " + message.code
+    );
+    await script(
+      sandboxConsole, require, process, module, module.exports, fs, http, net,
+      message.filename, message.dirname, sandboxSetTimeout, sandboxSetInterval, sandboxClearTimer, sandboxClearTimer,
+      undefined, undefined, undefined, undefined, undefined
+    );
+    finished = true;
+    if (process.exitCode) exit(process.exitCode);
+    checkDone();
+  } catch (error) {
+    fail(error);
+  }
+});
+
+// Only the private references above may talk to the main thread or run code from strings
+removeGlobals(['postMessage', 'setTimeout', 'setInterval', 'clearTimeout', 'clearInterval', 'close', 'onmessage']);
+`;
+
+/**
+ * Runs JavaScript in an isolated Web Worker with a curated API:
+ * fs (virtual filesystem), http (WebClient), net (scanHost, DNS) and console
+ * wired to the command's stdout and stderr.
+ */
+export class NodeSandbox {
+  private os: OS;
+  private context: CommandContext;
+
+  constructor(os: OS, context: CommandContext) {
+    this.os = os;
+    this.context = context;
+  }
+
+  /**
+   * Check if sandboxed scripts can run in this browser
+   */
+  public static isSupported(): boolean {
+    return typeof Worker !== 'undefined' && typeof Blob !== 'undefined' && typeof URL.createObjectURL === 'function';
+  }
+
+  /**
+   * Run a script
+   * @param code JavaScript source
+   * @param options Arguments, time limit and process name
+   * @returns Exit code: the script's process.exit code, 1 on an uncaught error,
+   *          TIME_LIMIT_EXIT_CODE when the CPU time limit is exceeded, INTERRUPTED_EXIT_CODE on Ctrl+C
+   */
+  public run(code: string, options: NodeSandboxOptions): Promise<number> {
+    const context = this.context;
+    const scriptPath = options.argv[1] ?? '[eval]';
+    const blobUrl = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'application/javascript' }));
+    const worker = new Worker(blobUrl);
+    const processManager = this.os.getProcessManager();
+
+    return new Promise<number>(resolve => {
+      let done = false;
+      let busy = false;
+      let stopped = false;
+      let remaining = options.timeLimit;
+      let clockStart = Date.now();
+      let timer: number | null = null;
+      let pid: number | null = null;
+      // Messages of the worker and replies to it wait while the job is stopped
+      const heldMessages: WorkerMessage[] = [];
+      const heldReplies: any[] = [];
+
+      const interrupt = () => finish(INTERRUPTED_EXIT_CODE);
+
+      const finish = (exitCode: number) => {
+        if (done) return;
+        done = true;
+        if (timer !== null) window.clearTimeout(timer);
+        context.signal?.removeEventListener('abort', interrupt);
+        worker.terminate();
+        URL.revokeObjectURL(blobUrl);
+        if (pid !== null) {
+          const finishedPid = pid;
+          pid = null;
+          processManager.killProcess(finishedPid);
+        }
+        resolve(exitCode);
+      };
+
+      // The CPU clock only runs while the worker is busy running the script and the job is not stopped
+      const updateClock = () => {
+        const running = busy && !stopped && !done;
+        if (running && timer === null) {
+          clockStart = Date.now();
+          timer = window.setTimeout(() => {
+            context.stderr.writeLine(`node: ${scriptPath}: CPU time limit of ${options.timeLimit / 1000}s exceeded, script killed`);
+            finish(TIME_LIMIT_EXIT_CODE);
+          }, Math.max(remaining, 0));
+        } else if (!running && timer !== null) {
+          window.clearTimeout(timer);
+          timer = null;
+          remaining -= Date.now() - clockStart;
+        }
+      };
+
+      const reply = (message: any) => {
+        if (done) return;
+        if (stopped) {
+          heldReplies.push(message);
+        } else {
+          worker.postMessage(message);
+        }
+      };
+
+      const handleMessage = async (message: WorkerMessage) => {
+        switch (message.type) {
+          case 'stdout':
+            context.stdout.write(message.text);
+            break;
+          case 'stderr':
+            context.stderr.write(message.text);
+            break;
+          case 'exit':
+            finish(message.code);
+            break;
+          case 'call': {
+            try {
+              reply({ type: 'result', id: message.id, value: await this.handleCall(message.api, message.method, message.args) });
+            } catch (error: any) {
+              reply({ type: 'result', id: message.id, error: error?.message ?? String(error) });
+            }
+            break;
+          }
+        }
+      };
+
+      worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+        const message = event.data;
+        if (done) return;
+
+        if (message.type === 'busy' || message.type === 'idle') {
+          busy = message.type === 'busy';
+          updateClock();
+        } else if (stopped) {
+          heldMessages.push(message);
+        } else {
+          handleMessage(message);
+        }
+      };
+
+      // Ctrl+Z holds the timers of the script and its messages, and stops its clock, until the job continues
+      const watchJob = async () => {
+        const job = context.job;
+        while (job && !done && job.state !== 'done') {
+          if ((job.state === 'stopped') !== stopped) {
+            stopped = job.state === 'stopped';
+            worker.postMessage({ type: stopped ? 'stop' : 'continue' });
+            updateClock();
+            if (!stopped) {
+              heldReplies.splice(0).forEach(message => worker.postMessage(message));
+              heldMessages.splice(0).forEach(message => handleMessage(message));
+            }
+          }
+          await job.waitForChange();
+        }
+      };
+
+      worker.onerror = (event: ErrorEvent) => {
+        event.preventDefault();
+        context.stderr.writeLine(`node: ${event.message}`);
+        finish(1);
+      };
+
+      pid = processManager.createProcess(options.processName ?? 'node', this.os.currentUserName, 5, 20, options.argv.join(' '),
+        undefined, context.job?.pid, () => finish(137));
+
+      // Ctrl+C terminates the worker
+      if (context.signal?.aborted) {
+        finish(INTERRUPTED_EXIT_CODE);
+        return;
+      }
+      context.signal?.addEventListener('abort', interrupt);
+
+      watchJob();
+      worker.postMessage({
+        type: 'run',
+        code,
+        argv: options.argv,
+        env: { ...context.env },
+        cwd: this.os.getFileSystem().parsePath(context.cwd),
+        filename: scriptPath,
+        dirname: PathUtils.dirname(scriptPath)
+      });
+    });
+  }
+
+  /**
+   * Handle an API call from the script
+   * @returns A structured-cloneable result
+   */
+  private async handleCall(api: string, method: string, args: any[]): Promise<any> {
+    switch (`${api}.${method}`) {
+      case 'fs.readFile':
+        return this.os.getFileSystem().readFile(await this.resolveExisting(args[0]));
+      case 'fs.writeFile':
+        await this.writeFile(args[0], args[1], false);
+        return undefined;
+      case 'fs.appendFile':
+        await this.writeFile(args[0], args[1], true);
+        return undefined;
+      case 'fs.readdir': {
+        const entries = await this.os.getFileSystem().readDirectory(await this.resolveExisting(args[0]));
+        return entries.map(entry => entry.name);
+      }
+      case 'fs.exists':
+        return this.os.getFileSystem().exists(this.resolve(args[0]));
+      case 'fs.stat': {
+        const stats = await this.os.getFileSystem().stat(await this.resolveExisting(args[0]));
+        return {
+          isDirectory: stats.isDirectory,
+          isFile: !stats.isDirectory,
+          size: stats.size ?? 0,
+          permissions: stats.permissions,
+          owner: stats.owner,
+          mtime: stats.modifiedTime?.getTime()
+        };
+      }
+      case 'fs.mkdir':
+        await this.checkWritable(PathUtils.dirname(this.resolve(args[0])), args[0]);
+        await this.os.getFileSystem().createDirectory(this.resolve(args[0]));
+        return undefined;
+      case 'fs.unlink': {
+        const path = await this.resolveExisting(args[0]);
+        await this.checkWritable(path, args[0]);
+        await this.os.getFileSystem().deleteFile(path);
+        return undefined;
+      }
+      case 'http.request': {
+        const options = args[0] ?? {};
+        try {
+          return await this.os.getWebClient().request({
+            url: String(options.url),
+            method: String(options.method ?? 'GET'),
+            headers: options.headers,
+            body: options.body,
+            owner: this.os.socketOwner('node', this.context.job?.pid)
+          });
+        } catch (error: any) {
+          throw new Error(error?.message ?? String(error));
+        }
+      }
+      case 'net.scanHost': {
+        const ip = await this.resolveHost(args[0]);
+        return ip ? this.os.getNetworkInterface().scanHost(ip, args[1]) : null;
+      }
+      case 'net.resolve':
+        return this.os.getResolver().resolve(args[0]);
+      default:
+        throw new Error(`${api}.${method} is not available in the sandbox`);
+    }
+  }
+
+  private resolve(path: string): string {
+    return this.os.getFileSystem().parsePath(path, this.context.cwd);
+  }
+
+  private async resolveExisting(path: string): Promise<string> {
+    const resolved = this.resolve(path);
+    if (!await this.os.getFileSystem().exists(resolved)) {
+      throw new Error(`ENOENT: no such file or directory, '${path}'`);
+    }
+    return resolved;
+  }
+
+  /**
+   * Check write access on a path, like output redirection does
+   */
+  private async checkWritable(path: string, original: string): Promise<void> {
+    const fileSystem = this.os.getFileSystem();
+    if (!await fileSystem.exists(path)) {
+      throw new Error(`ENOENT: no such file or directory, '${original}'`);
+    }
+    if (!await fileSystem.canIWrite(path)) {
+      throw new Error(`EACCES: permission denied, '${original}'`);
+    }
+  }
+
+  private async writeFile(path: string, content: string, append: boolean): Promise<void> {
+    const fileSystem = this.os.getFileSystem();
+    const resolved = this.resolve(path);
+    const exists = await fileSystem.exists(resolved);
+
+    await this.checkWritable(exists ? resolved : PathUtils.dirname(resolved), path);
+    if (exists && (await fileSystem.stat(resolved)).isDirectory) {
+      throw new Error(`EISDIR: illegal operation on a directory, '${path}'`);
+    }
+
+    await fileSystem.writeFile(resolved, append && exists ? await fileSystem.readFile(resolved) + content : content);
+  }
+
+  /**
+   * Resolve a hostname or IP address to an IP address, /etc/hosts first
+   */
+  private resolveHost(host: string): Promise<string | null> {
+    return this.os.getResolver().resolve(host);
+  }
+}
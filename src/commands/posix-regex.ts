@@ -0,0 +1,149 @@
+/**
+ * JavaScript equivalents of POSIX character classes like [[:digit:]]
+ */
+const CHARACTER_CLASSES: Record<string, string> = {
+  alnum: 'a-zA-Z0-9',
+  alpha: 'a-zA-Z',
+  blank: ' \\t',
+  cntrl: '\\x00-\\x1f\\x7f',
+  digit: '0-9',
+  graph: '\\x21-\\x7e',
+  lower: 'a-z',
+  print: '\\x20-\\x7e',
+  punct: '!-\\/:-@\\[-`{-~',
+  space: '\\s',
+  upper: 'A-Z',
+  xdigit: '0-9A-Fa-f'
+};
+
+/**
+ * Helper class for POSIX regular expressions, as used by sed and awk
+ *
+ * Basic expressions (BRE, sed's default) write groups and repetitions as \( \) \{ \} \+ \? \|
+ * and treat the bare characters as literals; extended expressions (ERE, sed -E and awk)
+ * are close to JavaScript's. Both support bracket expressions with [:class:] names and \< \>.
+ */
+export class PosixRegex {
+  /**
+   * Translate a POSIX regular expression into a JavaScript one
+   * @param pattern The POSIX pattern
+   * @param extended True for an extended expression, false for a basic one
+   * @param flags JavaScript flags, like 'g' or 'i'
+   * @throws Error when the pattern is invalid
+   */
+  public static compile(pattern: string, extended: boolean, flags: string = ''): RegExp {
+    try {
+      return new RegExp(this.translate(pattern, extended), flags);
+    } catch {
+      throw new Error(`invalid regular expression: ${pattern}`);
+    }
+  }
+
+  /**
+   * Translate the source of a POSIX regular expression into JavaScript syntax
+   */
+  public static translate(pattern: string, extended: boolean): string {
+    // Characters that are operators in ERE but literals in BRE, where \c makes them operators
+    const toggled = '(){}+?|';
+    let result = '';
+
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i];
+
+      if (char === '[') {
+        const end = this.findBracketEnd(pattern, i);
+        if (end !== -1) {
+          result += this.translateBracket(pattern.substring(i + 1, end));
+          i = end;
+          continue;
+        }
+        result += '\\[';
+        continue;
+      }
+
+      if (char === '\\' && i + 1 < pattern.length) {
+        const next = pattern[++i];
+        if (next === '<' || next === '>') {
+          result += '\\b';
+        } else if (toggled.includes(next)) {
+          result += extended ? '\\' + next : next;
+        } else {
+          result += '\\' + next;
+        }
+        continue;
+      }
+
+      if (toggled.includes(char)) {
+        // Bare, they are literals in a BRE; in an ERE { is a literal when it does not start a bound
+        if (!extended || (char === '{' && !/^\{\d+(,\d*)?\}/.test(pattern.substring(i)))) {
+          result += '\\' + char;
+        } else {
+          result += char;
+        }
+        continue;
+      }
+
+      if (char === '*' && (result === '' || result.endsWith('(') || result === '^')) {
+        result += '\\*';
+        continue;
+      }
+
+      result += char;
+    }
+
+    return result;
+  }
+
+  /**
+   * Find the ] closing a bracket expression; a ] right after [ or [^ is a literal
+   */
+  private static findBracketEnd(pattern: string, start: number): number {
+    let i = start + 1;
+    if (pattern[i] === '^') i++;
+    if (pattern[i] === ']') i++;
+
+    for (; i < pattern.length; i++) {
+      if (pattern.startsWith('[:', i)) {
+        const close = pattern.indexOf(':]', i + 2);
+        if (close !== -1) {
+          i = close + 1;
+          continue;
+        }
+      }
+      if (pattern[i] === ']') {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Translate the inside of a bracket expression; backslashes are literal in POSIX brackets
+   */
+  private static translateBracket(content: string): string {
+    let result = '[';
+    let i = 0;
+    if (content[0] === '^') {
+      result += '^';
+      i++;
+    }
+
+    for (; i < content.length; i++) {
+      const char = content[i];
+      const className = /^\[:([a-z]+):\]/.exec(content.substring(i));
+      if (className && CHARACTER_CLASSES[className[1]] !== undefined) {
+        result += CHARACTER_CLASSES[className[1]];
+        i += className[0].length - 1;
+      } else if (char === '\\' && 'ntr'.includes(content[i + 1] ?? '-')) {
+        // sed and awk still accept \n and \t inside brackets
+        result += '\\' + content[++i];
+      } else if (char === '\\' || char === ']' || char === '[') {
+        result += '\\' + char;
+      } else {
+        result += char;
+      }
+    }
+
+    return result + ']';
+  }
+}
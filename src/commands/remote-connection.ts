@@ -0,0 +1,199 @@
+import { OS } from '../core/os';
+import { HostInfo } from '../core/network';
+import { PathUtils } from '../core/path-utils';
+import { CommandContext } from './command-processor';
+import { JobControl } from './job-control';
+
+/**
+ * Wrong passwords allowed before the connection is closed, like sshd's MaxAuthTries
+ */
+const PASSWORD_ATTEMPTS = 3;
+
+/**
+ * Speed of the links between hosts, in bytes per second (10 Mbit/s)
+ */
+const TRANSFER_RATE = 1250000;
+
+/**
+ * Thrown when a connection to a host cannot be opened
+ */
+export class ConnectionError extends Error {
+  /**
+   * @param reason 'unresolved' when the name is unknown, 'unreachable' when no route leads to the host,
+   * 'timeout' when the host does not answer, 'refused' when nothing listens on the port
+   */
+  constructor(public readonly reason: 'unresolved' | 'unreachable' | 'timeout' | 'refused', message: string) {
+    super(message);
+    this.name = 'ConnectionError';
+  }
+}
+
+/**
+ * Helper class for the commands connecting to other hosts (ssh, scp and ftp): opening
+ * connections, ssh host keys and passwords, and the time taken by file transfers
+ */
+export class RemoteConnection {
+  /**
+   * Connect to a port of a host, from the system the command runs on. Waits like the network
+   * would: a round trip when the host answers, a few seconds when it does not.
+   * @param os System the connection comes from
+   * @param hostName Name or IP address of the host
+   * @returns The host, which has an open port
+   * @throws ConnectionError when the host cannot be reached or the port is not open
+   */
+  public static async open(os: OS, hostName: string, port: number, context: CommandContext): Promise<HostInfo> {
+    const network = os.getNetworkInterface();
+    const ip = await os.getResolver().resolve(hostName);
+    if (!ip) {
+      throw new ConnectionError('unresolved', 'Name or service not known');
+    }
+
+    if (!network.route(ip, os.hostInfo?.ip)) {
+      throw new ConnectionError('unreachable', 'Network is unreachable');
+    }
+    
+    // Hosts that are down, unknown or on a private network of another subnet never answer.
+    // Firewalls dropping the connection make the port look filtered, those rejecting it closed.
+    const host = network.getHostByIp(ip);
+    const portInfo = host?.ports.find(info => info.port === port);
+    const verdict = network.filter(ip, 'tcp', port, os.hostInfo?.ip);
+    if (!host || !network.isReachable(ip, os.hostInfo?.ip) || portInfo?.state === 'filtered' || verdict.target === 'DROP') {
+      await JobControl.sleep(3000, context);
+      throw new ConnectionError('timeout', 'Connection timed out');
+    }
+
+    await JobControl.sleep(network.getLatency(ip, os.hostInfo?.ip) * 3, context);
+    if (portInfo?.state !== 'open' || verdict.target === 'REJECT') {
+      throw new ConnectionError('refused', 'Connection refused');
+    }
+    return host;
+  }
+
+  /**
+   * Name of the service listening on an open port of a host, like 'ssh' or 'ftp'
+   */
+  public static serviceAt(host: HostInfo, port: number): string | undefined {
+    return host.ports.find(info => info.port === port)?.service?.name;
+  }
+
+  /**
+   * Log in to a host with ssh: connect, check the host key and ask for the password.
+   * Errors are reported like ssh does, so scp shows the same messages.
+   * @param os System the connection comes from
+   * @returns The system of the host as the user, or null after reporting why the login failed
+   */
+  public static async sshLogin(os: OS, hostName: string, port: number, user: string, context: CommandContext): Promise<OS | null> {
+    let host: HostInfo;
+    try {
+      host = await this.open(os, hostName, port, context);
+    } catch (error) {
+      if (!(error instanceof ConnectionError)) throw error;
+      context.stderr.writeLine(error.reason === 'unresolved'
+        ? `ssh: Could not resolve hostname ${hostName}: ${error.message}`
+        : `ssh: connect to host ${hostName} port ${port}: ${error.message}`);
+      return null;
+    }
+    if (this.serviceAt(host, port) !== 'ssh') {
+      context.stderr.writeLine('kex_exchange_identification: Connection closed by remote host');
+      return null;
+    }
+
+    await this.checkKnownHost(os, hostName, context);
+    if (!await this.authenticate(host, hostName, user, context)) {
+      context.stderr.writeLine(`${user}@${hostName}: Permission denied (publickey,password).`);
+      return null;
+    }
+    return os.loginToHost(host, user);
+  }
+
+  /**
+   * Add the host to ~/.ssh/known_hosts the first time, like StrictHostKeyChecking=accept-new
+   * @param os System whose user connects
+   */
+  private static async checkKnownHost(os: OS, hostName: string, context: CommandContext): Promise<void> {
+    const fileSystem = os.getFileSystem();
+    const directory = PathUtils.join(context.env.HOME || fileSystem.UserFolder, '.ssh');
+    const path = PathUtils.join(directory, 'known_hosts');
+
+    const known = await fileSystem.exists(path) ? await fileSystem.readFile(path) : '';
+    if (known.split('\n').some(line => line.split(' ')[0] === hostName)) {
+      return;
+    }
+    if (!await fileSystem.exists(directory)) {
+      await fileSystem.createDirectory(directory);
+      await fileSystem.chmod(directory, 'drwx------');
+    }
+    await fileSystem.writeFile(path, `${known}${hostName} ssh-ed25519 ${this.hostKey(hostName)}\n`);
+    context.stderr.writeLine(`Warning: Permanently added '${hostName}' (ED25519) to the list of known hosts.`);
+  }
+
+  /**
+   * Ask for the ssh password of an account, a few times
+   * @returns True if a password matched
+   */
+  private static async authenticate(host: HostInfo, hostName: string, user: string, context: CommandContext): Promise<boolean> {
+    const account = host.accounts?.find(candidate => candidate.user === user);
+    for (let attempt = 0; attempt < PASSWORD_ATTEMPTS; attempt++) {
+      context.stdout.write(`${user}@${hostName}'s password: `);
+      const password = await this.readPassword(context);
+
+      if (account && password === account.password) {
+        return true;
+      }
+      // sshd waits before answering a wrong password
+      await JobControl.sleep(1000, context);
+      if (attempt < PASSWORD_ATTEMPTS - 1) {
+        context.stderr.writeLine('Permission denied, please try again.');
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Read a password without echoing it when stdin is the terminal
+   */
+  public static async readPassword(context: CommandContext): Promise<string> {
+    const password = context.stdin.readPassword ? await context.stdin.readPassword() : await context.stdin.readLine();
+    await JobControl.checkpoint(context);
+    return password;
+  }
+
+  /**
+   * Wait for a file to be sent to or received from a host: a round trip to open the data
+   * connection, then the time the bytes take on the link
+   * @param os System the connection comes from
+   * @returns The duration of the transfer in milliseconds
+   */
+  public static async transfer(os: OS, host: HostInfo, bytes: number, context: CommandContext): Promise<number> {
+    const latency = os.getNetworkInterface().getLatency(host.ip, os.hostInfo?.ip);
+    const duration = latency * 2 + bytes * 1000 / TRANSFER_RATE;
+    await JobControl.sleep(duration, context);
+    return duration;
+  }
+
+  /**
+   * Format a transfer rate like scp and ftp, as 12.3 KB/s or 1.2 MB/s
+   */
+  public static formatRate(bytes: number, milliseconds: number): string {
+    const rate = bytes * 1000 / Math.max(milliseconds, 1);
+    if (rate >= 1024 * 1024) return `${(rate / 1024 / 1024).toFixed(1)} MB/s`;
+    return `${(rate / 1024).toFixed(1)} KB/s`;
+  }
+
+  /**
+   * Make up a stable public key for a host
+   */
+  private static hostKey(hostName: string): string {
+    let seed = 0;
+    for (const char of hostName) {
+      seed = (Math.imul(seed, 31) + char.charCodeAt(0)) >>> 0;
+    }
+    let key = 'AAAAC3NzaC1lZDI1NTE5AAAAI';
+    const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+    for (let i = 0; i < 43; i++) {
+      seed = (Math.imul(seed, 1103515245) + 12345) >>> 0;
+      key += alphabet[(seed >>> 16) % alphabet.length];
+    }
+    return key;
+  }
+}
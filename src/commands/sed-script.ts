@@ -0,0 +1,593 @@
+import { PosixRegex } from './posix-regex';
+
+/**
+ * Address selecting the lines a sed command applies to
+ */
+type SedAddress =
+  | { type: 'line'; line: number }
+  | { type: 'step'; first: number; step: number }
+  | { type: 'last' }
+  | { type: 'regex'; regex: RegExp | null }; // null reuses the last regex, like //
+
+/**
+ * Part of the replacement of an s command: literal text, or the number of a group (0 for &)
+ */
+type ReplacementPart = string | number;
+
+/**
+ * One command of a sed script
+ */
+interface SedCommand {
+  name: string;
+  address1?: SedAddress;
+  address2?: SedAddress;
+  negate: boolean;
+
+  // True while a range address is between its first and last line
+  inRange: boolean;
+
+  // s: regex, replacement and flags
+  regex?: RegExp | null;
+  replacement?: ReplacementPart[];
+  global?: boolean;
+  occurrence?: number;
+  print?: boolean;
+
+  // a, i and c: the text; q and Q: the exit code; y: the characters to translate
+  text?: string;
+  exitCode?: number;
+  from?: string;
+  to?: string;
+
+  // {: the grouped commands
+  block?: SedCommand[];
+}
+
+/**
+ * State of the pattern space while the commands run on one line
+ */
+interface SedCycle {
+  pattern: string;
+  lineNumber: number;
+  isLast: boolean;
+  output: string[];
+  appended: string[];
+  deleted: boolean;
+  stopped: boolean;
+  quit: boolean;
+}
+
+/**
+ * Result of running a script on one input line
+ */
+export interface SedLineResult {
+  /**
+   * Lines to print, in order
+   */
+  output: string[];
+
+  /**
+   * A q or Q command ended the script; no more input should be read
+   */
+  quit: boolean;
+
+  /**
+   * Exit code given to q or Q
+   */
+  exitCode: number;
+}
+
+/**
+ * A parsed sed script
+ *
+ * Supports line, $, /regex/ and first~step addresses, addr1,addr2 ranges and !,
+ * { } groups, and the commands s (with the g, p, i and N flags), y, d, p, =, a, i, c, q and Q.
+ */
+export class SedScript {
+  private commands: SedCommand[];
+  private lastRegex: RegExp | null = null;
+
+  // Parser state
+  private script: string = '';
+  private position: number = 0;
+
+  private constructor(script: string, private readonly extended: boolean) {
+    this.script = script;
+    this.commands = this.parseCommands(false);
+  }
+
+  /**
+   * Parse a script
+   * @param script The script; several -e expressions are joined with newlines
+   * @param extended Use extended regular expressions (sed -E)
+   * @throws Error like GNU sed's "char 5: unterminated `s' command"
+   */
+  public static parse(script: string, extended: boolean): SedScript {
+    return new SedScript(script, extended);
+  }
+
+  /**
+   * Forget the state of ranges, before running the script on another file (sed -i and -s)
+   */
+  public reset(): void {
+    const resetAll = (commands: SedCommand[]) => commands.forEach(command => {
+      command.inRange = false;
+      if (command.block) resetAll(command.block);
+    });
+    resetAll(this.commands);
+  }
+
+  /**
+   * Run the script on one input line
+   * @param line The line, without its newline
+   * @param lineNumber Number of the line in the input, from 1
+   * @param isLast True for the last line of the input ($)
+   * @param quiet Do not print the pattern space at the end of the cycle (sed -n)
+   */
+  public execute(line: string, lineNumber: number, isLast: boolean, quiet: boolean): SedLineResult {
+    const cycle: SedCycle = {
+      pattern: line,
+      lineNumber,
+      isLast,
+      output: [],
+      appended: [],
+      deleted: false,
+      stopped: false,
+      quit: false
+    };
+    let exitCode = 0;
+
+    const quitCommand = this.run(this.commands, cycle);
+    if (quitCommand) {
+      exitCode = quitCommand.exitCode ?? 0;
+    }
+
+    if (!cycle.deleted && !quiet) {
+      cycle.output.push(cycle.pattern);
+    }
+    cycle.output.push(...cycle.appended);
+
+    return { output: cycle.output, quit: cycle.quit, exitCode };
+  }
+
+  /**
+   * Run commands on the pattern space
+   * @returns The q or Q command that ended the script, if any
+   */
+  private run(commands: SedCommand[], cycle: SedCycle): SedCommand | null {
+    for (const command of commands) {
+      if (!this.selects(command, cycle)) {
+        continue;
+      }
+
+      switch (command.name) {
+        case '{': {
+          const quit = this.run(command.block ?? [], cycle);
+          if (quit) return quit;
+          break;
+        }
+        case 's':
+          if (this.substitute(command, cycle) && command.print) {
+            cycle.output.push(cycle.pattern);
+          }
+          break;
+        case 'y':
+          cycle.pattern = Array.from(cycle.pattern)
+            .map(char => {
+              const index = command.from!.indexOf(char);
+              return index === -1 ? char : command.to![index];
+            })
+            .join('');
+          break;
+        case 'p':
+          cycle.output.push(cycle.pattern);
+          break;
+        case '=':
+          cycle.output.push(String(cycle.lineNumber));
+          break;
+        case 'a':
+          cycle.appended.push(command.text!);
+          break;
+        case 'i':
+          cycle.output.push(command.text!);
+          break;
+        case 'c':
+          // A range is replaced by one copy of the text, printed at its last line
+          if (!command.address2 || !command.inRange) {
+            cycle.output.push(command.text!);
+          }
+          cycle.deleted = true;
+          cycle.stopped = true;
+          break;
+        case 'd':
+          cycle.deleted = true;
+          cycle.stopped = true;
+          break;
+        case 'q':
+        case 'Q':
+          cycle.deleted = cycle.deleted || command.name === 'Q';
+          cycle.quit = true;
+          cycle.stopped = true;
+          return command;
+      }
+
+      if (cycle.stopped) {
+        return null;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Check if a command applies to the current line, updating the state of its range
+   */
+  private selects(command: SedCommand, cycle: SedCycle): boolean {
+    let selected: boolean;
+
+    if (!command.address1) {
+      selected = true;
+    } else if (!command.address2) {
+      selected = this.matchAddress(command.address1, cycle);
+    } else if (!command.inRange) {
+      selected = this.matchAddress(command.address1, cycle);
+      // A line number at or before the first line makes a one-line range
+      const address2 = command.address2;
+      const endsAtOnce = address2.type === 'line' && address2.line <= cycle.lineNumber;
+      command.inRange = selected && !endsAtOnce && !(address2.type === 'last' && cycle.isLast);
+    } else {
+      selected = true;
+      const address2 = command.address2;
+      const ends = address2.type === 'line' ? cycle.lineNumber >= address2.line : this.matchAddress(address2, cycle);
+      command.inRange = !ends;
+    }
+
+    return command.negate ? !selected : selected;
+  }
+
+  private matchAddress(address: SedAddress, cycle: SedCycle): boolean {
+    switch (address.type) {
+      case 'line':
+        return cycle.lineNumber === address.line;
+      case 'step':
+        if (address.step <= 0) return cycle.lineNumber === address.first;
+        return cycle.lineNumber >= address.first && (cycle.lineNumber - address.first) % address.step === 0;
+      case 'last':
+        return cycle.isLast;
+      case 'regex':
+        return this.useRegex(address.regex).test(cycle.pattern);
+    }
+  }
+
+  /**
+   * Get the regex of an address or s command; an empty regex means the last one used
+   */
+  private useRegex(regex: RegExp | null | undefined): RegExp {
+    if (!regex) {
+      if (!this.lastRegex) {
+        throw new Error('no previous regular expression');
+      }
+      return this.lastRegex;
+    }
+    this.lastRegex = regex;
+    return regex;
+  }
+
+  /**
+   * Run an s command
+   * @returns True if something was replaced
+   */
+  private substitute(command: SedCommand, cycle: SedCycle): boolean {
+    const base = this.useRegex(command.regex);
+    const regex = new RegExp(base.source, base.flags.includes('g') ? base.flags : base.flags + 'g');
+    const text = cycle.pattern;
+    const occurrence = command.occurrence ?? 1;
+    let result = '';
+    let lastEnd = 0;
+    let count = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = regex.exec(text)) !== null) {
+      count++;
+      if (count >= occurrence) {
+        result += text.substring(lastEnd, match.index) + this.expandReplacement(command.replacement ?? [], match);
+        lastEnd = match.index + match[0].length;
+        if (!command.global) break;
+      }
+      if (match[0].length === 0) {
+        regex.lastIndex++;
+      }
+    }
+
+    if (count < occurrence) {
+      return false;
+    }
+    cycle.pattern = result + text.substring(lastEnd);
+    return true;
+  }
+
+  private expandReplacement(parts: ReplacementPart[], match: RegExpExecArray): string {
+    return parts.map(part => typeof part === 'number' ? match[part] ?? '' : part).join('');
+  }
+
+  /**
+   * Parse commands until the end of the script, or until } for a group
+   */
+  private parseCommands(inGroup: boolean): SedCommand[] {
+    const commands: SedCommand[] = [];
+
+    for (;;) {
+      while (this.position < this.script.length && /[\s;]/.test(this.script[this.position])) {
+        this.position++;
+      }
+
+      if (this.position >= this.script.length) {
+        if (inGroup) throw this.error("unmatched `{'");
+        return commands;
+      }
+
+      const char = this.script[this.position];
+      if (char === '}') {
+        if (!inGroup) throw this.error("unexpected `}'");
+        this.position++;
+        return commands;
+      }
+      if (char === '#') {
+        this.skipToEndOfLine();
+        continue;
+      }
+
+      commands.push(this.parseCommand());
+    }
+  }
+
+  private parseCommand(): SedCommand {
+    const command: SedCommand = { name: '', negate: false, inRange: false };
+
+    command.address1 = this.parseAddress();
+    if (command.address1 && this.script[this.position] === ',') {
+      this.position++;
+      this.skipSpaces();
+      command.address2 = this.parseAddress();
+      if (!command.address2) throw this.error("unexpected `,'");
+    }
+
+    this.skipSpaces();
+    while (this.script[this.position] === '!') {
+      command.negate = true;
+      this.position++;
+      this.skipSpaces();
+    }
+
+    const name = this.script[this.position++];
+    if (name === undefined) {
+      throw this.error('missing command');
+    }
+    command.name = name;
+
+    switch (name) {
+      case '{':
+        command.block = this.parseCommands(true);
+        return command;
+      case 's':
+        this.parseSubstitution(command);
+        break;
+      case 'y':
+        this.parseTranslation(command);
+        break;
+      case 'a':
+      case 'i':
+      case 'c':
+        command.text = this.parseText();
+        return command;
+      case 'q':
+      case 'Q': {
+        this.skipSpaces();
+        const digits = /^\d+/.exec(this.script.substring(this.position));
+        if (digits) {
+          command.exitCode = parseInt(digits[0], 10);
+          this.position += digits[0].length;
+        }
+        break;
+      }
+      case 'd':
+      case 'p':
+      case '=':
+        break;
+      default:
+        throw this.error(`unknown command: \`${name}'`);
+    }
+
+    this.endCommand();
+    return command;
+  }
+
+  private parseAddress(): SedAddress | undefined {
+    const rest = this.script.substring(this.position);
+
+    const number = /^(\d+)(?:~(\d+))?/.exec(rest);
+    if (number) {
+      this.position += number[0].length;
+      const line = parseInt(number[1], 10);
+      return number[2] !== undefined ? { type: 'step', first: line, step: parseInt(number[2], 10) } : { type: 'line', line };
+    }
+
+    if (rest[0] === '$') {
+      this.position++;
+      return { type: 'last' };
+    }
+
+    if (rest[0] === '/' || rest[0] === '\\') {
+      // \cREGEXc uses another delimiter
+      if (rest[0] === '\\') this.position++;
+      const delimiter = this.script[this.position++];
+      const pattern = this.readDelimited(delimiter, 'unterminated address regex');
+      let flags = '';
+      while (this.script[this.position] === 'I') {
+        flags = 'i';
+        this.position++;
+      }
+      return { type: 'regex', regex: this.compile(pattern, flags) };
+    }
+
+    return undefined;
+  }
+
+  private parseSubstitution(command: SedCommand): void {
+    const delimiter = this.script[this.position++];
+    if (delimiter === undefined || delimiter === '\n' || delimiter === '\\') {
+      throw this.error("unterminated `s' command");
+    }
+
+    const pattern = this.readDelimited(delimiter, "unterminated `s' command");
+    const replacement = this.readDelimited(delimiter, "unterminated `s' command");
+
+    let flags = '';
+    for (;;) {
+      const char = this.script[this.position];
+      if (char === 'g') {
+        command.global = true;
+      } else if (char === 'p') {
+        command.print = true;
+      } else if (char === 'i' || char === 'I') {
+        flags = 'i';
+      } else if (char !== undefined && /\d/.test(char)) {
+        const digits = /^\d+/.exec(this.script.substring(this.position))![0];
+        command.occurrence = parseInt(digits, 10);
+        if (command.occurrence === 0) throw this.error("number option to `s' command may not be zero");
+        this.position += digits.length - 1;
+      } else if (char === undefined || /[\s;}#]/.test(char)) {
+        break;
+      } else {
+        throw this.error("unknown option to `s'");
+      }
+      this.position++;
+    }
+
+    command.regex = this.compile(pattern, flags);
+    command.replacement = this.parseReplacement(replacement);
+  }
+
+  private parseTranslation(command: SedCommand): void {
+    const delimiter = this.script[this.position++];
+    const unescape = (text: string) => text.replace(/\\(.)/g, (_match, char) => char === 'n' ? '\n' : char === 't' ? '\t' : char);
+    const from = unescape(this.readDelimited(delimiter, "unterminated `y' command"));
+    const to = unescape(this.readDelimited(delimiter, "unterminated `y' command"));
+    if (Array.from(from).length !== Array.from(to).length) {
+      throw this.error("strings for `y' command are different lengths");
+    }
+    command.from = from;
+    command.to = to;
+  }
+
+  /**
+   * Read the text of a, i and c: "a text" or "a\" followed by the text on the next line
+   */
+  private parseText(): string {
+    this.skipSpaces();
+    if (this.script[this.position] === '\\') {
+      this.position++;
+      if (this.script[this.position] === '\n') this.position++;
+    }
+
+    let text = '';
+    while (this.position < this.script.length && this.script[this.position] !== '\n') {
+      const char = this.script[this.position++];
+      if (char === '\\' && this.position < this.script.length) {
+        // A backslash at the end of a line continues the text on the next line
+        text += this.script[this.position++];
+      } else {
+        text += char;
+      }
+    }
+    return text;
+  }
+
+  /**
+   * Split the replacement of an s command into text and group references (\1 to \9 and &)
+   */
+  private parseReplacement(replacement: string): ReplacementPart[] {
+    const parts: ReplacementPart[] = [];
+    let text = '';
+
+    for (let i = 0; i < replacement.length; i++) {
+      const char = replacement[i];
+      if (char === '&') {
+        parts.push(text, 0);
+        text = '';
+      } else if (char === '\\' && i + 1 < replacement.length) {
+        const next = replacement[++i];
+        if (/\d/.test(next)) {
+          parts.push(text, parseInt(next, 10));
+          text = '';
+        } else {
+          text += next === 'n' ? '\n' : next === 't' ? '\t' : next;
+        }
+      } else {
+        text += char;
+      }
+    }
+
+    parts.push(text);
+    return parts.filter(part => part !== '');
+  }
+
+  /**
+   * Read up to the next unescaped delimiter; \delimiter stands for the delimiter itself
+   */
+  private readDelimited(delimiter: string, message: string): string {
+    let text = '';
+    for (;;) {
+      const char = this.script[this.position++];
+      if (char === undefined) {
+        throw this.error(message);
+      }
+      if (char === delimiter) {
+        return text;
+      }
+      if (char === '\\' && this.position < this.script.length) {
+        const next = this.script[this.position++];
+        text += next === delimiter ? next : next === '\n' ? '\n' : '\\' + next;
+        continue;
+      }
+      text += char;
+    }
+  }
+
+  private compile(pattern: string, flags: string): RegExp | null {
+    if (pattern === '') {
+      return null;
+    }
+    try {
+      return PosixRegex.compile(pattern, this.extended, flags);
+    } catch (error) {
+      throw this.error(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Check that nothing but a separator follows a command
+   */
+  private endCommand(): void {
+    this.skipSpaces();
+    const char = this.script[this.position];
+    if (char !== undefined && !/[;\n}#]/.test(char)) {
+      throw this.error(`extra characters after command`);
+    }
+  }
+
+  private skipSpaces(): void {
+    while (this.script[this.position] === ' ' || this.script[this.position] === '\t') {
+      this.position++;
+    }
+  }
+
+  private skipToEndOfLine(): void {
+    while (this.position < this.script.length && this.script[this.position] !== '\n') {
+      this.position++;
+    }
+  }
+
+  private error(message: string): Error {
+    return new Error(`-e expression #1, char ${this.position}: ${message}`);
+  }
+}
@@ -0,0 +1,307 @@
+/**
+ * Variable access used while evaluating an arithmetic expression
+ */
+export interface ArithmeticVariables {
+  get(name: string): string | undefined;
+  set(name: string, value: string): void;
+}
+
+/**
+ * Helper class for shell arithmetic expansion ($((expression)))
+ *
+ * Supports integer literals, variables, parentheses, the usual C operators
+ * (unary, **, * / %, + -, << >>, comparisons, bitwise, && ||, ?:) and the
+ * assignments =, +=, -=, *=, /=, %=, ++ and --.
+ */
+export class ShellArithmetic {
+  private tokens: string[];
+  private position: number = 0;
+
+  private constructor(expression: string, private readonly variables: ArithmeticVariables) {
+    this.tokens = ShellArithmetic.tokenize(expression);
+  }
+
+  /**
+   * Evaluate an arithmetic expression
+   * @param expression The expression between $(( and ))
+   * @param variables Variable access (values are read as integers, unset means 0)
+   * @returns The integer result
+   * @throws Error on syntax errors or division by zero
+   */
+  public static evaluate(expression: string, variables: ArithmeticVariables): number {
+    const parser = new ShellArithmetic(expression, variables);
+    if (parser.tokens.length === 0) {
+      return 0;
+    }
+
+    const result = parser.parseAssignment();
+    if (parser.position < parser.tokens.length) {
+      throw new Error(`syntax error in expression (error token is "${parser.tokens[parser.position]}")`);
+    }
+    return result;
+  }
+
+  /**
+   * Find the end of a $(( )) expression
+   * @param str The string containing the expression
+   * @param start Index just after the opening $((
+   * @returns Index of the closing )), or -1 if it is not closed
+   */
+  public static findEnd(str: string, start: number): number {
+    let depth = 0;
+    for (let i = start; i < str.length; i++) {
+      if (str[i] === '(') {
+        depth++;
+      } else if (str[i] === ')') {
+        if (depth === 0) {
+          return str[i + 1] === ')' ? i : -1;
+        }
+        depth--;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Split an expression into tokens
+   */
+  private static tokenize(expression: string): string[] {
+    const tokens: string[] = [];
+    const operators = ['**', '++', '--', '+=', '-=', '*=', '/=', '%=', '<<', '>>', '<=', '>=', '==', '!=', '&&', '||'];
+    let i = 0;
+
+    while (i < expression.length) {
+      const char = expression[i];
+
+      if (/\s/.test(char)) {
+        i++;
+        continue;
+      }
+
+      const number = /^(0x[0-9a-fA-F]+|\d+)/.exec(expression.substring(i));
+      if (number) {
+        tokens.push(number[0]);
+        i += number[0].length;
+        continue;
+      }
+
+      const name = /^\$?([A-Za-z_][A-Za-z0-9_]*)/.exec(expression.substring(i));
+      if (name) {
+        tokens.push(name[1]);
+        i += name[0].length;
+        continue;
+      }
+
+      const operator = operators.find(op => expression.startsWith(op, i));
+      if (operator) {
+        tokens.push(operator);
+        i += operator.length;
+        continue;
+      }
+
+      if ('+-*/%()<>=!~&|^?:'.includes(char)) {
+        tokens.push(char);
+        i++;
+        continue;
+      }
+
+      throw new Error(`syntax error: invalid arithmetic operator (error token is "${expression.substring(i)}")`);
+    }
+
+    return tokens;
+  }
+
+  private peek(): string | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): string {
+    const token = this.tokens[this.position++];
+    if (token === undefined) {
+      throw new Error('syntax error: operand expected');
+    }
+    return token;
+  }
+
+  private isName(token: string | undefined): boolean {
+    return token !== undefined && /^[A-Za-z_]/.test(token);
+  }
+
+  private read(name: string): number {
+    const value = this.variables.get(name);
+    if (!value) return 0;
+    const number = parseInt(value, value.startsWith('0x') ? 16 : 10);
+    return isNaN(number) ? 0 : number;
+  }
+
+  private parseAssignment(): number {
+    const token = this.peek();
+    const operator = this.tokens[this.position + 1];
+
+    if (this.isName(token) && ['=', '+=', '-=', '*=', '/=', '%='].includes(operator)) {
+      this.position += 2;
+      const value = this.parseAssignment();
+      const current = this.read(token!);
+      let result = value;
+      switch (operator) {
+        case '+=': result = current + value; break;
+        case '-=': result = current - value; break;
+        case '*=': result = current * value; break;
+        case '/=': result = this.divide(current, value); break;
+        case '%=': result = this.modulo(current, value); break;
+      }
+      this.variables.set(token!, String(result));
+      return result;
+    }
+
+    return this.parseTernary();
+  }
+
+  private parseTernary(): number {
+    const condition = this.parseBinary(0);
+    if (this.peek() === '?') {
+      this.next();
+      const whenTrue = this.parseAssignment();
+      if (this.next() !== ':') {
+        throw new Error('syntax error: `:\' expected for conditional expression');
+      }
+      const whenFalse = this.parseAssignment();
+      return condition !== 0 ? whenTrue : whenFalse;
+    }
+    return condition;
+  }
+
+  /**
+   * Binary operators from lowest to highest precedence
+   */
+  private static readonly PRECEDENCE: string[][] = [
+    ['||'],
+    ['&&'],
+    ['|'],
+    ['^'],
+    ['&'],
+    ['==', '!='],
+    ['<', '<=', '>', '>='],
+    ['<<', '>>'],
+    ['+', '-'],
+    ['*', '/', '%']
+  ];
+
+  private parseBinary(level: number): number {
+    if (level >= ShellArithmetic.PRECEDENCE.length) {
+      return this.parsePower();
+    }
+
+    let left = this.parseBinary(level + 1);
+    while (ShellArithmetic.PRECEDENCE[level].includes(this.peek() ?? '')) {
+      const operator = this.next();
+      const right = this.parseBinary(level + 1);
+      left = this.apply(operator, left, right);
+    }
+    return left;
+  }
+
+  private apply(operator: string, left: number, right: number): number {
+    switch (operator) {
+      case '||': return left !== 0 || right !== 0 ? 1 : 0;
+      case '&&': return left !== 0 && right !== 0 ? 1 : 0;
+      case '|': return left | right;
+      case '^': return left ^ right;
+      case '&': return left & right;
+      case '==': return left === right ? 1 : 0;
+      case '!=': return left !== right ? 1 : 0;
+      case '<': return left < right ? 1 : 0;
+      case '<=': return left <= right ? 1 : 0;
+      case '>': return left > right ? 1 : 0;
+      case '>=': return left >= right ? 1 : 0;
+      case '<<': return left << right;
+      case '>>': return left >> right;
+      case '+': return left + right;
+      case '-': return left - right;
+      case '*': return Math.trunc(left * right);
+      case '/': return this.divide(left, right);
+      default: return this.modulo(left, right);
+    }
+  }
+
+  private divide(left: number, right: number): number {
+    if (right === 0) throw new Error('division by 0');
+    return Math.trunc(left / right);
+  }
+
+  private modulo(left: number, right: number): number {
+    if (right === 0) throw new Error('division by 0');
+    return left % right;
+  }
+
+  /**
+   * Exponentiation binds tighter than * and is right associative
+   */
+  private parsePower(): number {
+    const base = this.parseUnary();
+    if (this.peek() !== '**') {
+      return base;
+    }
+    this.next();
+    const exponent = this.parsePower();
+    if (exponent < 0) throw new Error('exponent less than 0');
+    return Math.trunc(Math.pow(base, exponent));
+  }
+
+  private parseUnary(): number {
+    const token = this.peek();
+
+    if (token === '++' || token === '--') {
+      this.next();
+      const name = this.next();
+      if (!this.isName(name)) {
+        throw new Error(`syntax error: operand expected (error token is "${name}")`);
+      }
+      const value = this.read(name) + (token === '++' ? 1 : -1);
+      this.variables.set(name, String(value));
+      return value;
+    }
+
+    if (token === '-' || token === '+' || token === '!' || token === '~') {
+      this.next();
+      const value = this.parseUnary();
+      switch (token) {
+        case '-': return -value;
+        case '!': return value === 0 ? 1 : 0;
+        case '~': return ~value;
+        default: return value;
+      }
+    }
+
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): number {
+    const token = this.next();
+
+    if (token === '(') {
+      const value = this.parseAssignment();
+      if (this.next() !== ')') {
+        throw new Error('syntax error: `)\' expected');
+      }
+      return value;
+    }
+
+    if (/^(0x[0-9a-fA-F]+|\d+)$/.test(token)) {
+      return parseInt(token, token.startsWith('0x') ? 16 : 10);
+    }
+
+    if (this.isName(token)) {
+      const value = this.read(token);
+      // Postfix increment and decrement return the old value
+      const postfix = this.peek();
+      if (postfix === '++' || postfix === '--') {
+        this.next();
+        this.variables.set(token, String(value + (postfix === '++' ? 1 : -1)));
+      }
+      return value;
+    }
+
+    throw new Error(`syntax error: operand expected (error token is "${token}")`);
+  }
+}
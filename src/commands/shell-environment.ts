@@ -0,0 +1,80 @@
+import { OS } from '../core/os';
+
+/**
+ * Helper class for shell environment variables
+ */
+export class ShellEnvironment {
+  /**
+   * Create the default environment of a new shell session
+   * @param os The OS instance
+   * @param cwd The initial working directory
+   */
+  public static createDefault(os: OS, cwd: string): Record<string, string> {
+    return {
+      'USER': os.currentUserName,
+      'LOGNAME': os.currentUserName,
+      'HOME': os.getFileSystem().UserFolder,
+      'HOSTNAME': os.hostname,
+      'PATH': `/bin:/usr/bin:/usr/local/bin:${os.getFileSystem().UserFolder}/bin`,
+      'PWD': cwd,
+      'TERM': 'xterm-256color',
+      'SHELL': '/bin/bash'
+    };
+  }
+
+  /**
+   * Check if a string is a valid variable name
+   */
+  public static isValidName(name: string): boolean {
+    return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name);
+  }
+
+  /**
+   * Parse a NAME=value word
+   * @returns The name and value, or null if the word is not an assignment
+   */
+  public static parseAssignment(word: string): { name: string; value: string } | null {
+    const index = word.indexOf('=');
+    if (index <= 0) {
+      return null;
+    }
+
+    const name = word.substring(0, index);
+    if (!this.isValidName(name)) {
+      return null;
+    }
+
+    return { name, value: word.substring(index + 1) };
+  }
+
+  /**
+   * Read a variable reference ($NAME, ${NAME}, $? or a positional/special parameter
+   * like $1, $#, $@ and $*) starting at the '$' of a string
+   * @param str The string containing the reference
+   * @param start Index of the '$' character
+   * @returns The variable name and the index after the reference, or null if this '$' is literal
+   */
+  public static readReference(str: string, start: number): { name: string; end: number } | null {
+    const next = str[start + 1];
+
+    // Special parameters are a single character; ${10} is needed for positions above 9
+    if (next !== undefined && '?#@*0123456789'.includes(next)) {
+      return { name: next, end: start + 2 };
+    }
+
+    if (next === '{') {
+      const close = str.indexOf('}', start + 2);
+      if (close === -1) {
+        return null;
+      }
+      return { name: str.substring(start + 2, close), end: close + 1 };
+    }
+
+    const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(str.substring(start + 1));
+    if (!match) {
+      return null;
+    }
+
+    return { name: match[0], end: start + 1 + match[0].length };
+  }
+}
@@ -0,0 +1,188 @@
+import { OS } from '../core/os';
+import { PathUtils } from '../core/path-utils';
+
+/**
+ * Maximum number of commands kept in the history (bash's HISTSIZE)
+ */
+const HISTORY_SIZE = 1000;
+
+/**
+ * Command history of a user, stored in ~/.bash_history.
+ * One instance is shared by all terminal windows of the same user.
+ */
+export class ShellHistory {
+  private static instances: Map<string, ShellHistory> = new Map();
+
+  private os: OS;
+  private path: string;
+  private entries: string[] = [];
+  private loaded: Promise<void>;
+
+  private constructor(os: OS, path: string) {
+    this.os = os;
+    this.path = path;
+    this.loaded = this.load();
+  }
+
+  /**
+   * Get the history of the current user
+   * @param os The OS instance
+   */
+  public static forCurrentUser(os: OS): ShellHistory {
+    const path = PathUtils.join(os.getFileSystem().UserFolder, '.bash_history');
+    // Remote hosts have their own users
+    const key = `${os.hostname}:${path}`;
+    let history = this.instances.get(key);
+    if (!history) {
+      history = new ShellHistory(os, path);
+      this.instances.set(key, history);
+    }
+    return history;
+  }
+
+  /**
+   * Wait until the history file has been read
+   */
+  public ready(): Promise<void> {
+    return this.loaded;
+  }
+
+  /**
+   * Get all commands, oldest first
+   */
+  public getEntries(): string[] {
+    return this.entries;
+  }
+
+  /**
+   * Add a command to the history and save it.
+   * Blank commands, commands starting with a space and repeats of the last command are skipped like bash's ignoreboth.
+   */
+  public async add(command: string): Promise<void> {
+    await this.loaded;
+    if (!command.trim() || command.startsWith(' ') || this.entries[this.entries.length - 1] === command) {
+      return;
+    }
+
+    this.entries.push(command);
+    if (this.entries.length > HISTORY_SIZE) {
+      this.entries.splice(0, this.entries.length - HISTORY_SIZE);
+    }
+    await this.save();
+  }
+
+  /**
+   * Remove all commands from the history
+   */
+  public async clear(): Promise<void> {
+    await this.loaded;
+    this.entries = [];
+    await this.save();
+  }
+
+  /**
+   * Expand history references: !! (last command), !n (command n), !-n (n-th previous command)
+   * and !prefix (last command starting with prefix). Nothing is expanded inside single quotes.
+   * @param command The command line
+   * @returns The expanded line and whether anything was expanded
+   * @throws Error like "!foo: event not found" when a reference has no match
+   */
+  public expand(command: string): { command: string; expanded: boolean } {
+    let result = '';
+    let expanded = false;
+    let inSingleQuotes = false;
+
+    for (let i = 0; i < command.length; i++) {
+      const char = command[i];
+
+      if (char === '\\' && i + 1 < command.length) {
+        result += char + command[++i];
+        continue;
+      }
+
+      if (char === "'") {
+        inSingleQuotes = !inSingleQuotes;
+      }
+
+      if (char !== '!' || inSingleQuotes) {
+        result += char;
+        continue;
+      }
+
+      // "!" followed by a blank, "=" or "(" or at the end stays literal
+      const match = /^!(!|-?\d+|[^\s=()!;&|<>"'`]+)/.exec(command.substring(i));
+      if (!match) {
+        result += char;
+        continue;
+      }
+
+      result += this.findEvent(match[1], match[0]);
+      expanded = true;
+      i += match[0].length - 1;
+    }
+
+    return { command: result, expanded };
+  }
+
+  /**
+   * Search backwards for a command containing text
+   * @param query Text to search for
+   * @param before Only search entries before this index
+   * @returns The index of the match, or -1
+   */
+  public search(query: string, before: number = this.entries.length): number {
+    for (let i = Math.min(before, this.entries.length) - 1; i >= 0; i--) {
+      if (this.entries[i].includes(query)) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Find the command a history reference points to
+   */
+  private findEvent(designator: string, reference: string): string {
+    let index = -1;
+
+    if (designator === '!') {
+      index = this.entries.length - 1;
+    } else if (/^-\d+$/.test(designator)) {
+      index = this.entries.length + parseInt(designator, 10);
+    } else if (/^\d+$/.test(designator)) {
+      index = parseInt(designator, 10) - 1;
+    } else {
+      for (let i = this.entries.length - 1; i >= 0; i--) {
+        if (this.entries[i].startsWith(designator)) {
+          index = i;
+          break;
+        }
+      }
+    }
+
+    if (index < 0 || index >= this.entries.length) {
+      throw new Error(`${reference}: event not found`);
+    }
+    return this.entries[index];
+  }
+
+  private async load(): Promise<void> {
+    const fileSystem = this.os.getFileSystem();
+    try {
+      if (await fileSystem.exists(this.path)) {
+        const content = await fileSystem.readFile(this.path);
+        this.entries = content.split('\n').filter(line => line.trim() !== '').slice(-HISTORY_SIZE);
+      }
+    } catch (error) {
+      console.error('Error loading shell history:', error);
+    }
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await this.os.getFileSystem().writeFile(this.path, this.entries.join('\n') + (this.entries.length > 0 ? '\n' : ''));
+    } catch (error) {
+      console.error('Error saving shell history:', error);
+    }
+  }
+}
@@ -0,0 +1,616 @@
+import { CommandContext, CommandModule, CommandProcessor } from './command-processor';
+import { CommandList } from './command-list';
+import { ShellEnvironment } from './shell-environment';
+import { ShellArithmetic } from './shell-arithmetic';
+import { JobControl, JobInterruptedError, INTERRUPTED_EXIT_CODE } from './job-control';
+import { BrokenPipeError, BROKEN_PIPE_EXIT_CODE } from './command-pipe';
+
+/**
+ * Node of a parsed shell script
+ */
+export type ShellNode =
+  | { type: 'command'; command: string }
+  | { type: 'if'; branches: { condition: ShellNode[]; body: ShellNode[] }[]; elseBody: ShellNode[] }
+  | { type: 'for'; variable: string; words: string | null; body: ShellNode[] }
+  | { type: 'arithmetic-for'; init: string; condition: string; update: string; body: ShellNode[] }
+  | { type: 'while'; until: boolean; condition: ShellNode[]; body: ShellNode[] }
+  | { type: 'function'; name: string; body: ShellNode[] };
+
+/**
+ * Words that start or end a compound command
+ */
+const RESERVED_WORDS = ['then', 'elif', 'else', 'fi', 'do', 'done', '{', '}'];
+
+/**
+ * Builtins that change the state of the script, so they run in the interpreter
+ */
+const SCRIPT_BUILTINS = ['exit', 'return', 'break', 'continue', 'shift', 'local'];
+
+/**
+ * Thrown by exit to stop the whole script
+ */
+class ShellExit {
+  constructor(public readonly code: number) {}
+}
+
+/**
+ * Thrown by return to leave the current function
+ */
+class ShellReturn {
+  constructor(public readonly code: number) {}
+}
+
+/**
+ * Thrown by break and continue to leave loops
+ */
+class ShellLoopControl {
+  constructor(public readonly kind: 'break' | 'continue', public readonly levels: number) {}
+}
+
+/**
+ * Shell script interpreter.
+ *
+ * Scripts are split into statements and parsed into if/elif/else, for, while/until and
+ * function nodes. Simple commands are run by the command processor, so scripts can use
+ * every terminal command together with variables, redirections and command lists.
+ * Functions and builtins like exit are found by the processor through the script's
+ * context, so they can be redirected and piped as well.
+ */
+export class ShellInterpreter {
+  private functions: Map<string, ShellNode[]> = new Map();
+  private localScopes: Map<string, string | undefined>[] = [];
+  private readonly context: CommandContext;
+
+  /**
+   * Create an interpreter
+   * @param processor Command processor that runs simple commands
+   * @param context Context of the script; its env is updated while running, and its cwd when the script changes directory
+   * @param caller Interpreter calling a function, whose functions and local variables this one shares
+   */
+  constructor(private readonly processor: CommandProcessor, context: CommandContext, caller?: ShellInterpreter) {
+    // Positional parameters and `$?` of the script stay in its own context
+    this.context = Object.create(context);
+    this.context.shellCommand = name => this.getShellCommand(name);
+    if (caller) {
+      this.functions = caller.functions;
+      this.localScopes = caller.localScopes;
+    }
+  }
+
+  /**
+   * Run a script
+   * @param script The script source
+   * @returns Exit code of the script (the status of exit, or of the last command)
+   */
+  public async run(script: string): Promise<number> {
+    const name = this.context.positionalArgs?.[0] ?? 'sh';
+
+    let program: ShellNode[];
+    try {
+      program = ShellInterpreter.parse(script);
+    } catch (error) {
+      this.context.stderr.writeLine(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+      return 2;
+    }
+
+    try {
+      return await this.executeBlock(program);
+    } catch (error) {
+      if (error instanceof ShellExit || error instanceof ShellReturn) {
+        return error.code;
+      }
+      if (error instanceof ShellLoopControl) {
+        return this.context.lastExitCode ?? 0;
+      }
+      if (error instanceof BrokenPipeError) {
+        return BROKEN_PIPE_EXIT_CODE;
+      }
+      if (error instanceof JobInterruptedError) {
+        return INTERRUPTED_EXIT_CODE;
+      }
+      // Errors from the script itself, such as an invalid arithmetic expression
+      this.context.stderr.writeLine(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+      return 1;
+    }
+  }
+
+  /**
+   * Parse a script into nodes
+   * @throws Error on syntax errors, with bash's wording
+   */
+  public static parse(script: string): ShellNode[] {
+    const statements = this.splitStatements(script);
+    const nodes = this.parseBlock(statements, []);
+    if (statements.length > 0) {
+      throw new Error(`syntax error near unexpected token \`${this.firstWord(statements[0])}'`);
+    }
+    return nodes;
+  }
+
+  /**
+   * Split a script into statements on unquoted newlines and semicolons.
+   * Comments are dropped, a trailing backslash continues the line, and a line ending
+   * in &&, || or | continues on the next line.
+   */
+  private static splitStatements(script: string): string[] {
+    const statements: string[] = [];
+    let current = '';
+    let quoteChar = '';
+    let depth = 0;
+
+    const pushStatement = () => {
+      const statement = current.trim();
+      if (statement) {
+        statements.push(statement);
+      }
+      current = '';
+    };
+
+    for (let i = 0; i < script.length; i++) {
+      const char = script[i];
+
+      if (quoteChar) {
+        if (char === '\\' && quoteChar === '"' && i + 1 < script.length) {
+          current += char + script[++i];
+          continue;
+        }
+        if (char === quoteChar) {
+          quoteChar = '';
+        }
+        current += char;
+        continue;
+      }
+
+      if (char === '\\') {
+        if (script[i + 1] === '\n') {
+          i++;
+        } else {
+          current += char + (script[i + 1] ?? '');
+          i++;
+        }
+        continue;
+      }
+
+      if (char === '"' || char === "'") {
+        quoteChar = char;
+        current += char;
+        continue;
+      }
+
+      // A comment runs from an unquoted # at the start of a word to the end of the line
+      if (char === '#' && (current === '' || /\s/.test(current[current.length - 1]))) {
+        while (i + 1 < script.length && script[i + 1] !== '\n') {
+          i++;
+        }
+        continue;
+      }
+
+      if (char === '(') depth++;
+      if (char === ')') depth = Math.max(depth - 1, 0);
+
+      if (depth === 0 && char === ';') {
+        pushStatement();
+        continue;
+      }
+
+      if (depth === 0 && char === '\n') {
+        if (/(&&|\|\|?)\s*$/.test(current)) {
+          current += ' ';
+        } else {
+          pushStatement();
+        }
+        continue;
+      }
+
+      current += char;
+    }
+
+    if (quoteChar) {
+      throw new Error(`unexpected EOF while looking for matching \`${quoteChar}'`);
+    }
+
+    pushStatement();
+    return statements;
+  }
+
+  /**
+   * Parse statements up to (not including) one starting with a terminator word
+   */
+  private static parseBlock(statements: string[], terminators: string[]): ShellNode[] {
+    const nodes: ShellNode[] = [];
+
+    while (statements.length > 0) {
+      const word = this.firstWord(statements[0]);
+
+      if (terminators.includes(word)) {
+        return nodes;
+      }
+      if (RESERVED_WORDS.includes(word)) {
+        throw new Error(`syntax error near unexpected token \`${word}'`);
+      }
+
+      nodes.push(this.parseStatement(statements));
+    }
+
+    if (terminators.length > 0) {
+      throw new Error('syntax error: unexpected end of file');
+    }
+    return nodes;
+  }
+
+  /**
+   * Parse one statement, which may start a compound command
+   */
+  private static parseStatement(statements: string[]): ShellNode {
+    const statement = statements[0];
+    const word = this.firstWord(statement);
+
+    if (word === 'if') {
+      this.takeKeyword(statements, 'if');
+      const branches: { condition: ShellNode[]; body: ShellNode[] }[] = [];
+      let elseBody: ShellNode[] = [];
+
+      while (true) {
+        const condition = this.parseBlock(statements, ['then']);
+        this.takeKeyword(statements, 'then');
+        const body = this.parseBlock(statements, ['elif', 'else', 'fi']);
+        branches.push({ condition, body });
+
+        const next = this.firstWord(statements[0]);
+        this.takeKeyword(statements, next);
+        if (next === 'elif') {
+          continue;
+        }
+        if (next === 'else') {
+          elseBody = this.parseBlock(statements, ['fi']);
+          this.takeKeyword(statements, 'fi');
+        }
+        break;
+      }
+
+      return { type: 'if', branches, elseBody };
+    }
+
+    if (word === 'for') {
+      statements.shift();
+      const arithmetic = /^for\s*\(\((.*)\)\)$/s.exec(statement);
+      const loop = /^for\s+([A-Za-z_][A-Za-z0-9_]*)(?:\s+in(?:\s+(.*))?)?$/s.exec(statement);
+      if (!arithmetic && !loop) {
+        throw new Error(`syntax error near \`${statement}'`);
+      }
+
+      this.takeKeyword(statements, 'do');
+      const body = this.parseBlock(statements, ['done']);
+      this.takeKeyword(statements, 'done');
+
+      if (arithmetic) {
+        const parts = arithmetic[1].split(';');
+        if (parts.length !== 3) {
+          throw new Error(`syntax error: arithmetic expression required`);
+        }
+        return { type: 'arithmetic-for', init: parts[0], condition: parts[1], update: parts[2], body };
+      }
+
+      // Without "in", a for loop goes over the positional parameters
+      const words = /\s+in\b/.test(statement) ? loop![2] ?? '' : null;
+      return { type: 'for', variable: loop![1], words, body };
+    }
+
+    if (word === 'while' || word === 'until') {
+      this.takeKeyword(statements, word);
+      const condition = this.parseBlock(statements, ['do']);
+      this.takeKeyword(statements, 'do');
+      const body = this.parseBlock(statements, ['done']);
+      this.takeKeyword(statements, 'done');
+      return { type: 'while', until: word === 'until', condition, body };
+    }
+
+    const definition = /^function\s+([A-Za-z_][A-Za-z0-9_-]*)\s*(?:\(\s*\))?\s*(.*)$/s.exec(statement)
+      ?? /^([A-Za-z_][A-Za-z0-9_-]*)\s*\(\s*\)\s*(.*)$/s.exec(statement);
+    if (definition) {
+      statements.shift();
+      if (definition[2]) {
+        statements.unshift(definition[2]);
+      }
+      this.takeKeyword(statements, '{');
+      const body = this.parseBlock(statements, ['}']);
+      this.takeKeyword(statements, '}');
+      return { type: 'function', name: definition[1], body };
+    }
+
+    statements.shift();
+    return { type: 'command', command: statement };
+  }
+
+  /**
+   * Remove a keyword from the first statement, keeping any command that follows it
+   * (so "then echo hi" leaves "echo hi")
+   */
+  private static takeKeyword(statements: string[], keyword: string): void {
+    if (statements.length === 0) {
+      throw new Error('syntax error: unexpected end of file');
+    }
+
+    const statement = statements.shift()!;
+    if (this.firstWord(statement) !== keyword) {
+      throw new Error(`syntax error near unexpected token \`${this.firstWord(statement)}'`);
+    }
+
+    const rest = statement.substring(keyword.length).trim();
+    if (rest) {
+      statements.unshift(rest);
+    }
+  }
+
+  /**
+   * Get the first word of a statement; a brace counts as a word of its own
+   */
+  private static firstWord(statement: string | undefined): string {
+    if (!statement) return '';
+    if (statement[0] === '{' || statement[0] === '}') return statement[0];
+    return /^[^\s;]+/.exec(statement)?.[0] ?? '';
+  }
+
+  /**
+   * Run nodes in order
+   * @returns Exit code of the last command
+   */
+  private async executeBlock(nodes: ShellNode[]): Promise<number> {
+    for (const node of nodes) {
+      await this.executeNode(node);
+    }
+    return this.context.lastExitCode ?? 0;
+  }
+
+  /**
+   * Run a single node and record its exit code as `$?`
+   */
+  private async executeNode(node: ShellNode): Promise<void> {
+    const context = this.context;
+
+    switch (node.type) {
+      case 'command':
+        await this.executeList(node.command);
+        return;
+
+      case 'function':
+        this.functions.set(node.name, node.body);
+        context.lastExitCode = 0;
+        return;
+
+      case 'if': {
+        for (const branch of node.branches) {
+          if (await this.executeBlock(branch.condition) === 0) {
+            await this.executeBlock(branch.body);
+            return;
+          }
+        }
+        context.lastExitCode = 0;
+        await this.executeBlock(node.elseBody);
+        return;
+      }
+
+      case 'for': {
+        const words = node.words === null
+          ? (context.positionalArgs ?? []).slice(1)
+          : await this.processor.expandWords(node.words, context);
+        context.lastExitCode = 0;
+        for (const word of words) {
+          context.env[node.variable] = word;
+          if (await this.runLoopBody(node.body) === 'break') break;
+        }
+        return;
+      }
+
+      case 'arithmetic-for': {
+        this.evaluateArithmetic(node.init);
+        context.lastExitCode = 0;
+        while (!node.condition.trim() || this.evaluateArithmetic(node.condition) !== 0) {
+          if (await this.runLoopBody(node.body) === 'break') break;
+          this.evaluateArithmetic(node.update);
+        }
+        return;
+      }
+
+      case 'while': {
+        let status = 0;
+        while (true) {
+          const succeeded = await this.executeBlock(node.condition) === 0;
+          if (succeeded === node.until) break;
+          const result = await this.runLoopBody(node.body);
+          status = context.lastExitCode ?? 0;
+          if (result === 'break') break;
+        }
+        context.lastExitCode = status;
+        return;
+      }
+    }
+  }
+
+  /**
+   * Run one iteration of a loop body, handling break and continue
+   * @returns 'break' when the loop should stop
+   */
+  private async runLoopBody(body: ShellNode[]): Promise<'break' | 'next'> {
+    // Endless loops must still stop on Ctrl+C and pause on Ctrl+Z
+    await JobControl.checkpoint(this.context);
+    try {
+      await this.executeBlock(body);
+      return 'next';
+    } catch (error) {
+      if (!(error instanceof ShellLoopControl)) {
+        throw error;
+      }
+      // break 2 / continue 2 affect an enclosing loop as well
+      if (error.levels > 1) {
+        throw new ShellLoopControl(error.kind, error.levels - 1);
+      }
+      return error.kind === 'break' ? 'break' : 'next';
+    }
+  }
+
+  /**
+   * Run a command list, handling builtins and function calls in each command
+   */
+  private async executeList(commandStr: string): Promise<void> {
+    const context = this.context;
+
+    let entries;
+    try {
+      entries = CommandList.parse(commandStr);
+    } catch (error) {
+      context.stderr.writeLine(`${context.positionalArgs?.[0] ?? 'sh'}: ${error instanceof Error ? error.message : String(error)}`);
+      context.lastExitCode = 2;
+      return;
+    }
+
+    for (const entry of entries) {
+      await JobControl.checkpoint(context);
+      if (!CommandList.shouldRun(entry.operator, context.lastExitCode ?? 0)) {
+        continue;
+      }
+
+      // "! command" negates the exit code
+      const negate = /^!\s/.test(entry.command);
+      const command = negate ? entry.command.substring(1).trim() : entry.command;
+      const status = await this.processor.processCommand(command, context);
+      context.lastExitCode = negate ? (status === 0 ? 1 : 0) : status;
+    }
+  }
+
+  /**
+   * Get a function or builtin of the script as a command, for the command processor
+   */
+  private getShellCommand(name: string): CommandModule | undefined {
+    const isFunction = this.functions.has(name);
+    if (!isFunction && !SCRIPT_BUILTINS.includes(name)) {
+      return undefined;
+    }
+    return {
+      name,
+      description: isFunction ? 'Shell function' : 'Shell builtin',
+      usage: name,
+      execute: (args, context) => this.executeSimple(name, args.argv ?? args.args, context)
+    };
+  }
+
+  /**
+   * Run a builtin or a function call
+   * @param context Context of the call, with its redirections and pipes
+   * @returns Exit code of the command
+   */
+  private async executeSimple(name: string, args: string[], context: CommandContext): Promise<number> {
+    switch (name) {
+      case 'exit':
+        throw new ShellExit(this.parseStatus('exit', args[0], context));
+
+      case 'return':
+        if (this.localScopes.length === 0) {
+          context.stderr.writeLine('return: can only `return\' from a function or sourced script');
+          return 1;
+        }
+        throw new ShellReturn(this.parseStatus('return', args[0], context));
+
+      case 'break':
+      case 'continue': {
+        const levels = args[0] === undefined ? 1 : parseInt(args[0], 10);
+        if (isNaN(levels) || levels < 1) {
+          context.stderr.writeLine(`${name}: ${args[0]}: loop count out of range`);
+          return 1;
+        }
+        throw new ShellLoopControl(name, levels);
+      }
+
+      case 'shift': {
+        const count = args[0] === undefined ? 1 : parseInt(args[0], 10);
+        const positional = this.context.positionalArgs ?? ['sh'];
+        if (isNaN(count) || count < 0 || count > positional.length - 1) {
+          return 1;
+        }
+        this.context.positionalArgs = [positional[0], ...positional.slice(1 + count)];
+        return 0;
+      }
+
+      case 'local': {
+        const scope = this.localScopes[this.localScopes.length - 1];
+        if (!scope) {
+          context.stderr.writeLine('local: can only be used in a function');
+          return 1;
+        }
+        for (const arg of args) {
+          const assignment = ShellEnvironment.parseAssignment(arg);
+          const variable = assignment ? assignment.name : arg;
+          if (!ShellEnvironment.isValidName(variable)) {
+            context.stderr.writeLine(`local: \`${arg}': not a valid identifier`);
+            return 1;
+          }
+          // Remember the outer value so it can be restored when the function returns
+          if (!scope.has(variable)) {
+            scope.set(variable, this.context.env[variable]);
+          }
+          this.context.env[variable] = assignment ? assignment.value : this.context.env[variable] ?? '';
+        }
+        return 0;
+      }
+
+      default:
+        return this.callFunction(name, args, context);
+    }
+  }
+
+  /**
+   * Call a shell function with its own positional parameters and local variables
+   * @param context Context of the call: the function reads and writes its streams
+   */
+  private async callFunction(name: string, args: string[], context: CommandContext): Promise<number> {
+    const body = new ShellInterpreter(this.processor, context, this);
+    const scope = new Map<string, string | undefined>();
+
+    body.context.positionalArgs = [this.context.positionalArgs?.[0] ?? 'sh', ...args];
+    this.localScopes.push(scope);
+
+    try {
+      return await body.executeBlock(this.functions.get(name)!);
+    } catch (error) {
+      if (error instanceof ShellReturn) {
+        return error.code;
+      }
+      throw error;
+    } finally {
+      this.localScopes.pop();
+      for (const [variable, value] of scope) {
+        if (value === undefined) {
+          delete body.context.env[variable];
+        } else {
+          body.context.env[variable] = value;
+        }
+      }
+    }
+  }
+
+  /**
+   * Parse the status argument of exit or return; without one, `$?` is used
+   */
+  private parseStatus(builtin: string, arg: string | undefined, context: CommandContext): number {
+    if (arg === undefined) {
+      return this.context.lastExitCode ?? 0;
+    }
+    if (!/^-?\d+$/.test(arg)) {
+      context.stderr.writeLine(`${builtin}: ${arg}: numeric argument required`);
+      return 2;
+    }
+    // Exit codes are 8 bit like in bash
+    return ((parseInt(arg, 10) % 256) + 256) % 256;
+  }
+
+  /**
+   * Evaluate an arithmetic expression against the script's variables
+   */
+  private evaluateArithmetic(expression: string): number {
+    const env = this.context.env;
+    return ShellArithmetic.evaluate(expression, {
+      get: name => env[name],
+      set: (name, value) => { env[name] = value; }
+    });
+  }
+}
@@ -0,0 +1,131 @@
+import { ShellEnvironment } from './shell-environment';
+
+/**
+ * Prompt used when PS1 is not set, like user@hacker-machine:~$
+ */
+export const DEFAULT_PS1 = '\\u@\\h:\\w\\$ ';
+
+/**
+ * State of the shell shown by the prompt escapes
+ */
+export interface PromptInfo {
+  /**
+   * Name of the current user (\u)
+   */
+  user: string;
+
+  /**
+   * Working directory as shown to the user, like ~/Documents (\w)
+   */
+  cwd: string;
+
+  /**
+   * Variables of the session, for $NAME references and the hostname (\h)
+   */
+  env: Record<string, string>;
+
+  /**
+   * Exit code of the last command ($?)
+   */
+  lastExitCode: number;
+
+  /**
+   * Number of jobs of the session (\j)
+   */
+  jobCount: number;
+
+  /**
+   * History number of the next command (\!)
+   */
+  historyNumber: number;
+}
+
+/**
+ * Helper class for the shell prompt (PS1)
+ */
+export class ShellPrompt {
+  /**
+   * Expand a prompt string like bash: \u user, \h and \H host, \w and \W working directory,
+   * \$ (# for root), \d, \t, \T, \@ and \A date and time, \j jobs, \! history number,
+   * \n newline, \e escape for colors, \nnn octal characters and $NAME variables.
+   * \[ and \] only mark colors as invisible in bash and are removed.
+   * @param ps1 The prompt string
+   * @param info State of the shell
+   * @returns The prompt to print
+   */
+  public static format(ps1: string, info: PromptInfo): string {
+    const hostname = info.env.HOSTNAME || 'hacker-machine';
+    const now = new Date();
+    let result = '';
+
+    for (let i = 0; i < ps1.length; i++) {
+      const char = ps1[i];
+
+      if (char === '$') {
+        const reference = ShellEnvironment.readReference(ps1, i);
+        if (reference) {
+          result += reference.name === '?' ? String(info.lastExitCode) : info.env[reference.name] ?? '';
+          i = reference.end - 1;
+          continue;
+        }
+      }
+
+      if (char !== '\\' || i + 1 >= ps1.length) {
+        result += char;
+        continue;
+      }
+
+      const escape = ps1[++i];
+      const octal = /^[0-7]{3}/.exec(ps1.substring(i));
+      if (octal) {
+        result += String.fromCharCode(parseInt(octal[0], 8));
+        i += 2;
+        continue;
+      }
+
+      switch (escape) {
+        case 'u': result += info.user; break;
+        case 'h': result += hostname.split('.')[0]; break;
+        case 'H': result += hostname; break;
+        case 'w': result += info.cwd; break;
+        case 'W': result += info.cwd === '/' ? '/' : info.cwd.split('/').filter(part => part).pop() ?? info.cwd; break;
+        case '$': result += info.user === 'root' ? '#' : '$'; break;
+        case 'n': result += '\r\n'; break;
+        case 'r': result += '\r'; break;
+        case 'e': result += '\x1b'; break;
+        case 'a': result += '\x07'; break;
+        case 'd': result += now.toDateString().substring(0, 10); break;
+        case 't': result += this.formatTime(now, true, true); break;
+        case 'T': result += this.formatTime(now, false, true); break;
+        case '@': result += `${this.formatTime(now, false, false)} ${now.getHours() < 12 ? 'AM' : 'PM'}`; break;
+        case 'A': result += this.formatTime(now, true, false); break;
+        case 'j': result += String(info.jobCount); break;
+        case '!': result += String(info.historyNumber); break;
+        case 's': result += 'bash'; break;
+        case 'v': result += '5.2'; break;
+        case '[': case ']': break;
+        case '\\': result += '\\'; break;
+        default: result += '\\' + escape;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the number of columns a prompt takes on its last line, without color codes
+   */
+  public static visibleLength(prompt: string): number {
+    const lastLine = prompt.substring(prompt.lastIndexOf('\n') + 1);
+    return lastLine.replace(/\x1b\[[0-9;?]*[A-Za-z]/g, '').replace(/[\r\x07]/g, '').length;
+  }
+
+  private static formatTime(date: Date, twentyFourHours: boolean, seconds: boolean): string {
+    const hours = twentyFourHours ? date.getHours() : (date.getHours() % 12 || 12);
+    const parts = [hours, date.getMinutes()];
+    if (seconds) {
+      parts.push(date.getSeconds());
+    }
+    return parts.map(part => String(part).padStart(2, '0')).join(':');
+  }
+}
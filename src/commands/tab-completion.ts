@@ -0,0 +1,280 @@
+import { OS } from '../core/os';
+import { CommandContext, CommandProcessor } from './command-processor';
+import { CommandOption } from './command-options';
+import { CommandPath } from './command-path';
+
+/**
+ * Word being completed on a command line
+ */
+export interface CompletionRequest {
+  /**
+   * Completed words of the current command after the command name
+   */
+  args: string[];
+
+  /**
+   * The (unquoted) partial word under the cursor
+   */
+  current: string;
+}
+
+/**
+ * Result of completing a command line
+ */
+export interface CompletionResult {
+  /**
+   * Index in the line where the word being completed starts
+   */
+  start: number;
+
+  /**
+   * The partial word, without quotes and escapes
+   */
+  current: string;
+
+  /**
+   * Candidates for the word; directories end with '/'
+   */
+  candidates: string[];
+}
+
+/**
+ * Helper class for command line tab completion
+ */
+export class TabCompletion {
+  /**
+   * Characters that are escaped with a backslash when a completion is inserted
+   */
+  private static readonly ESCAPED_CHARS = ' \t\\\'"$&|;<>()*?[]{}!#`';
+
+  /**
+   * Complete the word before the cursor
+   * @param line The command line
+   * @param cursor Cursor position in the line
+   * @param processor Command processor providing commands and their completions
+   * @param context Command context (cwd, env)
+   */
+  public static async complete(line: string, cursor: number, processor: CommandProcessor, context: CommandContext): Promise<CompletionResult> {
+    const { words, current, start } = this.splitLine(line.substring(0, cursor));
+    const os = context.os;
+    let candidates: string[] | null = null;
+
+    if (current.startsWith('$') && !current.includes('/')) {
+      // Variable names
+      candidates = Object.keys(context.env).map(name => '$' + name).filter(name => name.startsWith(current));
+    } else if (words.length === 0 && !current.includes('/')) {
+      // Command position: commands, aliases and executable files in PATH
+      const names = [...processor.getCommandNames(), ...Object.keys(context.aliases ?? {}), ...await CommandPath.listExecutables(context)];
+      candidates = names.filter(name => name.startsWith(current));
+    } else if (words.length > 0) {
+      // Let the command complete its own options and arguments
+      const command = processor.getCommand(words[0]);
+      if (command?.complete) {
+        try {
+          candidates = await command.complete({ args: words.slice(1), current }, context);
+        } catch (error) {
+          console.error(`Error completing '${words[0]}':`, error);
+        }
+      } else if (command?.options && current.startsWith('-')) {
+        // Options come from the command's declaration
+        candidates = this.completeDeclaredOptions(command.options, current);
+      }
+    }
+
+    if (candidates === null) {
+      candidates = await this.completePaths(os, current, context.cwd);
+    }
+
+    return { start, current, candidates: Array.from(new Set(candidates)).sort() };
+  }
+
+  /**
+   * Complete a file or directory path, including path aliases like ~
+   * @param os OS instance
+   * @param current The partial path
+   * @param cwd Current working directory
+   * @param directoriesOnly Only offer directories
+   * @returns Matching paths as typed; directories end with '/'
+   */
+  public static async completePaths(os: OS, current: string, cwd: string, directoriesOnly: boolean = false): Promise<string[]> {
+    const fileSystem = os.getFileSystem();
+    const slash = current.lastIndexOf('/');
+    const directoryPart = current.substring(0, slash + 1);
+    const namePart = current.substring(slash + 1);
+    const candidates: string[] = [];
+
+    // An alias on its own, like ~, completes to a directory
+    if (!directoryPart) {
+      for (const alias of fileSystem.getAliases()) {
+        if (!alias.alias.includes('/') && alias.alias.startsWith(namePart) && alias.alias !== namePart + '/') {
+          candidates.push(alias.alias + '/');
+        }
+      }
+    }
+
+    let entries;
+    try {
+      const directory = directoryPart ? fileSystem.parsePath(directoryPart, cwd) : fileSystem.parsePath(cwd);
+      entries = await fileSystem.readDirectory(directory);
+    } catch (error) {
+      return candidates;
+    }
+
+    for (const entry of entries) {
+      // Hidden files are only offered once a dot is typed
+      if (entry.name.startsWith('.') && !namePart.startsWith('.')) continue;
+      if (!entry.name.startsWith(namePart)) continue;
+
+      const isDirectory = entry.type === 'directory';
+      if (directoriesOnly && !isDirectory) continue;
+      candidates.push(directoryPart + entry.name + (isDirectory ? '/' : ''));
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Complete a hostname from the DNS records
+   * @param os OS instance
+   * @param current The partial hostname
+   * @param prefix Text to put before each hostname, like "http://"
+   */
+  public static completeHostnames(os: OS, current: string, prefix: string = ''): string[] {
+    return os.getDNSServer().getAllRecords()
+      .map(record => prefix + record.hostname)
+      .filter(hostname => hostname.startsWith(current));
+  }
+
+  /**
+   * Complete an option from a list
+   */
+  public static completeOptions(options: string[], current: string): string[] {
+    return options.filter(option => option.startsWith(current));
+  }
+
+  /**
+   * Complete an option from a command's option declaration, offering the --long and -short forms
+   */
+  public static completeDeclaredOptions(options: CommandOption[], current: string): string[] {
+    const forms: string[] = ['--help'];
+    for (const option of options) {
+      const aliases = option.alias === undefined ? [] : Array.isArray(option.alias) ? option.alias : [option.alias];
+      forms.push(...aliases.map(alias => '-' + alias));
+      if (!aliases.includes(option.name)) {
+        forms.push('--' + option.name);
+      }
+    }
+    return this.completeOptions(forms, current);
+  }
+
+  /**
+   * Escape a completed word so it can be inserted in the command line
+   */
+  public static escape(word: string): string {
+    let result = '';
+    for (const char of word) {
+      result += this.ESCAPED_CHARS.includes(char) && !(char === '$' && result === '') ? '\\' + char : char;
+    }
+    return result;
+  }
+
+  /**
+   * Find the longest common prefix of the candidates
+   */
+  public static commonPrefix(candidates: string[]): string {
+    if (candidates.length === 0) return '';
+    let prefix = candidates[0];
+    for (const candidate of candidates.slice(1)) {
+      while (!candidate.startsWith(prefix)) {
+        prefix = prefix.slice(0, -1);
+      }
+    }
+    return prefix;
+  }
+
+  /**
+   * Format candidates in columns, filled top to bottom like bash
+   * @param candidates Items to list
+   * @param width Terminal width in characters
+   * @returns Lines to print
+   */
+  public static formatColumns(candidates: string[], width: number): string[] {
+    const columnWidth = Math.max(...candidates.map(candidate => candidate.length)) + 2;
+    const columns = Math.max(1, Math.floor(width / columnWidth));
+    const rows = Math.ceil(candidates.length / columns);
+    const lines: string[] = [];
+
+    for (let row = 0; row < rows; row++) {
+      let line = '';
+      for (let column = 0; column < columns; column++) {
+        const candidate = candidates[column * rows + row];
+        if (candidate !== undefined) {
+          line += candidate.padEnd(columnWidth);
+        }
+      }
+      lines.push(line.trimEnd());
+    }
+
+    return lines;
+  }
+
+  /**
+   * Split the text before the cursor into the words of the current command
+   * and the partial word being typed
+   */
+  private static splitLine(text: string): { words: string[]; current: string; start: number } {
+    let words: string[] = [];
+    let current = '';
+    let start = 0;
+    let inWord = false;
+    let quoteChar = '';
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (quoteChar) {
+        if (char === quoteChar) {
+          quoteChar = '';
+        } else {
+          current += char;
+        }
+        continue;
+      }
+
+      if (!inWord && !/\s/.test(char)) {
+        inWord = true;
+        start = i;
+      }
+
+      if (char === '\\' && i + 1 < text.length) {
+        current += text[++i];
+      } else if (char === '"' || char === "'") {
+        quoteChar = char;
+      } else if (char === ';' || char === '|' || char === '&') {
+        // A command separator starts a new command
+        words = [];
+        current = '';
+        inWord = false;
+      } else if (/\s/.test(char)) {
+        if (inWord) {
+          words.push(current);
+          current = '';
+          inWord = false;
+        }
+      } else {
+        current += char;
+      }
+    }
+
+    if (!inWord) {
+      start = text.length;
+    }
+
+    // Leading NAME=value assignments are not the command
+    while (words.length > 0 && /^[A-Za-z_][A-Za-z0-9_]*=/.test(words[0])) {
+      words.shift();
+    }
+
+    return { words, current, start };
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * File or directory in a tar archive
+ */
+export interface TarEntry {
+  /**
+   * Name in the archive, without trailing slash for directories
+   */
+  name: string;
+
+  isDirectory: boolean;
+
+  /**
+   * Permission bits, like 0o644
+   */
+  mode: number;
+
+  modified: Date;
+
+  owner: string;
+
+  /**
+   * Content of a file; empty for directories
+   */
+  data: Uint8Array;
+}
+
+const BLOCK_SIZE = 512;
+
+/**
+ * Reading and writing of archives in the POSIX ustar format, as written by tar.
+ * Each entry is a 512 byte header followed by its data padded to whole blocks,
+ * and two zero blocks end the archive.
+ */
+export class TarArchive {
+  /**
+   * Write entries as a tar archive
+   * @throws Error for names that do not fit in a header
+   */
+  public static pack(entries: TarEntry[]): Uint8Array {
+    const size = entries.reduce((total, entry) => total + BLOCK_SIZE + this.padded(entry.data.length), 2 * BLOCK_SIZE);
+    const archive = new Uint8Array(size);
+    let offset = 0;
+
+    for (const entry of entries) {
+      archive.set(this.header(entry), offset);
+      offset += BLOCK_SIZE;
+      if (!entry.isDirectory) {
+        archive.set(entry.data, offset);
+        offset += this.padded(entry.data.length);
+      }
+    }
+
+    return archive;
+  }
+
+  /**
+   * Read the entries of a tar archive. Entries other than files and directories,
+   * like links, are skipped.
+   * @throws Error when the data is not a tar archive or is truncated
+   */
+  public static unpack(archive: Uint8Array): TarEntry[] {
+    const entries: TarEntry[] = [];
+    let offset = 0;
+
+    while (offset + BLOCK_SIZE <= archive.length) {
+      const header = archive.subarray(offset, offset + BLOCK_SIZE);
+      if (header.every(byte => byte === 0)) {
+        break;
+      }
+      if (this.readOctal(header, 148, 8) !== this.checksum(header)) {
+        throw new Error(offset === 0 ? 'This does not look like a tar archive' : 'Skipping to next header: checksum error');
+      }
+
+      const size = this.readOctal(header, 124, 12);
+      const type = String.fromCharCode(header[156]);
+      const prefix = this.readString(header, 257, 6).startsWith('ustar') ? this.readString(header, 345, 155) : '';
+      const name = this.readString(header, 0, 100);
+      offset += BLOCK_SIZE;
+
+      if (offset + size > archive.length) {
+        throw new Error('Unexpected EOF in archive');
+      }
+
+      if (type === '0' || type === '\0' || type === '5') {
+        entries.push({
+          name: (prefix ? `${prefix}/${name}` : name).replace(/\/+$/, ''),
+          isDirectory: type === '5',
+          mode: this.readOctal(header, 100, 8) & 0o777,
+          modified: new Date(this.readOctal(header, 136, 12) * 1000),
+          owner: this.readString(header, 265, 32) || 'user',
+          data: type === '5' ? new Uint8Array(0) : archive.slice(offset, offset + size)
+        });
+      }
+      offset += this.padded(size);
+    }
+
+    return entries;
+  }
+
+  private static header(entry: TarEntry): Uint8Array {
+    const header = new Uint8Array(BLOCK_SIZE);
+    const [prefix, name] = this.splitName(entry.isDirectory ? `${entry.name}/` : entry.name);
+
+    this.writeString(header, 0, 100, name);
+    this.writeOctal(header, 100, 8, entry.mode & 0o7777);
+    this.writeOctal(header, 108, 8, 1000);
+    this.writeOctal(header, 116, 8, 1000);
+    this.writeOctal(header, 124, 12, entry.isDirectory ? 0 : entry.data.length);
+    this.writeOctal(header, 136, 12, Math.floor(entry.modified.getTime() / 1000));
+    header[156] = (entry.isDirectory ? '5' : '0').charCodeAt(0);
+    this.writeString(header, 257, 6, 'ustar');
+    this.writeString(header, 263, 2, '00');
+    this.writeString(header, 265, 32, entry.owner);
+    this.writeString(header, 297, 32, entry.owner);
+    this.writeString(header, 345, 155, prefix);
+
+    // The checksum is computed with its own field filled with spaces
+    header.fill(0x20, 148, 156);
+    const checksum = this.checksum(header).toString(8).padStart(6, '0');
+    this.writeString(header, 148, 8, checksum);
+    header[155] = 0x20;
+    return header;
+  }
+
+  /**
+   * Split a name into the prefix and name fields of a header, at a slash
+   */
+  private static splitName(name: string): [string, string] {
+    const length = new TextEncoder().encode(name).length;
+    if (length <= 100) {
+      return ['', name];
+    }
+    for (let i = name.indexOf('/'); i !== -1; i = name.indexOf('/', i + 1)) {
+      const prefix = name.substring(0, i);
+      const rest = name.substring(i + 1);
+      if (new TextEncoder().encode(prefix).length <= 155 && rest !== '' && new TextEncoder().encode(rest).length <= 100) {
+        return [prefix, rest];
+      }
+    }
+    throw new Error(`${name}: file name is too long (max 255); not dumped`);
+  }
+
+  private static checksum(header: Uint8Array): number {
+    let sum = 0;
+    for (let i = 0; i < BLOCK_SIZE; i++) {
+      sum += i >= 148 && i < 156 ? 0x20 : header[i];
+    }
+    return sum;
+  }
+
+  private static padded(size: number): number {
+    return Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+  }
+
+  private static writeString(header: Uint8Array, offset: number, length: number, value: string): void {
+    header.set(new TextEncoder().encode(value).subarray(0, length), offset);
+  }
+
+  private static writeOctal(header: Uint8Array, offset: number, length: number, value: number): void {
+    this.writeString(header, offset, length - 1, value.toString(8).padStart(length - 1, '0'));
+  }
+
+  private static readString(header: Uint8Array, offset: number, length: number): string {
+    const field = header.subarray(offset, offset + length);
+    const end = field.indexOf(0);
+    return new TextDecoder().decode(end === -1 ? field : field.subarray(0, end));
+  }
+
+  private static readOctal(header: Uint8Array, offset: number, length: number): number {
+    const value = this.readString(header, offset, length).trim();
+    return value === '' ? 0 : parseInt(value, 8);
+  }
+}
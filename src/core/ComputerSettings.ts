@@ -2,6 +2,18 @@ import { FileSystem } from './filesystem';
 import { BaseSettings } from './BaseSettings';
 import { PathUtils } from './path-utils';
 
+/**
+ * Processor of the computer, which sets the speed of CPU-heavy tasks like cracking
+ */
+export interface CpuInfo {
+  model: string;
+  cores: number;
+  /**
+   * Clock speed in GHz
+   */
+  clock: number;
+}
+
 /**
  * ComputerSettings handles system-wide settings stored in /etc
  * similar to how Linux stores system configuration files.
@@ -103,6 +115,38 @@ export class ComputerSettings extends BaseSettings {
     return this.set(appConfigPath, key, value);
   }
 
+  /**
+   * Set hardware configuration parameters, like cpu.cores
+   * @param key The hardware configuration key
+   * @param value The value to set
+   */
+  public async setHardwareConfig(key: string, value: any): Promise<void> {
+    return this.set('hardware.conf', key, value);
+  }
+
+  /**
+   * Get hardware configuration parameters
+   * @param key The hardware configuration key
+   * @param defaultValue Default value if configuration doesn't exist
+   */
+  public async getHardwareConfig(key: string, defaultValue?: any): Promise<any> {
+    return this.get('hardware.conf', key, defaultValue);
+  }
+
+  /**
+   * Get the processor from /etc/hardware.conf (cpu.model, cpu.cores and cpu.clock),
+   * which hardware upgrades change. Defaults to the starting machine's processor.
+   */
+  public async getCpuInfo(): Promise<CpuInfo> {
+    const cores = Number(await this.getHardwareConfig('cpu.cores', 8));
+    const clock = Number(await this.getHardwareConfig('cpu.clock', 3.8));
+    return {
+      model: String(await this.getHardwareConfig('cpu.model', 'AMD Ryzen 7 5800X')),
+      cores: cores > 0 ? cores : 1,
+      clock: clock > 0 ? clock : 1
+    };
+  }
+
   /**
    * Set network configuration parameters
    * @param key The network configuration key
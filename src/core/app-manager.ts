@@ -190,6 +190,16 @@ export class AppManager {
       launchable: true,
       singleton: true
     });
+
+    // Firewall rules editor
+    this.registerApp({
+      id: 'firewall',
+      name: 'Firewall',
+      description: 'Configure the firewall rules of this machine',
+      icon: '🛡️',
+      launchable: true,
+      singleton: true
+    });
   }
 
   /**
@@ -334,6 +344,9 @@ export class AppManager {
       case 'hack-paint':
         this.loadHackPaintUI(contentElement,windowId, args);
         break;
+      case 'firewall':
+        this.loadFirewallUI(contentElement,windowId, args);
+        break;
       default:
         contentElement.innerHTML = `<div style="padding: 20px;">App '${appId}' UI not implemented yet.</div>`;
     }
@@ -534,6 +547,18 @@ export class AppManager {
       contentElement.innerHTML = '<div style="padding: 20px;">Failed to load HackPaint app.</div>';
     });
   }
+
+  private loadFirewallUI(contentElement: HTMLElement, windowId: string, args: string[] = []): void {
+    contentElement.innerHTML = '<div class="firewall"></div>';
+
+    import('../apps/firewall').then(module => {
+      const firewallApp = new module.FirewallApp(this.os);
+      firewallApp.init(contentElement.querySelector('.firewall')!, windowId, args);
+    }).catch(error => {
+      console.error('Failed to load firewall app:', error);
+      contentElement.innerHTML = '<div style="padding: 20px;">Failed to load firewall app.</div>';
+    });
+  }
   /**
    * Handle window close event
    */
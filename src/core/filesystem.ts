@@ -150,8 +150,12 @@ export class FileSystem implements IFileSystemProvider {
   
   private aliases: PathAlias[] = [];
   
-  constructor(private readonly os:OS) {
-
+  /**
+   * @param os The system the filesystem belongs to, which gives the current user
+   * @param dbName Database storing the entries; remote hosts each have their own
+   */
+  constructor(private readonly os:OS, dbName: string = 'hacker-os-fs') {
+    this.DB_NAME = dbName;
   }
 
   /**
@@ -227,7 +231,7 @@ export class FileSystem implements IFileSystemProvider {
     }
   }
   private db: IDBPDatabase | null = null;
-  private readonly DB_NAME = 'hacker-os-fs';
+  private readonly DB_NAME: string;
   private readonly DB_VERSION = 1;
   private readonly STORE_NAME = 'fs-entries';
   public async copy(sourcePath: string, destPath: string): Promise<void> {
@@ -345,6 +349,7 @@ export class FileSystem implements IFileSystemProvider {
         await this.setupInitialFileSystem();
       }
       await this.ensureUserDirectoryExists();
+      await this.ensureStartupFilesExist();
       
       // Setup default aliases
       this.setupDefaultAliases();
@@ -377,9 +382,9 @@ export class FileSystem implements IFileSystemProvider {
     this.registerSymlink('/home/current', this.UserFolder);
   }
   
-  public readonly userDirectories:string[] = ['Desktop', 'Documents', 'Downloads', 'Music', 'Pictures', 'Videos', '.config', '.local', '.cache'];
+  public readonly userDirectories:string[] = ['Desktop', 'Documents', 'Downloads', 'Music', 'Pictures', 'Videos', 'bin', '.config', '.local', '.cache'];
   public get UserFolder():string {
-    return `/home/${this.os.currentUserName}`;
+    return this.os.currentUserName === 'root' ? '/root' : `/home/${this.os.currentUserName}`;
   }
   public get SpecialFolders() {
     return {
@@ -411,6 +416,47 @@ export class FileSystem implements IFileSystemProvider {
       }
     }
   }
+  /**
+   * Create the startup files and the hosts file when they are missing,
+   * which is also the case in file systems saved before they were added
+   */
+  private async ensureStartupFilesExist(): Promise<void> {
+    const files = [
+      { 
+        path: '/etc/hosts', 
+        content: '127.0.0.1\tlocalhost\n127.0.1.1\thacker-machine\n\n# The following lines are desirable for IPv6 capable hosts\n::1\tip6-localhost ip6-loopback\nff02::1\tip6-allnodes\nff02::2\tip6-allrouters\n',
+        owner: 'root'
+      },
+      { 
+        path: '/etc/profile', 
+        content: '# /etc/profile: system-wide startup file, run by every new terminal before ~/.bashrc\n\nexport EDITOR=nano\n',
+        owner: 'root'
+      },
+      {
+        // Like the one copied from /etc/skel
+        path: `${this.UserFolder}/.bashrc`,
+        content: [
+          '# ~/.bashrc: run by every new terminal after /etc/profile',
+          '',
+          '# Prompt: user@host in green, working directory in blue',
+          "PS1='\\[\\e[01;32m\\]\\u@\\h\\[\\e[00m\\]:\\[\\e[01;34m\\]\\w\\[\\e[00m\\]\\$ '",
+          '',
+          '# Aliases',
+          "alias ll='ls -l'",
+          "alias la='ls -la'",
+          "alias ..='cd ..'",
+          ''
+        ].join('\n'),
+        owner: this.os.currentUserName
+      }
+    ];
+
+    for (const file of files) {
+      if (!await this.exists(file.path)) {
+        await this.putFile(file.path, file.content, file.owner);
+      }
+    }
+  }
   /**
    * Set up the initial file system with basic Linux directory structure
    */
@@ -485,28 +531,37 @@ export class FileSystem implements IFileSystemProvider {
     ];
 
     for (const file of files) {
-      const name = file.path.split('/').pop() || '';
-      const parent = file.path.substring(0, file.path.lastIndexOf('/'));
-      
-      await this.db.put('fs-entries', {
-        path: file.path,
-        parent,
-        entry: {
-          name,
-          type: 'file',
-          content: file.content,
-          metadata: {
-            created: Date.now(),
-            modified: Date.now(),
-            size: file.content.length,
-            permissions: '-rw-r--r--',
-            owner: file.owner
-          }
-        }
-      });
+      await this.putFile(file.path, file.content, file.owner);
     }
   }
 
+  /**
+   * Store a file of the initial file system, whatever the permissions of the current user
+   */
+  private async putFile(path: string, content: string, owner: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const name = path.split('/').pop() || '';
+    const parent = path.substring(0, path.lastIndexOf('/'));
+    
+    await this.db.put('fs-entries', {
+      path,
+      parent,
+      entry: {
+        name,
+        type: 'file',
+        content,
+        metadata: {
+          created: Date.now(),
+          modified: Date.now(),
+          size: content.length,
+          permissions: '-rw-r--r--',
+          owner
+        }
+      }
+    });
+  }
+
   /**
    * Check if a path exists in the file system
    */
@@ -697,6 +752,41 @@ public canIWrite(path: string): Promise<boolean> {
     });
 }
 
+  /**
+   * Check if the current user can execute a file (its mode has the x bit set)
+   */
+  public async canIExecute(path: string): Promise<boolean> {
+    const stats = await this.stat(path);
+    const permissions = stats.permissions;
+    if (!permissions || permissions.length < 10) {
+      return false;
+    }
+    
+    // Check user permissions when the current user owns the file, otherwise group and others
+    const sameUser = stats.owner?.toLocaleLowerCase() === this.os.currentUserName.toLocaleLowerCase();
+    if (sameUser) {
+      return permissions[3] === 'x';
+    }
+    return permissions[6] === 'x' || permissions[9] === 'x';
+  }
+
+  /**
+   * Check if the current user can read a file
+   */
+  public async canIRead(path: string): Promise<boolean> {
+    const stats = await this.stat(path);
+    const permissions = stats.permissions;
+    if (!permissions || permissions.length < 10) {
+      return true;
+    }
+
+    const sameUser = stats.owner?.toLocaleLowerCase() === this.os.currentUserName.toLocaleLowerCase();
+    if (sameUser) {
+      return permissions[1] === 'r';
+    }
+    return permissions[4] === 'r' || permissions[7] === 'r';
+  }
+
   public async chmod(path: string, mode: string): Promise<void> {
     const canWrite = await this.canIWrite(path);
     if (!canWrite) {
@@ -709,7 +799,7 @@ public canIWrite(path: string): Promise<boolean> {
       return Promise.reject(Error(`Path does not exist: ${path}`));
     }
     // Get the entry
-    const entry = await this.db.get('fs-entries', path);
+    const entry = await this.db.get('fs-entries', this.normalizePath(path));
     if (!entry) {
       return Promise.reject(Error(`Entry not found: ${path}`));
     }
@@ -720,6 +810,25 @@ public canIWrite(path: string): Promise<boolean> {
     await this.db.put('fs-entries', entry);
 
   }
+
+  /**
+   * Set the modification time of a file or directory, like touch -d or utime(2).
+   * Only the owner of an entry can set its time.
+   */
+  public async setModifiedTime(path: string, time: Date): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    const entry = await this.db.get('fs-entries', this.normalizePath(path));
+    if (!entry) {
+      throw new Error(`Path does not exist: ${path}`);
+    }
+    const owner: string | undefined = entry.entry.metadata.owner;
+    const currentUser = this.os.currentUserName;
+    if (currentUser !== 'root' && owner?.toLocaleLowerCase() !== currentUser.toLocaleLowerCase()) {
+      throw new Error(`Permission denied: Cannot set the time of ${path}`);
+    }
+    entry.entry.metadata.modified = time.getTime();
+    await this.db.put('fs-entries', entry);
+  }
   /**
    * Helper method to check if a string is likely base64 encoded
    */
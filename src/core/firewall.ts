@@ -0,0 +1,170 @@
+import { IpUtils } from './ip-utils';
+
+/**
+ * Chains of the filter table: packets coming to the system, going through it and leaving it
+ */
+export type FirewallChain = 'INPUT' | 'FORWARD' | 'OUTPUT';
+
+/**
+ * What happens to a packet: let through, silently dropped, or refused with an error to the sender
+ */
+export type FirewallTarget = 'ACCEPT' | 'DROP' | 'REJECT';
+
+/**
+ * Protocols a rule can match
+ */
+export type FirewallProtocol = 'tcp' | 'udp' | 'icmp';
+
+/**
+ * Chains in the order iptables lists them
+ */
+export const FIREWALL_CHAINS: FirewallChain[] = ['INPUT', 'FORWARD', 'OUTPUT'];
+
+/**
+ * Interface for a firewall rule. Criteria that are not set match every packet.
+ */
+export interface FirewallRule {
+  chain: FirewallChain;
+  protocol?: FirewallProtocol;
+  source?: string; // Address or subnet in CIDR notation, like 10.0.0.0/24
+  destination?: string; // Address or subnet in CIDR notation
+  port?: number; // Destination port; only for tcp and udp
+  target: FirewallTarget;
+  packets?: number; // Number of packets the rule matched
+}
+
+/**
+ * Interface for the first packet of a connection, the one firewalls decide on.
+ * Replies of the connections they accept are accepted too.
+ */
+export interface Packet {
+  protocol: FirewallProtocol;
+  source: string;
+  destination: string;
+  port?: number;
+}
+
+/**
+ * Interface for the fate of a packet between two systems
+ */
+export interface FirewallVerdict {
+  target: FirewallTarget;
+  chain: FirewallChain; // OUTPUT when the sender decided, INPUT when the receiver did
+}
+
+/**
+ * Firewall of a system, like the filter table of iptables: each chain has rules tried
+ * in order, and a policy for the packets no rule matches
+ */
+export class Firewall {
+  private rules: FirewallRule[] = [];
+  private policies: Map<FirewallChain, FirewallTarget> = new Map(FIREWALL_CHAINS.map(chain => [chain, 'ACCEPT']));
+
+  /**
+   * @param rules Rules the firewall starts with
+   */
+  constructor(rules: FirewallRule[] = []) {
+    rules.forEach(rule => this.appendRule(rule));
+  }
+
+  /**
+   * Get the rules of a chain, in the order they are tried
+   */
+  public getRules(chain: FirewallChain): FirewallRule[] {
+    return this.rules.filter(rule => rule.chain === chain);
+  }
+
+  /**
+   * Add a rule at the end of its chain
+   */
+  public appendRule(rule: FirewallRule): void {
+    this.rules.push({ ...rule, packets: 0 });
+  }
+
+  /**
+   * Insert a rule in its chain
+   * @param position Position of the rule in the chain, from 1; the rule at that position and the next ones move down
+   * @returns False if the chain does not have that many rules
+   */
+  public insertRule(rule: FirewallRule, position: number = 1): boolean {
+    const chainRules = this.getRules(rule.chain);
+    if (position < 1 || position > chainRules.length + 1) return false;
+    const index = position <= chainRules.length ? this.rules.indexOf(chainRules[position - 1]) : this.rules.length;
+    this.rules.splice(index, 0, { ...rule, packets: 0 });
+    return true;
+  }
+
+  /**
+   * Delete the rule at a position of a chain
+   * @param position Position of the rule in the chain, from 1
+   * @returns False if there is no rule at that position
+   */
+  public deleteRule(chain: FirewallChain, position: number): boolean {
+    const rule = this.getRules(chain)[position - 1];
+    if (!rule) return false;
+    this.rules.splice(this.rules.indexOf(rule), 1);
+    return true;
+  }
+
+  /**
+   * Find the position in its chain of the first rule with the same criteria and target
+   * @returns The position from 1, or 0 if there is no such rule
+   */
+  public findRule(rule: FirewallRule): number {
+    return this.getRules(rule.chain).findIndex(candidate =>
+      candidate.protocol === rule.protocol && candidate.source === rule.source &&
+      candidate.destination === rule.destination && candidate.port === rule.port &&
+      candidate.target === rule.target) + 1;
+  }
+
+  /**
+   * Delete the rules of a chain, or of all chains; policies are kept
+   */
+  public flush(chain?: FirewallChain): void {
+    this.rules = chain ? this.rules.filter(rule => rule.chain !== chain) : [];
+  }
+
+  /**
+   * Get the target of the packets no rule of a chain matches
+   */
+  public getPolicy(chain: FirewallChain): FirewallTarget {
+    return this.policies.get(chain) ?? 'ACCEPT';
+  }
+
+  /**
+   * Set the policy of a chain; like iptables, a policy cannot be REJECT
+   */
+  public setPolicy(chain: FirewallChain, target: 'ACCEPT' | 'DROP'): void {
+    this.policies.set(chain, target);
+  }
+
+  /**
+   * Decide on a packet: the target of the first rule of the chain matching it, otherwise
+   * the policy of the chain. Counts the packet on the rule.
+   */
+  public check(chain: FirewallChain, packet: Packet): FirewallTarget {
+    const rule = this.getRules(chain).find(candidate => Firewall.matches(candidate, packet));
+    if (!rule) return this.getPolicy(chain);
+    rule.packets = (rule.packets ?? 0) + 1;
+    return rule.target;
+  }
+
+  /**
+   * Check whether a packet meets the criteria of a rule
+   */
+  public static matches(rule: FirewallRule, packet: Packet): boolean {
+    if (rule.protocol && rule.protocol !== packet.protocol) return false;
+    if (rule.source && !this.inRange(packet.source, rule.source)) return false;
+    if (rule.destination && !this.inRange(packet.destination, rule.destination)) return false;
+    if (rule.port !== undefined && rule.port !== packet.port) return false;
+    return true;
+  }
+
+  /**
+   * Check whether an address is in an address or CIDR range
+   */
+  private static inRange(address: string, range: string): boolean {
+    const [network, prefix] = range.split('/');
+    return prefix === undefined ? address === network : IpUtils.inSubnet(address, network, Number(prefix));
+  }
+}
@@ -0,0 +1,74 @@
+import { FileSystem } from './filesystem';
+import { DNSServer } from './network';
+import { IpUtils } from './ip-utils';
+
+/**
+ * Path of the static table of host names, consulted before DNS
+ */
+export const HOSTS_FILE = '/etc/hosts';
+
+/**
+ * Interface for a line of /etc/hosts: an address and the names it has
+ */
+export interface HostsEntry {
+  ip: string;
+  names: string[]; // Canonical name first, then the aliases
+}
+
+/**
+ * Resolver of host names as programs of a system see them: the entries of its
+ * /etc/hosts come first, then the DNS server. Editing /etc/hosts redirects a name.
+ */
+export class HostResolver {
+  constructor(private fileSystem: FileSystem, private dnsServer: DNSServer) {}
+
+  /**
+   * Get the DNS server names are resolved with when /etc/hosts does not have them
+   */
+  public getDNSServer(): DNSServer {
+    return this.dnsServer;
+  }
+
+  /**
+   * Resolve a host name to an IPv4 address; an address resolves to itself
+   * @returns The address, or null if the name is unknown
+   */
+  public async resolve(hostname: string): Promise<string | null> {
+    if (IpUtils.isAddress(hostname)) {
+      return hostname;
+    }
+    const name = hostname.toLowerCase().replace(/\.$/, '');
+    const entry = (await this.getHostsEntries()).find(candidate => candidate.names.includes(name));
+    return entry ? entry.ip : this.dnsServer.resolve(name);
+  }
+
+  /**
+   * Get the name of an address, from /etc/hosts or its PTR record
+   */
+  public async reverseLookup(ip: string): Promise<string | null> {
+    const entry = (await this.getHostsEntries()).find(candidate => candidate.ip === ip);
+    return entry ? entry.names[0] : this.dnsServer.reverseLookup(ip);
+  }
+
+  /**
+   * Get the IPv4 entries of /etc/hosts, in file order. Comments, IPv6 entries and
+   * malformed lines are skipped; a missing or unreadable file has no entries.
+   */
+  public async getHostsEntries(): Promise<HostsEntry[]> {
+    let content: string;
+    try {
+      content = await this.fileSystem.readFile(HOSTS_FILE);
+    } catch {
+      return [];
+    }
+
+    const entries: HostsEntry[] = [];
+    for (const line of content.split('\n')) {
+      const [ip, ...names] = line.replace(/#.*/, '').trim().split(/\s+/);
+      if (IpUtils.isAddress(ip) && names.length > 0) {
+        entries.push({ ip, names: names.map(name => name.toLowerCase()) });
+      }
+    }
+    return entries;
+  }
+}
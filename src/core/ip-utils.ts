@@ -0,0 +1,65 @@
+/**
+ * IPv4 address utilities: conversions, netmasks and subnet membership
+ */
+export class IpUtils {
+  /**
+   * Check if a string is an IPv4 address, like 192.168.1.10
+   */
+  public static isAddress(value: string): boolean {
+    const parts = value.split('.');
+    return parts.length === 4 && parts.every(part => /^\d{1,3}$/.test(part) && Number(part) <= 255);
+  }
+
+  /**
+   * Convert an address to its 32-bit value
+   */
+  public static toNumber(address: string): number {
+    return address.split('.').reduce((value, part) => value * 256 + Number(part), 0);
+  }
+
+  /**
+   * Convert a 32-bit value to an address
+   */
+  public static fromNumber(value: number): string {
+    return [24, 16, 8, 0].map(shift => Math.floor(value / 2 ** shift) % 256).join('.');
+  }
+
+  /**
+   * Get the netmask of a prefix length, like 255.255.255.0 for 24
+   */
+  public static netmask(prefix: number): string {
+    return this.fromNumber(2 ** 32 - 2 ** (32 - prefix));
+  }
+
+  /**
+   * Get the prefix length of a netmask, like 24 for 255.255.255.0
+   */
+  public static prefixLength(netmask: string): number {
+    return this.toNumber(netmask).toString(2).replace(/0+$/, '').length;
+  }
+
+  /**
+   * Get the network address of an address, like 192.168.1.0 for 192.168.1.10/24
+   */
+  public static network(address: string, prefix: number): string {
+    const size = 2 ** (32 - prefix);
+    return this.fromNumber(Math.floor(this.toNumber(address) / size) * size);
+  }
+
+  /**
+   * Get the broadcast address of the subnet of an address, like 192.168.1.255 for 192.168.1.10/24
+   */
+  public static broadcast(address: string, prefix: number): string {
+    const size = 2 ** (32 - prefix);
+    return this.fromNumber(Math.floor(this.toNumber(address) / size) * size + size - 1);
+  }
+
+  /**
+   * Check if an address is in a subnet
+   * @param network Network address of the subnet
+   * @param prefix Prefix length of the subnet
+   */
+  public static inSubnet(address: string, network: string, prefix: number): boolean {
+    return this.network(address, prefix) === this.network(network, prefix);
+  }
+}
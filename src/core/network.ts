@@ -2,6 +2,8 @@
  * Network infrastructure classes for the HackerGame
  * Provides DNS resolution, IP assignment, and network scanning
  */
+import { IpUtils } from './ip-utils';
+import { Firewall, FirewallProtocol, FirewallRule, FirewallVerdict, Packet } from './firewall';
 
 /**
  * Interface for port information
@@ -25,6 +27,14 @@ export interface OsInfo {
   accuracy: number; // Accuracy percentage of OS detection
 }
 
+/**
+ * Interface for an account that can log in to a host
+ */
+export interface HostAccount {
+  user: string;
+  password: string;
+}
+
 /**
  * Interface for host information
  */
@@ -34,18 +44,170 @@ export interface HostInfo {
   osInfo?: OsInfo;
   ports: PortInfo[];
   isUp: boolean;
-  latency: number; // in ms
   mac?: string; // MAC address for LAN hosts
+  accounts?: HostAccount[]; // Accounts for ssh logins
+  files?: Record<string, string>; // Files the host's filesystem starts with, by path
+  anonymousFtp?: string; // Directory served read-only to anonymous ftp logins; unset when the host refuses them
+  addresses?: string[]; // Addresses of the host on the other subnets it is connected to, like a private network behind it
+  firewall?: FirewallRule[]; // Rules the firewall of the host starts with
+}
+
+/**
+ * Interface for a subnet hosts belong to
+ */
+export interface Subnet {
+  name: string;
+  address: string; // Network address, like 192.168.1.0
+  prefix: number; // Prefix length, like 24 for 255.255.255.0
+  gateway?: string; // Router of the subnet
+  isPrivate?: boolean; // Private subnets are reached only from addresses inside them
+  reachableFrom?: string[]; // Names of the other subnets routed into a private subnet, like a VPN's
+}
+
+/**
+ * Interface for a network interface of a system, as ifconfig shows it
+ */
+export interface NetworkAdapter {
+  name: string; // lo, eth0, wlan0, tun0...
+  type: 'loopback' | 'ethernet' | 'wireless' | 'tunnel';
+  address: string;
+  netmask: string;
+  gateway?: string; // Router of the subnet the interface is on
+  mac?: string; // Tunnels and loopback have none
+  mtu: number;
+  isUp: boolean;
+}
+
+/**
+ * Interface for an entry of a routing table
+ */
+export interface Route {
+  destination: string; // Network address, 0.0.0.0 for the default route
+  prefix: number;
+  gateway?: string; // Unset for the subnets an interface is directly on
+  device: string; // Name of the network interface packets leave from
+  metric: number; // Routes with a lower metric are preferred
+}
+
+/**
+ * Interface for a router of the topology, a hop of the paths between hosts
+ */
+export interface RouterInfo {
+  ip: string;
+  answersProbes: boolean; // Routers that drop the probes of traceroute show as * * *
+}
+
+/**
+ * Interface for a link of the topology, between two routers or a router and a host
+ */
+export interface Link {
+  a: string; // IP address of one end
+  b: string; // IP address of the other end
+  latency: number; // Round trip time the link adds, in ms
+}
+
+/**
+ * Interface for a hop of the path to a host, as traceroute shows it
+ */
+export interface TraceHop {
+  ip: string;
+  latency: number; // Round trip time from the source, in ms
+  answers: boolean; // False when the probes get no answer
+}
+
+/**
+ * Types of DNS records
+ */
+export type DnsRecordType = 'A' | 'AAAA' | 'CNAME' | 'MX' | 'TXT' | 'NS' | 'PTR';
+
+/**
+ * Interface for a DNS record
+ */
+export interface DnsRecord {
+  name: string; // Name the record is for, like www.example.com
+  type: DnsRecordType;
+  value: string; // Address for A and AAAA, text for TXT, a name for the others
+  priority?: number; // Preference of MX records, the lowest is tried first
+  ttl?: number; // Seconds resolvers may cache the record
+}
+
+/**
+ * Interface for a DNS zone: the records of a domain and its subdomains
+ */
+export interface DnsZone {
+  origin: string; // Domain of the zone, like example.com
+  records: DnsRecord[];
 }
 
+/**
+ * Address of this machine on the LAN, the one of eth0
+ */
+export const LOCAL_ADDRESS = '192.168.1.100';
+
+/**
+ * Address of the name server the systems query, the DNS of the router
+ */
+export const NAME_SERVER = '192.168.1.1';
+
+/**
+ * Round trip time to the hosts that are not linked in the topology, in ms
+ */
+const UNLINKED_LATENCY = 50;
+
 /**
  * Network interface for managing network resources
  */
 export class NetworkInterface {
   private hosts: Map<string, HostInfo> = new Map();
+  private subnets: Subnet[] = [];
+  private adapters: NetworkAdapter[] = []; // Network interfaces of this machine
+  private routes: Route[] = []; // Routing table of this machine
+  private routers: Map<string, RouterInfo> = new Map();
+  private links: Link[] = [];
+  private firewalls: Map<string, Firewall> = new Map(); // Firewall of each system by address, LOCAL_ADDRESS for this machine
   
   constructor() {
+    this.initializeSubnets();
+    this.initializeAdapters();
     this.initializeDefaultHosts();
+    this.initializeTopology();
+  }
+  
+  /**
+   * Initialize the subnets: the LAN with the sites, and private networks reached only from inside
+   */
+  private initializeSubnets(): void {
+    this.subnets = [
+      { name: 'loopback', address: '127.0.0.0', prefix: 8, isPrivate: true },
+      { name: 'lan', address: '192.168.1.0', prefix: 24, gateway: '192.168.1.1' },
+      // Home Wi-Fi network, reached through wlan0
+      { name: 'wlan', address: '192.168.50.0', prefix: 24, gateway: '192.168.50.1', isPrivate: true },
+      // VPN the player is connected to through tun0, and the company network it leads to
+      { name: 'vpn', address: '10.8.0.0', prefix: 24, gateway: '10.8.0.1', isPrivate: true },
+      { name: 'techcorp-internal', address: '172.16.0.0', prefix: 24, gateway: '172.16.0.1', isPrivate: true, reachableFrom: ['vpn'] },
+      // Private network behind targetbank.com, reached only by pivoting through it
+      { name: 'targetbank-internal', address: '10.0.0.0', prefix: 24, gateway: '10.0.0.1', isPrivate: true }
+    ];
+  }
+  
+  /**
+   * Initialize the network interfaces and the routing table of this machine
+   */
+  private initializeAdapters(): void {
+    this.adapters = [
+      { name: 'lo', type: 'loopback', address: '127.0.0.1', netmask: '255.0.0.0', mtu: 65536, isUp: true },
+      { name: 'eth0', type: 'ethernet', address: LOCAL_ADDRESS, netmask: '255.255.255.0', gateway: '192.168.1.1', mac: '00:11:22:33:44:55', mtu: 1500, isUp: true },
+      { name: 'wlan0', type: 'wireless', address: '192.168.50.23', netmask: '255.255.255.0', gateway: '192.168.50.1', mac: 'a4:5e:60:d1:3c:7f', mtu: 1500, isUp: true },
+      { name: 'tun0', type: 'tunnel', address: '10.8.0.6', netmask: '255.255.255.0', gateway: '10.8.0.1', mtu: 1500, isUp: true }
+    ];
+    this.routes = [
+      { destination: '0.0.0.0', prefix: 0, gateway: '192.168.1.1', device: 'eth0', metric: 100 },
+      { destination: '0.0.0.0', prefix: 0, gateway: '192.168.50.1', device: 'wlan0', metric: 600 },
+      { destination: '10.8.0.0', prefix: 24, device: 'tun0', metric: 0 },
+      { destination: '172.16.0.0', prefix: 24, gateway: '10.8.0.1', device: 'tun0', metric: 0 },
+      { destination: '192.168.1.0', prefix: 24, device: 'eth0', metric: 100 },
+      { destination: '192.168.50.0', prefix: 24, device: 'wlan0', metric: 600 }
+    ];
   }
   
   /**
@@ -65,8 +227,7 @@ export class NetworkInterface {
         { port: 25, state: 'filtered', service: { name: 'smtp' } },
         { port: 443, state: 'filtered', service: { name: 'https' } }
       ],
-      isUp: true,
-      latency: 0.1
+      isUp: true
     });
     
     // Example.com
@@ -81,8 +242,7 @@ export class NetworkInterface {
         { port: 25, state: 'filtered', service: { name: 'smtp' } },
         { port: 110, state: 'filtered', service: { name: 'pop3' } }
       ],
-      isUp: true,
-      latency: 15
+      isUp: true
     });
     
     // MyBank.net
@@ -99,8 +259,7 @@ export class NetworkInterface {
         { port: 23, state: 'filtered', service: { name: 'telnet' } },
         { port: 3306, state: 'filtered', service: { name: 'mysql' } }
       ],
-      isUp: true,
-      latency: 25
+      isUp: true
     });
     
     // TargetBank.com
@@ -121,7 +280,47 @@ export class NetworkInterface {
         { port: 8443, state: 'filtered', service: { name: 'https-alt' } }
       ],
       isUp: true,
-      latency: 30
+      // MySQL only answers the servers of the private network
+      firewall: [
+        { chain: 'INPUT', protocol: 'tcp', port: 3306, source: '10.0.0.0/24', target: 'ACCEPT' },
+        { chain: 'INPUT', protocol: 'tcp', port: 3306, target: 'DROP' }
+      ],
+      accounts: [
+        { user: 'root', password: 'T4rg3tB4nk!R00t#2023' },
+        { user: 'admin', password: 'sunshine1' },
+        { user: 'backup', password: 'backup' }
+      ],
+      addresses: ['10.0.0.1'],
+      anonymousFtp: '/srv/ftp',
+      files: {
+        '/etc/motd': 'TargetBank Online Banking - Production Web Server\nAuthorized access only. All activity is monitored and logged.\n',
+        '/home/admin/notes.txt': 'TODO:\n- move the customer database off this box (done: db server is 10.0.0.5, internal only)\n- rotate the dbadmin password, still the one from the setup sheet\n',
+        '/home/admin/setup-sheet.txt': 'Database server setup (10.0.0.5)\nssh dbadmin@10.0.0.5\npassword md5: 48f65283f5f8ea4fb3cd0849c99ebc54 (policy: 3 lowercase letters + 2 digits)\n',
+        '/home/backup/backup.sh': '#!/bin/sh\n# Nightly backup of the web root\ntar -czf /tmp/www-backup.tar.gz /var/www\n',
+        '/var/www/index.html': '<html><body><h1>TargetBank</h1><p>Secure online banking.</p></body></html>\n',
+        '/srv/ftp/pub/README': 'TargetBank public FTP\nForms and documents for our customers. Uploads are disabled.\n',
+        '/srv/ftp/pub/staff-directory.txt': 'TargetBank IT staff\nJ. Miller   sysadmin   login: admin    ext. 4410\nR. Chen     backups    login: backup   ext. 4415\n'
+      }
+    });
+    
+    // Database server of TargetBank, on its private network: reached only by pivoting through targetbank.com
+    this.registerHost({
+      ip: '10.0.0.5',
+      hostname: 'db.targetbank.internal',
+      osInfo: { name: 'Linux', version: 'Ubuntu 20.04', accuracy: 92 },
+      ports: [
+        { port: 22, state: 'open', service: { name: 'ssh', version: 'OpenSSH 8.2p1', info: 'SSH protocol 2.0' } },
+        { port: 3306, state: 'open', service: { name: 'mysql', version: 'MySQL 5.7.30', info: 'MySQL database server' } }
+      ],
+      isUp: true,
+      accounts: [
+        { user: 'dbadmin', password: 'tgb42' }
+      ],
+      files: {
+        '/etc/motd': 'TargetBank internal database server\n',
+        '/home/dbadmin/customers.csv': 'id,name,iban,balance\n1,Alice Martin,FR7630006000011234567890189,15420.50\n2,Bob Durand,FR7630006000019876543210987,3210.00\n3,Carla Petit,FR7630006000015555666677788,98765.43\n',
+        '/home/dbadmin/.mysql_history': 'SELECT * FROM customers;\nUPDATE accounts SET balance = balance + 1000 WHERE id = 3;\n'
+      }
     });
     
     // Router
@@ -137,13 +336,73 @@ export class NetworkInterface {
         { port: 23, state: 'filtered', service: { name: 'telnet' } },
         { port: 25, state: 'filtered', service: { name: 'smtp' } }
       ],
+      isUp: true
+    });
+    
+    // IP camera on the home Wi-Fi network
+    this.registerHost({
+      ip: '192.168.50.42',
+      hostname: 'ipcam.home',
+      osInfo: { name: 'Linux', version: 'BusyBox 1.19', accuracy: 80 },
+      ports: [
+        { port: 23, state: 'open', service: { name: 'telnet', version: 'BusyBox telnetd', info: 'Telnet server' } },
+        { port: 80, state: 'open', service: { name: 'http', version: 'GoAhead WebServer 2.5', info: 'HTTP server' } },
+        { port: 554, state: 'open', service: { name: 'rtsp', version: 'Hikvision RTSP', info: 'Video stream' } }
+      ],
       isUp: true,
-      latency: 2
+      mac: '44:19:b6:2a:90:11'
+    });
+    
+    // Intranet server of TechCorp, reached through the VPN
+    this.registerHost({
+      ip: '172.16.0.10',
+      hostname: 'intranet.techcorp.internal',
+      osInfo: { name: 'Linux', version: 'CentOS 7', accuracy: 88 },
+      ports: [
+        { port: 22, state: 'open', service: { name: 'ssh', version: 'OpenSSH 7.4', info: 'SSH protocol 2.0' } },
+        { port: 80, state: 'open', service: { name: 'http', version: 'Apache httpd 2.4.6', info: 'HTTP server' } },
+        { port: 445, state: 'open', service: { name: 'microsoft-ds', version: 'Samba smbd 4.10', info: 'File shares' } }
+      ],
+      isUp: true
     });
     
     // Add more hosts as needed
   }
   
+  /**
+   * Initialize the routers and the links between them and the hosts. router.local is the first
+   * hop of this machine, the Wi-Fi access point and the VPN server the ones of wlan0 and tun0.
+   */
+  private initializeTopology(): void {
+    const routers: RouterInfo[] = [
+      { ip: '192.168.1.1', answersProbes: true }, // router.local
+      { ip: '192.168.50.1', answersProbes: true }, // Wi-Fi access point
+      { ip: '100.64.0.1', answersProbes: true }, // Internet service provider
+      { ip: '203.0.113.1', answersProbes: true }, // Backbone
+      { ip: '198.51.100.1', answersProbes: false }, // Edge of the hosting company of the banks, dropping probes
+      { ip: '10.8.0.1', answersProbes: true }, // VPN server
+      { ip: '172.16.0.1', answersProbes: true } // TechCorp internal router
+    ];
+    routers.forEach(router => this.routers.set(router.ip, router));
+    
+    this.links = [
+      { a: LOCAL_ADDRESS, b: '192.168.1.1', latency: 2 },
+      { a: LOCAL_ADDRESS, b: '192.168.50.1', latency: 1 },
+      { a: LOCAL_ADDRESS, b: '10.8.0.1', latency: 35 }, // The tunnel crosses the Internet
+      { a: '192.168.1.1', b: '100.64.0.1', latency: 6 },
+      { a: '192.168.50.1', b: '100.64.0.1', latency: 7 },
+      { a: '192.168.50.1', b: '192.168.50.42', latency: 2 },
+      { a: '100.64.0.1', b: '203.0.113.1', latency: 4 },
+      { a: '203.0.113.1', b: '192.168.1.10', latency: 3 },
+      { a: '203.0.113.1', b: '198.51.100.1', latency: 8 },
+      { a: '198.51.100.1', b: '192.168.1.20', latency: 5 },
+      { a: '198.51.100.1', b: '192.168.1.30', latency: 10 },
+      { a: '192.168.1.30', b: '10.0.0.5', latency: 2 }, // Private network of TargetBank
+      { a: '10.8.0.1', b: '172.16.0.1', latency: 4 },
+      { a: '172.16.0.1', b: '172.16.0.10', latency: 6 }
+    ];
+  }
+  
   /**
    * Register a host in the network
    */
@@ -155,7 +414,7 @@ export class NetworkInterface {
    * Get a host by IP address
    */
   public getHostByIp(ip: string): HostInfo | undefined {
-    return this.hosts.get(ip);
+    return this.hosts.get(ip) ?? this.getAllHosts().find(host => host.addresses?.includes(ip));
   }
   
   /**
@@ -176,18 +435,300 @@ export class NetworkInterface {
     return Array.from(this.hosts.values());
   }
   
+  /**
+   * Check if a host is up and can be reached
+   * @param ip IP address of the host
+   * @param from IP address of the host the connection comes from; undefined for the local machine
+   */
+  public isReachable(ip: string, from?: string): boolean {
+    const host = this.getHostByIp(ip);
+    if (!host || !host.isUp) return false;
+    // localhost is this machine; the loopback of remote hosts is not modelled
+    if (ip.startsWith('127.') && from !== undefined) return false;
+    
+    const source = this.sourceAddress(ip, from);
+    const subnet = this.getSubnet(ip);
+    if (!source) return false;
+    if (!subnet?.isPrivate) return true;
+    
+    // Private subnets answer their own addresses, and those of the subnets routed into them
+    const sourceSubnet = this.getSubnet(source);
+    return sourceSubnet === subnet || (sourceSubnet !== undefined && subnet.reachableFrom?.includes(sourceSubnet.name) === true);
+  }
+  
+  /**
+   * Get the subnet an address belongs to, the most specific one when subnets overlap
+   */
+  public getSubnet(ip: string): Subnet | undefined {
+    return this.subnets
+      .filter(subnet => IpUtils.inSubnet(ip, subnet.address, subnet.prefix))
+      .sort((a, b) => b.prefix - a.prefix)[0];
+  }
+  
+  /**
+   * Get all subnets
+   */
+  public getSubnets(): Subnet[] {
+    return [...this.subnets];
+  }
+  
+  /**
+   * Get the network interfaces of a system
+   * @param from IP address of a remote host; undefined for the local machine
+   */
+  public getAdapters(from?: string): NetworkAdapter[] {
+    if (from === undefined) {
+      return this.adapters;
+    }
+    
+    // Remote hosts have an interface on the subnet of each of their addresses
+    const host = this.getHostByIp(from);
+    const addresses = host ? [host.ip, ...(host.addresses ?? [])] : [from];
+    const adapters: NetworkAdapter[] = [
+      { name: 'lo', type: 'loopback', address: '127.0.0.1', netmask: '255.0.0.0', mtu: 65536, isUp: true }
+    ];
+    addresses.forEach((address, index) => {
+      const subnet = this.getSubnet(address);
+      adapters.push({
+        name: `eth${index}`,
+        type: 'ethernet',
+        address,
+        netmask: IpUtils.netmask(subnet?.prefix ?? 24),
+        gateway: subnet?.gateway,
+        mac: index === 0 && host?.mac ? host.mac : this.makeMac(address),
+        mtu: 1500,
+        isUp: true
+      });
+    });
+    return adapters;
+  }
+  
+  /**
+   * Get a network interface of this machine by name
+   */
+  public getAdapter(name: string): NetworkAdapter | undefined {
+    return this.adapters.find(adapter => adapter.name === name);
+  }
+  
+  /**
+   * Bring a network interface of this machine up or down. The routes through an interface
+   * that is down are not used.
+   * @returns False if there is no such interface
+   */
+  public setAdapterUp(name: string, isUp: boolean): boolean {
+    const adapter = this.getAdapter(name);
+    if (!adapter) return false;
+    
+    adapter.isUp = isUp;
+    return true;
+  }
+  
+  /**
+   * Get the routing table of a system, without the routes of interfaces that are down
+   * @param from IP address of a remote host; undefined for the local machine
+   */
+  public getRoutes(from?: string): Route[] {
+    const adapters = this.getAdapters(from).filter(adapter => adapter.isUp);
+    if (from === undefined) {
+      return this.routes.filter(route => adapters.some(adapter => adapter.name === route.device));
+    }
+    
+    // Remote hosts go out through the gateway of their main subnet
+    const routes: Route[] = [];
+    const main = adapters.find(adapter => adapter.type !== 'loopback');
+    if (main?.gateway && main.gateway !== main.address) {
+      routes.push({ destination: '0.0.0.0', prefix: 0, gateway: main.gateway, device: main.name, metric: 0 });
+    }
+    for (const adapter of adapters.filter(candidate => candidate.type !== 'loopback')) {
+      const prefix = IpUtils.prefixLength(adapter.netmask);
+      routes.push({ destination: IpUtils.network(adapter.address, prefix), prefix, device: adapter.name, metric: 0 });
+    }
+    return routes;
+  }
+  
+  /**
+   * Find the route packets to an address take: the most specific one, then the lowest metric
+   * @param from IP address of a remote host; undefined for the local machine
+   * @returns The route, or null when the network is unreachable
+   */
+  public route(ip: string, from?: string): Route | null {
+    const loopback = this.getAdapters(from).find(adapter => adapter.type === 'loopback' && adapter.isUp);
+    if (ip.startsWith('127.')) {
+      return loopback ? { destination: '127.0.0.0', prefix: 8, device: loopback.name, metric: 0 } : null;
+    }
+    const routes = this.getRoutes(from)
+      .filter(route => IpUtils.inSubnet(ip, route.destination, route.prefix))
+      .sort((a, b) => b.prefix - a.prefix || a.metric - b.metric);
+    return routes[0] ?? null;
+  }
+  
+  /**
+   * Get the address a system sends packets to an address from: the one of the interface of the route
+   * @param from IP address of a remote host; undefined for the local machine
+   * @returns The address, or null when the network is unreachable
+   */
+  public sourceAddress(ip: string, from?: string): string | null {
+    const route = this.route(ip, from);
+    if (!route) return null;
+    return this.getAdapters(from).find(adapter => adapter.name === route.device)?.address ?? null;
+  }
+  
+  /**
+   * Get the round trip time to a host: the sum of the latencies of the links on its path
+   * @param from IP address of a remote host; undefined for the local machine
+   */
+  public getLatency(ip: string, from?: string): number {
+    if (ip.startsWith('127.')) return 0.1;
+    
+    const path = this.getPath(ip, from);
+    if (!path) return UNLINKED_LATENCY;
+    let latency = 0;
+    path.reduce((previous, node) => {
+      latency += this.linkLatency(previous, node);
+      return node;
+    }, this.nodeOf(from ?? LOCAL_ADDRESS));
+    return latency;
+  }
+  
+  /**
+   * Get the hops of the path to a host, like traceroute sees them. Routers answer unless they
+   * drop probes, and the host answers when it can be reached. Hosts on the way do not forward
+   * the packets of others, so the hops end there, except the gateway of the source's subnet.
+   * @param from IP address of a remote host; undefined for the local machine
+   * @returns The hops, or null when the network is unreachable
+   */
+  public traceRoute(ip: string, from?: string): TraceHop[] | null {
+    if (!this.route(ip, from)) return null;
+    if (ip.startsWith('127.')) {
+      return [{ ip, latency: this.getLatency(ip, from), answers: this.isReachable(ip, from) }];
+    }
+    
+    const hops: TraceHop[] = [];
+    const path = this.getPath(ip, from) ?? [];
+    const gateway = from !== undefined ? this.getSubnet(from)?.gateway : undefined;
+    let previous = this.nodeOf(from ?? LOCAL_ADDRESS);
+    let latency = 0;
+    for (const [index, node] of path.entries()) {
+      latency += this.linkLatency(previous, node);
+      previous = node;
+      if (index === path.length - 1) {
+        hops.push({ ip, latency, answers: this.isReachable(ip, from) });
+        break;
+      }
+      const router = this.routers.get(node);
+      if (router) {
+        hops.push({ ip: node, latency, answers: router.answersProbes });
+      } else if (gateway !== undefined && this.nodeOf(gateway) === node) {
+        hops.push({ ip: gateway, latency, answers: true });
+      } else {
+        break;
+      }
+    }
+    return hops;
+  }
+  
+  /**
+   * Get the path to a host: the nodes after the source, the last one being the host. This
+   * machine sends packets to the gateway of the interface of the route, like router.local.
+   * @param from IP address of a remote host; undefined for the local machine
+   * @returns The path, or null when no link leads to the host
+   */
+  private getPath(ip: string, from?: string): string[] | null {
+    const route = this.route(ip, from);
+    if (!route || ip.startsWith('127.')) return null;
+    
+    const target = this.nodeOf(ip);
+    if (from !== undefined) {
+      return this.shortestPath(this.nodeOf(from), target, [])?.slice(1) ?? null;
+    }
+    const gateway = this.getAdapter(route.device)?.gateway;
+    if (!gateway) return null;
+    return this.shortestPath(this.nodeOf(gateway), target, [LOCAL_ADDRESS]);
+  }
+  
+  /**
+   * Find the path with the lowest latency between two nodes, with Dijkstra's algorithm
+   * @param avoid Nodes the path must not go through
+   * @returns The nodes from start to end, or null when they are not connected
+   */
+  private shortestPath(start: string, end: string, avoid: string[]): string[] | null {
+    const distances = new Map<string, number>([[start, 0]]);
+    const previous = new Map<string, string>();
+    const visited = new Set<string>(avoid);
+    
+    while (true) {
+      let current: string | undefined;
+      distances.forEach((distance, node) => {
+        if (!visited.has(node) && (current === undefined || distance < distances.get(current)!)) {
+          current = node;
+        }
+      });
+      if (current === undefined) return null;
+      if (current === end) break;
+      visited.add(current);
+      
+      for (const link of this.links) {
+        const next = link.a === current ? link.b : link.b === current ? link.a : undefined;
+        if (next === undefined || visited.has(next)) continue;
+        const distance = distances.get(current)! + link.latency;
+        if (distance < (distances.get(next) ?? Infinity)) {
+          distances.set(next, distance);
+          previous.set(next, current);
+        }
+      }
+    }
+    
+    const path = [end];
+    while (path[0] !== start) {
+      path.unshift(previous.get(path[0])!);
+    }
+    return path;
+  }
+  
+  /**
+   * Get the latency of the link between two nodes, 0 when they are not linked
+   */
+  private linkLatency(a: string, b: string): number {
+    return this.links.find(link => (link.a === a && link.b === b) || (link.a === b && link.b === a))?.latency ?? 0;
+  }
+  
+  /**
+   * Get the node of the topology an address belongs to: the main address of its host, since
+   * hosts like targetbank.com have one on each of their subnets
+   */
+  private nodeOf(ip: string): string {
+    return this.hosts.has(ip) || this.routers.has(ip) ? ip : (this.getHostByIp(ip)?.ip ?? ip);
+  }
+  
+  /**
+   * Make up a stable MAC address for an address, in the range of virtual machines
+   */
+  private makeMac(ip: string): string {
+    const octets = ip.split('.').slice(1).map(part => Number(part).toString(16).padStart(2, '0'));
+    return `52:54:00:${octets.join(':')}`;
+  }
+  
   /**
    * Simulate a port scan on a host
+   * @param from IP address of the scanning host; undefined for the local machine
+   * @param protocol Protocol of the probes, which the firewalls decide on
    */
-  public scanHost(ip: string, portRange: string = '1-1000'): HostInfo | null {
-    const host = this.hosts.get(ip);
-    if (!host || !host.isUp) return null;
+  public scanHost(ip: string, portRange: string = '1-1000', from?: string, protocol: 'tcp' | 'udp' = 'tcp'): HostInfo | null {
+    const host = this.getHostByIp(ip);
+    if (!host || !this.isReachable(ip, from)) return null;
     
     // Parse port range
     const parsedPorts = this.parsePortRange(portRange);
     
-    // Filter host ports to only include those in the specified range
-    const filteredPorts = host.ports.filter(port => parsedPorts.includes(port.port));
+    // Filter host ports to only include those in the specified range.
+    // Firewalls hide the open ports they drop packets to, and close those they reject.
+    const filteredPorts = host.ports
+      .filter(port => parsedPorts.includes(port.port))
+      .map(port => {
+        if (port.state !== 'open') return port;
+        const verdict = this.filter(ip, protocol, port.port, from);
+        return verdict.target === 'ACCEPT' ? port : { ...port, state: verdict.target === 'DROP' ? 'filtered' as const : 'closed' as const };
+      });
     
     // Create a copy of the host with only the requested ports
     const scanResult: HostInfo = {
@@ -198,6 +739,39 @@ export class NetworkInterface {
     return scanResult;
   }
   
+  /**
+   * Get the firewall of a system, created with the rules of the host the first time
+   * @param system IP address of a remote host; undefined for the local machine
+   */
+  public getFirewall(system?: string): Firewall {
+    const host = system === undefined ? undefined : this.getHostByIp(system);
+    const key = system === undefined ? LOCAL_ADDRESS : host?.ip ?? system;
+    let firewall = this.firewalls.get(key);
+    if (!firewall) {
+      firewall = new Firewall(host?.firewall);
+      this.firewalls.set(key, firewall);
+    }
+    return firewall;
+  }
+  
+  /**
+   * Decide on the first packet of a connection to a host: the OUTPUT chain of the sender
+   * decides first, then the INPUT chain of the receiver
+   * @param port Destination port, for tcp and udp
+   * @param from IP address of a remote host; undefined for the local machine
+   */
+  public filter(ip: string, protocol: FirewallProtocol, port?: number, from?: string): FirewallVerdict {
+    const packet: Packet = { protocol, source: this.sourceAddress(ip, from) ?? from ?? LOCAL_ADDRESS, destination: ip, port };
+    const output = this.getFirewall(from).check('OUTPUT', packet);
+    if (output !== 'ACCEPT') {
+      return { target: output, chain: 'OUTPUT' };
+    }
+    // Addresses of this machine and localhost are received by its own firewall
+    const local = ip.startsWith('127.') ? from === undefined : this.adapters.some(adapter => adapter.address === ip);
+    const receiver = local ? undefined : ip.startsWith('127.') ? from : ip;
+    return { target: this.getFirewall(receiver).check('INPUT', packet), chain: 'INPUT' };
+  }
+  
   /**
    * Parse a port range string into an array of port numbers
    */
@@ -230,11 +804,20 @@ export class NetworkInterface {
 }
 
 /**
- * DNS server for resolving hostnames to IP addresses
+ * Seconds DNS records are cached for when their zone does not say
+ */
+const DEFAULT_TTL = 3600;
+
+/**
+ * Maximum number of CNAME records followed to resolve a name, against loops
+ */
+const MAX_CNAME_CHAIN = 8;
+
+/**
+ * DNS server for resolving hostnames to IP addresses, serving the records of its zones
  */
 export class DNSServer {
-  private records: Map<string, string> = new Map(); // hostname -> IP
-  private reverseRecords: Map<string, string> = new Map(); // IP -> hostname
+  private zones: Map<string, DnsZone> = new Map(); // origin -> zone
   
   constructor() {
     this.initializeDefaultRecords();
@@ -248,41 +831,382 @@ export class DNSServer {
     this.addRecord('example.com', '192.168.1.10');
     this.addRecord('mybank.net', '192.168.1.20');
     this.addRecord('targetbank.com', '192.168.1.30');
+    this.addRecord('db.targetbank.internal', '10.0.0.5');
     this.addRecord('router.local', '192.168.1.1');
+    this.addRecord('ipcam.home', '192.168.50.42');
+    this.addRecord('ap.home', '192.168.50.1');
+    this.addRecord('gw.fastnet.net', '100.64.0.1');
+    this.addRecord('core1.backbone.net', '203.0.113.1');
+    this.addRecord('edge.hostcorp.net', '198.51.100.1');
+    this.addRecord('vpn.techcorp.com', '10.8.0.1');
+    this.addRecord('gw.techcorp.internal', '172.16.0.1');
+    this.addRecord('intranet.techcorp.internal', '172.16.0.10');
     this.addRecord('techcorp.com', '192.168.1.40');
     this.addRecord('hackmail.com', '192.168.1.50');
     this.addRecord('cryptobank.com', '192.168.1.60');
     this.addRecord('darknet.market', '192.168.1.70');
     this.addRecord('hackerz.forum', '192.168.1.80');
     this.addRecord('hackersearch.net', '192.168.1.90');
+
+    // Zones of the sites with their mail and name servers
+    this.registerZone({
+      origin: 'example.com',
+      records: [
+        { name: 'example.com', type: 'AAAA', value: '2001:db8:10::10' },
+        { name: 'example.com', type: 'NS', value: 'ns1.example.com' },
+        { name: 'example.com', type: 'MX', value: 'mail.example.com', priority: 10 },
+        { name: 'example.com', type: 'TXT', value: 'v=spf1 mx -all' },
+        { name: 'www.example.com', type: 'CNAME', value: 'example.com' },
+        { name: 'mail.example.com', type: 'A', value: '192.168.1.11' },
+        { name: 'ns1.example.com', type: 'A', value: '192.168.1.12' }
+      ]
+    });
+    this.registerZone({
+      origin: 'techcorp.com',
+      records: [
+        { name: 'techcorp.com', type: 'NS', value: 'ns1.techcorp.com' },
+        { name: 'techcorp.com', type: 'MX', value: 'mx1.techcorp.com', priority: 10 },
+        { name: 'techcorp.com', type: 'MX', value: 'mx2.techcorp.com', priority: 20 },
+        { name: 'techcorp.com', type: 'TXT', value: 'v=spf1 mx ip4:10.8.0.1 -all' },
+        { name: 'www.techcorp.com', type: 'CNAME', value: 'techcorp.com' },
+        { name: 'mx1.techcorp.com', type: 'A', value: '192.168.1.41' },
+        { name: 'mx2.techcorp.com', type: 'A', value: '192.168.1.42' },
+        { name: 'ns1.techcorp.com', type: 'A', value: '192.168.1.43' }
+      ]
+    });
+    this.registerZone({
+      origin: 'targetbank.com',
+      records: [
+        { name: 'targetbank.com', type: 'NS', value: 'ns1.targetbank.com' },
+        { name: 'targetbank.com', type: 'MX', value: 'mail.targetbank.com', priority: 10 },
+        { name: 'targetbank.com', type: 'TXT', value: 'v=spf1 mx -all' },
+        { name: 'www.targetbank.com', type: 'CNAME', value: 'targetbank.com' },
+        { name: 'mail.targetbank.com', type: 'A', value: '192.168.1.31' },
+        { name: 'ns1.targetbank.com', type: 'A', value: '192.168.1.32' },
+        { name: 'dev.targetbank.com', type: 'CNAME', value: 'db.targetbank.internal' }
+      ]
+    });
   }
   
   /**
-   * Add a DNS record
+   * Add a DNS record for a hostname, along with the PTR record of its address
    */
   public addRecord(hostname: string, ip: string): void {
-    this.records.set(hostname, ip);
-    this.reverseRecords.set(ip, hostname);
+    const name = DNSServer.normalize(hostname);
+    this.registerZone({ origin: this.getZone(name)?.origin ?? DNSServer.implicitOrigin(name), records: [{ name, type: 'A', value: ip }] });
+  }
+
+  /**
+   * Register a zone, adding its records to those of a zone with the same origin.
+   * A records get a PTR record for their address unless it already has one.
+   */
+  public registerZone(zone: DnsZone): void {
+    const origin = DNSServer.normalize(zone.origin);
+    const existing = this.zones.get(origin) ?? { origin, records: [] };
+    this.zones.set(origin, existing);
+
+    for (const record of zone.records) {
+      const normalized: DnsRecord = {
+        ...record,
+        name: DNSServer.normalize(record.name),
+        value: record.type === 'TXT' || record.type === 'A' || record.type === 'AAAA' ? record.value : DNSServer.normalize(record.value),
+        ttl: record.ttl ?? DEFAULT_TTL
+      };
+      const duplicate = existing.records.some(candidate =>
+        candidate.name === normalized.name && candidate.type === normalized.type && candidate.value === normalized.value);
+      if (!duplicate) {
+        existing.records.push(normalized);
+      }
+      if (normalized.type === 'A' && this.lookup(DNSServer.reverseName(normalized.value), 'PTR').length === 0) {
+        this.registerZone({ origin: 'in-addr.arpa', records: [{ name: DNSServer.reverseName(normalized.value), type: 'PTR', value: normalized.name }] });
+      }
+    }
+  }
+
+  /**
+   * Get the zone a name belongs to, the one with the longest matching origin
+   */
+  public getZone(name: string): DnsZone | undefined {
+    const normalized = DNSServer.normalize(name);
+    let found: DnsZone | undefined;
+    for (const zone of this.zones.values()) {
+      const matches = normalized === zone.origin || normalized.endsWith('.' + zone.origin);
+      if (matches && (!found || zone.origin.length > found.origin.length)) {
+        found = zone;
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Get all zones
+   */
+  public getZones(): DnsZone[] {
+    return Array.from(this.zones.values());
+  }
+
+  /**
+   * Check whether a name has records of any type, telling an empty answer from NXDOMAIN
+   */
+  public exists(name: string): boolean {
+    const normalized = DNSServer.normalize(name);
+    return this.getZone(normalized)?.records.some(record => record.name === normalized) ?? false;
+  }
+
+  /**
+   * Look up the records of a type for a name. A name that is an alias gives its
+   * CNAME record followed by the records of the name it points to.
+   */
+  public lookup(name: string, type: DnsRecordType): DnsRecord[] {
+    let current = DNSServer.normalize(name);
+    const chain: DnsRecord[] = [];
+    for (let i = 0; i <= MAX_CNAME_CHAIN; i++) {
+      const records = this.getZone(current)?.records.filter(record => record.name === current) ?? [];
+      const matching = records.filter(record => record.type === type);
+      const alias = records.find(record => record.type === 'CNAME');
+      if (matching.length > 0 || type === 'CNAME' || !alias) {
+        return matching.length > 0 ? [...chain, ...matching] : chain;
+      }
+      chain.push(alias);
+      current = alias.value;
+    }
+    return chain;
   }
   
   /**
-   * Resolve a hostname to an IP address
+   * Resolve a hostname to an IP address, following aliases
    */
   public resolve(hostname: string): string | null {
-    return this.records.get(hostname) || null;
+    return this.lookup(hostname, 'A').find(record => record.type === 'A')?.value ?? null;
   }
   
   /**
    * Reverse lookup - get hostname from IP
    */
   public reverseLookup(ip: string): string | null {
-    return this.reverseRecords.get(ip) || null;
+    return this.lookup(DNSServer.reverseName(ip), 'PTR').find(record => record.type === 'PTR')?.value ?? null;
   }
   
   /**
-   * Get all DNS records
+   * Get all hostnames with their address, from the A records
    */
   public getAllRecords(): { hostname: string, ip: string }[] {
-    return Array.from(this.records.entries()).map(([hostname, ip]) => ({ hostname, ip }));
+    return this.getZones()
+      .flatMap(zone => zone.records)
+      .filter(record => record.type === 'A')
+      .map(record => ({ hostname: record.name, ip: record.value }));
+  }
+
+  /**
+   * Get the name PTR records of an IPv4 address are kept under, like 10.1.168.192.in-addr.arpa
+   */
+  public static reverseName(ip: string): string {
+    return `${ip.split('.').reverse().join('.')}.in-addr.arpa`;
+  }
+
+  /**
+   * Normalize a name: names are case-insensitive and the trailing dot of the root is optional
+   */
+  private static normalize(name: string): string {
+    return name.toLowerCase().replace(/\.$/, '');
+  }
+
+  /**
+   * Get the origin of the zone created for a name that belongs to none, its domain
+   * without the host part when it has one, like targetbank.internal for db.targetbank.internal
+   */
+  private static implicitOrigin(name: string): string {
+    const labels = name.split('.');
+    return labels.length > 2 ? labels.slice(1).join('.') : name;
+  }
+}
+
+/**
+ * Time a closed TCP connection stays in TIME_WAIT, in ms
+ */
+const TIME_WAIT_DURATION = 60000;
+
+/**
+ * Programs serving the well-known services, as netstat -p shows them
+ */
+const SERVICE_PROGRAMS: Record<string, string> = {
+  ssh: 'sshd',
+  ftp: 'vsftpd',
+  http: 'apache2',
+  https: 'apache2',
+  'http-proxy': 'nginx',
+  'https-alt': 'nginx',
+  mysql: 'mysqld',
+  domain: 'named',
+  smtp: 'master',
+  pop3: 'dovecot',
+  telnet: 'inetd'
+};
+
+/**
+ * Names of well-known ports, shown by netstat and ss without -n
+ */
+const PORT_NAMES: Record<number, string> = {
+  21: 'ftp', 22: 'ssh', 23: 'telnet', 25: 'smtp', 53: 'domain', 80: 'http', 110: 'pop3',
+  443: 'https', 3306: 'mysql', 8080: 'http-alt', 8443: 'https-alt'
+};
+
+/**
+ * Interface for the program owning a socket
+ */
+export interface SocketOwner {
+  system: string; // IP address of the system the program runs on
+  program: string;
+  user: string;
+  pid?: number;
+}
+
+/**
+ * Interface for a socket: a connection to a port of a host, or a service listening on a port
+ */
+export interface Connection {
+  protocol: 'tcp' | 'udp' | 'raw';
+  owner: SocketOwner;
+  localAddress: string;
+  localPort: number;
+  remoteAddress: string; // 0.0.0.0 for listening sockets
+  remotePort: number; // 0 for listening sockets and raw sockets
+  state: 'LISTEN' | 'ESTABLISHED' | 'TIME_WAIT' | 'UNCONN';
+  opened: number; // Time the socket was opened, in ms
+  closed?: number; // Time a TIME_WAIT connection was closed, in ms
+  peer?: Connection; // Socket of the service at the other end, on its system
+}
+
+/**
+ * Connection tracking: the sockets opened by programs (web requests, ping, nmap probes, ssh...)
+ * and the services listening on the open ports of each host
+ */
+export class ConnectionTracker {
+  private connections: Connection[] = [];
+  private nextPort: number = 32768 + Math.floor(Math.random() * 20000);
+  
+  constructor(private network: NetworkInterface, private dnsServer: DNSServer) {}
+  
+  /**
+   * Record a socket opened by a program
+   * @param remote Hostname or IP address of the other end
+   * @param remotePort Port of the other end; 0 for raw sockets like ping's
+   * @returns The connection, to close when the program is done with it
+   */
+  public open(owner: SocketOwner, protocol: Connection['protocol'], remote: string, remotePort: number): Connection {
+    const remoteAddress = /^\d+\.\d+\.\d+\.\d+$/.test(remote) ? remote : (this.dnsServer.resolve(remote) ?? remote);
+    const from = owner.system === LOCAL_ADDRESS ? undefined : owner.system;
+    const connection: Connection = {
+      protocol,
+      owner,
+      localAddress: this.network.sourceAddress(remoteAddress, from) ?? owner.system,
+      localPort: protocol === 'raw' ? 0 : this.allocatePort(),
+      remoteAddress,
+      remotePort,
+      state: protocol === 'tcp' ? 'ESTABLISHED' : 'UNCONN',
+      opened: Date.now()
+    };
+    this.connections.push(connection);
+    if (protocol === 'tcp') {
+      this.accept(connection);
+    }
+    return connection;
+  }
+  
+  /**
+   * Close a socket: TCP connections stay in TIME_WAIT for a while, other sockets are removed.
+   * The service at the other end closes its side.
+   */
+  public close(connection: Connection): void {
+    if (connection.peer) {
+      const peer = connection.peer;
+      this.connections = this.connections.filter(other => other !== peer);
+      connection.peer = undefined;
+    }
+    if (connection.protocol === 'tcp' && connection.state === 'ESTABLISHED') {
+      connection.state = 'TIME_WAIT';
+      connection.closed = Date.now();
+      return;
+    }
+    this.connections = this.connections.filter(other => other !== connection);
+  }
+  
+  /**
+   * Get the sockets of a system: its listening services first, then its connections
+   * @param system IP address of the system, LOCAL_ADDRESS for this machine
+   */
+  public getConnections(system: string): Connection[] {
+    const now = Date.now();
+    this.connections = this.connections.filter(connection => connection.closed === undefined || now - connection.closed < TIME_WAIT_DURATION);
+    return [...this.getListening(system), ...this.connections.filter(connection => connection.owner.system === system)];
+  }
+  
+  /**
+   * Get the name of a well-known port, like ssh for 22
+   */
+  public static portName(port: number): string | undefined {
+    return PORT_NAMES[port];
+  }
+  
+  /**
+   * Get the sockets of the services listening on the open ports of a system. Filtered ports
+   * are listening too, behind a firewall. This machine's services are those of localhost.
+   */
+  private getListening(system: string): Connection[] {
+    const host = this.network.getHostByIp(system === LOCAL_ADDRESS ? '127.0.0.1' : system);
+    if (!host) return [];
+    
+    const listening: Connection[] = [];
+    for (const port of host.ports.filter(info => info.state !== 'closed')) {
+      const serviceName = port.service?.name ?? '';
+      const owner: SocketOwner = { system, program: SERVICE_PROGRAMS[serviceName] ?? serviceName, user: 'root' };
+      const protocols: Connection['protocol'][] = serviceName === 'domain' ? ['tcp', 'udp'] : ['tcp'];
+      for (const protocol of protocols) {
+        listening.push({
+          protocol,
+          owner,
+          localAddress: '0.0.0.0',
+          localPort: port.port,
+          remoteAddress: '0.0.0.0',
+          remotePort: 0,
+          state: protocol === 'tcp' ? 'LISTEN' : 'UNCONN',
+          opened: 0
+        });
+      }
+    }
+    return listening;
+  }
+  
+  /**
+   * Add the socket of the service accepting a TCP connection, when a known host listens on the port
+   */
+  private accept(connection: Connection): void {
+    const loopback = connection.remoteAddress.startsWith('127.');
+    const remoteHost = this.network.getHostByIp(connection.remoteAddress);
+    const system = loopback ? connection.owner.system : (remoteHost?.ip ?? connection.remoteAddress);
+    const host = this.network.getHostByIp(system === LOCAL_ADDRESS ? '127.0.0.1' : system);
+    const service = host?.ports.find(info => info.port === connection.remotePort && info.state === 'open')?.service;
+    if (!host || !service) return;
+    
+    connection.peer = {
+      protocol: 'tcp',
+      owner: { system, program: SERVICE_PROGRAMS[service.name] ?? service.name, user: 'root' },
+      localAddress: connection.remoteAddress,
+      localPort: connection.remotePort,
+      remoteAddress: connection.localAddress,
+      remotePort: connection.localPort,
+      state: 'ESTABLISHED',
+      opened: connection.opened
+    };
+    this.connections.push(connection.peer);
+  }
+  
+  /**
+   * Pick the local port of a new connection in the ephemeral range, like Linux
+   */
+  private allocatePort(): number {
+    const port = this.nextPort;
+    this.nextPort = this.nextPort >= 60999 ? 32768 : this.nextPort + 1;
+    return port;
   }
 }
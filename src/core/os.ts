@@ -6,8 +6,9 @@ import { AppManager } from './app-manager';
 import { CommandProcessor } from '../commands/command-processor';
 import { CommandRegistry } from '../commands/command-registry';
 import { WebClient } from '../websites/web-client';
-import { NetworkInterface, DNSServer } from './network';
+import { NetworkInterface, DNSServer, HostInfo, ConnectionTracker, SocketOwner, LOCAL_ADDRESS } from './network';
 import { DefaultWebsites, WebsiteEntry } from '../websites/default-websites';
+import { HostResolver } from './host-resolver';
 import { Desktop } from './desktop';
 import { StartMenuController } from './start-menu';
 import { UserSettings } from './UserSettings';
@@ -30,6 +31,7 @@ export class OS {
   private webClient: WebClient;
   private networkInterface: NetworkInterface;
   private dnsServer: DNSServer;
+  private connectionTracker: ConnectionTracker;
   private defaultWebsites: DefaultWebsites;
   private desktop: Desktop;
   private startMenuController: StartMenuController;
@@ -37,6 +39,9 @@ export class OS {
   private computerSettings: ComputerSettings;
   private isReady: boolean = false;
   private readyCallbacks: Array<() => void> = [];
+  private userName: string = "user"; // Placeholder for the current user name
+  private host: HostInfo | null = null;
+  private remoteSystems: Map<string, OS> = new Map();
   themeSystem: ThemeSystem;
   constructor() {
     this.initIcons(); // Initialize icons using lucide
@@ -53,6 +58,7 @@ export class OS {
     // Initialize network infrastructure
     this.dnsServer = new DNSServer();
     this.networkInterface = new NetworkInterface();
+    this.connectionTracker = new ConnectionTracker(this.networkInterface, this.dnsServer);
 
     // Initialize default websites using the dedicated class
     this.defaultWebsites = new DefaultWebsites(this);
@@ -62,7 +68,7 @@ export class OS {
     this.userSettings = new UserSettings(this.fileSystem);
     this.computerSettings = new ComputerSettings(this.fileSystem);
 
-    this.webClient = new WebClient(this.websites);
+    this.webClient = new WebClient(this.websites, this.getResolver(), this.connectionTracker, this.networkInterface);
 
     // Initialize desktop
     this.desktop = new Desktop(this);
@@ -99,6 +105,7 @@ export class OS {
 
     // Register all built-in commands
     this.commandRegistry.registerBuiltInCommands();
+    await this.commandRegistry.installCommandFiles();
 
 
 
@@ -134,7 +141,118 @@ export class OS {
   }
 
   public get currentUserName(): string {
-    return "user"; // Placeholder for the current user name
+    return this.userName;
+  }
+
+  /**
+   * Host this system runs on, for the system of a remote host logged in to with ssh;
+   * null for the local machine
+   */
+  public get hostInfo(): HostInfo | null {
+    return this.host;
+  }
+
+  /**
+   * IP address of this system: the host's for a remote host, LOCAL_ADDRESS for the local machine
+   */
+  public get ipAddress(): string {
+    return this.host?.ip ?? LOCAL_ADDRESS;
+  }
+
+  /**
+   * Describe a program of this system opening sockets, for the connection tracker
+   * @param pid Process of the program, usually context.job?.pid
+   */
+  public socketOwner(program: string, pid?: number): SocketOwner {
+    return { system: this.ipAddress, program, user: this.currentUserName, pid };
+  }
+
+  /**
+   * Name of the machine, shown in the prompt
+   */
+  public get hostname(): string {
+    return this.host?.hostname ?? 'hacker-machine';
+  }
+
+  /**
+   * Log in to a host of the network. The system of the host shares the network, processes and
+   * windows of this one, but has its own filesystem, settings and commands, and runs as the user.
+   * Systems are kept, so logging in again finds the same state.
+   * @param host The host, with the accounts and files it starts with
+   * @param user Account to log in with; the caller checks the password
+   */
+  public async loginToHost(host: HostInfo, user: string): Promise<OS> {
+    const key = `${user}@${host.ip}`;
+    let system = this.remoteSystems.get(key);
+    if (!system) {
+      await this.setupHost(host);
+      system = await this.createHostSystem(host, user);
+      system.userSettings = new UserSettings(system.fileSystem);
+      system.computerSettings = new ComputerSettings(system.fileSystem);
+      system.commandProcessor = new CommandProcessor(system);
+      system.webClient = new WebClient(this.websites, system.getResolver(), this.connectionTracker, this.networkInterface);
+      const registry = CommandRegistry.create(system);
+      registry.registerBuiltInCommands();
+      await registry.installCommandFiles();
+      this.remoteSystems.set(key, system);
+    }
+    return system;
+  }
+
+  /**
+   * Create a system with the filesystem of a host, for a user
+   */
+  private async createHostSystem(host: HostInfo, user: string): Promise<OS> {
+    const system: OS = Object.create(this);
+    system.userName = user;
+    system.host = host;
+    system.fileSystem = new FileSystem(system, `hacker-os-fs@${host.hostname || host.ip}`);
+    await system.fileSystem.init();
+    return system;
+  }
+
+  /**
+   * Create the accounts and files of a host the first time it is used,
+   * while /etc/hostname still has the default name
+   */
+  private async setupHost(host: HostInfo): Promise<void> {
+    const root = await this.createHostSystem(host, 'root');
+    const rootFileSystem = root.getFileSystem();
+    if ((await rootFileSystem.readFile('/etc/hostname')).trim() === host.hostname) {
+      return;
+    }
+
+    // Files in a home directory are written by its account, so it owns them
+    const accounts = host.accounts ?? [];
+    const owners = new Map<string, FileSystem>();
+    for (const account of accounts) {
+      const system = account.user === 'root' ? root : await this.createHostSystem(host, account.user);
+      owners.set(system.getFileSystem().UserFolder + '/', system.getFileSystem());
+    }
+    for (const [path, content] of Object.entries(host.files ?? {})) {
+      const owner = [...owners.entries()].find(([home]) => path.startsWith(home));
+      const fileSystem = owner ? owner[1] : rootFileSystem;
+      let directory = '';
+      for (const part of path.split('/').filter(Boolean).slice(0, -1)) {
+        directory += '/' + part;
+        if (!await fileSystem.exists(directory)) {
+          await fileSystem.createDirectory(directory);
+        }
+      }
+      await fileSystem.writeFile(path, content);
+    }
+
+    const passwd = ['root:x:0:0:root:/root:/bin/bash'];
+    accounts.filter(account => account.user !== 'root').forEach((account, index) => {
+      passwd.push(`${account.user}:x:${1000 + index}:${1000 + index}:${account.user}:/home/${account.user}:/bin/bash`);
+    });
+    await rootFileSystem.writeFile('/etc/passwd', passwd.join('\n') + '\n');
+    if (await rootFileSystem.exists('/home/user/README.txt')) {
+      await rootFileSystem.deleteFile('/home/user/README.txt');
+    }
+    const hosts = await rootFileSystem.readFile('/etc/hosts');
+    await rootFileSystem.writeFile('/etc/hosts', hosts.replace(/^127\.0\.1\.1\s.*$/m, `127.0.1.1\t${host.hostname}`));
+    await rootFileSystem.writeFile('/etc/hostname', host.hostname);
   }
   /**
    * Get file system instance
@@ -184,6 +302,13 @@ export class OS {
     return this.dnsServer;
   }
 
+  /**
+   * Get the resolver of host names of this system, which reads its /etc/hosts before asking DNS
+   */
+  public getResolver(): HostResolver {
+    return new HostResolver(this.fileSystem, this.dnsServer);
+  }
+
   /**
    * Get the network interface instance
    */
@@ -191,6 +316,13 @@ export class OS {
     return this.networkInterface;
   }
 
+  /**
+   * Get the connection tracker, which records the sockets of all systems
+   */
+  public getConnectionTracker(): ConnectionTracker {
+    return this.connectionTracker;
+  }
+
   /**
    * Get the desktop instance
    */
@@ -252,6 +384,10 @@ export class OS {
         content: {},
         controller: websiteOrController
       });
+      // Its DNS records, like its mail servers, are served with the website
+      if (typeof websiteOrController.getZone === 'function') {
+        this.dnsServer.registerZone(websiteOrController.getZone());
+      }
     } else {
       // This is a traditional website entry
       this.websites.set(websiteOrController.domain, websiteOrController);
@@ -265,7 +401,7 @@ export class OS {
    * @param requestData Additional request data (body, headers, etc.)
    * @returns Promise resolving to HTML content
    */
-  public getWebsite(
+  public async getWebsite(
     domain: string,
     path: string,
     method: string = 'GET',
@@ -280,10 +416,10 @@ export class OS {
       cookies?: Record<string, string>
     } = {}
   ): Promise<string> {
-    return new Promise((resolve, reject) => {
-      // Look up the website in our registry
-      const website = this.websites.get(domain);
+    // The website is the one hosted where the domain resolves, so /etc/hosts can redirect it; firewalls can block it
+    const website: WebsiteEntry | undefined = await this.webClient.findWebsite(domain, 80, this.hostInfo?.ip);
 
+    return new Promise((resolve, reject) => {
       if (!website) {
         reject(new Error(`Website not found: ${domain}`));
         return;
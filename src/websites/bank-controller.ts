@@ -1,4 +1,5 @@
 import { BaseController, RoutesRegister, WebRequest, WebResponse, WebContentResponse, WebRedirectResponse, WebErrorResponse } from './web-server';
+import { DnsZone } from '../core/network';
 
 /**
  * Bank controller for a sample banking website
@@ -23,6 +24,20 @@ export class BankController extends BaseController {
     routes.Get("/dashboard", this.Dashboard.bind(this));
     routes.Get("/logout", this.Logout.bind(this));
   }
+
+  /**
+   * Register the mail and name servers of the bank
+   */
+  protected registerZone(zone: DnsZone): void {
+    zone.records.push(
+      { name: 'mybank.net', type: 'NS', value: 'ns1.mybank.net' },
+      { name: 'mybank.net', type: 'MX', value: 'mail.mybank.net', priority: 10 },
+      { name: 'mybank.net', type: 'TXT', value: 'v=spf1 mx -all' },
+      { name: 'www.mybank.net', type: 'CNAME', value: 'mybank.net' },
+      { name: 'mail.mybank.net', type: 'A', value: '192.168.1.21' },
+      { name: 'ns1.mybank.net', type: 'A', value: '192.168.1.22' }
+    );
+  }
   
   /**
    * Home page
@@ -1,4 +1,5 @@
 import { BaseController, RoutesRegister, WebRequest, WebResponse, WebContentResponse, WebRedirectResponse, WebErrorResponse } from './web-server';
+import { DnsZone } from '../core/network';
 
 /**
  * E-commerce controller for simulating an online shopping experience
@@ -59,6 +60,16 @@ export class EcommerceController extends BaseController {
     routes.Post("/add-to-cart", this.AddToCart.bind(this));
     routes.Post("/checkout", this.Checkout.bind(this));
   }
+
+  /**
+   * Register the address of the shop, which has no record of its own
+   */
+  protected registerZone(zone: DnsZone): void {
+    zone.records.push(
+      { name: 'shopzone.net', type: 'A', value: '192.168.1.25' },
+      { name: 'www.shopzone.net', type: 'CNAME', value: 'shopzone.net' }
+    );
+  }
   
   /**
    * Home page
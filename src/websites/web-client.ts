@@ -1,3 +1,11 @@
+import { ConnectionTracker, NetworkInterface, SocketOwner, LOCAL_ADDRESS } from '../core/network';
+import { HostResolver } from '../core/host-resolver';
+
+/**
+ * Time a connection dropped by a firewall waits before timing out, in ms
+ */
+const CONNECT_TIMEOUT = 3000;
+
 /**
  * Web client interface for making HTTP requests
  */
@@ -6,6 +14,7 @@ export interface WebClientRequest {
   method: string;
   headers?: Record<string, string>;
   body?: any;
+  owner?: SocketOwner; // Program making the request, recorded with its connection
 }
 
 export interface WebClientResponse {
@@ -20,11 +29,15 @@ export interface WebClientResponse {
  */
 export class WebClient {
   private websites: Map<string, any>;
-  private dnsServer: any; // Reference to DNS server
+  private resolver?: HostResolver; // Resolves the domains of requests, /etc/hosts first
+  private connections?: ConnectionTracker; // Records the connection of each request
+  private network?: NetworkInterface; // Firewalls decide on the connections
 
-  constructor(websites: Map<string, any>, dnsServer?: any) {
+  constructor(websites: Map<string, any>, resolver?: HostResolver, connections?: ConnectionTracker, network?: NetworkInterface) {
     this.websites = websites;
-    this.dnsServer = dnsServer;
+    this.resolver = resolver;
+    this.connections = connections;
+    this.network = network;
   }
 
   /**
@@ -34,79 +47,144 @@ export class WebClient {
     try {
       const url = new URL(requestOptions.url);
       const domain = url.hostname;
-      const path = url.pathname || '/';
       const method = requestOptions.method.toUpperCase();
       
-      // Check DNS resolution if DNS server is available
-      if (this.dnsServer && !/^\d+\.\d+\.\d+\.\d+$/.test(domain)) {
-        const resolvedIP = this.dnsServer.resolve(domain);
-        if (!resolvedIP) {
-          throw { code: 'ENOTFOUND', message: `Could not resolve host: ${domain}` };
-        }
-      }
-      
-      // Check if the domain exists
-      const website = this.websites.get(domain);
+      const port = url.port ? Number(url.port) : url.protocol === 'https:' ? 443 : 80;
+      const owner = requestOptions.owner ?? { system: LOCAL_ADDRESS, program: '-', user: 'user' };
+      const { ip, website } = await this.connect(domain, port, owner.system === LOCAL_ADDRESS ? undefined : owner.system);
       if (!website) {
-        throw { code: 'ENOTFOUND', message: `Could not resolve host: ${domain}` };
+        throw { code: 'ECONNREFUSED', message: `Failed to connect to ${domain}: Connection refused` };
       }
 
-      // If this is a controller-based website
-      if (website.controller) {
-        // Create a web request object for the controller
-        const webRequest = {
-          method,
-          path,
-          query: Object.fromEntries(url.searchParams.entries()),
-          headers: requestOptions.headers || {},
-          body: {
-            text: typeof requestOptions.body === 'string' ? requestOptions.body : undefined,
-            json: typeof requestOptions.body === 'object' ? requestOptions.body : undefined
-          },
-          cookies: {}
-        };
-
-        // Process the request through the controller
-        const response = await website.controller.processRequest(webRequest);
-        
-        return {
-          body: response.content || '',
-          statusCode: response.code,
-          statusText: this.getStatusText(response.code),
-          headers: response.headers || {}
-        };
-      }
-      
-      // For simple content websites
-      let content: string | (() => string) | undefined = website.content[path];
-      let contentStr = "";
-      // If content is a function, execute it to get the dynamic content
-      if (typeof content === 'function') {
-        contentStr = content();
-      } 
-      // If no content exists but there's a dynamic handler, use it
-      else if (!content && website.dynamicHandler) {
-        contentStr = await website.dynamicHandler(path);
-      }
-      
-      if (!content) {
-        return {
-          body: `<html><body><h1>404 Not Found</h1><p>The requested URL ${path} was not found on this server.</p></body></html>`,
-          statusCode: 404,
-          statusText: 'Not Found',
-          headers: { 'Content-Type': 'text/html' }
-        };
+      // The connection is open while the request is processed, then stays in TIME_WAIT
+      const connection = this.connections?.open(owner, 'tcp', ip, port);
+      try {
+        return await this.respond(website, url, method, requestOptions);
+      } finally {
+        if (connection) this.connections!.close(connection);
       }
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Find the website a domain leads to: the one hosted at the address the domain
+   * resolves to, so a domain pointed elsewhere in /etc/hosts gets the site there
+   * @param port Port of the website, which the firewalls decide on
+   * @param from IP address of the remote host the request comes from; undefined for the local machine
+   * @returns The website, or undefined if no website is hosted at that address
+   * @throws An ENOTFOUND error if the domain does not resolve, ETIMEDOUT or ECONNREFUSED
+   * if a firewall drops or rejects the connection
+   */
+  public async findWebsite(domain: string, port: number = 80, from?: string): Promise<any | undefined> {
+    return (await this.connect(domain, port, from)).website;
+  }
+
+  /**
+   * Connect to the website of a domain through the firewalls
+   * @returns The address the domain resolves to, and the website hosted there if any
+   */
+  private async connect(domain: string, port: number, from?: string): Promise<{ ip: string, website: any | undefined }> {
+    const ip = await this.resolveDomain(domain);
+    const website = this.websiteAt(ip, domain);
+    const verdict = website && this.network ? this.network.filter(ip, 'tcp', port, from) : undefined;
+    if (verdict?.target === 'DROP') {
+      await new Promise(resolve => setTimeout(resolve, CONNECT_TIMEOUT));
+      throw { code: 'ETIMEDOUT', message: `Failed to connect to ${domain} port ${port}: Connection timed out` };
+    }
+    if (verdict?.target === 'REJECT') {
+      throw { code: 'ECONNREFUSED', message: `Failed to connect to ${domain} port ${port}: Connection refused` };
+    }
+    return { ip, website };
+  }
+
+  /**
+   * Resolve the domain of a request; without a resolver, the domain is used as is
+   */
+  private async resolveDomain(domain: string): Promise<string> {
+    if (!this.resolver) {
+      return domain;
+    }
+    const ip = await this.resolver.resolve(domain);
+    if (!ip) {
+      throw { code: 'ENOTFOUND', message: `Could not resolve host: ${domain}` };
+    }
+    return ip;
+  }
+
+  /**
+   * Get the website hosted at an address, the one of the requested domain when
+   * it is hosted there. Websites are hosted at the address of their DNS record.
+   */
+  private websiteAt(ip: string, domain: string): any | undefined {
+    if (!this.resolver) {
+      return this.websites.get(domain);
+    }
+    const dnsServer = this.resolver.getDNSServer();
+    const requested = this.websites.get(domain);
+    if (requested && dnsServer.resolve(domain) === ip) {
+      return requested;
+    }
+    return Array.from(this.websites.values()).find(website => dnsServer.resolve(website.domain) === ip);
+  }
+
+  /**
+   * Get the response of a website to a request
+   */
+  private async respond(website: any, url: URL, method: string, requestOptions: WebClientRequest): Promise<WebClientResponse> {
+    const path = url.pathname || '/';
+
+    // If this is a controller-based website
+    if (website.controller) {
+      // Create a web request object for the controller
+      const webRequest = {
+        method,
+        path,
+        query: Object.fromEntries(url.searchParams.entries()),
+        headers: requestOptions.headers || {},
+        body: {
+          text: typeof requestOptions.body === 'string' ? requestOptions.body : undefined,
+          json: typeof requestOptions.body === 'object' ? requestOptions.body : undefined
+        },
+        cookies: {}
+      };
+
+      // Process the request through the controller
+      const response = await website.controller.processRequest(webRequest);
       
       return {
-        body: contentStr,
-        statusCode: 200,
-        statusText: 'OK',
+        body: response.content || '',
+        statusCode: response.code,
+        statusText: this.getStatusText(response.code),
+        headers: response.headers || {}
+      };
+    }
+    
+    // For simple content websites
+    const source: string | (() => string) | undefined = website.content[path];
+    // If content is a function, execute it to get the dynamic content
+    let content = typeof source === 'function' ? source() : source;
+    // If no content exists but there's a dynamic handler, use it
+    if (!content && website.dynamicHandler) {
+      content = await website.dynamicHandler(path);
+    }
+    
+    if (!content) {
+      return {
+        body: `<html><body><h1>404 Not Found</h1><p>The requested URL ${path} was not found on this server.</p></body></html>`,
+        statusCode: 404,
+        statusText: 'Not Found',
         headers: { 'Content-Type': 'text/html' }
       };
-    } catch (error) {
-      throw error;
     }
+    
+    return {
+      body: content,
+      statusCode: 200,
+      statusText: 'OK',
+      headers: { 'Content-Type': 'text/html' }
+    };
   }
 
   /**
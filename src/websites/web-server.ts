@@ -1,3 +1,5 @@
+import { DnsZone } from '../core/network';
+
 /**
  * Web request interface to simulate HTTP requests
  */
@@ -239,6 +241,21 @@ export abstract class BaseController {
    * Register routes for this controller
    */
   protected abstract registerRoutes(routes: RoutesRegister): void;
+
+  /**
+   * Get the DNS zone of the host, served once the website is registered
+   */
+  public getZone(): DnsZone {
+    const zone: DnsZone = { origin: this.Host, records: [] };
+    this.registerZone(zone);
+    return zone;
+  }
+
+  /**
+   * Register DNS records of the host besides its address, like its mail servers (optional)
+   */
+  protected registerZone(_zone: DnsZone): void {
+  }
   
   /**
    * Helper to create a redirect to action